@@ -0,0 +1,327 @@
+// src/components/CommissionRates.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Fuel = "petrol" | "diesel";
+
+type CommissionRate = {
+  id: string;
+  fuel: Fuel | null;
+  customerEmail: string | null;
+  region: string | null;
+  percent: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  note: string | null;
+  createdBy: string | null;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+const FUEL_LABEL: Record<Fuel, string> = {
+  petrol: "Petrol (95)",
+  diesel: "Diesel",
+};
+
+function fmtDateTime(iso: string | null) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function status(r: CommissionRate, now: number) {
+  if (new Date(r.effectiveFrom).getTime() > now) return "scheduled";
+  if (r.effectiveTo && new Date(r.effectiveTo).getTime() <= now) return "ended";
+  return "active";
+}
+
+export default function CommissionRates({ jwt }: Props) {
+  const [rates, setRates] = useState<CommissionRate[]>([]);
+  const [current, setCurrent] = useState<Record<Fuel, number | null>>({
+    petrol: null,
+    diesel: null,
+  });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [fuel, setFuel] = useState<"" | Fuel>("");
+  const [percent, setPercent] = useState("");
+  const [scope, setScope] = useState<"default" | "customer" | "region">("default");
+  const [customerEmail, setCustomerEmail] = useState("");
+  const [region, setRegion] = useState("E");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [note, setNote] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/admin/commission-rates");
+      setRates((json.rates || []) as CommissionRate[]);
+      setCurrent(json.current || { petrol: null, diesel: null });
+    } catch (e: any) {
+      setError(e?.message || "Failed to load commission rates");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function add(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/admin/commission-rates", {
+        method: "POST",
+        body: JSON.stringify({
+          fuel: fuel || null,
+          percent: Number(percent),
+          customerEmail: scope === "customer" ? customerEmail : null,
+          region: scope === "region" ? region : null,
+          effectiveFrom: effectiveFrom
+            ? new Date(effectiveFrom).toISOString()
+            : undefined,
+          note: note || null,
+        }),
+      });
+      setPercent("");
+      setNote("");
+      setEffectiveFrom("");
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to add rate");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function end(id: string) {
+    try {
+      setError(null);
+      await call("/api/admin/commission-rates", {
+        method: "PATCH",
+        body: JSON.stringify({ id }),
+      });
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to end rate");
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      setError(null);
+      await call(`/api/admin/commission-rates?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to delete rate");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+  const now = Date.now();
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap gap-3 text-sm">
+        {(Object.keys(FUEL_LABEL) as Fuel[]).map((f) => (
+          <div key={f} className="rounded-lg bg-white/5 px-3 py-2">
+            <div className="text-xs text-white/60">{FUEL_LABEL[f]} default</div>
+            <div className="font-semibold">
+              {current[f] != null ? `${current[f]}%` : "env fallback"}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="py-4 text-sm text-white/70">Loading…</div>
+      ) : rates.length === 0 ? (
+        <div className="py-4 text-sm text-white/60">
+          No rates yet – checkout is using the environment defaults.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-300">
+              <tr className="border-b border-gray-700/60">
+                <th className="py-2 pr-4">Fuel</th>
+                <th className="py-2 pr-4">Applies to</th>
+                <th className="py-2 pr-4">Rate</th>
+                <th className="py-2 pr-4">From</th>
+                <th className="py-2 pr-4">To</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Note</th>
+                <th className="py-2 pr-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((r) => {
+                const st = status(r, now);
+                return (
+                  <tr key={r.id} className="border-b border-gray-800/60">
+                    <td className="py-2 pr-4">
+                      {r.fuel ? FUEL_LABEL[r.fuel] : "Both"}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {r.customerEmail
+                        ? r.customerEmail
+                        : r.region
+                        ? `Region ${r.region}`
+                        : "Everyone"}
+                    </td>
+                    <td className="py-2 pr-4">{r.percent}%</td>
+                    <td className="py-2 pr-4">{fmtDateTime(r.effectiveFrom)}</td>
+                    <td className="py-2 pr-4">{fmtDateTime(r.effectiveTo)}</td>
+                    <td
+                      className={
+                        "py-2 pr-4 " +
+                        (st === "active"
+                          ? "text-emerald-300"
+                          : st === "scheduled"
+                          ? "text-yellow-300"
+                          : "text-white/50")
+                      }
+                    >
+                      {st}
+                    </td>
+                    <td className="py-2 pr-4 text-white/70">{r.note || ""}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {st === "scheduled" ? (
+                        <button
+                          onClick={() => remove(r.id)}
+                          className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                        >
+                          Delete
+                        </button>
+                      ) : st === "active" && !r.effectiveTo ? (
+                        <button
+                          onClick={() => end(r.id)}
+                          className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                        >
+                          End now
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={add} className="mt-4 flex flex-wrap items-center gap-2">
+        <select
+          className={input}
+          value={fuel}
+          onChange={(e) => setFuel(e.target.value as "" | Fuel)}
+        >
+          <option value="">Both fuels</option>
+          <option value="diesel">Diesel</option>
+          <option value="petrol">Petrol (95)</option>
+        </select>
+        <select
+          className={input}
+          value={scope}
+          onChange={(e) => setScope(e.target.value as typeof scope)}
+        >
+          <option value="default">Everyone</option>
+          <option value="customer">One customer</option>
+          <option value="region">One region</option>
+        </select>
+        {scope === "customer" && (
+          <input
+            className={`${input} w-56`}
+            type="email"
+            placeholder="customer@company.com"
+            value={customerEmail}
+            onChange={(e) => setCustomerEmail(e.target.value)}
+            required
+          />
+        )}
+        {scope === "region" && (
+          <select
+            className={input}
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+          >
+            {["N", "S", "E", "W", "G"].map((r) => (
+              <option key={r} value={r}>
+                Region {r}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          className={`${input} w-24`}
+          type="number"
+          step="0.01"
+          min="0"
+          max="99.99"
+          placeholder="%"
+          value={percent}
+          onChange={(e) => setPercent(e.target.value)}
+          required
+        />
+        <input
+          className={input}
+          type="datetime-local"
+          title="Effective from (blank = now)"
+          value={effectiveFrom}
+          onChange={(e) => setEffectiveFrom(e.target.value)}
+        />
+        <input
+          className={`${input} w-48`}
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={saving || !percent}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Add rate"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+// src/components/CreditAccounts.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type CreditAccount = {
+  id: string;
+  userEmail: string;
+  creditLimitPence: number;
+  termsDays: number;
+  termsBasis: "invoice" | "month_end";
+  status: "active" | "suspended";
+  note: string | null;
+  outstandingPence: number;
+  overduePence: number;
+  openInvoices: number;
+  availablePence: number;
+};
+
+type OnAccountOrder = {
+  id: string;
+  credit_account_id: string;
+  total_pence: number;
+  fuel: string | null;
+  litres: number | null;
+  delivery_date: string | null;
+  payment_due_date: string | null;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+const GBP = (pence: number) =>
+  new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP" }).format(
+    (pence || 0) / 100
+  );
+
+function fmtDate(d: string | null) {
+  if (!d) return "—";
+  return new Date(`${d}T12:00:00Z`).toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export default function CreditAccounts({ jwt }: Props) {
+  const [accounts, setAccounts] = useState<CreditAccount[]>([]);
+  const [orders, setOrders] = useState<OnAccountOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [email, setEmail] = useState("");
+  const [creditLimit, setCreditLimit] = useState("");
+  const [termsDays, setTermsDays] = useState("30");
+  const [termsBasis, setTermsBasis] = useState<"invoice" | "month_end">("invoice");
+  const [note, setNote] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/admin/credit-accounts");
+      setAccounts((json.accounts || []) as CreditAccount[]);
+      setOrders((json.orders || []) as OnAccountOrder[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load credit accounts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function save(body: Record<string, unknown>) {
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/admin/credit-accounts", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      await load();
+      return true;
+    } catch (e: any) {
+      setError(e?.message || "Failed to save credit account");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function add(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = await save({
+      email,
+      creditLimit: Number(creditLimit),
+      termsDays: Number(termsDays),
+      termsBasis,
+      note: note || null,
+    });
+    if (ok) {
+      setEmail("");
+      setCreditLimit("");
+      setNote("");
+    }
+  }
+
+  function edit(a: CreditAccount) {
+    setEmail(a.userEmail);
+    setCreditLimit(String(a.creditLimitPence / 100));
+    setTermsDays(String(a.termsDays));
+    setTermsBasis(a.termsBasis);
+    setNote(a.note || "");
+  }
+
+  async function toggleStatus(a: CreditAccount) {
+    await save({
+      email: a.userEmail,
+      creditLimit: a.creditLimitPence / 100,
+      termsDays: a.termsDays,
+      termsBasis: a.termsBasis,
+      status: a.status === "active" ? "suspended" : "active",
+      note: a.note,
+    });
+  }
+
+  async function remove(a: CreditAccount) {
+    if (!window.confirm(`Remove the credit account for ${a.userEmail}?`)) return;
+    try {
+      setError(null);
+      await call(
+        `/api/admin/credit-accounts?email=${encodeURIComponent(a.userEmail)}`,
+        { method: "DELETE" }
+      );
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove credit account");
+    }
+  }
+
+  async function orderAction(orderId: string, action: "settle" | "invoice") {
+    if (action === "settle" && !window.confirm("Mark this order as paid?")) return;
+    try {
+      setError(null);
+      await call("/api/admin/credit-accounts", {
+        method: "PATCH",
+        body: JSON.stringify({ orderId, action }),
+      });
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to update order");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+  const today = new Date().toISOString().slice(0, 10);
+  const emailFor = (accountId: string) =>
+    accounts.find((a) => a.id === accountId)?.userEmail || "—";
+
+  return (
+    <div>
+      {loading ? (
+        <div className="py-4 text-sm text-white/70">Loading…</div>
+      ) : accounts.length === 0 ? (
+        <div className="py-4 text-sm text-white/60">
+          No credit accounts yet – every order is paid by card or Direct Debit.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-300">
+              <tr className="border-b border-gray-700/60">
+                <th className="py-2 pr-4">Customer</th>
+                <th className="py-2 pr-4">Limit</th>
+                <th className="py-2 pr-4">Terms</th>
+                <th className="py-2 pr-4">Outstanding</th>
+                <th className="py-2 pr-4">Overdue</th>
+                <th className="py-2 pr-4">Available</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {accounts.map((a) => (
+                <tr key={a.id} className="border-b border-gray-800/60">
+                  <td className="py-2 pr-4">
+                    {a.userEmail}
+                    {a.note && (
+                      <div className="text-xs text-white/60">{a.note}</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">{GBP(a.creditLimitPence)}</td>
+                  <td className="py-2 pr-4">
+                    {a.termsDays} days
+                    {a.termsBasis === "month_end" ? " from month end" : ""}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {GBP(a.outstandingPence)}
+                    <span className="ml-1 text-xs text-white/60">
+                      ({a.openInvoices})
+                    </span>
+                  </td>
+                  <td
+                    className={
+                      "py-2 pr-4 " + (a.overduePence > 0 ? "text-rose-300" : "")
+                    }
+                  >
+                    {GBP(a.overduePence)}
+                  </td>
+                  <td className="py-2 pr-4">{GBP(a.availablePence)}</td>
+                  <td
+                    className={
+                      "py-2 pr-4 " +
+                      (a.status === "active" ? "text-emerald-300" : "text-white/50")
+                    }
+                  >
+                    {a.status}
+                  </td>
+                  <td className="py-2 pr-4 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => edit(a)}
+                      className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                    >
+                      Edit
+                    </button>{" "}
+                    <button
+                      onClick={() => toggleStatus(a)}
+                      className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                    >
+                      {a.status === "active" ? "Suspend" : "Reactivate"}
+                    </button>{" "}
+                    <button
+                      onClick={() => remove(a)}
+                      className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={add} className="mt-4 flex flex-wrap items-center gap-2">
+        <input
+          className={`${input} w-56`}
+          type="email"
+          placeholder="customer@company.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <input
+          className={`${input} w-32`}
+          type="number"
+          step="1"
+          min="0"
+          placeholder="Limit £"
+          value={creditLimit}
+          onChange={(e) => setCreditLimit(e.target.value)}
+          required
+        />
+        <input
+          className={`${input} w-24`}
+          type="number"
+          step="1"
+          min="0"
+          max="120"
+          title="Payment terms (days)"
+          value={termsDays}
+          onChange={(e) => setTermsDays(e.target.value)}
+        />
+        <select
+          className={input}
+          value={termsBasis}
+          onChange={(e) => setTermsBasis(e.target.value as typeof termsBasis)}
+        >
+          <option value="invoice">days from invoice</option>
+          <option value="month_end">days from month end</option>
+        </select>
+        <input
+          className={`${input} w-48`}
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={saving || !email || !creditLimit}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save account"}
+        </button>
+      </form>
+
+      {orders.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <h4 className="mb-2 text-sm font-semibold text-white/80">
+            Awaiting payment
+          </h4>
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-300">
+              <tr className="border-b border-gray-700/60">
+                <th className="py-2 pr-4">Customer</th>
+                <th className="py-2 pr-4">Order</th>
+                <th className="py-2 pr-4">Delivery</th>
+                <th className="py-2 pr-4">Due</th>
+                <th className="py-2 pr-4">Amount</th>
+                <th className="py-2 pr-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map((o) => {
+                const overdue = !!o.payment_due_date && o.payment_due_date < today;
+                return (
+                  <tr key={o.id} className="border-b border-gray-800/60">
+                    <td className="py-2 pr-4">{emailFor(o.credit_account_id)}</td>
+                    <td className="py-2 pr-4">
+                      {Number(o.litres || 0).toLocaleString()} L {o.fuel || ""}
+                      <div className="font-mono text-xs text-white/50">
+                        {o.id.slice(0, 8)}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4">{fmtDate(o.delivery_date)}</td>
+                    <td className={"py-2 pr-4 " + (overdue ? "text-rose-300" : "")}>
+                      {fmtDate(o.payment_due_date)}
+                    </td>
+                    <td className="py-2 pr-4">{GBP(o.total_pence)}</td>
+                    <td className="py-2 pr-4 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => orderAction(o.id, "invoice")}
+                        className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                      >
+                        Re-send invoice
+                      </button>{" "}
+                      <button
+                        onClick={() => orderAction(o.id, "settle")}
+                        className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                      >
+                        Mark paid
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
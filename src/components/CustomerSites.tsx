@@ -0,0 +1,455 @@
+// src/components/CustomerSites.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Fuel = "petrol" | "diesel";
+
+type Tank = {
+  id: string;
+  name: string;
+  fuel: Fuel;
+  capacityL: number;
+  monthlyConsumptionL: number | null;
+  estimate: { percentFull: number } | null;
+};
+
+type Site = {
+  id: string;
+  name: string;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  postcode: string;
+  accessNotes: string | null;
+  contactName: string | null;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  tanks: Tank[];
+};
+
+type Props = {
+  jwt: string;
+};
+
+type Form = {
+  name: string;
+  addressLine1: string;
+  addressLine2: string;
+  city: string;
+  postcode: string;
+  accessNotes: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+};
+
+const EMPTY: Form = {
+  name: "",
+  addressLine1: "",
+  addressLine2: "",
+  city: "",
+  postcode: "",
+  accessNotes: "",
+  contactName: "",
+  contactPhone: "",
+  contactEmail: "",
+};
+
+const EMPTY_TANK = {
+  name: "",
+  fuel: "diesel" as Fuel,
+  capacityL: "",
+  monthlyConsumptionL: "",
+};
+
+function toForm(s: Site): Form {
+  return {
+    name: s.name,
+    addressLine1: s.addressLine1,
+    addressLine2: s.addressLine2 || "",
+    city: s.city,
+    postcode: s.postcode,
+    accessNotes: s.accessNotes || "",
+    contactName: s.contactName || "",
+    contactPhone: s.contactPhone || "",
+    contactEmail: s.contactEmail || "",
+  };
+}
+
+export default function CustomerSites({ jwt }: Props) {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // null = closed, "" = new site, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<Form>(EMPTY);
+
+  // site the "add tank" form is open for
+  const [tankSite, setTankSite] = useState<string | null>(null);
+  const [tankForm, setTankForm] = useState(EMPTY_TANK);
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/sites");
+      setSites((json.sites || []) as Site[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load sites");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/sites", {
+        method: editing ? "PATCH" : "POST",
+        body: JSON.stringify(editing ? { id: editing, ...form } : form),
+      });
+      setEditing(null);
+      setForm(EMPTY);
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to save site");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function archive(id: string) {
+    if (!window.confirm("Remove this site? Past orders keep their address.")) {
+      return;
+    }
+    try {
+      setError(null);
+      await call(`/api/sites?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      setSites((prev) => prev.filter((s) => s.id !== id));
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove site");
+    }
+  }
+
+  async function addTank(e: React.FormEvent) {
+    e.preventDefault();
+    if (!tankSite) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/tanks", {
+        method: "POST",
+        body: JSON.stringify({
+          siteId: tankSite,
+          name: tankForm.name,
+          fuel: tankForm.fuel,
+          capacityL: tankForm.capacityL,
+          monthlyConsumptionL: tankForm.monthlyConsumptionL || null,
+        }),
+      });
+      setTankSite(null);
+      setTankForm(EMPTY_TANK);
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to add tank");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeTank(id: string) {
+    try {
+      setError(null);
+      await call(`/api/tanks?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove tank");
+    }
+  }
+
+  const set = (key: keyof Form) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => setForm((f) => ({ ...f, [key]: e.target.value }));
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <p className="text-sm text-white/60">
+          Saved delivery addresses you can pick at checkout. Access notes and
+          the site contact are passed on to the driver; add each tank so we
+          can estimate its level separately.
+        </p>
+        {editing === null && (
+          <button
+            onClick={() => {
+              setForm(EMPTY);
+              setEditing("");
+            }}
+            className="shrink-0 rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400"
+          >
+            Add site
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : sites.length === 0 ? (
+        <div className="text-sm text-white/60">No saved sites yet.</div>
+      ) : (
+        <ul className="space-y-2">
+          {sites.map((s) => (
+            <li
+              key={s.id}
+              className="flex items-start justify-between gap-3 rounded-lg bg-white/5 px-3 py-2 text-sm"
+            >
+              <div>
+                <div className="font-semibold">{s.name}</div>
+                <div className="text-xs text-white/70">
+                  {[s.addressLine1, s.addressLine2, s.city, s.postcode]
+                    .filter(Boolean)
+                    .join(", ")}
+                </div>
+                {s.contactName && (
+                  <div className="text-xs text-white/50">
+                    Contact: {s.contactName}
+                  </div>
+                )}
+                <ul className="mt-1 space-y-0.5 text-xs text-white/60">
+                  {s.tanks.map((t) => (
+                    <li key={t.id} className="flex items-center gap-2">
+                      <span>
+                        {t.name} · {t.fuel} · {t.capacityL.toLocaleString()} L
+                        {t.estimate
+                          ? ` · ~${Math.round(t.estimate.percentFull * 100)}% full`
+                          : ""}
+                      </span>
+                      <button
+                        onClick={() => removeTank(t.id)}
+                        className="text-white/40 hover:text-white/80"
+                        aria-label={`Remove ${t.name}`}
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {tankSite === s.id ? (
+                  <form
+                    onSubmit={addTank}
+                    className="mt-2 flex flex-wrap items-center gap-2"
+                  >
+                    <input
+                      className={`${input} w-32`}
+                      placeholder="Tank name"
+                      value={tankForm.name}
+                      onChange={(e) =>
+                        setTankForm((f) => ({ ...f, name: e.target.value }))
+                      }
+                      required
+                    />
+                    <select
+                      className={input}
+                      value={tankForm.fuel}
+                      onChange={(e) =>
+                        setTankForm((f) => ({
+                          ...f,
+                          fuel: e.target.value as Fuel,
+                        }))
+                      }
+                    >
+                      <option value="diesel">Diesel</option>
+                      <option value="petrol">Petrol (95)</option>
+                    </select>
+                    <input
+                      className={`${input} w-28`}
+                      type="number"
+                      min="1"
+                      placeholder="Size (L)"
+                      value={tankForm.capacityL}
+                      onChange={(e) =>
+                        setTankForm((f) => ({ ...f, capacityL: e.target.value }))
+                      }
+                      required
+                    />
+                    <input
+                      className={`${input} w-36`}
+                      type="number"
+                      min="1"
+                      placeholder="Monthly use (L)"
+                      value={tankForm.monthlyConsumptionL}
+                      onChange={(e) =>
+                        setTankForm((f) => ({
+                          ...f,
+                          monthlyConsumptionL: e.target.value,
+                        }))
+                      }
+                    />
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className="rounded-lg bg-yellow-500 px-2 py-1 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setTankSite(null)}
+                      className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setTankForm(EMPTY_TANK);
+                      setTankSite(s.id);
+                    }}
+                    className="mt-1 text-xs text-yellow-300 hover:text-yellow-200"
+                  >
+                    + Add tank
+                  </button>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  onClick={() => {
+                    setForm(toForm(s));
+                    setEditing(s.id);
+                  }}
+                  className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => archive(s.id)}
+                  className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing !== null && (
+        <form onSubmit={save} className="mt-4 grid gap-2 md:grid-cols-2">
+          <input
+            className={input}
+            placeholder="Site name (e.g. Depot 2)"
+            value={form.name}
+            onChange={set("name")}
+            required
+          />
+          <input
+            className={input}
+            placeholder="Address line 1"
+            value={form.addressLine1}
+            onChange={set("addressLine1")}
+            required
+          />
+          <input
+            className={input}
+            placeholder="Address line 2 (optional)"
+            value={form.addressLine2}
+            onChange={set("addressLine2")}
+          />
+          <input
+            className={input}
+            placeholder="City"
+            value={form.city}
+            onChange={set("city")}
+            required
+          />
+          <input
+            className={input}
+            placeholder="Postcode"
+            value={form.postcode}
+            onChange={set("postcode")}
+            required
+          />
+          <input
+            className={input}
+            placeholder="Site contact name"
+            value={form.contactName}
+            onChange={set("contactName")}
+          />
+          <input
+            className={input}
+            placeholder="Site contact phone"
+            value={form.contactPhone}
+            onChange={set("contactPhone")}
+          />
+          <input
+            className={input}
+            type="email"
+            placeholder="Site contact email"
+            value={form.contactEmail}
+            onChange={set("contactEmail")}
+          />
+          <textarea
+            className={`${input} md:col-span-2`}
+            rows={2}
+            placeholder="Access notes (gate codes, opening hours, where the tank is…)"
+            value={form.accessNotes}
+            onChange={set("accessNotes")}
+          />
+          <div className="flex gap-2 md:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+            >
+              {saving ? "Saving…" : editing ? "Save site" : "Add site"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="rounded-lg bg-white/10 px-3 py-1.5 text-sm hover:bg-white/15"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+// src/components/DeliveryBlackouts.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Blackout = {
+  id: string;
+  date: string;
+  region: string | null;
+  reason: string | null;
+  created_by: string | null;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+const REGIONS = ["N", "S", "E", "W", "G"];
+
+function fmtDay(ymd: string) {
+  return new Date(`${ymd}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function DeliveryBlackouts({ jwt }: Props) {
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [date, setDate] = useState("");
+  const [region, setRegion] = useState("");
+  const [reason, setReason] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/admin/delivery-blackouts");
+      setBlackouts((json.blackouts || []) as Blackout[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load blackout days");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function add(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/admin/delivery-blackouts", {
+        method: "POST",
+        body: JSON.stringify({
+          date,
+          region: region || null,
+          reason: reason || null,
+        }),
+      });
+      setBlackouts((prev) =>
+        [...prev, json.blackout as Blackout].sort((a, b) =>
+          a.date.localeCompare(b.date)
+        )
+      );
+      setDate("");
+      setReason("");
+    } catch (e: any) {
+      setError(e?.message || "Failed to add blackout day");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      setError(null);
+      await call(`/api/admin/delivery-blackouts?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      setBlackouts((prev) => prev.filter((b) => b.id !== id));
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove blackout day");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Weekends and UK bank holidays are already excluded. Add extra days
+        here (e.g. depot shutdowns); customers can&apos;t pick them at checkout.
+      </p>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : blackouts.length === 0 ? (
+        <div className="text-sm text-white/60">No upcoming blackout days.</div>
+      ) : (
+        <ul className="space-y-2">
+          {blackouts.map((b) => (
+            <li
+              key={b.id}
+              className="flex items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-sm"
+            >
+              <span>
+                {fmtDay(b.date)}
+                <span className="ml-2 text-xs text-white/60">
+                  {b.region ? `Region ${b.region}` : "All regions"}
+                  {b.reason ? ` · ${b.reason}` : ""}
+                </span>
+              </span>
+              <button
+                onClick={() => remove(b.id)}
+                className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={add} className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          className={input}
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          required
+        />
+        <select
+          className={input}
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+        >
+          <option value="">All regions</option>
+          {REGIONS.map((r) => (
+            <option key={r} value={r}>
+              Region {r}
+            </option>
+          ))}
+        </select>
+        <input
+          className={`${input} w-56`}
+          placeholder="Reason (optional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={saving || !date}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Add blackout"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
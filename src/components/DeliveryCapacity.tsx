@@ -0,0 +1,275 @@
+// src/components/DeliveryCapacity.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type CapacityRow = {
+  id: string;
+  region: string | null;
+  date: string | null;
+  max_litres: number | null;
+  max_drops: number | null;
+  note: string | null;
+};
+
+type UsageRow = {
+  region: string;
+  date: string;
+  litres: number;
+  drops: number;
+  held: number;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+const REGIONS = ["N", "S", "E", "W", "G"];
+
+function fmtDay(ymd: string) {
+  return new Date(`${ymd}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+const fmtLimit = (v: number | null, unit: string) =>
+  v == null ? "no limit" : `${v.toLocaleString()} ${unit}`;
+
+export default function DeliveryCapacity({ jwt }: Props) {
+  const [capacity, setCapacity] = useState<CapacityRow[]>([]);
+  const [usage, setUsage] = useState<UsageRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [region, setRegion] = useState("");
+  const [date, setDate] = useState("");
+  const [maxLitres, setMaxLitres] = useState("");
+  const [maxDrops, setMaxDrops] = useState("");
+  const [note, setNote] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/admin/delivery-capacity");
+      setCapacity((json.capacity || []) as CapacityRow[]);
+      setUsage((json.usage || []) as UsageRow[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load delivery capacity");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/admin/delivery-capacity", {
+        method: "POST",
+        body: JSON.stringify({
+          region: region || null,
+          date: date || null,
+          maxLitres: maxLitres === "" ? null : Number(maxLitres),
+          maxDrops: maxDrops === "" ? null : Number(maxDrops),
+          note: note || null,
+        }),
+      });
+      setMaxLitres("");
+      setMaxDrops("");
+      setNote("");
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to save capacity");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      setError(null);
+      await call(`/api/admin/delivery-capacity?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      setCapacity((prev) => prev.filter((c) => c.id !== id));
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove capacity");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Limits per delivery day. A region + date row beats the region default,
+        which beats the all-regions rows. Without any row a day is unlimited.
+      </p>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <div className="mb-2 text-sm font-semibold">Capacity</div>
+            {capacity.length === 0 ? (
+              <div className="text-sm text-white/60">No limits set.</div>
+            ) : (
+              <ul className="space-y-2">
+                {capacity.map((c) => (
+                  <li
+                    key={c.id}
+                    className="flex items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-sm"
+                  >
+                    <span>
+                      {c.region ? `Region ${c.region}` : "All regions"} ·{" "}
+                      {c.date ? fmtDay(c.date) : "every day"}
+                      <span className="ml-2 text-xs text-white/60">
+                        {fmtLimit(c.max_litres, "L")} ·{" "}
+                        {fmtLimit(c.max_drops, "drops")}
+                        {c.note ? ` · ${c.note}` : ""}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => remove(c.id)}
+                      className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <div className="mb-2 text-sm font-semibold">
+              Booked (next 14 days)
+            </div>
+            {usage.length === 0 ? (
+              <div className="text-sm text-white/60">No bookings yet.</div>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="text-gray-300">
+                  <tr className="border-b border-gray-700/60">
+                    <th className="py-1 pr-3">Day</th>
+                    <th className="py-1 pr-3">Region</th>
+                    <th className="py-1 pr-3">Drops</th>
+                    <th className="py-1 pr-3">Litres</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.map((u) => (
+                    <tr
+                      key={`${u.region}-${u.date}`}
+                      className="border-b border-gray-800/60"
+                    >
+                      <td className="py-1 pr-3">{fmtDay(u.date)}</td>
+                      <td className="py-1 pr-3">{u.region}</td>
+                      <td className="py-1 pr-3">
+                        {u.drops}
+                        {u.held > 0 && (
+                          <span className="ml-1 text-xs text-yellow-300">
+                            ({u.held} in checkout)
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-3">
+                        {Math.round(u.litres).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={save} className="mt-4 flex flex-wrap items-center gap-2">
+        <select
+          className={input}
+          value={region}
+          onChange={(e) => setRegion(e.target.value)}
+        >
+          <option value="">All regions</option>
+          {REGIONS.map((r) => (
+            <option key={r} value={r}>
+              Region {r}
+            </option>
+          ))}
+        </select>
+        <input
+          className={input}
+          type="date"
+          title="Leave blank for every day"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+        <input
+          className={`${input} w-32`}
+          type="number"
+          min="0"
+          step="1"
+          placeholder="Max litres"
+          value={maxLitres}
+          onChange={(e) => setMaxLitres(e.target.value)}
+        />
+        <input
+          className={`${input} w-28`}
+          type="number"
+          min="0"
+          step="1"
+          placeholder="Max drops"
+          value={maxDrops}
+          onChange={(e) => setMaxDrops(e.target.value)}
+        />
+        <input
+          className={`${input} w-44`}
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={saving || (maxLitres === "" && maxDrops === "")}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save limit"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+// src/components/DeliveryProof.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Props = {
+  /** Supabase access token (customer or admin) */
+  jwt: string;
+  orderId: string;
+  /** bump to reload */
+  refreshKey?: number;
+};
+
+type Delivery = {
+  orderedLitres: number;
+  deliveredLitres: number;
+  meterTicket: string;
+  deliveredAt: string;
+  driverName: string | null;
+  notes: string | null;
+};
+
+type Variance = {
+  amountPence: number;
+  action: "refund" | "credit" | "charge" | "invoice" | null;
+  status: string;
+  documentNumber: string | null;
+};
+
+type PodResponse = {
+  delivery: Delivery | null;
+  variance?: Variance | null;
+  podUrl?: string | null;
+  signatureUrl?: string | null;
+  photoUrl?: string | null;
+};
+
+const gbp = new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP" });
+
+function varianceLine(v: Variance) {
+  const amount = gbp.format(Math.abs(v.amountPence) / 100);
+  if (v.status === "within_tolerance") return "Within delivery tolerance – no adjustment.";
+  if (v.status === "waived") return "Difference waived – no adjustment.";
+  if (v.status === "completed") {
+    const doc = v.documentNumber ? ` (${v.documentNumber})` : "";
+    if (v.action === "refund") return `${amount} refunded for the shortfall${doc}.`;
+    if (v.action === "credit") return `${amount} credited to your account${doc}.`;
+    if (v.action === "charge") return `${amount} charged for the extra fuel${doc}.`;
+    return `${amount} invoiced for the extra fuel${doc}.`;
+  }
+  return `${amount} adjustment being processed.`;
+}
+
+function fmtWhen(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function DeliveryProof({ jwt, orderId, refreshKey = 0 }: Props) {
+  const [pod, setPod] = useState<PodResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const res = await fetch(
+          `/api/orders/pod?orderId=${encodeURIComponent(orderId)}`,
+          { headers: { Authorization: `Bearer ${jwt}` } }
+        );
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+        if (!cancelled) setPod(json as PodResponse);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to load proof of delivery");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [jwt, orderId, refreshKey]);
+
+  if (error) return <div className="text-xs text-rose-200">{error}</div>;
+  if (!pod?.delivery) return null;
+
+  const d = pod.delivery;
+  const short = d.deliveredLitres !== d.orderedLitres;
+  const link = "text-yellow-300 underline hover:text-yellow-200";
+
+  return (
+    <div className="text-xs text-white/80">
+      <div className="mb-1 text-white/70">Proof of delivery</div>
+      <div>
+        {d.deliveredLitres.toLocaleString()} L delivered
+        {short && ` (${d.orderedLitres.toLocaleString()} L ordered)`} ·{" "}
+        {fmtWhen(d.deliveredAt)} · meter ticket {d.meterTicket}
+        {d.driverName ? ` · ${d.driverName}` : ""}
+      </div>
+      {d.notes && <div className="mt-0.5 text-white/60">{d.notes}</div>}
+      {short && pod.variance && (
+        <div className="mt-0.5 text-white/60">{varianceLine(pod.variance)}</div>
+      )}
+      <div className="mt-1 flex gap-3">
+        {pod.podUrl && (
+          <a href={pod.podUrl} target="_blank" rel="noreferrer" className={link}>
+            POD (PDF)
+          </a>
+        )}
+        {pod.signatureUrl && (
+          <a href={pod.signatureUrl} target="_blank" rel="noreferrer" className={link}>
+            Signature
+          </a>
+        )}
+        {pod.photoUrl && (
+          <a href={pod.photoUrl} target="_blank" rel="noreferrer" className={link}>
+            Photo
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+// src/components/DeliveryVariances.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Action = "refund" | "credit" | "charge" | "invoice";
+
+type Settings = {
+  toleranceLitres: number;
+  tolerancePercent: number;
+  underAction: "refund" | "review";
+  overAction: "charge" | "invoice" | "review";
+  reviewAbovePence: number | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
+};
+
+type VarianceRow = {
+  id: string;
+  orderId: string;
+  email: string | null;
+  onAccount: boolean;
+  orderedLitres: number;
+  deliveredLitres: number;
+  varianceLitres: number;
+  amountPence: number;
+  action: Action | null;
+  status: string;
+  documentNumber: string | null;
+  xeroSyncStatus: "pending" | "ok" | "error" | null;
+  xeroDocumentNumber: string | null;
+  error: string | null;
+  decidedBy: string | null;
+  createdAt: string;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+  { value: "", label: "All" },
+  { value: "pending_review", label: "Needs review" },
+  { value: "failed", label: "Failed" },
+  { value: "awaiting_payment", label: "Awaiting payment" },
+  { value: "completed", label: "Settled" },
+  { value: "waived", label: "Waived" },
+  { value: "within_tolerance", label: "Within tolerance" },
+];
+
+const ACTION_LABEL: Record<Action, string> = {
+  refund: "Refund",
+  credit: "Credit account",
+  charge: "Charge card",
+  invoice: "Invoice",
+};
+
+const gbp = new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP" });
+
+/** What the lib will accept for this variance (mirrors settleVariance). */
+function actionsFor(v: VarianceRow): Action[] {
+  if (v.amountPence < 0) return v.onAccount ? ["credit"] : ["refund"];
+  return v.onAccount ? ["invoice"] : ["charge", "invoice"];
+}
+
+export default function DeliveryVariances({ jwt }: Props) {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [variances, setVariances] = useState<VarianceRow[]>([]);
+  const [status, setStatus] = useState("pending_review");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [toleranceLitres, setToleranceLitres] = useState("0");
+  const [tolerancePercent, setTolerancePercent] = useState("0");
+  const [underAction, setUnderAction] = useState<Settings["underAction"]>("refund");
+  const [overAction, setOverAction] = useState<Settings["overAction"]>("invoice");
+  const [reviewAbove, setReviewAbove] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  function applySettings(s: Settings) {
+    setSettings(s);
+    setToleranceLitres(String(s.toleranceLitres));
+    setTolerancePercent(String(s.tolerancePercent));
+    setUnderAction(s.underAction);
+    setOverAction(s.overAction);
+    setReviewAbove(s.reviewAbovePence == null ? "" : String(s.reviewAbovePence / 100));
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call(
+        `/api/admin/delivery-variances${status ? `?status=${status}` : ""}`
+      );
+      applySettings(json.settings as Settings);
+      setVariances((json.variances || []) as VarianceRow[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load delivery variances");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt, status]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/admin/delivery-variances", {
+        method: "PUT",
+        body: JSON.stringify({
+          toleranceLitres: Number(toleranceLitres || 0),
+          tolerancePercent: Number(tolerancePercent || 0),
+          underAction,
+          overAction,
+          reviewAbovePence:
+            reviewAbove === "" ? null : Math.round(Number(reviewAbove) * 100),
+        }),
+      });
+      applySettings(json.settings as Settings);
+    } catch (e: any) {
+      setError(e?.message || "Failed to save tolerance rules");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function decide(v: VarianceRow, action: Action | "waive") {
+    let reason: string | null = null;
+    if (action === "waive") {
+      reason = window.prompt("Why is this difference being waived?", "") ?? null;
+      if (reason === null) return;
+    } else if (
+      !window.confirm(
+        `${ACTION_LABEL[action]} ${gbp.format(Math.abs(v.amountPence) / 100)} for order ${v.orderId}?`
+      )
+    ) {
+      return;
+    }
+    try {
+      setBusyId(v.id);
+      setError(null);
+      await call("/api/admin/delivery-variances", {
+        method: "POST",
+        body: JSON.stringify({ id: v.id, action, reason }),
+      });
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to settle variance");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Differences between the ordered and delivered litres, priced at the
+        order&apos;s unit price. Within the tolerance (the larger of the litres
+        and percent) nothing changes hands; otherwise shortfalls are refunded
+        and extra fuel is charged or invoiced – or held here for review.
+        Failed automatic settlements are retried daily, up to three times.
+      </p>
+
+      <form onSubmit={save} className="mb-4 flex flex-wrap items-end gap-2">
+        <label className="text-xs text-white/70">
+          Tolerance (L)
+          <input
+            className={`${input} mt-1 block w-24`}
+            type="number"
+            min="0"
+            step="1"
+            value={toleranceLitres}
+            onChange={(e) => setToleranceLitres(e.target.value)}
+          />
+        </label>
+        <label className="text-xs text-white/70">
+          Tolerance (%)
+          <input
+            className={`${input} mt-1 block w-24`}
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={tolerancePercent}
+            onChange={(e) => setTolerancePercent(e.target.value)}
+          />
+        </label>
+        <label className="text-xs text-white/70">
+          Under-delivered
+          <select
+            className={`${input} mt-1 block`}
+            value={underAction}
+            onChange={(e) => setUnderAction(e.target.value as Settings["underAction"])}
+          >
+            <option value="refund">Refund automatically</option>
+            <option value="review">Hold for review</option>
+          </select>
+        </label>
+        <label className="text-xs text-white/70">
+          Over-delivered
+          <select
+            className={`${input} mt-1 block`}
+            value={overAction}
+            onChange={(e) => setOverAction(e.target.value as Settings["overAction"])}
+          >
+            <option value="invoice">Invoice automatically</option>
+            <option value="charge">Charge card automatically</option>
+            <option value="review">Hold for review</option>
+          </select>
+        </label>
+        <label className="text-xs text-white/70">
+          Review above (£)
+          <input
+            className={`${input} mt-1 block w-28`}
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="never"
+            value={reviewAbove}
+            onChange={(e) => setReviewAbove(e.target.value)}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save rules"}
+        </button>
+      </form>
+      {settings?.updatedBy && settings.updatedAt && (
+        <div className="-mt-2 mb-4 text-xs text-white/50">
+          Last changed by {settings.updatedBy} on{" "}
+          {new Date(settings.updatedAt).toLocaleDateString("en-GB")}
+        </div>
+      )}
+
+      <div className="mb-2 flex items-center gap-2">
+        <div className="text-sm font-semibold">Variances</div>
+        <select
+          className={input}
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+        >
+          {STATUS_FILTERS.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : variances.length === 0 ? (
+        <div className="text-sm text-white/60">No variances.</div>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="text-gray-300">
+            <tr className="border-b border-gray-700/60">
+              <th className="py-1 pr-3">Order</th>
+              <th className="py-1 pr-3">Litres</th>
+              <th className="py-1 pr-3">Amount</th>
+              <th className="py-1 pr-3">Status</th>
+              <th className="py-1 pr-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {variances.map((v) => {
+              const open = v.status === "pending_review" || v.status === "failed";
+              return (
+                <tr key={v.id} className="border-b border-gray-800/60 align-top">
+                  <td className="py-1 pr-3">
+                    <div className="font-mono text-xs">{v.orderId.slice(0, 8)}</div>
+                    <div className="text-xs text-white/60">
+                      {v.email || "—"}
+                      {v.onAccount ? " · on account" : ""}
+                    </div>
+                  </td>
+                  <td className="py-1 pr-3">
+                    {v.deliveredLitres.toLocaleString()} /{" "}
+                    {v.orderedLitres.toLocaleString()} L
+                    <div
+                      className={`text-xs ${
+                        v.varianceLitres < 0 ? "text-rose-300" : "text-emerald-300"
+                      }`}
+                    >
+                      {v.varianceLitres > 0 ? "+" : ""}
+                      {v.varianceLitres.toLocaleString()} L
+                    </div>
+                  </td>
+                  <td className="py-1 pr-3">
+                    {gbp.format(v.amountPence / 100)}
+                    {v.documentNumber && (
+                      <div className="text-xs text-white/60">{v.documentNumber}</div>
+                    )}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {v.status.replace(/_/g, " ")}
+                    {v.action && (
+                      <span className="text-white/60"> · {ACTION_LABEL[v.action]}</span>
+                    )}
+                    {v.error && <div className="text-xs text-rose-200">{v.error}</div>}
+                    {v.xeroSyncStatus && (
+                      <div className="text-xs text-white/60">
+                        Xero {v.xeroSyncStatus}
+                        {v.xeroDocumentNumber ? ` · ${v.xeroDocumentNumber}` : ""}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1 pr-3">
+                    {open && (
+                      <div className="flex flex-wrap justify-end gap-1">
+                        {actionsFor(v).map((a) => (
+                          <button
+                            key={a}
+                            disabled={busyId === v.id}
+                            onClick={() => decide(v, a)}
+                            className="rounded-lg bg-yellow-500 px-2 py-1 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+                          >
+                            {ACTION_LABEL[a]}
+                          </button>
+                        ))}
+                        <button
+                          disabled={busyId === v.id}
+                          onClick={() => decide(v, "waive")}
+                          className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15 disabled:opacity-50"
+                        >
+                          Waive
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
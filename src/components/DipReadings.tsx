@@ -0,0 +1,257 @@
+// src/components/DipReadings.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Tank = {
+  id: string;
+  name: string;
+  fuel: "petrol" | "diesel";
+  capacityL: number;
+  estimate: {
+    percentFull: number;
+    estimatedLitresLeft: number;
+    dailyUseSource: "readings" | "history" | "profile";
+    forecast: {
+      runOutDate: string | null;
+      runOutEarliest: string | null;
+      runOutLatest: string | null;
+    } | null;
+  } | null;
+};
+
+type Reading = {
+  id: string;
+  litres: number;
+  entered_percent: number | null;
+  read_at: string;
+  source: string;
+  note: string | null;
+};
+
+type Props = {
+  jwt: string;
+};
+
+// "YYYY-MM-DDTHH:mm" in local time, for <input type="datetime-local">
+function localNow() {
+  const d = new Date();
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 16);
+}
+
+export default function DipReadings({ jwt }: Props) {
+  const [tanks, setTanks] = useState<Tank[]>([]);
+  const [tankId, setTankId] = useState("");
+  const [readings, setReadings] = useState<Reading[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [value, setValue] = useState("");
+  const [unit, setUnit] = useState<"litres" | "percent">("litres");
+  const [readAt, setReadAt] = useState(localNow());
+  const [note, setNote] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function loadTanks() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/tanks");
+      const list = (json.tanks || []) as Tank[];
+      setTanks(list);
+      setTankId((prev) =>
+        list.some((t) => t.id === prev) ? prev : list[0]?.id || ""
+      );
+    } catch (e: any) {
+      setError(e?.message || "Failed to load tanks");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadReadings(id: string) {
+    try {
+      const json = await call(
+        `/api/tanks/readings?tankId=${encodeURIComponent(id)}&limit=5`
+      );
+      setReadings((json.readings || []) as Reading[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load readings");
+    }
+  }
+
+  useEffect(() => {
+    loadTanks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  useEffect(() => {
+    if (tankId) loadReadings(tankId);
+    else setReadings([]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tankId]);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/tanks/readings", {
+        method: "POST",
+        body: JSON.stringify({
+          tankId,
+          [unit]: Number(value),
+          readAt: new Date(readAt).toISOString(),
+          note: note || null,
+        }),
+      });
+      setValue("");
+      setNote("");
+      setReadAt(localNow());
+      await Promise.all([loadTanks(), loadReadings(tankId)]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to save reading");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  const tank = tanks.find((t) => t.id === tankId) || null;
+
+  if (loading && !tanks.length) {
+    return <div className="text-sm text-white/70">Loading…</div>;
+  }
+  if (!tanks.length) {
+    return (
+      <div className="text-sm text-white/60">
+        Add a tank to one of your delivery sites to record dip readings.
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Dip your tank and tell us what it reads. We use your readings to
+        correct our level estimate and learn how fast you really use fuel.
+      </p>
+
+      <form onSubmit={submit} className="flex flex-wrap items-center gap-2">
+        <select
+          className={input}
+          value={tankId}
+          onChange={(e) => setTankId(e.target.value)}
+        >
+          {tanks.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name} ({t.fuel}, {t.capacityL.toLocaleString()} L)
+            </option>
+          ))}
+        </select>
+        <input
+          className={`${input} w-28`}
+          type="number"
+          min="0"
+          step="any"
+          placeholder="Reading"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          required
+        />
+        <select
+          className={input}
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as "litres" | "percent")}
+        >
+          <option value="litres">litres</option>
+          <option value="percent">% full</option>
+        </select>
+        <input
+          className={input}
+          type="datetime-local"
+          value={readAt}
+          onChange={(e) => setReadAt(e.target.value)}
+          required
+        />
+        <input
+          className={`${input} w-48`}
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={saving || !tankId || value === ""}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save reading"}
+        </button>
+      </form>
+
+      {tank?.estimate && (
+        <div className="mt-3 text-sm text-white/80">
+          Estimated now: ~{Math.round(tank.estimate.percentFull * 100)}% (
+          {Math.round(tank.estimate.estimatedLitresLeft).toLocaleString()} L)
+          <span className="ml-2 text-xs text-white/50">
+            {tank.estimate.dailyUseSource === "readings"
+              ? "usage learned from your readings"
+              : tank.estimate.dailyUseSource === "history"
+              ? "usage from your delivery history"
+              : "usage from your declared monthly consumption"}
+          </span>
+          {tank.estimate.forecast?.runOutDate && (
+            <div className="text-xs text-white/60">
+              Likely to run out around{" "}
+              {new Date(tank.estimate.forecast.runOutDate).toLocaleDateString("en-GB")}
+              {tank.estimate.forecast.runOutEarliest &&
+              tank.estimate.forecast.runOutLatest
+                ? ` (between ${new Date(
+                    tank.estimate.forecast.runOutEarliest
+                  ).toLocaleDateString("en-GB")} and ${new Date(
+                    tank.estimate.forecast.runOutLatest
+                  ).toLocaleDateString("en-GB")})`
+                : ""}
+            </div>
+          )}
+        </div>
+      )}
+
+      {readings.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-white/70">
+          {readings.map((r) => (
+            <li key={r.id}>
+              {new Date(r.read_at).toLocaleString("en-GB")} ·{" "}
+              {Math.round(Number(r.litres)).toLocaleString()} L
+              {r.entered_percent != null ? ` (${Number(r.entered_percent)}%)` : ""}
+              {r.source !== "customer" ? ` · ${r.source}` : ""}
+              {r.note ? ` · ${r.note}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+// src/components/MarginReport.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Group = "fuel" | "month" | "customer";
+
+type MarginRow = {
+  key: string;
+  orders: number;
+  litres: number;
+  revenuePence: number;
+  refineryCostPence: number;
+  platformFeePence: number;
+  stripeFeePence: number;
+  refundedPence: number;
+  netMarginPence: number;
+  missingStripeFee: number;
+};
+
+type MarginReportData = {
+  from: string;
+  to: string;
+  group: Group;
+  rows: MarginRow[];
+  totals: MarginRow;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+const GROUPS: { value: Group; label: string }[] = [
+  { value: "month", label: "Month" },
+  { value: "fuel", label: "Fuel" },
+  { value: "customer", label: "Customer" },
+];
+
+const gbpFmt = new Intl.NumberFormat("en-GB", {
+  style: "currency",
+  currency: "GBP",
+});
+const pounds = (pence: number) => gbpFmt.format(pence / 100);
+
+function isoDaysAgo(n: number) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - n);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function MarginReport({ jwt }: Props) {
+  const [group, setGroup] = useState<Group>("month");
+  const [from, setFrom] = useState(isoDaysAgo(90));
+  const [to, setTo] = useState(isoDaysAgo(0));
+  const [data, setData] = useState<MarginReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const qs = new URLSearchParams({ group, from, to });
+        const res = await fetch(`/api/admin/reports/margin?${qs}`, {
+          headers: { Authorization: `Bearer ${jwt}` },
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+        if (!cancelled) setData(json as MarginReportData);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to load margin report");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [jwt, group, from, to]);
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  const renderRow = (r: MarginRow, isTotal = false) => (
+    <tr
+      key={r.key}
+      className={
+        isTotal
+          ? "border-t border-gray-600 font-semibold"
+          : "border-b border-gray-800/60"
+      }
+    >
+      <td className="py-2 pr-4">{isTotal ? "Total" : r.key}</td>
+      <td className="py-2 pr-4">{r.orders}</td>
+      <td className="py-2 pr-4">{Math.round(r.litres).toLocaleString()}</td>
+      <td className="py-2 pr-4">{pounds(r.revenuePence)}</td>
+      <td className="py-2 pr-4">{pounds(r.refineryCostPence)}</td>
+      <td className="py-2 pr-4">{pounds(r.platformFeePence)}</td>
+      <td className="py-2 pr-4">
+        {pounds(r.stripeFeePence)}
+        {r.missingStripeFee > 0 && (
+          <span
+            className="ml-1 text-xs text-yellow-300"
+            title="Stripe fee not yet known for some orders"
+          >
+            ({r.missingStripeFee} pending)
+          </span>
+        )}
+      </td>
+      <td className="py-2 pr-4">{pounds(r.refundedPence)}</td>
+      <td
+        className={
+          "py-2 pr-4 " +
+          (r.netMarginPence < 0 ? "text-rose-300" : "text-emerald-300")
+        }
+      >
+        {pounds(r.netMarginPence)}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            className={input}
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+          />
+          <span className="text-white/60">to</span>
+          <input
+            type="date"
+            className={input}
+            value={to}
+            min={from}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+          />
+        </div>
+        <div className="flex overflow-hidden rounded-lg bg-white/10 text-sm">
+          {GROUPS.map((g) => (
+            <button
+              key={g.value}
+              onClick={() => setGroup(g.value)}
+              disabled={group === g.value}
+              className={
+                group === g.value
+                  ? "px-3 py-1.5 bg-yellow-500 text-[#041F3E] font-semibold"
+                  : "px-3 py-1.5 hover:bg-white/15"
+              }
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-6 text-sm text-white/70">Loading…</div>
+      ) : error ? (
+        <div className="rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-200">
+          {error}
+        </div>
+      ) : !data || data.rows.length === 0 ? (
+        <div className="py-6 text-sm text-white/60">
+          No paid orders in this period.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-300">
+              <tr className="border-b border-gray-700/60">
+                <th className="py-2 pr-4">
+                  {GROUPS.find((g) => g.value === data.group)?.label}
+                </th>
+                <th className="py-2 pr-4">Orders</th>
+                <th className="py-2 pr-4">Litres</th>
+                <th className="py-2 pr-4">Revenue</th>
+                <th className="py-2 pr-4">Refinery cost</th>
+                <th className="py-2 pr-4">Platform fee</th>
+                <th className="py-2 pr-4">Stripe fee</th>
+                <th className="py-2 pr-4">Refunded</th>
+                <th className="py-2 pr-4">Net margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.rows.map((r) => renderRow(r))}
+              {renderRow(data.totals, true)}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
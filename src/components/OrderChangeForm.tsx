@@ -0,0 +1,203 @@
+// src/components/OrderChangeForm.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Props = {
+  /** Supabase access token */
+  jwt: string;
+  order: {
+    id: string;
+    litres: number | null;
+    delivery_date?: string | null;
+    total_pence: number | null;
+  };
+  /** called with a message for the customer once a change has gone through */
+  onDone: (message: string) => void;
+};
+
+const gbp = new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP" });
+
+export default function OrderChangeForm({ jwt, order, onDone }: Props) {
+  const [litres, setLitres] = useState(String(order.litres ?? ""));
+  const [deliveryDate, setDeliveryDate] = useState(order.delivery_date || "");
+  const [reason, setReason] = useState("");
+  const [quote, setQuote] = useState<{
+    unitPricePence: number;
+    volumeTier: string | null;
+    totalPence: number;
+    differencePence: number;
+  } | null>(null);
+  const [blocked, setBlocked] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  // re-price as the litres change (the order's day price, band for the litres)
+  useEffect(() => {
+    const n = Number(litres);
+    if (!Number.isFinite(n) || n <= 0) {
+      setQuote(null);
+      return;
+    }
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const json = await call(
+          `/api/orders/amend?orderId=${encodeURIComponent(order.id)}&litres=${Math.round(n)}`
+        );
+        if (cancelled) return;
+        setQuote({
+          unitPricePence: json.unitPricePence,
+          volumeTier: json.volumeTier ?? null,
+          totalPence: json.totalPence,
+          differencePence: json.differencePence,
+        });
+        setBlocked(json.blocked || null);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to price the change");
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt, order.id, litres]);
+
+  async function amend(e: React.FormEvent) {
+    e.preventDefault();
+    const diff = quote?.differencePence || 0;
+    const money =
+      diff > 0
+        ? ` We'll charge ${gbp.format(diff / 100)} to the card or Direct Debit you paid with.`
+        : diff < 0
+        ? ` We'll refund ${gbp.format(-diff / 100)}.`
+        : "";
+    if (!window.confirm(`Change this order?${money}`)) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/orders/amend", {
+        method: "POST",
+        body: JSON.stringify({
+          orderId: order.id,
+          litres: Number(litres),
+          deliveryDate: deliveryDate || null,
+          reason: reason || null,
+        }),
+      });
+      onDone(
+        json.awaitingPayment
+          ? "Your change is waiting for the Direct Debit top-up to clear – we'll email a revised invoice once it has."
+          : "Order changed – we've emailed you a revised invoice."
+      );
+    } catch (e: any) {
+      setError(e?.message || "Failed to change the order");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function cancel() {
+    if (
+      !window.confirm(
+        `Cancel this order? ${gbp.format((order.total_pence || 0) / 100)} will be refunded to how you paid.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      await call("/api/orders/cancel", {
+        method: "POST",
+        body: JSON.stringify({ orderId: order.id, reason: reason || null }),
+      });
+      onDone("Order cancelled – we've emailed you a credit note.");
+    } catch (e: any) {
+      setError(e?.message || "Failed to cancel the order");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+  const diff = quote?.differencePence || 0;
+
+  return (
+    <form onSubmit={amend} className="space-y-2">
+      <p className="text-xs text-white/60">
+        You can change or cancel this order until we send it to the refinery.
+        Prices stay at the rate you ordered at; volume discounts follow the
+        new litres.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className={`${input} w-28`}
+          type="number"
+          min="1"
+          step="1"
+          placeholder="Litres"
+          value={litres}
+          onChange={(e) => setLitres(e.target.value)}
+          required
+        />
+        <input
+          className={input}
+          type="date"
+          value={deliveryDate}
+          onChange={(e) => setDeliveryDate(e.target.value)}
+        />
+        <input
+          className={`${input} min-w-[12rem] flex-1`}
+          placeholder="Reason (optional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+        />
+      </div>
+      {quote && (
+        <div className="text-xs text-white/80">
+          {gbp.format(quote.unitPricePence / 100)}/L
+          {quote.volumeTier && ` (${quote.volumeTier})`} · New total{" "}
+          {gbp.format(quote.totalPence / 100)}
+          {diff > 0 && ` · ${gbp.format(diff / 100)} to pay`}
+          {diff < 0 && ` · ${gbp.format(-diff / 100)} refund`}
+        </div>
+      )}
+      {blocked && <div className="text-xs text-amber-200">{blocked}</div>}
+      {error && <div className="text-xs text-rose-200">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving || !!blocked}
+          className="rounded bg-yellow-500 px-2.5 py-1 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save changes"}
+        </button>
+        <button
+          type="button"
+          onClick={cancel}
+          disabled={saving || !!blocked}
+          className="rounded bg-rose-500/80 px-2.5 py-1 text-xs font-semibold text-[#041F3E] hover:bg-rose-400 disabled:opacity-50"
+        >
+          Cancel order
+        </button>
+      </div>
+    </form>
+  );
+}
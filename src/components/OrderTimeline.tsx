@@ -0,0 +1,124 @@
+// src/components/OrderTimeline.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  ORDER_STATE_LABEL,
+  isOrderState,
+  type OrderEvent,
+} from "@/lib/order-states";
+
+type Props = {
+  /** Supabase access token (customer or admin) */
+  jwt: string;
+  orderId: string;
+  /** bump to reload, e.g. after the admin moves the order */
+  refreshKey?: number;
+};
+
+const EVENT_LABEL: Record<string, string> = {
+  created: "Order placed",
+  payment: "Payment",
+  refund: "Partial refund",
+  note: "Note",
+  amended: "Order changed",
+  amendment_requested: "Change requested",
+  amendment_failed: "Change failed",
+  refund_failed: "Refund failed",
+  variance: "Delivery variance",
+  variance_settled: "Variance settled",
+  variance_failed: "Variance failed",
+  variance_waived: "Variance waived",
+};
+
+function eventTitle(e: OrderEvent) {
+  if (e.event === "transition" && e.toState && isOrderState(e.toState)) {
+    return ORDER_STATE_LABEL[e.toState];
+  }
+  return EVENT_LABEL[e.event] || e.event;
+}
+
+function fmtWhen(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function actorLabel(actor: string) {
+  if (actor.startsWith("system:")) return `FuelFlow (${actor.slice(7)})`;
+  return actor;
+}
+
+export default function OrderTimeline({ jwt, orderId, refreshKey = 0 }: Props) {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const res = await fetch(
+          `/api/orders/events?orderId=${encodeURIComponent(orderId)}`,
+          { headers: { Authorization: `Bearer ${jwt}` } }
+        );
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+        if (!cancelled) setEvents((json.events || []) as OrderEvent[]);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to load order history");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [jwt, orderId, refreshKey]);
+
+  if (loading && events.length === 0) {
+    return <div className="py-2 text-xs text-white/60">Loading history…</div>;
+  }
+  if (error) {
+    return (
+      <div className="rounded border border-rose-400/40 bg-rose-500/10 p-2 text-xs text-rose-200">
+        {error}
+      </div>
+    );
+  }
+  if (events.length === 0) {
+    return <div className="py-2 text-xs text-white/60">No history yet.</div>;
+  }
+
+  return (
+    <ol className="relative ml-1.5 border-l border-white/15">
+      {events.map((e) => {
+        const bad = e.toState === "cancelled" || e.toState === "refunded";
+        const done = e.toState === "delivered";
+        return (
+          <li key={e.id} className="mb-3 ml-4 last:mb-0">
+            <span
+              className={
+                "absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full " +
+                (bad ? "bg-rose-400" : done ? "bg-emerald-400" : "bg-yellow-400")
+              }
+            />
+            <div className="text-sm text-white">{eventTitle(e)}</div>
+            <div className="text-xs text-white/60">
+              {fmtWhen(e.createdAt)} · {actorLabel(e.actor)}
+            </div>
+            {e.reason && (
+              <div className="mt-0.5 text-xs text-white/80">{e.reason}</div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
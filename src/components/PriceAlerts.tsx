@@ -0,0 +1,189 @@
+// src/components/PriceAlerts.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Fuel = "petrol" | "diesel";
+type Kind = "below" | "move_pct";
+
+type AlertRow = {
+  id: string;
+  fuel: Fuel;
+  kind: Kind;
+  threshold: number;
+  last_triggered_at: string | null;
+  created_at: string;
+};
+
+type Props = {
+  jwt: string;
+};
+
+const FUEL_LABEL: Record<Fuel, string> = {
+  petrol: "Petrol (95)",
+  diesel: "Diesel",
+};
+
+function describe(a: AlertRow) {
+  return a.kind === "below"
+    ? `${FUEL_LABEL[a.fuel]} below £${Number(a.threshold).toFixed(3)}/L`
+    : `${FUEL_LABEL[a.fuel]} moves more than ${Number(a.threshold)}% in a day`;
+}
+
+export default function PriceAlerts({ jwt }: Props) {
+  const [alerts, setAlerts] = useState<AlertRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [fuel, setFuel] = useState<Fuel>("diesel");
+  const [kind, setKind] = useState<Kind>("below");
+  const [threshold, setThreshold] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/price-alerts");
+      setAlerts((json.alerts || []) as AlertRow[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load alerts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function add(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/price-alerts", {
+        method: "POST",
+        body: JSON.stringify({ fuel, kind, threshold: Number(threshold) }),
+      });
+      setAlerts((prev) => [...prev, json.alert as AlertRow]);
+      setThreshold("");
+    } catch (e: any) {
+      setError(e?.message || "Failed to add alert");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      setError(null);
+      await call(`/api/price-alerts?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      setAlerts((prev) => prev.filter((a) => a.id !== id));
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove alert");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  return (
+    <div>
+      <div className="mb-2 font-semibold">Price alerts</div>
+      <p className="mb-3 text-sm text-white/60">
+        We&apos;ll email you after each daily price update when one of these
+        rules is met.
+      </p>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : alerts.length === 0 ? (
+        <div className="text-sm text-white/60">No alerts set up yet.</div>
+      ) : (
+        <ul className="space-y-2">
+          {alerts.map((a) => (
+            <li
+              key={a.id}
+              className="flex items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-sm"
+            >
+              <span>
+                {describe(a)}
+                {a.last_triggered_at && (
+                  <span className="ml-2 text-xs text-white/50">
+                    last sent{" "}
+                    {new Date(a.last_triggered_at).toLocaleDateString("en-GB")}
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={() => remove(a.id)}
+                className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={add} className="mt-3 flex flex-wrap items-center gap-2">
+        <select
+          className={input}
+          value={fuel}
+          onChange={(e) => setFuel(e.target.value as Fuel)}
+        >
+          <option value="diesel">Diesel</option>
+          <option value="petrol">Petrol (95)</option>
+        </select>
+        <select
+          className={input}
+          value={kind}
+          onChange={(e) => setKind(e.target.value as Kind)}
+        >
+          <option value="below">drops below (£/L)</option>
+          <option value="move_pct">moves more than (% a day)</option>
+        </select>
+        <input
+          className={`${input} w-28`}
+          type="number"
+          step={kind === "below" ? "0.001" : "0.1"}
+          min="0"
+          placeholder={kind === "below" ? "e.g. 1.150" : "e.g. 3"}
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          required
+        />
+        <button
+          type="submit"
+          disabled={saving || !threshold}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Add alert"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
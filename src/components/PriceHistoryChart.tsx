@@ -0,0 +1,279 @@
+// src/components/PriceHistoryChart.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+
+type Fuel = "petrol" | "diesel";
+
+type PricePoint = {
+  date: string;
+  price: number;
+  refinery?: number | null;
+  margin?: number | null;
+};
+
+type PriceStats = {
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  latest: number | null;
+  weekOnWeekPct: number | null;
+};
+
+type PriceHistory = {
+  from: string;
+  to: string;
+  series: Record<Fuel, { points: PricePoint[]; stats: PriceStats }>;
+};
+
+type Props = {
+  /** Supabase access token – admins get refinery / margin data with it */
+  jwt?: string | null;
+  /** show days that look like bad imports (admin view) */
+  showImportChecks?: boolean;
+};
+
+const RANGES = [30, 90, 365] as const;
+
+const COLORS: Record<Fuel, string> = {
+  petrol: "#F5B800",
+  diesel: "#60A5FA",
+};
+
+const LABELS: Record<Fuel, string> = {
+  petrol: "Petrol (95)",
+  diesel: "Diesel",
+};
+
+// day-over-day move that gets a row flagged in the admin view (percent)
+const JUMP_FLAG_PCT = 10;
+
+const gbp = (v: number | null | undefined) =>
+  v == null ? "—" : `£${Number(v).toFixed(3)}`;
+
+function shortDate(iso: string) {
+  return new Date(`${iso}T00:00:00`).toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+  });
+}
+
+export default function PriceHistoryChart({ jwt, showImportChecks }: Props) {
+  const [days, setDays] = useState<(typeof RANGES)[number]>(30);
+  const [data, setData] = useState<PriceHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const res = await fetch(`/api/prices/history?days=${days}`, {
+          headers: jwt ? { Authorization: `Bearer ${jwt}` } : undefined,
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+        if (!cancelled) setData(json as PriceHistory);
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || "Failed to load price history");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [days, jwt]);
+
+  // chart geometry
+  const W = 640;
+  const H = 180;
+  const PAD = 8;
+
+  const chart = useMemo(() => {
+    if (!data) return null;
+    const all = (["petrol", "diesel"] as Fuel[]).flatMap(
+      (f) => data.series[f]?.points || []
+    );
+    if (!all.length) return null;
+
+    const t0 = Date.parse(`${data.from}T00:00:00Z`);
+    const t1 = Math.max(Date.parse(`${data.to}T00:00:00Z`), t0 + 86400000);
+    let lo = Math.min(...all.map((p) => p.price));
+    let hi = Math.max(...all.map((p) => p.price));
+    if (hi - lo < 0.01) {
+      lo -= 0.01;
+      hi += 0.01;
+    }
+
+    const x = (iso: string) =>
+      PAD + ((Date.parse(`${iso}T00:00:00Z`) - t0) / (t1 - t0)) * (W - PAD * 2);
+    const y = (v: number) => PAD + (1 - (v - lo) / (hi - lo)) * (H - PAD * 2);
+
+    const lines = (["petrol", "diesel"] as Fuel[]).map((f) => ({
+      fuel: f,
+      d: (data.series[f]?.points || [])
+        .map((p, i) => `${i ? "L" : "M"}${x(p.date).toFixed(1)},${y(p.price).toFixed(1)}`)
+        .join(" "),
+    }));
+
+    return { lines, lo, hi };
+  }, [data]);
+
+  const flagged = useMemo(() => {
+    if (!data || !showImportChecks) return [];
+    const out: { fuel: Fuel; date: string; reason: string }[] = [];
+    (["petrol", "diesel"] as Fuel[]).forEach((f) => {
+      const pts = data.series[f]?.points || [];
+      pts.forEach((p, i) => {
+        if (p.margin != null && p.margin < 0) {
+          out.push({ fuel: f, date: p.date, reason: `negative margin (${p.margin})` });
+        }
+        const prev = pts[i - 1];
+        if (prev && prev.price > 0) {
+          const pct = ((p.price - prev.price) / prev.price) * 100;
+          if (Math.abs(pct) > JUMP_FLAG_PCT) {
+            out.push({
+              fuel: f,
+              date: p.date,
+              reason: `moved ${pct > 0 ? "+" : ""}${pct.toFixed(1)}% on previous day`,
+            });
+          }
+        }
+      });
+    });
+    return out.sort((a, b) => b.date.localeCompare(a.date));
+  }, [data, showImportChecks]);
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-4 text-xs text-white/70">
+          {(["petrol", "diesel"] as Fuel[]).map((f) => (
+            <span key={f} className="inline-flex items-center gap-1.5">
+              <span
+                className="inline-block h-2 w-4 rounded"
+                style={{ background: COLORS[f] }}
+              />
+              {LABELS[f]}
+            </span>
+          ))}
+        </div>
+        <div className="flex overflow-hidden rounded-lg bg-white/10 text-sm">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              onClick={() => setDays(r)}
+              disabled={days === r}
+              className={
+                days === r
+                  ? "px-3 py-1.5 bg-yellow-500 text-[#041F3E] font-semibold"
+                  : "px-3 py-1.5 hover:bg-white/15"
+              }
+            >
+              {r === 365 ? "1y" : `${r}d`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-6 text-sm text-white/70">Loading…</div>
+      ) : error ? (
+        <div className="rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-200">
+          {error}
+        </div>
+      ) : !chart || !data ? (
+        <div className="py-6 text-sm text-white/60">
+          No prices in this range yet.
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <div className="flex flex-col justify-between py-1 text-[10px] text-white/50">
+              <span>{gbp(chart.hi)}</span>
+              <span>{gbp(chart.lo)}</span>
+            </div>
+            <svg
+              viewBox={`0 0 ${W} ${H}`}
+              preserveAspectRatio="none"
+              className="h-44 w-full rounded-lg bg-white/[0.03]"
+              role="img"
+              aria-label="Fuel price history"
+            >
+              {chart.lines.map((l) => (
+                <path
+                  key={l.fuel}
+                  d={l.d}
+                  fill="none"
+                  stroke={COLORS[l.fuel]}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            </svg>
+          </div>
+          <div className="mt-1 flex justify-between pl-10 text-[10px] text-white/50">
+            <span>{shortDate(data.from)}</span>
+            <span>{shortDate(data.to)}</span>
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {(["petrol", "diesel"] as Fuel[]).map((f) => {
+              const s = data.series[f]?.stats;
+              const wow = s?.weekOnWeekPct;
+              return (
+                <div key={f} className="rounded-lg bg-white/5 p-3 text-sm">
+                  <div className="mb-1 font-medium">{LABELS[f]}</div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-white/80">
+                    <span className="text-white/60">Latest</span>
+                    <span>{gbp(s?.latest)}</span>
+                    <span className="text-white/60">Min / Max</span>
+                    <span>
+                      {gbp(s?.min)} / {gbp(s?.max)}
+                    </span>
+                    <span className="text-white/60">Average</span>
+                    <span>{gbp(s?.avg)}</span>
+                    <span className="text-white/60">Week on week</span>
+                    <span
+                      className={
+                        wow == null
+                          ? ""
+                          : wow > 0
+                          ? "text-rose-300"
+                          : wow < 0
+                          ? "text-emerald-300"
+                          : ""
+                      }
+                    >
+                      {wow == null ? "—" : `${wow > 0 ? "+" : ""}${wow.toFixed(1)}%`}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {showImportChecks && (
+            <div className="mt-4 text-sm">
+              <div className="mb-1 font-medium">Import checks</div>
+              {flagged.length === 0 ? (
+                <div className="text-white/60">Nothing unusual in this range.</div>
+              ) : (
+                <ul className="space-y-1 text-amber-200">
+                  {flagged.map((r) => (
+                    <li key={`${r.fuel}-${r.date}-${r.reason}`}>
+                      {r.date} · {LABELS[r.fuel]} · {r.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+// src/components/RecurringOrders.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Kind = "interval" | "threshold";
+
+type Schedule = {
+  id: string;
+  status: "pending_setup" | "active" | "paused" | "cancelled";
+  kind: Kind;
+  fuel: "petrol" | "diesel";
+  litres: number;
+  intervalWeeks: number | null;
+  weekday: number | null;
+  nextDeliveryDate: string | null;
+  thresholdPercent: number | null;
+  siteId: string;
+  tankId: string | null;
+  stripePaymentMethodId: string | null;
+  lastError: string | null;
+  lastRunAt: string | null;
+};
+
+type Run = {
+  recurring_order_id: string;
+  status: "pending" | "charged" | "failed";
+  delivery_date: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+type Site = {
+  id: string;
+  name: string;
+  tanks: { id: string; name: string; fuel: "petrol" | "diesel" }[];
+};
+
+type Props = {
+  jwt: string;
+};
+
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
+
+const STATUS_LABEL: Record<Schedule["status"], string> = {
+  pending_setup: "Waiting for card",
+  active: "Active",
+  paused: "Paused",
+  cancelled: "Cancelled",
+};
+
+function fmtDate(ymd: string | null) {
+  if (!ymd) return "—";
+  return new Date(ymd).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+}
+
+function describe(s: Schedule) {
+  const what = `${s.litres.toLocaleString()} L ${s.fuel}`;
+  if (s.kind === "threshold") {
+    return `${what} when the tank drops to ${s.thresholdPercent}%`;
+  }
+  const every =
+    s.intervalWeeks === 1
+      ? "every week"
+      : s.intervalWeeks === 2
+      ? "every other week"
+      : `every ${s.intervalWeeks} weeks`;
+  const day = s.weekday ? WEEKDAYS[s.weekday - 1] : "";
+  return `${what} ${every} on ${day}`;
+}
+
+export default function RecurringOrders({ jwt }: Props) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [eligible, setEligible] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [kind, setKind] = useState<Kind>("interval");
+  const [fuel, setFuel] = useState<"petrol" | "diesel">("diesel");
+  const [litres, setLitres] = useState("2000");
+  const [siteId, setSiteId] = useState("");
+  const [tankId, setTankId] = useState("");
+  const [intervalWeeks, setIntervalWeeks] = useState("2");
+  const [weekday, setWeekday] = useState("2");
+  const [thresholdPercent, setThresholdPercent] = useState("30");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const [rec, st] = await Promise.all([
+        call("/api/recurring-orders"),
+        call("/api/sites"),
+      ]);
+      setSchedules((rec.schedules || []) as Schedule[]);
+      setRuns((rec.runs || []) as Run[]);
+      setEligible(!!rec.eligible);
+      const list = (st.sites || []) as Site[];
+      setSites(list);
+      setSiteId((prev) =>
+        list.some((s) => s.id === prev) ? prev : list[0]?.id || ""
+      );
+    } catch (e: any) {
+      setError(e?.message || "Failed to load standing orders");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  const site = sites.find((s) => s.id === siteId) || null;
+  const tanks = (site?.tanks || []).filter((t) => t.fuel === fuel);
+
+  useEffect(() => {
+    setTankId((prev) =>
+      tanks.some((t) => t.id === prev) ? prev : tanks[0]?.id || ""
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [siteId, fuel, sites]);
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/recurring-orders", {
+        method: "POST",
+        body: JSON.stringify({
+          kind,
+          fuel,
+          litres: Number(litres),
+          siteId,
+          tankId: tankId || null,
+          ...(kind === "interval"
+            ? { intervalWeeks: Number(intervalWeeks), weekday: Number(weekday) }
+            : { thresholdPercent: Number(thresholdPercent) }),
+        }),
+      });
+      // save a card with Stripe; the schedule starts once it's saved
+      if (json.setupUrl) window.location.href = json.setupUrl;
+      else await load();
+    } catch (e: any) {
+      setError(e?.message || "Failed to create standing order");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function act(id: string, action: "pause" | "resume" | "card") {
+    try {
+      setError(null);
+      const json = await call("/api/recurring-orders", {
+        method: "PATCH",
+        body: JSON.stringify({ id, action }),
+      });
+      if (json.setupUrl) {
+        window.location.href = json.setupUrl;
+        return;
+      }
+      const updated = json.schedule as Schedule;
+      setSchedules((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    } catch (e: any) {
+      setError(e?.message || "Failed to update standing order");
+    }
+  }
+
+  async function cancel(id: string) {
+    if (!window.confirm("Cancel this standing order?")) return;
+    try {
+      setError(null);
+      await call(`/api/recurring-orders?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      setSchedules((prev) => prev.filter((s) => s.id !== id));
+    } catch (e: any) {
+      setError(e?.message || "Failed to cancel standing order");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+  const small = "rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15";
+
+  if (loading && !schedules.length && !sites.length) {
+    return <div className="text-sm text-white/70">Loading…</div>;
+  }
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Set up a standing order and we&apos;ll place it for you – on a fixed
+        day, or whenever your tank estimate drops to a level you choose. Each
+        delivery is charged to the card you save with Stripe.
+      </p>
+
+      {schedules.length === 0 ? (
+        <div className="text-sm text-white/60">No standing orders yet.</div>
+      ) : (
+        <ul className="space-y-2">
+          {schedules.map((s) => {
+            const siteName = sites.find((x) => x.id === s.siteId)?.name;
+            const last = runs.find((r) => r.recurring_order_id === s.id);
+            return (
+              <li key={s.id} className="rounded-lg bg-white/5 px-3 py-2 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    {describe(s)}
+                    {siteName ? ` · ${siteName}` : ""}
+                    <span className="ml-2 text-xs text-white/60">
+                      {STATUS_LABEL[s.status]}
+                      {s.kind === "interval" && s.status === "active"
+                        ? ` · next ${fmtDate(s.nextDeliveryDate)}`
+                        : ""}
+                    </span>
+                  </span>
+                  <span className="flex gap-2">
+                    {s.status === "active" && (
+                      <button onClick={() => act(s.id, "pause")} className={small}>
+                        Pause
+                      </button>
+                    )}
+                    {s.status === "paused" && (
+                      <button onClick={() => act(s.id, "resume")} className={small}>
+                        Resume
+                      </button>
+                    )}
+                    <button onClick={() => act(s.id, "card")} className={small}>
+                      {s.stripePaymentMethodId ? "Change card" : "Save card"}
+                    </button>
+                    <button onClick={() => cancel(s.id)} className={small}>
+                      Cancel
+                    </button>
+                  </span>
+                </div>
+                {last && (
+                  <div className="mt-1 text-xs text-white/60">
+                    Last run:{" "}
+                    {last.status === "charged"
+                      ? `ordered for ${fmtDate(last.delivery_date)}`
+                      : last.status === "failed"
+                      ? `failed – ${last.error || "unknown error"}`
+                      : "in progress"}
+                  </div>
+                )}
+                {s.lastError && last?.status !== "failed" && (
+                  <div className="mt-1 text-xs text-rose-200">{s.lastError}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!eligible ? (
+        <div className="mt-3 text-sm text-white/60">
+          Standing orders are available once your contract is approved.
+        </div>
+      ) : !sites.length ? (
+        <div className="mt-3 text-sm text-white/60">
+          Add a delivery site to set up a standing order.
+        </div>
+      ) : (
+        <form onSubmit={create} className="mt-3 flex flex-wrap items-center gap-2">
+          <select
+            className={input}
+            value={kind}
+            onChange={(e) => setKind(e.target.value as Kind)}
+          >
+            <option value="interval">On a schedule</option>
+            <option value="threshold">When the tank runs low</option>
+          </select>
+          <select
+            className={input}
+            value={fuel}
+            onChange={(e) => setFuel(e.target.value as "petrol" | "diesel")}
+          >
+            <option value="diesel">Diesel</option>
+            <option value="petrol">Petrol</option>
+          </select>
+          <input
+            className={`${input} w-28`}
+            type="number"
+            min="500"
+            step="1"
+            placeholder="Litres"
+            value={litres}
+            onChange={(e) => setLitres(e.target.value)}
+            required
+          />
+          <select
+            className={input}
+            value={siteId}
+            onChange={(e) => setSiteId(e.target.value)}
+          >
+            {sites.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          {tanks.length > 0 && (
+            <select
+              className={input}
+              value={tankId}
+              onChange={(e) => setTankId(e.target.value)}
+            >
+              {tanks.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {kind === "interval" ? (
+            <>
+              <select
+                className={input}
+                value={intervalWeeks}
+                onChange={(e) => setIntervalWeeks(e.target.value)}
+              >
+                <option value="1">every week</option>
+                <option value="2">every other week</option>
+                <option value="3">every 3 weeks</option>
+                <option value="4">every 4 weeks</option>
+                <option value="6">every 6 weeks</option>
+                <option value="8">every 8 weeks</option>
+              </select>
+              <select
+                className={input}
+                value={weekday}
+                onChange={(e) => setWeekday(e.target.value)}
+              >
+                {WEEKDAYS.map((d, i) => (
+                  <option key={d} value={String(i + 1)}>
+                    on {d}
+                  </option>
+                ))}
+              </select>
+            </>
+          ) : (
+            <label className="flex items-center gap-2 text-sm text-white/70">
+              below
+              <input
+                className={`${input} w-20`}
+                type="number"
+                min="5"
+                max="80"
+                value={thresholdPercent}
+                onChange={(e) => setThresholdPercent(e.target.value)}
+                required
+              />
+              %
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !siteId || (kind === "threshold" && !tankId)}
+            className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Set up & save card"}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
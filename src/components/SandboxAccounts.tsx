@@ -0,0 +1,165 @@
+// src/components/SandboxAccounts.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+type Account = {
+  email: string;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+type Props = {
+  /** admin Supabase access token */
+  jwt: string;
+};
+
+export default function SandboxAccounts({ jwt }: Props) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [email, setEmail] = useState("");
+  const [note, setNote] = useState("");
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/admin/sandbox-accounts");
+      setAccounts((json.accounts || []) as Account[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load sandbox accounts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function add(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/admin/sandbox-accounts", {
+        method: "POST",
+        body: JSON.stringify({ email, note: note || null }),
+      });
+      const account = json.account as Account;
+      setAccounts((prev) => [
+        ...prev.filter((a) => a.email !== account.email),
+        account,
+      ]);
+      setEmail("");
+      setNote("");
+    } catch (e: any) {
+      setError(e?.message || "Failed to add sandbox account");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(target: string) {
+    try {
+      setError(null);
+      await call(
+        `/api/admin/sandbox-accounts?email=${encodeURIComponent(target)}`,
+        { method: "DELETE" }
+      );
+      setAccounts((prev) => prev.filter((a) => a.email !== target));
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove sandbox account");
+    }
+  }
+
+  const input =
+    "rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-yellow-500/50";
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Sandbox accounts see sample prices, orders, invoices and a low-fuel
+        reminder, and their checkouts never reach Stripe or Xero. Use them
+        for sales demos and QA.
+      </p>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : accounts.length === 0 ? (
+        <div className="text-sm text-white/60">No sandbox accounts.</div>
+      ) : (
+        <ul className="space-y-2">
+          {accounts.map((a) => (
+            <li
+              key={a.email}
+              className="flex items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-sm"
+            >
+              <span>
+                {a.email}
+                <span className="ml-2 text-xs text-white/60">
+                  {a.note || ""}
+                  {a.created_by ? ` · added by ${a.created_by}` : ""}
+                </span>
+              </span>
+              <button
+                onClick={() => remove(a.email)}
+                className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={add} className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          className={`${input} w-64`}
+          type="email"
+          placeholder="Account email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <input
+          className={`${input} w-56`}
+          placeholder="Note (e.g. QA, sales demo)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={saving || !email}
+          className="rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Add sandbox account"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+// src/components/SavedPaymentMethods.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+export type SavedMethod = {
+  id: string;
+  type: "card" | "bacs_debit";
+  label: string;
+  expires: string | null;
+  isDefault: boolean;
+};
+
+type Props = {
+  jwt: string;
+  /** called with the list (default first) whenever it changes */
+  onChange?: (methods: SavedMethod[]) => void;
+};
+
+export default function SavedPaymentMethods({ jwt, onChange }: Props) {
+  const [methods, setMethods] = useState<SavedMethod[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function call(path: string, init?: RequestInit) {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${jwt}`,
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json;
+  }
+
+  function update(list: SavedMethod[]) {
+    setMethods(list);
+    onChange?.(list);
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const json = await call("/api/payment-methods");
+      update((json.methods || []) as SavedMethod[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load payment methods");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jwt]);
+
+  async function add() {
+    try {
+      setSaving(true);
+      setError(null);
+      const json = await call("/api/payment-methods", { method: "POST" });
+      if (json.url) window.location.href = json.url;
+    } catch (e: any) {
+      setError(e?.message || "Failed to start saving a payment method");
+      setSaving(false);
+    }
+  }
+
+  async function makeDefault(id: string) {
+    try {
+      setError(null);
+      const json = await call("/api/payment-methods", {
+        method: "PATCH",
+        body: JSON.stringify({ id }),
+      });
+      update((json.methods || []) as SavedMethod[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to update payment method");
+    }
+  }
+
+  async function remove(id: string) {
+    if (!window.confirm("Remove this payment method?")) return;
+    try {
+      setError(null);
+      const json = await call(
+        `/api/payment-methods?id=${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+      update((json.methods || []) as SavedMethod[]);
+    } catch (e: any) {
+      setError(e?.message || "Failed to remove payment method");
+    }
+  }
+
+  return (
+    <div>
+      <p className="mb-3 text-sm text-white/60">
+        Cards and Direct Debits you save here (or at checkout) can be used to
+        reorder in one click. Your default is used unless you pick another.
+      </p>
+
+      {loading ? (
+        <div className="text-sm text-white/70">Loading…</div>
+      ) : methods.length === 0 ? (
+        <div className="text-sm text-white/60">No saved payment methods.</div>
+      ) : (
+        <ul className="space-y-2">
+          {methods.map((m) => (
+            <li
+              key={m.id}
+              className="flex items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-sm"
+            >
+              <span>
+                {m.label}
+                <span className="ml-2 text-xs text-white/60">
+                  {m.expires ? `expires ${m.expires}` : ""}
+                  {m.isDefault ? `${m.expires ? " · " : ""}default` : ""}
+                </span>
+              </span>
+              <span className="flex gap-2">
+                {!m.isDefault && (
+                  <button
+                    onClick={() => makeDefault(m.id)}
+                    className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(m.id)}
+                  className="rounded-lg bg-white/10 px-2 py-1 text-xs hover:bg-white/15"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={add}
+        disabled={saving}
+        className="mt-3 rounded-lg bg-yellow-500 px-3 py-1.5 text-sm font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+      >
+        {saving ? "Opening Stripe…" : "Add a card or Direct Debit"}
+      </button>
+
+      {error && (
+        <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-2 text-sm text-rose-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
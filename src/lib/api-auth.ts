@@ -0,0 +1,62 @@
+// src/lib/api-auth.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "./supabaseAdmin";
+
+/**
+ * Lowercased email of the caller from an `Authorization: Bearer <jwt>`
+ * header, or null when there is no (valid) token.
+ * Use this where auth is optional (e.g. customer-specific pricing).
+ */
+export async function getBearerEmail(
+  req: NextApiRequest
+): Promise<string | null> {
+  const auth = req.headers.authorization || "";
+  const token = auth.startsWith("Bearer ") ? auth.slice(7) : null;
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data?.user?.email) return null;
+  return data.user.email.toLowerCase();
+}
+
+/** True when the email is in the admins table. */
+export async function isAdminEmail(email: string | null): Promise<boolean> {
+  if (!email) return false;
+  const { data } = await supabaseAdmin
+    .from("admins")
+    .select("email")
+    .eq("email", email.toLowerCase())
+    .maybeSingle();
+  return !!data?.email;
+}
+
+/**
+ * Admin gate for API routes. Sends 401/403 and returns null when the
+ * caller isn't a signed-in admin, otherwise returns their email.
+ */
+export async function requireAdmin(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<string | null> {
+  const email = await getBearerEmail(req);
+  if (!email) {
+    res.status(401).json({ error: "Not logged in" });
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("admins")
+    .select("email")
+    .eq("email", email)
+    .maybeSingle();
+
+  if (error) {
+    res.status(500).json({ error: error.message });
+    return null;
+  }
+  if (!data?.email) {
+    res.status(403).json({ error: "Admins only" });
+    return null;
+  }
+  return email;
+}
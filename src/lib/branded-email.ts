@@ -0,0 +1,143 @@
+// src/lib/branded-email.ts
+// FuelFlow email layout (same look as the quote confirmation in
+// api/quote.ts): navy header with logo, white body, navy summary panel,
+// yellow call-to-action button.
+
+const SITE_URL = process.env.SITE_URL || "https://dashboard.fuelflow.co.uk";
+
+const EMAIL_LOGO_URL =
+  process.env.EMAIL_LOGO_URL || `${SITE_URL}/logo-email.png`;
+
+const brandBlue = "#041F3E";
+const panelBlue = "#0E2E57";
+const brandYellow = "#F5B800";
+const text = "#0B1220";
+
+export type BrandedEmail = {
+  /** <title> and heading */
+  title: string;
+  heading: string;
+  /** hidden inbox preview line */
+  preheader: string;
+  /** paragraphs under the heading (plain text, escaped here) */
+  intro: string[];
+  /** label / value rows in the summary panel */
+  rows?: { label: string; value: string }[];
+  cta?: { label: string; href: string };
+  /** small print under the button (plain text) */
+  footer: string;
+  /** optional link under the footer, e.g. unsubscribe */
+  footerLink?: { label: string; href: string };
+};
+
+export function escapeHtml(s: string) {
+  return String(s)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function buildBrandedEmailHtml(e: BrandedEmail): string {
+  const year = new Date().getFullYear();
+
+  const intro = e.intro
+    .map(
+      (p) => `
+            <p style="margin:0 0 14px 0;font:400 15px system-ui,-apple-system,Segoe UI,Roboto,Arial;color:#46556A;">
+              ${escapeHtml(p)}
+            </p>`
+    )
+    .join("");
+
+  const rows = (e.rows || [])
+    .map(
+      (r) => `
+                  <tr>
+                    <td style="font:600 12px system-ui,Segoe UI,Roboto,Arial;color:#A7B3C2;text-transform:uppercase;letter-spacing:.04em;padding:6px 0;">${escapeHtml(r.label)}</td>
+                    <td style="font:500 14px system-ui,Segoe UI,Roboto,Arial;color:#ffffff;padding:6px 0;" align="right">${escapeHtml(r.value)}</td>
+                  </tr>`
+    )
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="x-apple-disable-message-reformatting">
+  <meta name="format-detection" content="telephone=no, date=no, address=no, email=no">
+  <title>${escapeHtml(e.title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f6f7fb;">
+  <!-- preheader (hidden) -->
+  <div style="display:none;max-height:0;overflow:hidden;opacity:0;">${escapeHtml(e.preheader)}</div>
+
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f7fb;">
+    <tr><td align="center" style="padding:24px;">
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;background:#ffffff;border-radius:16px;overflow:hidden;">
+        <tr>
+          <td style="background:${brandBlue};padding:20px 24px;">
+            <img src="${EMAIL_LOGO_URL}" alt="FuelFlow"
+                 width="120" height="30"
+                 style="display:block;border:0;outline:none;text-decoration:none;width:120px;height:30px;max-width:120px;-ms-interpolation-mode:bicubic;">
+          </td>
+        </tr>
+
+        <tr>
+          <td style="padding:28px 24px 8px 24px;">
+            <h1 style="margin:0 0 12px 0;font:700 22px system-ui,-apple-system,Segoe UI,Roboto,Arial;color:${text};">
+              ${escapeHtml(e.heading)}
+            </h1>${intro}
+          </td>
+        </tr>
+${
+  rows
+    ? `
+        <tr>
+          <td style="padding:0 24px 8px 24px;">
+            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${panelBlue};border-radius:12px;">
+              <tr><td style="padding:20px;">
+                <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}
+                </table>
+              </td></tr>
+            </table>
+          </td>
+        </tr>`
+    : ""
+}
+        <tr>
+          <td style="padding:16px 24px 24px 24px;">${
+            e.cta
+              ? `
+            <table role="presentation" cellpadding="0" cellspacing="0">
+              <tr>
+                <td bgcolor="${brandYellow}" style="border-radius:10px;">
+                  <a href="${escapeHtml(e.cta.href)}" target="_blank" rel="noopener"
+                     style="display:inline-block;padding:12px 18px;border-radius:10px;background:${brandYellow};
+                            color:${brandBlue};text-decoration:none;font:600 14px system-ui,Segoe UI,Roboto,Arial;">
+                    ${escapeHtml(e.cta.label)}
+                  </a>
+                </td>
+              </tr>
+            </table>`
+              : ""
+          }
+            <p style="margin:14px 0 0 0;font:400 12px system-ui,Segoe UI,Roboto,Arial;color:#6B7A90;">
+              © ${year} FuelFlow. ${escapeHtml(e.footer)}
+            </p>${
+              e.footerLink
+                ? `
+            <p style="margin:6px 0 0 0;font:400 12px system-ui,Segoe UI,Roboto,Arial;color:#6B7A90;">
+              <a href="${escapeHtml(e.footerLink.href)}" style="color:#6B7A90;">${escapeHtml(e.footerLink.label)}</a>
+            </p>`
+                : ""
+            }
+          </td>
+        </tr>
+      </table>
+      <div style="height:24px;"></div>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,210 @@
+// src/lib/commission.ts
+// Platform commission as a percentage of the order total.
+//
+// Table: public.commission_rates (append-only versions)
+//   fuel            "petrol" | "diesel" | null   (null = both fuels)
+//   customer_email  per-customer override (lowercased) or null
+//   region          "N" | "S" | "E" | "W" | "G" override or null
+//   percent         e.g. 5 => 5% of the order total
+//   effective_from / effective_to (exclusive, optional)
+//
+// Checkout snapshots the resolved rate onto the order
+// (orders.commission_percent / commission_rate_id) so later steps –
+// refinery order, margin ledger – use the rate that applied when the
+// customer paid. Orders from before snapshots resolve the rate valid on
+// their created_at date.
+
+import supabaseAdmin from "./supabaseAdmin";
+import { getRegionFromPostcode, type Region } from "./cost-centre";
+
+type Fuel = "petrol" | "diesel";
+
+export type CommissionSource = "customer" | "region" | "default" | "env";
+
+export type CommissionRate = {
+  id: string;
+  fuel: Fuel | null;
+  customerEmail: string | null;
+  region: Region | null;
+  percent: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+};
+
+export type ResolvedCommission = {
+  percent: number;
+  rateId: string | null;
+  source: CommissionSource;
+};
+
+type CommissionRateRow = {
+  id: string;
+  fuel: string | null;
+  customer_email: string | null;
+  region: string | null;
+  percent: number | string;
+  effective_from: string;
+  effective_to: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string | null;
+};
+
+export const COMMISSION_RATE_COLUMNS =
+  "id,fuel,customer_email,region,percent,effective_from,effective_to,note,created_by,created_at";
+
+export function commissionRateFromRow(r: CommissionRateRow): CommissionRate {
+  return {
+    id: r.id,
+    fuel: (r.fuel ? r.fuel.toLowerCase() : null) as Fuel | null,
+    customerEmail: r.customer_email ? r.customer_email.toLowerCase() : null,
+    region: (r.region ? r.region.toUpperCase() : null) as Region | null,
+    percent: Number(r.percent),
+    effectiveFrom: r.effective_from,
+    effectiveTo: r.effective_to,
+    note: r.note,
+    createdBy: r.created_by,
+    createdAt: r.created_at,
+  };
+}
+
+// Legacy env rates – only used when no table row matches (e.g. before the
+// first rate has been entered in the admin dashboard).
+function envCommissionPercent(fuel: Fuel | string | null): number {
+  const fallback = Number(process.env.PLATFORM_COMMISSION_PERCENT || "0");
+
+  if (fuel === "petrol") {
+    const raw = process.env.PETROL_COMMISSION_PERCENT;
+    return Number(raw ?? String(fallback));
+  }
+
+  if (fuel === "diesel") {
+    const raw = process.env.DIESEL_COMMISSION_PERCENT;
+    return Number(raw ?? String(fallback));
+  }
+
+  return fallback;
+}
+
+/**
+ * Pick the rate in force at `at`.
+ * Priority: customer override → region override → default.
+ * At the same level a fuel-specific rate beats one for both fuels, then
+ * the latest effective_from wins.
+ */
+export function pickCommissionRate(
+  rates: CommissionRate[],
+  args: {
+    fuel: Fuel | string | null;
+    customerEmail?: string | null;
+    region?: Region | null;
+    at: Date;
+  }
+): CommissionRate | null {
+  const at = args.at.getTime();
+  const email = args.customerEmail ? args.customerEmail.toLowerCase() : null;
+
+  const live = rates.filter(
+    (r) =>
+      (r.fuel == null || r.fuel === args.fuel) &&
+      new Date(r.effectiveFrom).getTime() <= at &&
+      (!r.effectiveTo || new Date(r.effectiveTo).getTime() > at)
+  );
+
+  const levels: ((r: CommissionRate) => boolean)[] = [
+    (r) => !!email && r.customerEmail === email,
+    (r) => !r.customerEmail && !!args.region && r.region === args.region,
+    (r) => !r.customerEmail && !r.region,
+  ];
+
+  for (const matches of levels) {
+    const candidates = live.filter(matches).sort((a, b) => {
+      const fuelRank = Number(b.fuel != null) - Number(a.fuel != null);
+      if (fuelRank) return fuelRank;
+      return b.effectiveFrom.localeCompare(a.effectiveFrom);
+    });
+    if (candidates.length) return candidates[0];
+  }
+  return null;
+}
+
+/** Commission rate valid for an order (defaults to now). */
+export async function resolveCommission(args: {
+  fuel: Fuel | string | null;
+  customerEmail?: string | null;
+  postcode?: string | null;
+  at?: Date | string | null;
+}): Promise<ResolvedCommission> {
+  const at = args.at ? new Date(args.at) : new Date();
+  const region = args.postcode ? getRegionFromPostcode(args.postcode) : null;
+
+  let q = supabaseAdmin
+    .from("commission_rates")
+    .select(COMMISSION_RATE_COLUMNS)
+    .lte("effective_from", at.toISOString());
+  if (args.fuel) q = q.or(`fuel.is.null,fuel.eq.${args.fuel}`);
+
+  const { data, error } = await q;
+  if (error) {
+    // don't block checkout on a missing table – fall back to env rates
+    console.error("[commission] rate lookup failed:", error.message);
+  }
+
+  const rate = pickCommissionRate(
+    ((data || []) as CommissionRateRow[]).map(commissionRateFromRow),
+    { fuel: args.fuel, customerEmail: args.customerEmail, region, at }
+  );
+
+  if (!rate) {
+    return { percent: envCommissionPercent(args.fuel), rateId: null, source: "env" };
+  }
+  return {
+    percent: rate.percent,
+    rateId: rate.id,
+    source: rate.customerEmail ? "customer" : rate.region ? "region" : "default",
+  };
+}
+
+/** Platform fee in pence for an order total in pence. */
+export function platformFeePence(totalPence: number, percent: number): number {
+  return Math.round((totalPence * percent) / 100);
+}
+
+/**
+ * Commission for an order row: the snapshot taken at checkout when there
+ * is one, otherwise the rate that was valid on the order's date.
+ */
+export async function commissionForOrder(order: {
+  fuel?: string | null;
+  user_email?: string | null;
+  postcode?: string | null;
+  created_at?: string | null;
+  total_pence?: number | null;
+  commission_percent?: number | null;
+  platform_fee_pence?: number | null;
+}): Promise<{ percent: number; feePence: number; snapshot: boolean }> {
+  const total = Number(order.total_pence) || 0;
+
+  if (order.commission_percent != null) {
+    const percent = Number(order.commission_percent);
+    return {
+      percent,
+      feePence:
+        order.platform_fee_pence != null
+          ? Number(order.platform_fee_pence)
+          : platformFeePence(total, percent),
+      snapshot: true,
+    };
+  }
+
+  const { percent } = await resolveCommission({
+    fuel: order.fuel ?? null,
+    customerEmail: order.user_email ?? null,
+    postcode: order.postcode ?? null,
+    at: order.created_at ?? null,
+  });
+  return { percent, feePence: platformFeePence(total, percent), snapshot: false };
+}
@@ -0,0 +1,221 @@
+// src/lib/consumption-forecast.ts
+// Consumption forecast + predicted run-out date for a tank.
+//
+// Pure (no Supabase) – callers pass the delivery history and the current
+// level. The model:
+//   - base rate: litres per calendar day from the full delivery history
+//     (each delivery refills what was used since the previous one), unless
+//     a rate learned from dip readings is given, which wins
+//   - seasonal factors: per calendar month, from how fast the intervals
+//     overlapping that month burned fuel, shrunk towards 1 when data is thin
+//   - weekday factors: the tank's operating days (closed days use nothing)
+//   - confidence band: the spread of the seasonally adjusted interval rates
+
+export type ForecastDelivery = { at: Date; litres: number };
+
+export type ConsumptionForecast = {
+  /** litres per calendar day before weekday / seasonal factors */
+  baseDailyL: number;
+  method: "readings" | "history" | "profile";
+  /** delivery intervals the history rate was derived from */
+  intervals: number;
+  /** index 0 = Monday … 6 = Sunday, average 1 */
+  weekdayFactors: number[];
+  /** index 0 = January … 11 = December, average 1 */
+  monthFactors: number[];
+  /** null when the tank won't run out within the forecast horizon */
+  runOutDate: string | null;
+  runOutEarliest: string | null;
+  runOutLatest: string | null;
+  daysToRunOut: number | null;
+  confidence: "low" | "medium" | "high";
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const HORIZON_DAYS = 730;
+// only the last two years of deliveries count
+const HISTORY_DAYS = 730;
+// days of data at which a month's own factor counts as much as the prior
+const SEASON_PRIOR_DAYS = 60;
+// band used when there isn't enough history to measure the spread
+const DEFAULT_SPREAD = { readings: 0.15, history: 0.25, profile: 0.3 };
+
+function weekdayFactors(operatingDays: number[]): number[] {
+  const open = new Set(operatingDays.length ? operatingDays : [1, 2, 3, 4, 5, 6, 7]);
+  const weight = 7 / open.size;
+  return [1, 2, 3, 4, 5, 6, 7].map((d) => (open.has(d) ? weight : 0));
+}
+
+type Interval = { from: Date; to: Date; days: number; rate: number };
+
+function deliveryIntervals(deliveries: ForecastDelivery[], now: Date): Interval[] {
+  const cutoff = now.getTime() - HISTORY_DAYS * MS_PER_DAY;
+  const sorted = deliveries
+    .filter((d) => d.at.getTime() >= cutoff && d.at <= now && d.litres > 0)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const out: Interval[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1].at;
+    const to = sorted[i].at;
+    const days = (to.getTime() - from.getTime()) / MS_PER_DAY;
+    if (days < 1) continue; // split / same-day deliveries
+    out.push({ from, to, days, rate: sorted[i].litres / days });
+  }
+  return out;
+}
+
+/** Days of the interval falling in each calendar month (UTC). */
+function daysPerMonth(iv: Interval): number[] {
+  const out = new Array(12).fill(0);
+  let cursor = iv.from.getTime();
+  const end = iv.to.getTime();
+  while (cursor < end) {
+    const d = new Date(cursor);
+    const next = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+    const sliceEnd = Math.min(next, end);
+    out[d.getUTCMonth()] += (sliceEnd - cursor) / MS_PER_DAY;
+    cursor = sliceEnd;
+  }
+  return out;
+}
+
+/**
+ * Average litres per calendar day over the delivery history, or null with
+ * fewer than two deliveries a day or more apart.
+ */
+export function historyDailyRate(
+  deliveries: ForecastDelivery[],
+  now: Date = new Date()
+): number | null {
+  const intervals = deliveryIntervals(deliveries, now);
+  const days = intervals.reduce((s, iv) => s + iv.days, 0);
+  return days ? intervals.reduce((s, iv) => s + iv.rate * iv.days, 0) / days : null;
+}
+
+function seasonalFactors(intervals: Interval[], base: number): number[] {
+  const litres = new Array(12).fill(0);
+  const days = new Array(12).fill(0);
+  for (const iv of intervals) {
+    daysPerMonth(iv).forEach((d, m) => {
+      days[m] += d;
+      litres[m] += d * iv.rate;
+    });
+  }
+
+  const raw = days.map((d, m) => {
+    if (!d || !base) return 1;
+    const factor = litres[m] / d / base;
+    return (d * factor + SEASON_PRIOR_DAYS) / (d + SEASON_PRIOR_DAYS);
+  });
+  const mean = raw.reduce((a, b) => a + b, 0) / 12;
+  return raw.map((f) => f / mean);
+}
+
+/** Weighted spread of the interval rates once seasonality is taken out. */
+function rateSpread(intervals: Interval[], monthFactors: number[]): number | null {
+  if (intervals.length < 3) return null;
+
+  const adjusted = intervals.map((iv) => {
+    const perMonth = daysPerMonth(iv);
+    const season =
+      perMonth.reduce((sum, d, m) => sum + d * monthFactors[m], 0) / iv.days;
+    return { rate: iv.rate / (season || 1), weight: iv.days };
+  });
+  const totalWeight = adjusted.reduce((s, a) => s + a.weight, 0);
+  const mean = adjusted.reduce((s, a) => s + a.rate * a.weight, 0) / totalWeight;
+  if (!mean) return null;
+  const variance =
+    adjusted.reduce((s, a) => s + a.weight * (a.rate - mean) ** 2, 0) / totalWeight;
+  return Math.sqrt(variance) / mean;
+}
+
+/** Fractional days from `now` until `litres` have been used at `scale`. */
+function daysUntilEmpty(
+  litres: number,
+  dailyAt: (day: Date) => number,
+  now: Date,
+  scale: number
+): number | null {
+  if (litres <= 0) return 0;
+  let left = litres;
+  for (let i = 0; i < HORIZON_DAYS; i++) {
+    const use = dailyAt(new Date(now.getTime() + i * MS_PER_DAY)) * scale;
+    if (use >= left) return i + (use ? left / use : 0);
+    left -= use;
+  }
+  return null;
+}
+
+export function forecastConsumption(args: {
+  deliveries: ForecastDelivery[];
+  /** estimated litres in the tank right now */
+  currentLitres: number;
+  operatingDays?: number[];
+  /** litres per operating day learned from dip readings, if any */
+  learnedDailyUseL?: number | null;
+  /** declared monthly consumption, used when there is no history */
+  monthlyConsumptionL?: number | null;
+  now?: Date;
+}): ConsumptionForecast | null {
+  const now = args.now ?? new Date();
+  const operatingDays = args.operatingDays?.length
+    ? args.operatingDays
+    : [1, 2, 3, 4, 5, 6, 7];
+  const weekday = weekdayFactors(operatingDays);
+
+  const intervals = deliveryIntervals(args.deliveries, now);
+  const historyRate = historyDailyRate(args.deliveries, now) ?? 0;
+
+  let method: ConsumptionForecast["method"];
+  let base: number;
+  if (args.learnedDailyUseL) {
+    method = "readings";
+    base = (args.learnedDailyUseL * operatingDays.length) / 7;
+  } else if (historyRate) {
+    method = "history";
+    base = historyRate;
+  } else if (args.monthlyConsumptionL) {
+    method = "profile";
+    base = args.monthlyConsumptionL / 30;
+  } else {
+    return null;
+  }
+
+  const monthFactors = historyRate
+    ? seasonalFactors(intervals, historyRate)
+    : new Array(12).fill(1);
+  const measured = rateSpread(intervals, monthFactors);
+  const spread = Math.min(Math.max(measured ?? DEFAULT_SPREAD[method], 0.05), 0.6);
+
+  const dailyAt = (day: Date) =>
+    base * weekday[(day.getUTCDay() + 6) % 7] * monthFactors[day.getUTCMonth()];
+
+  const toDate = (days: number | null) =>
+    days == null ? null : new Date(now.getTime() + days * MS_PER_DAY).toISOString();
+
+  const expected = daysUntilEmpty(args.currentLitres, dailyAt, now, 1);
+  // burning faster -> earlier run-out
+  const early = daysUntilEmpty(args.currentLitres, dailyAt, now, 1 + spread);
+  const late = daysUntilEmpty(args.currentLitres, dailyAt, now, 1 - spread);
+
+  const confidence: ConsumptionForecast["confidence"] =
+    method === "profile" || intervals.length < 3
+      ? "low"
+      : intervals.length >= 6 && spread < 0.2
+      ? "high"
+      : "medium";
+
+  return {
+    baseDailyL: base,
+    method,
+    intervals: intervals.length,
+    weekdayFactors: weekday,
+    monthFactors,
+    runOutDate: toDate(expected),
+    runOutEarliest: toDate(early),
+    runOutLatest: toDate(late),
+    daysToRunOut: expected,
+    confidence,
+  };
+}
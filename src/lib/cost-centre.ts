@@ -2,7 +2,7 @@
 // Build your 5-character Cost Centre code from a UK postcode.
 // Format: "E" + [Region N/S/E/W/G] + [first 3 chars of outward postcode]
 
-type Region = "N" | "S" | "E" | "W" | "G";
+export type Region = "N" | "S" | "E" | "W" | "G";
 
 // --- 1) DEFINE YOUR REGION GROUPS BASED ON YOUR LISTS ---
 
@@ -42,7 +42,7 @@ const WEST_PREFIXES = new Set<string>([
 // --- 2) SMALL HELPERS TO WORK WITH POSTCODES ---
 
 // Get outward part of postcode: e.g. "CM8" from "CM8 6ED"
-function getOutwardPart(postcode: string): string {
+export function getOutwardPart(postcode: string): string {
   const clean = postcode.toUpperCase().trim();
   const parts = clean.split(/\s+/);
   return parts[0] || "";
@@ -75,6 +75,12 @@ function lookupRegion(outward: string): Region {
   return "G";
 }
 
+// Region letter for a full postcode (used by delivery pricing zones too)
+export function getRegionFromPostcode(postcode: string): Region {
+  if (!postcode) return "G";
+  return lookupRegion(getOutwardPart(postcode));
+}
+
 // --- 3) MAIN FUNCTION: THIS IS WHAT OTHER CODE WILL CALL ---
 
 export function buildCostCentreFromPostcode(postcode: string): string | null {
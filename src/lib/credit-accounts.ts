@@ -0,0 +1,336 @@
+// src/lib/credit-accounts.ts
+// Pay-on-account / credit terms (public.credit_accounts).
+//
+// Approved business customers get a credit limit and payment terms. An
+// order placed on account skips Stripe: approve_order_on_account puts it
+// in status "approved_on_account" with a payment_due_date (atomically
+// against the limit), then it is invoiced with the due date, handed to
+// the refinery and queued for Xero like a paid order. It counts towards
+// the outstanding balance until an admin settles it (status "paid").
+//
+//   terms_basis "invoice"    due terms_days after the invoice date
+//               "month_end"  due terms_days after the end of that month
+
+import supabaseAdmin from "./supabaseAdmin";
+import { addDays, londonNow } from "./delivery-calendar";
+import { confirmDeliveryBooking } from "./delivery-capacity";
+import { recordOrderEvent, transitionOrder } from "./order-lifecycle";
+
+export type TermsBasis = "invoice" | "month_end";
+
+export type CreditAccount = {
+  id: string;
+  userEmail: string;
+  creditLimitPence: number;
+  termsDays: number;
+  termsBasis: TermsBasis;
+  status: "active" | "suspended";
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  outstandingPence: number;
+  overduePence: number;
+  openInvoices: number;
+  /** limit - outstanding, never below 0 */
+  availablePence: number;
+};
+
+export type CreditAccountInput = {
+  email?: string;
+  creditLimit?: number | string;
+  termsDays?: number | string;
+  termsBasis?: string;
+  status?: string;
+  note?: string | null;
+};
+
+export const CREDIT_ACCOUNT_COLUMNS =
+  "id,user_email,credit_limit_pence,terms_days,terms_basis,status,note,created_by,created_at";
+
+export function creditAccountFromRow(r: any, balance?: any): CreditAccount {
+  const limit = Number(r.credit_limit_pence) || 0;
+  const outstanding = Number(balance?.outstanding_pence) || 0;
+  return {
+    id: r.id,
+    userEmail: String(r.user_email || "").toLowerCase(),
+    creditLimitPence: limit,
+    termsDays: Number(r.terms_days) || 0,
+    termsBasis: r.terms_basis === "month_end" ? "month_end" : "invoice",
+    status: r.status === "suspended" ? "suspended" : "active",
+    note: r.note ?? null,
+    createdBy: r.created_by ?? null,
+    createdAt: r.created_at,
+    outstandingPence: outstanding,
+    overduePence: Number(balance?.overdue_pence) || 0,
+    openInvoices: Number(balance?.open_invoices) || 0,
+    availablePence: Math.max(limit - outstanding, 0),
+  };
+}
+
+/** Validates admin input (credit limit in pounds). */
+export function creditAccountInputToRow(
+  input: CreditAccountInput
+): { ok: true; row: Record<string, any> } | { ok: false; error: string } {
+  const email = String(input.email || "").trim().toLowerCase();
+  if (!email || !email.includes("@")) {
+    return { ok: false, error: "A valid customer email is required" };
+  }
+
+  const limit = Number(input.creditLimit);
+  if (!Number.isFinite(limit) || limit < 0) {
+    return { ok: false, error: "creditLimit must be 0 or more (GBP)" };
+  }
+
+  const days = input.termsDays == null || input.termsDays === "" ? 30 : Number(input.termsDays);
+  if (!Number.isInteger(days) || days < 0 || days > 120) {
+    return { ok: false, error: "termsDays must be 0 to 120" };
+  }
+
+  const basis = input.termsBasis || "invoice";
+  if (basis !== "invoice" && basis !== "month_end") {
+    return { ok: false, error: "termsBasis must be invoice or month_end" };
+  }
+
+  const status = input.status || "active";
+  if (status !== "active" && status !== "suspended") {
+    return { ok: false, error: "status must be active or suspended" };
+  }
+
+  return {
+    ok: true,
+    row: {
+      user_email: email,
+      credit_limit_pence: Math.round(limit * 100),
+      terms_days: days,
+      terms_basis: basis,
+      status,
+      note: input.note?.trim() || null,
+    },
+  };
+}
+
+async function loadBalances(ids: string[]): Promise<Map<string, any>> {
+  const out = new Map<string, any>();
+  if (!ids.length) return out;
+  const { data, error } = await supabaseAdmin
+    .from("credit_account_balances")
+    .select("credit_account_id,outstanding_pence,overdue_pence,open_invoices")
+    .in("credit_account_id", ids);
+  if (error) throw new Error(error.message);
+  for (const b of data || []) out.set((b as any).credit_account_id, b);
+  return out;
+}
+
+/** The customer's credit account with its balance, if they have one. */
+export async function loadCreditAccount(email: string): Promise<CreditAccount | null> {
+  const { data, error } = await supabaseAdmin
+    .from("credit_accounts")
+    .select(CREDIT_ACCOUNT_COLUMNS)
+    .eq("user_email", email.toLowerCase())
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  const balances = await loadBalances([(data as any).id]);
+  return creditAccountFromRow(data, balances.get((data as any).id));
+}
+
+/** Every credit account with its balance (admin). */
+export async function listCreditAccounts(): Promise<CreditAccount[]> {
+  const { data, error } = await supabaseAdmin
+    .from("credit_accounts")
+    .select(CREDIT_ACCOUNT_COLUMNS)
+    .order("user_email", { ascending: true });
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as any[];
+  const balances = await loadBalances(rows.map((r) => r.id));
+  return rows.map((r) => creditAccountFromRow(r, balances.get(r.id)));
+}
+
+/** Due date (YYYY-MM-DD) for an invoice dated `invoiceDate`. */
+export function creditDueDate(
+  account: Pick<CreditAccount, "termsDays" | "termsBasis">,
+  invoiceDate: string
+): string {
+  if (account.termsBasis === "month_end") {
+    const [y, m] = invoiceDate.split("-").map(Number);
+    // day 0 of next month = last day of this month
+    const monthEnd = new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+    return addDays(monthEnd, account.termsDays);
+  }
+  return addDays(invoiceDate, account.termsDays);
+}
+
+const REFUSAL_MESSAGE: Record<string, string> = {
+  no_account: "No credit account on file",
+  suspended: "Your credit account is on hold – please pay by card",
+  overdue:
+    "Your credit account has overdue invoices – please settle them or pay by card",
+  over_limit: "This order is over your available credit – please pay by card",
+  order_not_pending: "Order is no longer pending",
+};
+
+export type OnAccountResult =
+  | { ok: true; dueDate: string; availablePence: number }
+  | { ok: false; reason: string; message: string; availablePence?: number };
+
+/**
+ * Moves a pending order onto the account (within the limit) and confirms
+ * its delivery slot. Call issueOnAccountInvoice afterwards.
+ */
+export async function approveOrderOnAccount(args: {
+  orderId: string;
+  account: CreditAccount;
+  now?: Date;
+}): Promise<OnAccountResult> {
+  const dueDate = creditDueDate(args.account, londonNow(args.now).date);
+
+  const { data, error } = await supabaseAdmin.rpc("approve_order_on_account", {
+    p_order_id: args.orderId,
+    p_account_id: args.account.id,
+    p_due_date: dueDate,
+  });
+  if (error) throw new Error(`On-account approval failed: ${error.message}`);
+
+  const r = (data || {}) as any;
+  if (!r.ok) {
+    const reason = String(r.reason || "refused");
+    return {
+      ok: false,
+      reason,
+      message: REFUSAL_MESSAGE[reason] || "Order can't be put on account",
+      availablePence: r.available_pence ?? undefined,
+    };
+  }
+
+  // confirmed: the lifecycle treats an on-account approval like payment
+  await transitionOrder({
+    orderId: args.orderId,
+    to: "paid",
+    actor: args.account.userEmail,
+    reason: "Approved on credit account",
+    meta: { payment_due_date: dueDate },
+  });
+  await confirmDeliveryBooking(args.orderId);
+  return { ok: true, dueDate, availablePence: Number(r.available_pence) || 0 };
+}
+
+const INVOICE_BASE =
+  (process.env.SELF_BASE_URL || "").replace(/\/+$/, "") ||
+  (process.env.SITE_URL || process.env.NEXT_PUBLIC_SITE_URL || "").replace(
+    /\/+$/,
+    ""
+  ) ||
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "");
+
+/**
+ * Emails the invoice (with its due date, no receipt) through
+ * /api/invoices/create and marks the order ready for the refinery – the
+ * on-account equivalent of what the Stripe webhook does once paid.
+ */
+export async function issueOnAccountInvoice(orderId: string): Promise<void> {
+  const { data: o, error } = await supabaseAdmin
+    .from("orders")
+    .select(
+      "id,product,fuel,litres,unit_price_pence,total_pence,delivery_surcharge_pence,price_zone_name,volume_tier_name,volume_discount_pence,name,address_line1,address_line2,city,postcode,user_email,created_at,payment_due_date"
+    )
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error || !o) throw new Error(error?.message || "Order not found");
+
+  if (!process.env.INVOICE_SECRET) throw new Error("INVOICE_SECRET not set");
+  if (!INVOICE_BASE) throw new Error("SELF_BASE_URL / SITE_URL not set");
+
+  const litres = Number(o.litres) || 0;
+  const surchargePence = Number(o.delivery_surcharge_pence) || 0;
+  const items = [
+    {
+      description: o.product || o.fuel || "Fuel order",
+      litres,
+      total: (Number(o.total_pence) - surchargePence) / 100,
+    },
+    ...(surchargePence > 0
+      ? [
+          {
+            description: `Delivery surcharge${
+              o.price_zone_name ? ` (${o.price_zone_name})` : ""
+            }`,
+            litres: 1,
+            total: surchargePence / 100,
+          },
+        ]
+      : []),
+  ];
+
+  const dueLabel = new Date(`${o.payment_due_date}T12:00:00Z`).toLocaleDateString(
+    "en-GB",
+    { day: "numeric", month: "long", year: "numeric" }
+  );
+
+  const resp = await fetch(`${INVOICE_BASE}/api/invoices/create`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-invoice-secret": process.env.INVOICE_SECRET,
+    },
+    body: JSON.stringify({
+      customer: {
+        name: o.name,
+        email: o.user_email,
+        address_line1: o.address_line1,
+        address_line2: o.address_line2,
+        city: o.city,
+        postcode: o.postcode,
+      },
+      items,
+      currency: "GBP",
+      meta: {
+        orderId: o.id,
+        dateISO: o.created_at,
+        dueDateISO: `${o.payment_due_date}T12:00:00.000Z`,
+        notes: `On account – payment due by ${dueLabel}.`,
+        ...(o.volume_tier_name
+          ? {
+              priceBand: o.volume_tier_name,
+              priceBandSaving: Number(o.volume_discount_pence || 0) / 100,
+            }
+          : {}),
+      },
+    }),
+  });
+  const json = await resp.json().catch(() => ({}));
+  if (!resp.ok) throw new Error(json?.error || `Invoice route error: ${resp.status}`);
+
+  await supabaseAdmin
+    .from("orders")
+    .update({
+      refinery_notified_at: new Date().toISOString(),
+      refinery_notification_status: "ready",
+      refinery_invoice_storage_path: json?.storagePath ?? null,
+    } as any)
+    .eq("id", orderId);
+}
+
+/** Payment received for an on-account order – takes it off the balance. */
+export async function settleOnAccountOrder(
+  orderId: string,
+  actor: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .update({ status: "paid", paid_at: now, account_settled_at: now } as any)
+    .eq("id", orderId)
+    .eq("status", "approved_on_account")
+    .select("id")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (data) {
+    await recordOrderEvent({
+      orderId,
+      event: "payment",
+      actor,
+      reason: "On-account invoice paid",
+    });
+  }
+  return !!data;
+}
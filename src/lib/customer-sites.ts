@@ -0,0 +1,173 @@
+// src/lib/customer-sites.ts
+// Customer delivery sites (public.customer_sites).
+//
+// A site is a named delivery address with access notes and a site
+// contact. Checkout takes a site_id and copies the address onto the order;
+// the site's tanks (lib/tanks.ts) carry the fuel / usage details.
+
+import supabaseAdmin from "./supabaseAdmin";
+
+export type CustomerSite = {
+  id: string;
+  userEmail: string;
+  name: string;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  postcode: string;
+  country: string;
+  accessNotes: string | null;
+  contactName: string | null;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  contractId: string | null;
+};
+
+/** Editable fields, as sent by the dashboards / order page. */
+export type CustomerSiteInput = {
+  name?: string;
+  addressLine1?: string;
+  addressLine2?: string | null;
+  city?: string;
+  postcode?: string;
+  country?: string | null;
+  accessNotes?: string | null;
+  contactName?: string | null;
+  contactPhone?: string | null;
+  contactEmail?: string | null;
+};
+
+export const SITE_COLUMNS =
+  "id,user_email,name,address_line1,address_line2,city,postcode,country,access_notes,contact_name,contact_phone,contact_email,contract_id";
+
+export function siteFromRow(r: any): CustomerSite {
+  return {
+    id: r.id,
+    userEmail: String(r.user_email || "").toLowerCase(),
+    name: r.name,
+    addressLine1: r.address_line1,
+    addressLine2: r.address_line2 ?? null,
+    city: r.city,
+    postcode: r.postcode,
+    country: r.country || "UK",
+    accessNotes: r.access_notes ?? null,
+    contactName: r.contact_name ?? null,
+    contactPhone: r.contact_phone ?? null,
+    contactEmail: r.contact_email ?? null,
+    contractId: r.contract_id ?? null,
+  };
+}
+
+/** One-line address, e.g. for emails and the refinery PDF. */
+export function siteAddressLine(site: CustomerSite): string {
+  return [site.addressLine1, site.addressLine2, site.city, site.postcode]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** "cm86ed" -> "CM8 6ED" */
+function formatPostcode(pc: string): string {
+  const v = pc.replace(/\s+/g, "").toUpperCase();
+  return v.length >= 5 ? `${v.slice(0, -3)} ${v.slice(-3)}` : v;
+}
+
+const text = (v: unknown, max = 200) => {
+  const s = v == null ? "" : String(v).trim();
+  return s ? s.slice(0, max) : null;
+};
+
+/**
+ * Validate + map input to table columns. `partial` allows updates that
+ * only touch some fields. Returns an error message instead of throwing.
+ */
+export function siteInputToRow(
+  input: CustomerSiteInput,
+  partial = false
+): { ok: true; row: Record<string, any> } | { ok: false; error: string } {
+  const row: Record<string, any> = {};
+
+  const required: [keyof CustomerSiteInput, string][] = [
+    ["name", "name"],
+    ["addressLine1", "address_line1"],
+    ["city", "city"],
+    ["postcode", "postcode"],
+  ];
+  for (const [key, col] of required) {
+    if (partial && input[key] === undefined) continue;
+    const v = text(input[key]);
+    if (!v) return { ok: false, error: `Missing ${key}` };
+    row[col] = col === "postcode" ? formatPostcode(v) : v;
+  }
+
+  const optional: [keyof CustomerSiteInput, string, number][] = [
+    ["addressLine2", "address_line2", 200],
+    ["country", "country", 60],
+    ["accessNotes", "access_notes", 1000],
+    ["contactName", "contact_name", 200],
+    ["contactPhone", "contact_phone", 50],
+    ["contactEmail", "contact_email", 200],
+  ];
+  for (const [key, col, max] of optional) {
+    if (input[key] === undefined) continue;
+    row[col] = text(input[key], max);
+  }
+  if (!partial && !row.country) row.country = "UK";
+
+  return { ok: true, row };
+}
+
+export async function loadSitesForCustomer(email: string): Promise<CustomerSite[]> {
+  const { data, error } = await supabaseAdmin
+    .from("customer_sites")
+    .select(SITE_COLUMNS)
+    .eq("user_email", email.toLowerCase())
+    .is("archived_at", null)
+    .order("name", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []).map(siteFromRow);
+}
+
+/** A live site, only if it belongs to `email`. */
+export async function loadSiteForCustomer(
+  siteId: string,
+  email: string
+): Promise<CustomerSite | null> {
+  const { data, error } = await supabaseAdmin
+    .from("customer_sites")
+    .select(SITE_COLUMNS)
+    .eq("id", siteId)
+    .eq("user_email", email.toLowerCase())
+    .is("archived_at", null)
+    .maybeSingle();
+  if (error) {
+    console.error("[customer-sites] load failed:", error.message);
+    return null;
+  }
+  return data ? siteFromRow(data) : null;
+}
+
+/** Any site by id (admin / server use, e.g. refinery emails). */
+export async function loadSiteById(siteId: string): Promise<CustomerSite | null> {
+  const { data } = await supabaseAdmin
+    .from("customer_sites")
+    .select(SITE_COLUMNS)
+    .eq("id", siteId)
+    .maybeSingle();
+  return data ? siteFromRow(data) : null;
+}
+
+export async function createSite(
+  email: string,
+  input: CustomerSiteInput
+): Promise<{ ok: true; site: CustomerSite } | { ok: false; error: string }> {
+  const mapped = siteInputToRow(input);
+  if (!mapped.ok) return mapped;
+
+  const { data, error } = await supabaseAdmin
+    .from("customer_sites")
+    .insert({ ...mapped.row, user_email: email.toLowerCase() } as any)
+    .select(SITE_COLUMNS)
+    .single();
+  if (error) return { ok: false, error: error.message };
+  return { ok: true, site: siteFromRow(data) };
+}
@@ -0,0 +1,482 @@
+// src/lib/delivery-calendar.ts
+// Delivery calendar shared by the order page (browser) and the checkout
+// API, so keep it free of server-only imports – the Supabase client is
+// passed in.
+//
+// Rules:
+// - Deliveries Mon–Fri, excluding UK bank holidays for the delivery
+//   postcode's nation and admin blackout days (public.delivery_blackouts).
+// - Orders are processed 09:00–17:00 Europe/London on delivery days. An
+//   order placed outside those hours counts as received on the next one.
+// - Earliest delivery = lead time (working days) after the processing day.
+//
+// All dates are "YYYY-MM-DD" strings; arithmetic is done in UTC so the
+// browser's timezone never shifts a day.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getRegionFromPostcode } from "./cost-centre";
+
+export type Nation = "england-and-wales" | "scotland" | "northern-ireland";
+
+export type DeliveryCalendarConfig = {
+  /** processing window in Europe/London, "HH:MM" */
+  openTime: string;
+  cutoffTime: string;
+  /** working days between the processing day and the earliest delivery */
+  leadDays: number;
+  /** how far ahead a delivery can be booked (calendar days) */
+  maxAdvanceDays: number;
+};
+
+export type DeliveryBlackout = {
+  date: string;
+  /** N / S / E / W / G, or null for everywhere */
+  region: string | null;
+  reason: string | null;
+};
+
+/** What's left on a day with a capacity limit (null = no limit on that measure). */
+export type DayCapacity = {
+  remainingLitres: number | null;
+  remainingDrops: number | null;
+};
+
+export type DeliveryCalendar = {
+  nation: Nation;
+  region: string | null;
+  config: DeliveryCalendarConfig;
+  blackouts: DeliveryBlackout[];
+  /** per-day remaining capacity (lib/delivery-capacity); missing = unlimited */
+  capacity?: Record<string, DayCapacity>;
+};
+
+export type DeliveryDateCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      reason:
+        | "invalid"
+        | "weekend"
+        | "bank_holiday"
+        | "blackout"
+        | "too_soon"
+        | "too_far"
+        | "full";
+      message: string;
+      earliest: string;
+    };
+
+export const DEFAULT_DELIVERY_CONFIG: DeliveryCalendarConfig = {
+  openTime: "09:00",
+  cutoffTime: "17:00",
+  leadDays: 3,
+  maxAdvanceDays: 90,
+};
+
+// gov.uk bank holidays (including substitute days). Extend each year.
+const BANK_HOLIDAYS: Record<Nation, Record<string, string>> = {
+  "england-and-wales": {
+    "2025-01-01": "New Year's Day",
+    "2025-04-18": "Good Friday",
+    "2025-04-21": "Easter Monday",
+    "2025-05-05": "Early May bank holiday",
+    "2025-05-26": "Spring bank holiday",
+    "2025-08-25": "Summer bank holiday",
+    "2025-12-25": "Christmas Day",
+    "2025-12-26": "Boxing Day",
+    "2026-01-01": "New Year's Day",
+    "2026-04-03": "Good Friday",
+    "2026-04-06": "Easter Monday",
+    "2026-05-04": "Early May bank holiday",
+    "2026-05-25": "Spring bank holiday",
+    "2026-08-31": "Summer bank holiday",
+    "2026-12-25": "Christmas Day",
+    "2026-12-28": "Boxing Day (substitute day)",
+    "2027-01-01": "New Year's Day",
+    "2027-03-26": "Good Friday",
+    "2027-03-29": "Easter Monday",
+    "2027-05-03": "Early May bank holiday",
+    "2027-05-31": "Spring bank holiday",
+    "2027-08-30": "Summer bank holiday",
+    "2027-12-27": "Christmas Day (substitute day)",
+    "2027-12-28": "Boxing Day (substitute day)",
+    "2028-01-03": "New Year's Day (substitute day)",
+    "2028-04-14": "Good Friday",
+    "2028-04-17": "Easter Monday",
+    "2028-05-01": "Early May bank holiday",
+    "2028-05-29": "Spring bank holiday",
+    "2028-08-28": "Summer bank holiday",
+    "2028-12-25": "Christmas Day",
+    "2028-12-26": "Boxing Day",
+  },
+  scotland: {
+    "2025-01-01": "New Year's Day",
+    "2025-01-02": "2nd January",
+    "2025-04-18": "Good Friday",
+    "2025-05-05": "Early May bank holiday",
+    "2025-05-26": "Spring bank holiday",
+    "2025-08-04": "Summer bank holiday",
+    "2025-12-01": "St Andrew's Day (substitute day)",
+    "2025-12-25": "Christmas Day",
+    "2025-12-26": "Boxing Day",
+    "2026-01-01": "New Year's Day",
+    "2026-01-02": "2nd January",
+    "2026-04-03": "Good Friday",
+    "2026-05-04": "Early May bank holiday",
+    "2026-05-25": "Spring bank holiday",
+    "2026-08-03": "Summer bank holiday",
+    "2026-11-30": "St Andrew's Day",
+    "2026-12-25": "Christmas Day",
+    "2026-12-28": "Boxing Day (substitute day)",
+    "2027-01-01": "New Year's Day",
+    "2027-01-04": "2nd January (substitute day)",
+    "2027-03-26": "Good Friday",
+    "2027-05-03": "Early May bank holiday",
+    "2027-05-31": "Spring bank holiday",
+    "2027-08-02": "Summer bank holiday",
+    "2027-11-30": "St Andrew's Day",
+    "2027-12-27": "Christmas Day (substitute day)",
+    "2027-12-28": "Boxing Day (substitute day)",
+    "2028-01-03": "New Year's Day (substitute day)",
+    "2028-01-04": "2nd January (substitute day)",
+    "2028-04-14": "Good Friday",
+    "2028-05-01": "Early May bank holiday",
+    "2028-05-29": "Spring bank holiday",
+    "2028-08-07": "Summer bank holiday",
+    "2028-11-30": "St Andrew's Day",
+    "2028-12-25": "Christmas Day",
+    "2028-12-26": "Boxing Day",
+  },
+  "northern-ireland": {
+    "2025-01-01": "New Year's Day",
+    "2025-03-17": "St Patrick's Day",
+    "2025-04-18": "Good Friday",
+    "2025-04-21": "Easter Monday",
+    "2025-05-05": "Early May bank holiday",
+    "2025-05-26": "Spring bank holiday",
+    "2025-07-14": "Battle of the Boyne (substitute day)",
+    "2025-08-25": "Summer bank holiday",
+    "2025-12-25": "Christmas Day",
+    "2025-12-26": "Boxing Day",
+    "2026-01-01": "New Year's Day",
+    "2026-03-17": "St Patrick's Day",
+    "2026-04-03": "Good Friday",
+    "2026-04-06": "Easter Monday",
+    "2026-05-04": "Early May bank holiday",
+    "2026-05-25": "Spring bank holiday",
+    "2026-07-13": "Battle of the Boyne (substitute day)",
+    "2026-08-31": "Summer bank holiday",
+    "2026-12-25": "Christmas Day",
+    "2026-12-28": "Boxing Day (substitute day)",
+    "2027-01-01": "New Year's Day",
+    "2027-03-17": "St Patrick's Day",
+    "2027-03-26": "Good Friday",
+    "2027-03-29": "Easter Monday",
+    "2027-05-03": "Early May bank holiday",
+    "2027-05-31": "Spring bank holiday",
+    "2027-07-12": "Battle of the Boyne",
+    "2027-08-30": "Summer bank holiday",
+    "2027-12-27": "Christmas Day (substitute day)",
+    "2027-12-28": "Boxing Day (substitute day)",
+    "2028-01-03": "New Year's Day (substitute day)",
+    "2028-03-17": "St Patrick's Day",
+    "2028-04-14": "Good Friday",
+    "2028-04-17": "Easter Monday",
+    "2028-05-01": "Early May bank holiday",
+    "2028-05-29": "Spring bank holiday",
+    "2028-07-12": "Battle of the Boyne",
+    "2028-08-28": "Summer bank holiday",
+    "2028-12-25": "Christmas Day",
+    "2028-12-26": "Boxing Day",
+  },
+};
+
+// Postcode areas that are (mostly) in Scotland
+const SCOTTISH_AREAS = new Set([
+  "AB", "DD", "DG", "EH", "FK", "G", "HS", "IV", "KA",
+  "KW", "KY", "ML", "PA", "PH", "TD", "ZE",
+]);
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/* ---------- date helpers ---------- */
+
+function toUtc(ymd: string): Date {
+  return new Date(`${ymd}T00:00:00Z`);
+}
+
+function fromUtc(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function addDays(ymd: string, days: number): string {
+  const d = toUtc(ymd);
+  d.setUTCDate(d.getUTCDate() + days);
+  return fromUtc(d);
+}
+
+function minutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+/** Current date and minutes-past-midnight in Europe/London. */
+export function londonNow(now: Date = new Date()): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: "Europe/London",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (t: string) => parts.find((p) => p.type === t)?.value || "00";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/* ---------- calendar ---------- */
+
+export function nationForPostcode(postcode: string | null | undefined): Nation {
+  const area = String(postcode || "")
+    .toUpperCase()
+    .trim()
+    .match(/^[A-Z]{1,2}/)?.[0];
+  if (!area) return "england-and-wales";
+  if (area === "BT") return "northern-ireland";
+  if (SCOTTISH_AREAS.has(area)) return "scotland";
+  return "england-and-wales";
+}
+
+export function bankHolidayName(nation: Nation, ymd: string): string | null {
+  return BANK_HOLIDAYS[nation][ymd] ?? null;
+}
+
+function blackoutFor(cal: DeliveryCalendar, ymd: string): DeliveryBlackout | null {
+  return (
+    cal.blackouts.find(
+      (b) => b.date === ymd && (!b.region || b.region === cal.region)
+    ) ?? null
+  );
+}
+
+/** Why a day can't take deliveries, or null if it can. */
+export function closedReason(
+  cal: DeliveryCalendar,
+  ymd: string
+): { reason: "weekend" | "bank_holiday" | "blackout"; label: string } | null {
+  const dow = toUtc(ymd).getUTCDay();
+  if (dow === 0 || dow === 6) return { reason: "weekend", label: "Weekend" };
+
+  const holiday = bankHolidayName(cal.nation, ymd);
+  if (holiday) return { reason: "bank_holiday", label: holiday };
+
+  const blackout = blackoutFor(cal, ymd);
+  if (blackout) {
+    return { reason: "blackout", label: blackout.reason || "No deliveries" };
+  }
+  return null;
+}
+
+export function isDeliveryDay(cal: DeliveryCalendar, ymd: string): boolean {
+  return closedReason(cal, ymd) == null;
+}
+
+function nextDeliveryDay(cal: DeliveryCalendar, ymd: string): string {
+  let d = addDays(ymd, 1);
+  // bounded so a misconfigured blackout list can't spin forever
+  for (let i = 0; i < 366 && !isDeliveryDay(cal, d); i++) d = addDays(d, 1);
+  return d;
+}
+
+/** Earliest bookable delivery date for an order placed at `now`. */
+export function earliestDeliveryDate(
+  cal: DeliveryCalendar,
+  now: Date = new Date()
+): string {
+  const london = londonNow(now);
+  let processing = london.date;
+
+  if (
+    !isDeliveryDay(cal, processing) ||
+    london.minutes < minutes(cal.config.openTime) ||
+    london.minutes >= minutes(cal.config.cutoffTime)
+  ) {
+    processing = nextDeliveryDay(cal, processing);
+  }
+
+  let d = processing;
+  for (let i = 0; i < cal.config.leadDays; i++) d = nextDeliveryDay(cal, d);
+  return d;
+}
+
+export function latestDeliveryDate(
+  cal: DeliveryCalendar,
+  now: Date = new Date()
+): string {
+  return addDays(londonNow(now).date, cal.config.maxAdvanceDays);
+}
+
+/** Non-delivery weekdays (holidays / blackouts) between two dates. */
+export function closedDaysBetween(
+  cal: DeliveryCalendar,
+  from: string,
+  to: string
+): { date: string; reason: "bank_holiday" | "blackout"; label: string }[] {
+  const out: { date: string; reason: "bank_holiday" | "blackout"; label: string }[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    const closed = closedReason(cal, d);
+    if (closed && closed.reason !== "weekend") {
+      out.push({ date: d, reason: closed.reason, label: closed.label });
+    }
+  }
+  return out;
+}
+
+function formatDay(ymd: string): string {
+  return toUtc(ymd).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+/** True when the day can't take another drop of `litres`. */
+export function isDayFull(cal: DeliveryCalendar, ymd: string, litres = 0): boolean {
+  const cap = cal.capacity?.[ymd];
+  if (!cap) return false;
+  if (cap.remainingDrops != null && cap.remainingDrops <= 0) return true;
+  if (cap.remainingLitres != null) {
+    return cap.remainingLitres <= 0 || cap.remainingLitres < litres;
+  }
+  return false;
+}
+
+export function checkDeliveryDate(
+  cal: DeliveryCalendar,
+  ymd: string,
+  opts: { now?: Date; litres?: number } = {}
+): DeliveryDateCheck {
+  const now = opts.now ?? new Date();
+  const earliest = earliestDeliveryDate(cal, now);
+
+  if (!DAY_RE.test(ymd || "") || Number.isNaN(toUtc(ymd).getTime())) {
+    return { ok: false, reason: "invalid", message: "Please choose a valid date.", earliest };
+  }
+
+  const closed = closedReason(cal, ymd);
+  if (closed?.reason === "weekend") {
+    return {
+      ok: false,
+      reason: "weekend",
+      message: "Deliveries are Monday to Friday only. Please choose a weekday.",
+      earliest,
+    };
+  }
+  if (closed) {
+    return {
+      ok: false,
+      reason: closed.reason,
+      message: `We can't deliver on ${formatDay(ymd)} (${closed.label}). Please choose another day.`,
+      earliest,
+    };
+  }
+
+  if (ymd < earliest) {
+    return {
+      ok: false,
+      reason: "too_soon",
+      message: `Earliest delivery is ${formatDay(earliest)} (${cal.config.leadDays} working days after the processing day).`,
+      earliest,
+    };
+  }
+
+  const latest = latestDeliveryDate(cal, now);
+  if (ymd > latest) {
+    return {
+      ok: false,
+      reason: "too_far",
+      message: `Deliveries can be booked up to ${formatDay(latest)}.`,
+      earliest,
+    };
+  }
+
+  if (isDayFull(cal, ymd, opts.litres ?? 0)) {
+    return {
+      ok: false,
+      reason: "full",
+      message: `${formatDay(ymd)} is fully booked. Please choose another day.`,
+      earliest,
+    };
+  }
+
+  return { ok: true };
+}
+
+/* ---------- server-side loading ---------- */
+
+function envNumber(name: string): number | null {
+  const raw = typeof process !== "undefined" ? process.env[name] : undefined;
+  const n = Number(raw);
+  return raw != null && raw !== "" && Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function envTime(name: string): string | null {
+  const raw = typeof process !== "undefined" ? process.env[name] : undefined;
+  return raw && /^\d{1,2}:\d{2}$/.test(raw) ? raw : null;
+}
+
+/**
+ * Config from env (server only):
+ *   DELIVERY_OPEN_TIME / DELIVERY_CUTOFF_TIME   "HH:MM" Europe/London
+ *   DELIVERY_LEAD_DAYS, DELIVERY_LEAD_DAYS_<REGION> (e.g. _G for remote)
+ *   DELIVERY_MAX_ADVANCE_DAYS
+ */
+export function deliveryConfigFromEnv(region?: string | null): DeliveryCalendarConfig {
+  const regionLead = region ? envNumber(`DELIVERY_LEAD_DAYS_${region}`) : null;
+  return {
+    openTime: envTime("DELIVERY_OPEN_TIME") ?? DEFAULT_DELIVERY_CONFIG.openTime,
+    cutoffTime: envTime("DELIVERY_CUTOFF_TIME") ?? DEFAULT_DELIVERY_CONFIG.cutoffTime,
+    leadDays: Math.round(
+      regionLead ?? envNumber("DELIVERY_LEAD_DAYS") ?? DEFAULT_DELIVERY_CONFIG.leadDays
+    ),
+    maxAdvanceDays: Math.round(
+      envNumber("DELIVERY_MAX_ADVANCE_DAYS") ?? DEFAULT_DELIVERY_CONFIG.maxAdvanceDays
+    ),
+  };
+}
+
+/**
+ * Calendar for a delivery postcode: nation (bank holidays), region
+ * (N/S/E/W/G, for regional blackouts) and blackouts from today on.
+ */
+export async function loadDeliveryCalendar(
+  supabase: SupabaseClient,
+  postcode: string | null | undefined
+): Promise<DeliveryCalendar> {
+  const region = postcode ? getRegionFromPostcode(postcode) : null;
+  const { data, error } = await supabase
+    .from("delivery_blackouts")
+    .select("date,region,reason")
+    .gte("date", londonNow().date)
+    .order("date", { ascending: true });
+
+  if (error) {
+    console.error("[delivery-calendar] blackouts load failed:", error.message);
+  }
+
+  return {
+    nation: nationForPostcode(postcode),
+    region,
+    config: deliveryConfigFromEnv(region),
+    blackouts: ((data || []) as any[]).map((b) => ({
+      date: String(b.date).slice(0, 10),
+      region: b.region ? String(b.region).toUpperCase() : null,
+      reason: b.reason ?? null,
+    })),
+  };
+}
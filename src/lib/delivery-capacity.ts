@@ -0,0 +1,197 @@
+// src/lib/delivery-capacity.ts
+// Tanker capacity per delivery day and region (N / S / E / W / G).
+//
+// Tables: public.delivery_capacity, public.delivery_bookings
+// Reservation goes through the reserve_delivery_slot() SQL function so
+// the capacity check and the insert happen under one lock.
+//
+// Booking lifecycle:
+//   held       checkout session created (expires with the session)
+//   confirmed  Stripe payment received (webhook)
+//   released   session expired, checkout cancelled or order cancelled
+
+import supabaseAdmin from "./supabaseAdmin";
+import { getRegionFromPostcode } from "./cost-centre";
+import type { DayCapacity } from "./delivery-calendar";
+
+type CapacityRow = {
+  region: string | null;
+  date: string | null;
+  max_litres: number | null;
+  max_drops: number | null;
+};
+
+export type ReserveResult =
+  | { ok: true; bookingId: string; region: string }
+  | {
+      ok: false;
+      reason: "full";
+      remainingLitres: number | null;
+      remainingDrops: number | null;
+    };
+
+// how long a slot is held while the customer is in Stripe Checkout – also
+// the session's expires_at, which Stripe wants 30 min – 24 h after the
+// session is created; the hold starts a little earlier, hence 35 min
+export function deliveryHoldMinutes(): number {
+  const raw = Number(process.env.DELIVERY_HOLD_MINUTES || "60");
+  if (!Number.isFinite(raw)) return 60;
+  return Math.min(Math.max(Math.round(raw), 35), 24 * 60);
+}
+
+export function deliveryRegion(postcode: string | null | undefined): string {
+  return getRegionFromPostcode(postcode || "");
+}
+
+/** Same precedence as reserve_delivery_slot(). */
+function pickCapacity(rows: CapacityRow[], region: string, date: string) {
+  const rank = (r: CapacityRow) =>
+    (r.region == null ? 2 : 0) + (r.date == null ? 1 : 0);
+  return (
+    rows
+      .filter(
+        (r) =>
+          (r.region == null || r.region === region) &&
+          (r.date == null || String(r.date).slice(0, 10) === date)
+      )
+      .sort((a, b) => rank(a) - rank(b))[0] ?? null
+  );
+}
+
+/**
+ * Remaining capacity per day for a region. Days without any configured
+ * limit are left out (unlimited).
+ */
+export async function loadRemainingCapacity(
+  region: string,
+  from: string,
+  to: string
+): Promise<Record<string, DayCapacity>> {
+  const [capRes, bookRes] = await Promise.all([
+    supabaseAdmin
+      .from("delivery_capacity")
+      .select("region,date,max_litres,max_drops")
+      .or(`region.is.null,region.eq.${region}`),
+    supabaseAdmin
+      .from("delivery_bookings")
+      .select("date,litres,status,expires_at")
+      .eq("region", region)
+      .gte("date", from)
+      .lte("date", to)
+      .neq("status", "released"),
+  ]);
+
+  if (capRes.error) {
+    console.error("[delivery-capacity] capacity load failed:", capRes.error.message);
+    return {};
+  }
+  const rows = (capRes.data || []) as CapacityRow[];
+  if (!rows.length) return {};
+
+  const now = Date.now();
+  const used = new Map<string, { litres: number; drops: number }>();
+  for (const b of (bookRes.data || []) as any[]) {
+    const live =
+      b.status === "confirmed" ||
+      (b.status === "held" && b.expires_at && new Date(b.expires_at).getTime() > now);
+    if (!live) continue;
+    const day = String(b.date).slice(0, 10);
+    const u = used.get(day) || { litres: 0, drops: 0 };
+    u.litres += Number(b.litres) || 0;
+    u.drops += 1;
+    used.set(day, u);
+  }
+
+  const out: Record<string, DayCapacity> = {};
+  for (
+    let d = new Date(`${from}T00:00:00Z`);
+    d.toISOString().slice(0, 10) <= to;
+    d.setUTCDate(d.getUTCDate() + 1)
+  ) {
+    const day = d.toISOString().slice(0, 10);
+    const cap = pickCapacity(rows, region, day);
+    if (!cap || (cap.max_litres == null && cap.max_drops == null)) continue;
+    const u = used.get(day) || { litres: 0, drops: 0 };
+    out[day] = {
+      remainingLitres:
+        cap.max_litres == null ? null : Math.max(cap.max_litres - u.litres, 0),
+      remainingDrops:
+        cap.max_drops == null ? null : Math.max(cap.max_drops - u.drops, 0),
+    };
+  }
+  return out;
+}
+
+/** Hold a slot for a checkout. Attach the order with attachBookingToOrder. */
+export async function reserveDeliverySlot(args: {
+  postcode: string;
+  date: string;
+  litres: number;
+  expiresAt: Date;
+  /** booking this one will replace (amendments) – not counted against the day */
+  replaces?: string | null;
+}): Promise<ReserveResult> {
+  const region = deliveryRegion(args.postcode);
+  const { data, error } = await supabaseAdmin.rpc("reserve_delivery_slot", {
+    p_region: region,
+    p_date: args.date,
+    p_litres: Math.max(1, Math.round(args.litres)),
+    p_expires_at: args.expiresAt.toISOString(),
+    p_replaces: args.replaces ?? null,
+  });
+  if (error) throw new Error(`Delivery slot reservation failed: ${error.message}`);
+
+  const r = (data || {}) as any;
+  if (!r.ok) {
+    return {
+      ok: false,
+      reason: "full",
+      remainingLitres: r.remaining_litres ?? null,
+      remainingDrops: r.remaining_drops ?? null,
+    };
+  }
+  return { ok: true, bookingId: String(r.booking_id), region };
+}
+
+export async function attachBookingToOrder(bookingId: string, orderId: string) {
+  const { error } = await supabaseAdmin
+    .from("delivery_bookings")
+    .update({ order_id: orderId } as any)
+    .eq("id", bookingId);
+  if (error) console.error("[delivery-capacity] attach failed:", error.message);
+}
+
+/** Paid – keep the slot for good. */
+export async function confirmDeliveryBooking(orderId: string | null | undefined) {
+  if (!orderId) return;
+  const { error } = await supabaseAdmin
+    .from("delivery_bookings")
+    .update({ status: "confirmed", confirmed_at: new Date().toISOString() } as any)
+    .eq("order_id", orderId)
+    .eq("status", "held");
+  if (error) console.error("[delivery-capacity] confirm failed:", error.message);
+}
+
+/** Give the slot back (by booking id or by order). Confirmed slots are
+ *  only released when `includeConfirmed` is set (e.g. order cancelled). */
+export async function releaseDeliveryBooking(args: {
+  bookingId?: string | null;
+  orderId?: string | null;
+  reason: string;
+  includeConfirmed?: boolean;
+}) {
+  if (!args.bookingId && !args.orderId) return;
+
+  let q = supabaseAdmin
+    .from("delivery_bookings")
+    .update({
+      status: "released",
+      released_at: new Date().toISOString(),
+      release_reason: args.reason,
+    } as any);
+  q = args.bookingId ? q.eq("id", args.bookingId) : q.eq("order_id", args.orderId!);
+  q = args.includeConfirmed ? q.neq("status", "released") : q.eq("status", "held");
+
+  const { error } = await q;
+  if (error) console.error("[delivery-capacity] release failed:", error.message);
+}
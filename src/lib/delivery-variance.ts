@@ -0,0 +1,803 @@
+// src/lib/delivery-variance.ts
+// Delivered-vs-ordered variance (public.order_variances), worked out when
+// a proof of delivery is recorded (lib/proof-of-delivery.ts).
+//
+// The variance is priced at the order's locked unit price and handled
+// according to public.delivery_variance_settings:
+//   within tolerance   nothing changes hands; billed on the ordered litres
+//   under-delivered    refunded through Stripe (on account: taken off the
+//                      order's balance) with a credit note
+//   over-delivered     charged off-session to the order's card / mandate
+//                      ("charge") or invoiced ("invoice"; always on
+//                      account) with a supplementary invoice
+// A rule set to "review", or a variance over review_above_pence, waits in
+// pending_review for an admin to settle or waive it. Settled variances
+// are queued for Xero (credit note / additional invoice). One that fails
+// (refund / charge declined, or not worked out at all) is kept as
+// "failed" and retried by the daily cron (retryFailedVariances) until an
+// admin settles or waives it.
+//
+// Money moved through us (refund, charge, on-account credit / invoice) is
+// applied to the order's total and ledger; a card customer's supplementary
+// invoice is paid outside Stripe, so the order keeps what was charged.
+//
+// This is how invoices reconcile on the delivered quantity: the order's
+// own invoice is no longer re-issued on the POD – it plus the variance's
+// credit note / supplementary invoice add up to what was delivered, and a
+// difference within the tolerance is deliberately left billed as ordered.
+
+import Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+import { platformFeePence } from "./commission";
+import { addDays, londonNow } from "./delivery-calendar";
+import { recordOrderLedger } from "./margin-ledger";
+import { recordOrderEvent } from "./order-lifecycle";
+import { issueOrderDocument, orderDocumentNumber } from "./order-documents";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+/** Card customers' supplementary invoices are due after this many days. */
+const VARIANCE_INVOICE_DAYS = 14;
+
+/** Automatic settle attempts before a failed variance is left to an admin. */
+const MAX_AUTO_ATTEMPTS = 3;
+
+export type VarianceAction = "refund" | "credit" | "charge" | "invoice";
+export type VarianceStatus =
+  | "within_tolerance"
+  | "pending_review"
+  | "awaiting_payment"
+  | "completed"
+  | "failed"
+  | "waived";
+
+export type VarianceSettings = {
+  toleranceLitres: number;
+  tolerancePercent: number;
+  underAction: "refund" | "review";
+  overAction: "charge" | "invoice" | "review";
+  reviewAbovePence: number | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
+};
+
+export type DeliveryVariance = {
+  id: string;
+  orderId: string;
+  orderedLitres: number;
+  deliveredLitres: number;
+  varianceLitres: number;
+  unitPricePence: number;
+  /** + customer owes us, - we owe the customer */
+  amountPence: number;
+  action: VarianceAction | null;
+  status: VarianceStatus;
+  documentNumber: string | null;
+  documentPath: string | null;
+  xeroSyncStatus: "pending" | "ok" | "error" | null;
+  xeroDocumentNumber: string | null;
+  error: string | null;
+  decidedBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+export type VarianceResult =
+  | { ok: true; variance: DeliveryVariance }
+  | { ok: false; status: number; error: string };
+
+const DEFAULT_SETTINGS: VarianceSettings = {
+  toleranceLitres: 0,
+  tolerancePercent: 0,
+  underAction: "refund",
+  overAction: "invoice",
+  reviewAbovePence: null,
+  updatedBy: null,
+  updatedAt: null,
+};
+
+const VARIANCE_COLUMNS =
+  "id,order_id,ordered_litres,delivered_litres,variance_litres,unit_price_pence,amount_pence,action,status,document_number,document_path,xero_sync_status,xero_document_number,error,decided_by,created_at,completed_at";
+
+const ORDER_COLUMNS =
+  "id,user_email,name,product,fuel,litres,unit_price_pence,total_pence,delivery_surcharge_pence,price_zone_name,commission_percent,status,payment_due_date,stripe_payment_intent,address_line1,address_line2,city,postcode";
+
+function varianceFromRow(r: any): DeliveryVariance {
+  return {
+    id: r.id,
+    orderId: r.order_id,
+    orderedLitres: Number(r.ordered_litres) || 0,
+    deliveredLitres: Number(r.delivered_litres) || 0,
+    varianceLitres: Number(r.variance_litres) || 0,
+    unitPricePence: Number(r.unit_price_pence) || 0,
+    amountPence: Number(r.amount_pence) || 0,
+    action: r.action ?? null,
+    status: r.status,
+    documentNumber: r.document_number ?? null,
+    documentPath: r.document_path ?? null,
+    xeroSyncStatus: r.xero_sync_status ?? null,
+    xeroDocumentNumber: r.xero_document_number ?? null,
+    error: r.error ?? null,
+    decidedBy: r.decided_by ?? null,
+    createdAt: r.created_at,
+    completedAt: r.completed_at ?? null,
+  };
+}
+
+function refuse(status: number, error: string): VarianceResult {
+  return { ok: false, status, error };
+}
+
+const money = (p: number) => `£${(Math.abs(p) / 100).toFixed(2)}`;
+
+/**
+ * When an "invoice" variance is due (YYYY-MM-DD): with the order's own
+ * invoice on account, otherwise VARIANCE_INVOICE_DAYS after it was settled.
+ * Null for everything already paid / refunded.
+ */
+export function varianceDueDate(
+  v: Pick<DeliveryVariance, "action" | "completedAt">,
+  order: { status?: string | null; payment_due_date?: string | null }
+): string | null {
+  if (v.action !== "invoice") return null;
+  if (order.status === "approved_on_account") return order.payment_due_date ?? null;
+  const settled = v.completedAt ? new Date(v.completedAt) : new Date();
+  return addDays(londonNow(settled).date, VARIANCE_INVOICE_DAYS);
+}
+
+/* ---------- settings ---------- */
+
+export async function loadVarianceSettings(): Promise<VarianceSettings> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_variance_settings")
+    .select(
+      "tolerance_litres,tolerance_percent,under_action,over_action,review_above_pence,updated_by,updated_at"
+    )
+    .eq("id", 1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return DEFAULT_SETTINGS;
+  const r = data as any;
+  return {
+    toleranceLitres: Number(r.tolerance_litres) || 0,
+    tolerancePercent: Number(r.tolerance_percent) || 0,
+    underAction: r.under_action,
+    overAction: r.over_action,
+    reviewAbovePence: r.review_above_pence != null ? Number(r.review_above_pence) : null,
+    updatedBy: r.updated_by ?? null,
+    updatedAt: r.updated_at ?? null,
+  };
+}
+
+export async function saveVarianceSettings(
+  input: {
+    toleranceLitres?: number | string | null;
+    tolerancePercent?: number | string | null;
+    underAction?: string | null;
+    overAction?: string | null;
+    reviewAbovePence?: number | string | null;
+  },
+  admin: string
+): Promise<{ ok: true; settings: VarianceSettings } | { ok: false; error: string }> {
+  const litres = Number(input.toleranceLitres ?? 0);
+  if (!Number.isInteger(litres) || litres < 0) {
+    return { ok: false, error: "toleranceLitres must be a whole number ≥ 0" };
+  }
+  const percent = Number(input.tolerancePercent ?? 0);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    return { ok: false, error: "tolerancePercent must be 0 to 100" };
+  }
+  const under = input.underAction || "refund";
+  if (under !== "refund" && under !== "review") {
+    return { ok: false, error: "underAction must be refund or review" };
+  }
+  const over = input.overAction || "invoice";
+  if (over !== "charge" && over !== "invoice" && over !== "review") {
+    return { ok: false, error: "overAction must be charge, invoice or review" };
+  }
+  const review =
+    input.reviewAbovePence == null || input.reviewAbovePence === ""
+      ? null
+      : Number(input.reviewAbovePence);
+  if (review != null && (!Number.isInteger(review) || review < 0)) {
+    return { ok: false, error: "reviewAbovePence must be a whole number ≥ 0" };
+  }
+
+  const { error } = await supabaseAdmin.from("delivery_variance_settings").upsert(
+    {
+      id: 1,
+      tolerance_litres: litres,
+      tolerance_percent: Math.round(percent * 100) / 100,
+      under_action: under,
+      over_action: over,
+      review_above_pence: review,
+      updated_by: admin,
+      updated_at: new Date().toISOString(),
+    } as any,
+    { onConflict: "id" }
+  );
+  if (error) return { ok: false, error: error.message };
+  return { ok: true, settings: await loadVarianceSettings() };
+}
+
+/** Status and (intended) action for a variance under `settings`. */
+export function decideVariance(
+  settings: VarianceSettings,
+  v: { orderedLitres: number; varianceLitres: number; amountPence: number; onAccount: boolean }
+): { status: VarianceStatus; action: VarianceAction | null } {
+  const tolerance = Math.max(
+    settings.toleranceLitres,
+    (v.orderedLitres * settings.tolerancePercent) / 100
+  );
+  if (v.varianceLitres === 0 || v.amountPence === 0 || Math.abs(v.varianceLitres) <= tolerance) {
+    return { status: "within_tolerance", action: null };
+  }
+
+  const under = v.amountPence < 0;
+  const action: VarianceAction = under
+    ? v.onAccount
+      ? "credit"
+      : "refund"
+    : v.onAccount || settings.overAction === "invoice"
+    ? "invoice"
+    : "charge";
+  const review =
+    (under ? settings.underAction === "review" : settings.overAction === "review") ||
+    (settings.reviewAbovePence != null && Math.abs(v.amountPence) > settings.reviewAbovePence);
+  return { status: review ? "pending_review" : "awaiting_payment", action };
+}
+
+/* ---------- reading ---------- */
+
+export async function loadOrderVariance(orderId: string): Promise<DeliveryVariance | null> {
+  const { data, error } = await supabaseAdmin
+    .from("order_variances")
+    .select(VARIANCE_COLUMNS)
+    .eq("order_id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? varianceFromRow(data) : null;
+}
+
+/** Newest first, for the admin screen. */
+export async function listVariances(opts: { status?: VarianceStatus | null; limit?: number } = {}) {
+  let q = supabaseAdmin
+    .from("order_variances")
+    .select(VARIANCE_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(opts.limit ?? 100);
+  if (opts.status) q = q.eq("status", opts.status);
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+  return (data || []).map(varianceFromRow);
+}
+
+/* ---------- recording ---------- */
+
+/**
+ * Works out and (rules permitting) settles the variance for a delivered
+ * order. Called once per proof of delivery; a second call returns the
+ * existing variance.
+ */
+export async function recordDeliveryVariance(args: {
+  orderId: string;
+  deliveryId: string | null;
+  orderedLitres: number;
+  deliveredLitres: number;
+  actor: string;
+}): Promise<DeliveryVariance | null> {
+  const { data: order, error } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_COLUMNS)
+    .eq("id", args.orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!order) return null;
+  const o = order as any;
+
+  const unit = Number(o.unit_price_pence) || 0;
+  const varianceLitres = args.deliveredLitres - args.orderedLitres;
+  const amountPence = Math.round(unit * varianceLitres);
+  const decision = decideVariance(await loadVarianceSettings(), {
+    orderedLitres: args.orderedLitres,
+    varianceLitres,
+    amountPence,
+    onAccount: o.status === "approved_on_account",
+  });
+
+  const { data: row, error: insErr } = await supabaseAdmin
+    .from("order_variances")
+    .insert({
+      order_id: o.id,
+      delivery_id: args.deliveryId,
+      ordered_litres: args.orderedLitres,
+      delivered_litres: args.deliveredLitres,
+      variance_litres: varianceLitres,
+      unit_price_pence: unit,
+      amount_pence: amountPence,
+      action: decision.action,
+      // auto-settled ones start in review and are claimed just below
+      status: decision.status === "within_tolerance" ? "within_tolerance" : "pending_review",
+    } as any)
+    .select(VARIANCE_COLUMNS)
+    .single();
+  if (insErr || !row) {
+    if ((insErr as any)?.code === "23505") return loadOrderVariance(o.id);
+    throw new Error(insErr?.message || "Failed to record delivery variance");
+  }
+  const variance = varianceFromRow(row);
+
+  if (varianceLitres !== 0) {
+    await recordOrderEvent({
+      orderId: o.id,
+      event: "variance",
+      actor: args.actor,
+      reason: `${Math.abs(varianceLitres).toLocaleString("en-GB")} L ${
+        varianceLitres < 0 ? "under" : "over"
+      } the order (${money(amountPence)})${
+        decision.status === "within_tolerance" ? " – within tolerance" : ""
+      }`,
+      meta: { order_variance_id: variance.id, amount_pence: amountPence },
+    });
+  }
+
+  if (decision.status !== "awaiting_payment" || !decision.action) return variance;
+  const settled = await settleVariance({
+    varianceId: variance.id,
+    action: decision.action,
+    actor: "system:variance",
+  });
+  return settled.ok ? settled.variance : loadOrderVariance(o.id);
+}
+
+/**
+ * Keeps a variance that couldn't be worked out (e.g. a database error
+ * while the POD was recorded) as "failed" and undecided, so the retry
+ * cron or an admin picks it up. Best effort – never throws.
+ */
+export async function recordVarianceFailure(args: {
+  orderId: string;
+  deliveryId: string | null;
+  orderedLitres: number;
+  deliveredLitres: number;
+  unitPricePence: number;
+  error: string;
+}): Promise<DeliveryVariance | null> {
+  try {
+    const varianceLitres = args.deliveredLitres - args.orderedLitres;
+    const { data, error } = await supabaseAdmin
+      .from("order_variances")
+      .insert({
+        order_id: args.orderId,
+        delivery_id: args.deliveryId,
+        ordered_litres: args.orderedLitres,
+        delivered_litres: args.deliveredLitres,
+        variance_litres: varianceLitres,
+        unit_price_pence: args.unitPricePence,
+        amount_pence: Math.round(args.unitPricePence * varianceLitres),
+        status: "failed",
+        error: args.error,
+      } as any)
+      .select(VARIANCE_COLUMNS)
+      .single();
+    if (!error && data) return varianceFromRow(data);
+
+    // recorded before it failed: flag it unless it's already being settled
+    if ((error as any)?.code === "23505") {
+      const { data: flagged } = await supabaseAdmin
+        .from("order_variances")
+        .update({ status: "failed", error: args.error } as any)
+        .eq("order_id", args.orderId)
+        .eq("status", "pending_review")
+        .is("decided_by", null)
+        .select(VARIANCE_COLUMNS)
+        .maybeSingle();
+      return flagged ? varianceFromRow(flagged) : loadOrderVariance(args.orderId);
+    }
+    console.error("[delivery-variance] failure not recorded:", error?.message);
+  } catch (e: any) {
+    console.error("[delivery-variance] failure not recorded:", e?.message || e);
+  }
+  return null;
+}
+
+/* ---------- settling ---------- */
+
+/**
+ * Settles a variance waiting for review (or whose charge failed) with
+ * `action`. Automatic and admin decisions both come through here.
+ */
+export async function settleVariance(args: {
+  varianceId: string;
+  action: VarianceAction;
+  actor: string;
+}): Promise<VarianceResult> {
+  const { data: row, error } = await supabaseAdmin
+    .from("order_variances")
+    .select(`${VARIANCE_COLUMNS},attempts`)
+    .eq("id", args.varianceId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!row) return refuse(404, "Variance not found");
+  const v = varianceFromRow(row);
+  const attempt = (Number((row as any).attempts) || 0) + 1;
+  if (v.status !== "pending_review" && v.status !== "failed") {
+    return refuse(409, `This variance is already ${v.status.replace(/_/g, " ")}`);
+  }
+
+  const { data: order } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_COLUMNS)
+    .eq("id", v.orderId)
+    .maybeSingle();
+  if (!order) return refuse(404, "Order not found");
+  const o = order as any;
+  const onAccount = o.status === "approved_on_account";
+
+  const under = v.amountPence < 0;
+  const allowed: VarianceAction[] = under
+    ? onAccount
+      ? ["credit"]
+      : ["refund"]
+    : onAccount
+    ? ["invoice"]
+    : ["charge", "invoice"];
+  if (!allowed.includes(args.action)) {
+    return refuse(400, `Use ${allowed.join(" or ")} for this variance`);
+  }
+
+  // claim it – a concurrent admin / webhook sees it's taken
+  const { data: claimed } = await supabaseAdmin
+    .from("order_variances")
+    .update({
+      action: args.action,
+      status: "awaiting_payment",
+      decided_by: args.actor,
+      attempts: attempt,
+      error: null,
+    } as any)
+    .eq("id", v.id)
+    .in("status", ["pending_review", "failed"])
+    .select("id")
+    .maybeSingle();
+  if (!claimed) return refuse(409, "This variance is already being settled");
+
+  const fail = async (message: string, status = 402): Promise<VarianceResult> => {
+    await supabaseAdmin
+      .from("order_variances")
+      .update({ status: "failed", error: message } as any)
+      .eq("id", v.id);
+    await recordOrderEvent({
+      orderId: o.id,
+      event: "variance_failed",
+      actor: args.actor,
+      reason: message,
+      meta: { order_variance_id: v.id, action: args.action },
+    });
+    return refuse(status, message);
+  };
+
+  if (args.action === "refund") {
+    if (!o.stripe_payment_intent) return fail("The order has no Stripe payment to refund", 409);
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: o.stripe_payment_intent,
+          amount: -v.amountPence,
+          metadata: { order_id: o.id, order_variance_id: v.id },
+          ...(process.env.REFINERY_STRIPE_ACCOUNT_ID
+            ? { reverse_transfer: true, refund_application_fee: true }
+            : {}),
+        },
+        { idempotencyKey: `delivery-variance-refund-${v.id}-${attempt}` }
+      );
+      await supabaseAdmin
+        .from("order_variances")
+        .update({ stripe_refund_id: refund.id } as any)
+        .eq("id", v.id);
+    } catch (e: any) {
+      return fail(e?.raw?.message || e?.message || "Refund failed", 502);
+    }
+  }
+
+  if (args.action === "charge") {
+    if (!o.stripe_payment_intent) return fail("The order has no Stripe payment to charge against", 409);
+    try {
+      const original = await stripe.paymentIntents.retrieve(o.stripe_payment_intent);
+      const customer =
+        typeof original.customer === "string" ? original.customer : original.customer?.id;
+      const paymentMethod =
+        typeof original.payment_method === "string"
+          ? original.payment_method
+          : original.payment_method?.id;
+      if (!customer || !paymentMethod) {
+        return fail("The card used for this order wasn't saved – invoice the difference instead");
+      }
+
+      const refineryAccountId = process.env.REFINERY_STRIPE_ACCOUNT_ID;
+      const fee = platformFeePence(v.amountPence, Number(o.commission_percent) || 0);
+      const pi = await stripe.paymentIntents.create(
+        {
+          amount: v.amountPence,
+          currency: "gbp",
+          customer,
+          payment_method: paymentMethod,
+          off_session: true,
+          confirm: true,
+          receipt_email: o.user_email,
+          description: `Delivery variance – ${v.varianceLitres.toLocaleString("en-GB")} L over the order`,
+          ...(refineryAccountId
+            ? {
+                ...(fee > 0 ? { application_fee_amount: fee } : {}),
+                transfer_data: { destination: refineryAccountId },
+              }
+            : {}),
+          // no order_id: the webhook must not treat this as the order's payment
+          metadata: { order_variance_id: v.id, order_ref: o.id, source: "delivery_variance" },
+        },
+        { idempotencyKey: `delivery-variance-charge-${v.id}-${attempt}` }
+      );
+      await supabaseAdmin
+        .from("order_variances")
+        .update({ stripe_payment_intent: pi.id } as any)
+        .eq("id", v.id);
+
+      // a Direct Debit takes days – the webhook completes it
+      if (pi.status === "processing") {
+        const { data: waiting } = await supabaseAdmin
+          .from("order_variances")
+          .select(VARIANCE_COLUMNS)
+          .eq("id", v.id)
+          .single();
+        return { ok: true, variance: varianceFromRow(waiting) };
+      }
+      if (pi.status !== "succeeded") return fail("Payment wasn't completed");
+    } catch (e: any) {
+      return fail(
+        e?.code === "authentication_required"
+          ? "The customer's bank needs them to confirm this payment – invoice the difference instead"
+          : e?.raw?.message || e?.message || "Payment failed"
+      );
+    }
+  }
+
+  return completeVariance(v.id);
+}
+
+/**
+ * Applies a settled variance: order total + ledger (when the money moved
+ * through us), credit note / supplementary invoice, Xero queue.
+ * Idempotent – a replayed webhook finds it completed.
+ */
+export async function completeVariance(varianceId: string): Promise<VarianceResult> {
+  const { data: row, error } = await supabaseAdmin
+    .from("order_variances")
+    .update({ status: "completed", completed_at: new Date().toISOString() } as any)
+    .eq("id", varianceId)
+    .eq("status", "awaiting_payment")
+    .select(VARIANCE_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!row) {
+    const current = await supabaseAdmin
+      .from("order_variances")
+      .select(VARIANCE_COLUMNS)
+      .eq("id", varianceId)
+      .maybeSingle();
+    if (!current.data) return refuse(404, "Variance not found");
+    const cur = varianceFromRow(current.data);
+    return cur.status === "completed"
+      ? { ok: true, variance: cur }
+      : refuse(409, cur.error || `Variance is ${cur.status}`);
+  }
+  const v = varianceFromRow(row);
+
+  const { data: order } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_COLUMNS)
+    .eq("id", v.orderId)
+    .maybeSingle();
+  if (!order) return { ok: true, variance: v };
+  const o = order as any;
+  const onAccount = o.status === "approved_on_account";
+
+  // a card customer's supplementary invoice is paid outside Stripe
+  if (v.action !== "invoice" || onAccount) {
+    const total = (Number(o.total_pence) || 0) + v.amountPence;
+    const fee = platformFeePence(total, Number(o.commission_percent) || 0);
+    await supabaseAdmin
+      .from("orders")
+      .update({
+        total_pence: total,
+        amount: total / 100,
+        platform_fee_pence: fee,
+        refinery_cost_pence: total - fee,
+      } as any)
+      .eq("id", o.id);
+    if (o.stripe_payment_intent) {
+      await recordOrderLedger({
+        stripe,
+        orderId: o.id,
+        paymentIntentId: o.stripe_payment_intent,
+      });
+    }
+  }
+
+  const under = v.amountPence < 0;
+  const litres = Math.abs(v.varianceLitres);
+  const fuel = o.product || o.fuel || "Fuel";
+  const dueDate = varianceDueDate(v, o);
+  const doc = await issueOrderDocument(o, {
+    number: orderDocumentNumber(under ? "CN" : "INV", o.id, "-V"),
+    litres,
+    totalPence: Math.abs(v.amountPence),
+    items: [
+      {
+        description: under ? `${fuel} – not delivered` : `${fuel} – delivered over order`,
+        litres,
+        total: Math.abs(v.amountPence) / 100,
+      },
+    ],
+    notes: `Delivered ${v.deliveredLitres.toLocaleString("en-GB")} L against ${v.orderedLitres.toLocaleString("en-GB")} L ordered. ${
+      v.action === "refund"
+        ? `${money(v.amountPence)} has been refunded to your original payment method.`
+        : v.action === "credit"
+        ? `${money(v.amountPence)} has been taken off your account balance.`
+        : v.action === "charge"
+        ? `${money(v.amountPence)} has been charged to your original payment method.`
+        : `Please pay ${money(v.amountPence)} by the due date.`
+    }`,
+    creditNote: under,
+    supplementary: !under,
+    dueDate,
+    tag: "delivery-variance",
+  });
+
+  const { data: done } = await supabaseAdmin
+    .from("order_variances")
+    .update({
+      document_number: doc?.number ?? null,
+      document_path: doc?.path ?? null,
+      xero_sync_status: "pending",
+    } as any)
+    .eq("id", v.id)
+    .select(VARIANCE_COLUMNS)
+    .single();
+
+  await recordOrderEvent({
+    orderId: o.id,
+    event: "variance_settled",
+    actor: v.decidedBy || "system:variance",
+    reason: `${money(v.amountPence)} ${
+      v.action === "refund"
+        ? "refunded"
+        : v.action === "credit"
+        ? "credited to the account"
+        : v.action === "charge"
+        ? "charged"
+        : "invoiced"
+    }`,
+    meta: { order_variance_id: v.id, action: v.action, amount_pence: v.amountPence },
+  });
+
+  return { ok: true, variance: varianceFromRow(done || row) };
+}
+
+/** A variance charge that didn't clear (e.g. a failed Direct Debit). */
+export async function failVarianceCharge(varianceId: string, message: string) {
+  const { data } = await supabaseAdmin
+    .from("order_variances")
+    .update({ status: "failed", error: message } as any)
+    .eq("id", varianceId)
+    .eq("status", "awaiting_payment")
+    .select("order_id")
+    .maybeSingle();
+  if (!data) return;
+  await recordOrderEvent({
+    orderId: (data as any).order_id,
+    event: "variance_failed",
+    actor: "system:stripe",
+    reason: message,
+    meta: { order_variance_id: varianceId },
+  });
+}
+
+/**
+ * Daily retry of failed variances the system decided (or never got to
+ * decide): re-decided on the current rules, then settled again. Ones an
+ * admin settled, or past MAX_AUTO_ATTEMPTS, stay for an admin.
+ */
+export async function retryFailedVariances(): Promise<{
+  retried: number;
+  settled: number;
+  held: number;
+  failed: number;
+}> {
+  const { data, error } = await supabaseAdmin
+    .from("order_variances")
+    .select(`${VARIANCE_COLUMNS},attempts`)
+    .eq("status", "failed")
+    .lt("attempts", MAX_AUTO_ATTEMPTS)
+    .or("decided_by.is.null,decided_by.like.system:%")
+    .order("created_at", { ascending: true })
+    .limit(50);
+  if (error) throw new Error(error.message);
+
+  const settings = await loadVarianceSettings();
+  let settled = 0;
+  let held = 0;
+  let failed = 0;
+  for (const row of data || []) {
+    const v = varianceFromRow(row);
+    try {
+      const { data: order } = await supabaseAdmin
+        .from("orders")
+        .select("status")
+        .eq("id", v.orderId)
+        .maybeSingle();
+      const decision = decideVariance(settings, {
+        orderedLitres: v.orderedLitres,
+        varianceLitres: v.varianceLitres,
+        amountPence: v.amountPence,
+        onAccount: (order as any)?.status === "approved_on_account",
+      });
+
+      if (decision.status !== "awaiting_payment" || !decision.action) {
+        // nothing to settle automatically any more
+        await supabaseAdmin
+          .from("order_variances")
+          .update({ status: decision.status, action: decision.action, error: null } as any)
+          .eq("id", v.id)
+          .eq("status", "failed");
+        if (decision.status === "pending_review") held++;
+        else settled++;
+        continue;
+      }
+
+      const result = await settleVariance({
+        varianceId: v.id,
+        action: decision.action,
+        actor: "system:variance",
+      });
+      if (result.ok) settled++;
+      else failed++;
+    } catch (e: any) {
+      console.error("[delivery-variance] retry failed for", v.id, e?.message || e);
+      failed++;
+    }
+  }
+
+  return { retried: (data || []).length, settled, held, failed };
+}
+
+/** Admin decision not to recover / return the difference. */
+export async function waiveVariance(args: {
+  varianceId: string;
+  actor: string;
+  reason?: string | null;
+}): Promise<VarianceResult> {
+  const { data, error } = await supabaseAdmin
+    .from("order_variances")
+    .update({
+      status: "waived",
+      decided_by: args.actor,
+      completed_at: new Date().toISOString(),
+    } as any)
+    .eq("id", args.varianceId)
+    .in("status", ["pending_review", "failed"])
+    .select(VARIANCE_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return refuse(409, "Only variances waiting for review or failed can be waived");
+  const v = varianceFromRow(data);
+  await recordOrderEvent({
+    orderId: v.orderId,
+    event: "variance_waived",
+    actor: args.actor,
+    reason: args.reason || null,
+    meta: { order_variance_id: v.id, amount_pence: v.amountPence },
+  });
+  return { ok: true, variance: v };
+}
@@ -14,7 +14,20 @@ export type InvoiceInput = {
   };
   items: LineItem[];
   currency: string;
-  meta?: { invoiceNumber?: string; orderId?: string; notes?: string; dateISO?: string };
+  meta?: {
+    invoiceNumber?: string;
+    orderId?: string;
+    notes?: string;
+    dateISO?: string;
+    /** on-account orders: payment due date */
+    dueDateISO?: string;
+    /** volume price band applied at checkout, e.g. "5k–10k L" */
+    priceBand?: string;
+    /** total volume saving in major units */
+    priceBandSaving?: number;
+    /** credit note for a cancelled / reduced order (amounts are credited) */
+    creditNote?: boolean;
+  };
 };
 export type BuiltInvoice = { pdfBuffer: Buffer; filename: string; total: number; pages?: number };
 
@@ -85,7 +98,8 @@ export async function buildInvoicePdf(input: InvoiceInput): Promise<BuiltInvoice
   try { const ab = await fetchArrayBuffer(logoUrl); if (ab) { doc.image(Buffer.from(ab), MARGIN, 26, { width: 156, height: 42, fit: [156, 42] }); logoDrawn = true; } } catch {}
   if (!logoDrawn) { doc.fill("#FFFFFF").font("Helvetica-Bold").fontSize(26); drawText(doc, companyName, MARGIN, 30, { width: W - MARGIN * 2 }); }
   doc.fill("#FFFFFF").font("Helvetica").fontSize(12);
-  drawText(doc, "TAX INVOICE", W - MARGIN - 200, 34, { width: 200, align: "right" });
+  const creditNote = !!input.meta?.creditNote;
+  drawText(doc, creditNote ? "CREDIT NOTE" : "TAX INVOICE", W - MARGIN - 200, 34, { width: 200, align: "right" });
 
   /* From / Bill To */
   const gridLH = 14;
@@ -148,7 +162,7 @@ export async function buildInvoicePdf(input: InvoiceInput): Promise<BuiltInvoice
 
   // Row 1: Invoice No / Date
   doc.font("Helvetica-Bold").fontSize(10).fill("#111827");
-  drawText(doc, "Invoice No:", leftX, y);
+  drawText(doc, creditNote ? "Credit Note No:" : "Invoice No:", leftX, y);
   doc.font("Helvetica").fontSize(10);
   drawText(doc, invNo, leftX + metaLeftLabelW, y);
 
@@ -178,6 +192,36 @@ export async function buildInvoicePdf(input: InvoiceInput): Promise<BuiltInvoice
     y = ruleY + 6; // if no order id, keep a modest gap
   }
 
+  // Due date sits opposite the order ref (on-account invoices only)
+  if (input.meta?.dueDateISO) {
+    doc.font("Helvetica-Bold").fontSize(10).fill("#111827");
+    drawText(doc, "Due:", rightX, orderY);
+    doc.font("Helvetica").fontSize(10);
+    drawText(
+      doc,
+      new Date(input.meta.dueDateISO).toLocaleDateString("en-GB"),
+      rightX + 45,
+      orderY
+    );
+    y = Math.max(y, orderY + 16);
+  }
+
+  // Row 3: Volume price band (only when one applied)
+  if (input.meta?.priceBand) {
+    const bandY = input.meta?.orderId ? y : orderY;
+    doc.font("Helvetica-Bold").fontSize(10).fill("#111827");
+    drawText(doc, "Price band:", leftX, bandY);
+    doc.font("Helvetica").fontSize(10);
+    const saving = n(input.meta.priceBandSaving, 0);
+    drawText(
+      doc,
+      saving > 0 ? `${input.meta.priceBand} (you saved ${money(saving, C)})` : input.meta.priceBand,
+      leftX + metaLeftLabelW,
+      bandY
+    );
+    y = bandY + 16;
+  }
+
   /* Table */
   const PAD_L = 10, PAD_R = 12;
   const headerRowH = 24, dataRowH = 24;
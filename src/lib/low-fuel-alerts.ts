@@ -0,0 +1,243 @@
+// src/lib/low-fuel-alerts.ts
+// Scheduled low-fuel alert emails (cron: api/cron/low-fuel-alerts).
+//
+// Every approved contract is checked (per tank when the customer has
+// tanks on file, else the contract tank – see lib/low-fuel.ts). Tanks at
+// or below LOW_FUEL_ALERT_THRESHOLD percent get an email with a
+// "reorder same as last time" link.
+//
+// De-duplication: each send is recorded in public.low_fuel_alerts keyed
+// by (target_key, cycle_key), cycle_key being the last delivery the
+// estimate started from. The insert is the claim, so a tank alerts once
+// per fill cycle and two overlapping runs can't both send; the row is
+// removed again if the email fails.
+
+import supabaseAdmin from "./supabaseAdmin";
+import { sendMail } from "./mailer";
+import { buildBrandedEmailHtml } from "./branded-email";
+import { findLowFuelTanks, type LowFuelAlertRow } from "./low-fuel";
+import { SETTLED_ORDER_STATUSES } from "./order-states";
+
+const SITE_URL = process.env.SITE_URL || "https://dashboard.fuelflow.co.uk";
+
+const FUEL_LABEL: Record<"petrol" | "diesel", string> = {
+  petrol: "Petrol (95)",
+  diesel: "Diesel",
+};
+
+export type ReorderPrefill = {
+  orderId: string;
+  fuel: "petrol" | "diesel";
+  litres: number;
+  name: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  postcode: string | null;
+  siteId: string | null;
+  tankId: string | null;
+};
+
+/** Alert threshold as a fraction (env is a percentage, default 30). */
+export function lowFuelAlertThreshold(): number {
+  const n = Number(process.env.LOW_FUEL_ALERT_THRESHOLD || "30");
+  return Number.isFinite(n) && n > 0 && n < 100 ? n / 100 : 0.3;
+}
+
+function targetKey(r: LowFuelAlertRow) {
+  return r.tankId ? `tank:${r.tankId}` : `contract:${r.contractId}`;
+}
+
+function cycleKey(r: LowFuelAlertRow) {
+  return r.lastDeliveryDate || "none";
+}
+
+/** Most recent paid / on-account order for the tank, else for the customer. */
+async function lastPaidOrder(r: LowFuelAlertRow): Promise<any | null> {
+  const columns =
+    "id,fuel,litres,name,address_line1,address_line2,city,postcode,site_id,tank_id";
+
+  if (r.tankId) {
+    const { data } = await supabaseAdmin
+      .from("orders")
+      .select(columns)
+      .eq("tank_id", r.tankId)
+      .in("status", SETTLED_ORDER_STATUSES)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (data) return data;
+  }
+
+  let q = supabaseAdmin
+    .from("orders")
+    .select(columns)
+    .eq("user_email", r.email as string)
+    .in("status", SETTLED_ORDER_STATUSES);
+  if (r.fuel) q = q.eq("fuel", r.fuel);
+  const { data } = await q
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data ?? null;
+}
+
+export function reorderFromOrder(o: any): ReorderPrefill {
+  return {
+    orderId: o.id,
+    fuel: String(o.fuel).toLowerCase() === "petrol" ? "petrol" : "diesel",
+    litres: Number(o.litres) || 0,
+    name: o.name ?? null,
+    addressLine1: o.address_line1 ?? null,
+    addressLine2: o.address_line2 ?? null,
+    city: o.city ?? null,
+    postcode: o.postcode ?? null,
+    siteId: o.site_id ?? null,
+    tankId: o.tank_id ?? null,
+  };
+}
+
+function buildLowFuelEmail(
+  r: LowFuelAlertRow,
+  reorder: ReorderPrefill | null,
+  token: string
+) {
+  const label =
+    [r.siteName, r.tankName].filter(Boolean).join(" – ") || "your tank";
+  const percent = Math.round(r.percentFull * 100);
+  const orderUrl = reorder
+    ? `${SITE_URL}/order?reorder=${encodeURIComponent(token)}`
+    : `${SITE_URL}/order`;
+  const runOut = r.runOutDate
+    ? new Date(r.runOutDate).toLocaleDateString("en-GB", {
+        day: "numeric",
+        month: "long",
+      })
+    : null;
+
+  const rows = [
+    { label: "Tank", value: label },
+    { label: "Estimated level", value: `~${percent}% full` },
+    {
+      label: "Estimated left",
+      value: `${Math.round(r.estimatedLitresLeft).toLocaleString()} L`,
+    },
+    ...(runOut ? [{ label: "Likely to run out", value: `around ${runOut}` }] : []),
+    ...(reorder
+      ? [
+          {
+            label: "Last order",
+            value: `${reorder.litres.toLocaleString()} L ${FUEL_LABEL[reorder.fuel]}`,
+          },
+        ]
+      : []),
+  ];
+
+  const intro = [
+    `Based on your deliveries${r.calibrated ? " and dip readings" : ""}, we estimate ${label} is around ${percent}% full.`,
+    reorder
+      ? "Reorder the same as last time in one click – we'll fill in the order for you, you just pick a delivery day."
+      : "Place an order from your dashboard to book a top-up delivery.",
+  ];
+
+  const html = buildBrandedEmailHtml({
+    title: "FuelFlow — low fuel",
+    heading: "Your tank is running low",
+    preheader: `${label} is around ${percent}% full`,
+    intro,
+    rows,
+    cta: {
+      label: reorder ? "Reorder same as last time" : "Order fuel",
+      href: orderUrl,
+    },
+    footer:
+      "You're receiving this because we estimate your tank levels from your deliveries. We'll only remind you once per delivery.",
+  });
+
+  const text = [
+    ...intro,
+    "",
+    ...rows.map((x) => `${x.label}: ${x.value}`),
+    "",
+    `${reorder ? "Reorder" : "Order"}: ${orderUrl}`,
+  ].join("\n");
+
+  return {
+    to: r.email as string,
+    subject: `FuelFlow — ${label} is around ${percent}% full`,
+    html,
+    text,
+  };
+}
+
+/**
+ * Email every approved customer whose tank has dropped to the alert
+ * threshold, once per fill cycle.
+ */
+export async function sendLowFuelAlerts(now: Date = new Date()): Promise<{
+  low: number;
+  emailed: number;
+  skipped: number;
+  failed: number;
+}> {
+  const threshold = lowFuelAlertThreshold();
+  const rows = await findLowFuelTanks({
+    threshold,
+    contractStatuses: ["approved"],
+    tanksNeedContract: true,
+    now,
+  });
+
+  let emailed = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const r of rows) {
+    if (!r.email) continue;
+
+    const last = await lastPaidOrder(r);
+    const reorder = last ? reorderFromOrder(last) : null;
+
+    // claim this fill cycle – a duplicate key means we already alerted
+    const { data: claimed, error: claimErr } = await supabaseAdmin
+      .from("low_fuel_alerts")
+      .insert({
+        user_email: r.email,
+        target_key: targetKey(r),
+        cycle_key: cycleKey(r),
+        contract_id: r.contractId,
+        tank_id: r.tankId,
+        percent_full: r.percentFull,
+        estimated_litres_left: Math.round(r.estimatedLitresLeft),
+        threshold,
+        reorder_order_id: reorder?.orderId ?? null,
+      })
+      .select("id, reorder_token")
+      .single();
+
+    if (claimErr || !claimed) {
+      if ((claimErr as any)?.code !== "23505") {
+        console.error("[low-fuel-alerts] claim error:", claimErr);
+      }
+      skipped++;
+      continue;
+    }
+
+    try {
+      const messageId = await sendMail(
+        buildLowFuelEmail(r, reorder, claimed.reorder_token)
+      );
+      emailed++;
+      await supabaseAdmin
+        .from("low_fuel_alerts")
+        .update({ message_id: messageId || null })
+        .eq("id", claimed.id);
+    } catch (e) {
+      failed++;
+      console.error("[low-fuel-alerts] send failed for", r.email, e);
+      await supabaseAdmin.from("low_fuel_alerts").delete().eq("id", claimed.id);
+    }
+  }
+
+  return { low: rows.length, emailed, skipped, failed };
+}
@@ -0,0 +1,242 @@
+// src/lib/low-fuel.ts
+// Tanks estimated to be running low – one row per tank, or per contract
+// for customers without tanks on file (their contract tank, refilled by
+// every delivered order).
+//
+// Shared by the admin low-fuel view (api/admin/usage/low-fuel.ts) and the
+// scheduled low-fuel alert emails (lib/low-fuel-alerts.ts).
+
+import supabaseAdmin from "./supabaseAdmin";
+import { SITE_COLUMNS, siteFromRow } from "./customer-sites";
+import {
+  contractAsTank,
+  estimateTankLevels,
+  loadTanks,
+  replayTankLevel,
+} from "./tanks";
+import type { ConsumptionForecast } from "./consumption-forecast";
+
+export type LowFuelAlertRow = {
+  contractId: string | null;
+  siteId: string | null;
+  siteName: string | null;
+  tankId: string | null;
+  tankName: string | null;
+  fuel: "petrol" | "diesel" | null;
+  email: string | null;
+  displayName: string | null;
+  tankSizeL: number | null;
+  monthlyConsumptionL: number | null;
+  percentFull: number;
+  estimatedLitresLeft: number;
+  daysSinceLastDelivery: number | null;
+  lastDeliveryDate: string | null;
+  lastDeliveredLitres: number;
+  lastReadingAt: string | null;
+  /** burn rate came from dip readings rather than the declared usage */
+  calibrated: boolean;
+  /** predicted run-out (ISO) with its confidence band */
+  runOutDate: string | null;
+  runOutEarliest: string | null;
+  runOutLatest: string | null;
+  forecastConfidence: "low" | "medium" | "high" | null;
+  message: string;
+};
+
+function forecastFields(f: ConsumptionForecast | null) {
+  return {
+    runOutDate: f?.runOutDate ?? null,
+    runOutEarliest: f?.runOutEarliest ?? null,
+    runOutLatest: f?.runOutLatest ?? null,
+    forecastConfidence: f?.confidence ?? null,
+  };
+}
+
+function messageFor(
+  tankSizeL: number,
+  monthlyUseL: number,
+  percentFull: number,
+  tankLabel?: string | null,
+  calibrated = false
+) {
+  return `Based on ${
+    tankLabel ? `the ${tankLabel} tank size` : "your contract tank size"
+  } of ${tankSizeL.toLocaleString()}L and ${
+    calibrated ? "measured" : "estimated"
+  } usage of ${Math.round(monthlyUseL).toLocaleString()}L/month, it looks like your tank may be around ${Math.round(
+    percentFull * 100
+  )}% full. Would you like us to arrange a top-up delivery?`;
+}
+
+/**
+ * Every tank at or below `threshold` (0–1).
+ *
+ * `contractStatuses` picks the contracts whose customers are checked;
+ * with `tanksNeedContract` tank owners without such a contract are
+ * skipped too (otherwise every tank on file is checked).
+ */
+export async function findLowFuelTanks(opts: {
+  threshold: number;
+  contractStatuses: string[];
+  tanksNeedContract?: boolean;
+  now?: Date;
+}): Promise<LowFuelAlertRow[]> {
+  const { threshold } = opts;
+  const now = opts.now ?? new Date();
+  const rows: LowFuelAlertRow[] = [];
+
+  const { data: contracts, error: contractsErr } = await supabaseAdmin
+    .from("contracts")
+    .select(
+      "id, email, customer_name, company_name, contact_name, tank_size_l, monthly_consumption_l, status, signed_at"
+    )
+    .in("status", opts.contractStatuses)
+    .not("signed_at", "is", null)
+    .limit(1000);
+
+  if (contractsErr) throw new Error(contractsErr.message);
+
+  const contracted = new Set(
+    ((contracts || []) as any[])
+      .map((c) => String(c.email || "").toLowerCase())
+      .filter(Boolean)
+  );
+
+  // 1) Customers with tanks on file: one estimate per tank
+  const tanks = (await loadTanks({})).filter(
+    (t) => !opts.tanksNeedContract || contracted.has(t.userEmail)
+  );
+  const emailsWithTanks = new Set(tanks.map((t) => t.userEmail));
+  const estimates = await estimateTankLevels(tanks, now);
+
+  const siteIds = Array.from(new Set(tanks.map((t) => t.siteId)));
+  const { data: siteRows, error: sitesErr } = siteIds.length
+    ? await supabaseAdmin
+        .from("customer_sites")
+        .select(SITE_COLUMNS)
+        .in("id", siteIds)
+    : { data: [], error: null };
+
+  if (sitesErr) throw new Error(sitesErr.message);
+
+  const siteById = new Map(
+    (siteRows || []).map((r: any) => [r.id as string, siteFromRow(r)])
+  );
+
+  const { data: tankContracts } = await supabaseAdmin
+    .from("contracts")
+    .select("email, customer_name, company_name")
+    .in("email", Array.from(emailsWithTanks));
+  const nameByEmail = new Map<string, string>();
+  for (const c of (tankContracts || []) as any[]) {
+    const name = c.customer_name || c.company_name;
+    if (name) nameByEmail.set(String(c.email).toLowerCase(), name);
+  }
+
+  for (const tank of tanks) {
+    const est = estimates.get(tank.id);
+    if (!est || est.percentFull > threshold) continue;
+    const site = siteById.get(tank.siteId) || null;
+    rows.push({
+      contractId: site?.contractId ?? null,
+      siteId: tank.siteId,
+      siteName: site?.name ?? null,
+      tankId: tank.id,
+      tankName: tank.name,
+      fuel: tank.fuel,
+      email: tank.userEmail,
+      displayName: nameByEmail.get(tank.userEmail) || tank.userEmail,
+      tankSizeL: tank.capacityL,
+      monthlyConsumptionL: tank.monthlyConsumptionL,
+      percentFull: est.percentFull,
+      estimatedLitresLeft: est.estimatedLitresLeft,
+      daysSinceLastDelivery:
+        est.daysSinceLastDelivery != null
+          ? Math.round(est.daysSinceLastDelivery)
+          : null,
+      lastDeliveryDate: est.lastDeliveryDate,
+      lastDeliveredLitres: est.lastDeliveredLitres,
+      lastReadingAt: est.lastReadingAt,
+      calibrated: est.dailyUseSource === "readings",
+      ...forecastFields(est.forecast),
+      message: messageFor(
+        tank.capacityL,
+        (est.dailyUseL * 30 * tank.operatingDays.length) / 7,
+        est.percentFull,
+        site ? `${site.name} ${tank.name}` : tank.name,
+        est.dailyUseSource === "readings"
+      ),
+    });
+  }
+
+  // 2) Customers without tanks: fall back to their contract tank
+  const fallback = ((contracts || []) as any[]).filter((c) => {
+    const email = String(c.email || "").toLowerCase();
+    return (
+      email &&
+      !emailsWithTanks.has(email) &&
+      Number(c.tank_size_l) > 0 &&
+      Number(c.monthly_consumption_l) > 0
+    );
+  });
+  const emails = Array.from(
+    new Set(fallback.map((c) => String(c.email).toLowerCase()))
+  );
+  if (!emails.length) return rows;
+
+  const { data: ordersData, error: ordersErr } = await supabaseAdmin
+    .from("orders")
+    .select("user_email, litres, delivered_litres, delivered_at, created_at")
+    .eq("fulfilment_status", "delivered")
+    .in("user_email", emails)
+    .not("delivered_at", "is", null)
+    .order("delivered_at", { ascending: false })
+    .limit(5000);
+
+  if (ordersErr) throw new Error(ordersErr.message);
+
+  for (const c of fallback) {
+    const email = String(c.email).toLowerCase();
+    // full delivery history (oldest first) – drives the rate + forecast
+    const deliveries = ((ordersData || []) as any[])
+      .filter((o) => o.user_email === email)
+      .map((o) => ({
+        at: new Date(o.delivered_at || o.created_at),
+        litres: Number(o.delivered_litres ?? o.litres) || 0,
+      }))
+      .filter((d) => !Number.isNaN(d.at.getTime()))
+      .reverse();
+
+    const tank = contractAsTank(c);
+    const est = tank ? replayTankLevel(tank, deliveries, now) : null;
+    if (!tank || !est || est.percentFull > threshold) continue;
+
+    rows.push({
+      contractId: c.id,
+      siteId: null,
+      siteName: null,
+      tankId: null,
+      tankName: null,
+      fuel: null,
+      email,
+      displayName: c.customer_name || c.company_name || c.contact_name || email,
+      tankSizeL: tank.capacityL,
+      monthlyConsumptionL: tank.monthlyConsumptionL,
+      percentFull: est.percentFull,
+      estimatedLitresLeft: est.estimatedLitresLeft,
+      daysSinceLastDelivery: Math.round(est.daysSinceLastDelivery as number),
+      lastDeliveryDate: est.lastDeliveryDate,
+      lastDeliveredLitres: est.lastDeliveredLitres,
+      lastReadingAt: null,
+      calibrated: false,
+      ...forecastFields(est.forecast),
+      message: messageFor(
+        tank.capacityL,
+        tank.monthlyConsumptionL as number,
+        est.percentFull
+      ),
+    });
+  }
+
+  return rows;
+}
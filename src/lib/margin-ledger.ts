@@ -0,0 +1,155 @@
+// src/lib/margin-ledger.ts
+// One ledger row per paid order (public.order_ledger):
+//   revenue        what the customer paid
+//   platform fee   our commission (rate snapshotted at checkout)
+//   refinery cost  revenue - platform fee (what the refinery is paid)
+//   stripe fee     from the charge's balance transaction
+//   net margin     platform fee - stripe fee
+// Written from the Stripe webhook; re-running for the same order just
+// refreshes the row.
+
+import type Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+import { commissionForOrder } from "./commission";
+
+export type LedgerRow = {
+  order_id: string;
+  user_email: string | null;
+  fuel: string | null;
+  litres: number | null;
+  currency: string;
+  revenue_pence: number;
+  commission_percent: number;
+  commission_from_snapshot: boolean;
+  platform_fee_pence: number;
+  refinery_cost_pence: number;
+  stripe_fee_pence: number | null;
+  stripe_balance_transaction_id: string | null;
+  net_margin_pence: number;
+  refunded_pence: number;
+  paid_at: string;
+};
+
+/** Stripe's own fee for a payment intent (ignores application fees). */
+async function loadStripeFee(
+  stripe: Stripe,
+  paymentIntentId: string
+): Promise<{ feePence: number; balanceTransactionId: string } | null> {
+  const pi = await stripe.paymentIntents.retrieve(paymentIntentId, {
+    expand: ["latest_charge.balance_transaction"],
+  });
+  const charge = pi.latest_charge as Stripe.Charge | string | null;
+  if (!charge || typeof charge === "string") return null;
+
+  const bt = charge.balance_transaction as Stripe.BalanceTransaction | string | null;
+  // not settled yet (e.g. BACS) – fee gets filled in on a later event
+  if (!bt || typeof bt === "string") return null;
+
+  const stripeFees = (bt.fee_details || []).filter((f) => f.type === "stripe_fee");
+  const feePence = stripeFees.length
+    ? stripeFees.reduce((sum, f) => sum + f.amount, 0)
+    : bt.fee;
+
+  return { feePence, balanceTransactionId: bt.id };
+}
+
+/**
+ * Create / refresh the ledger row for a paid order.
+ * Never throws – a ledger failure must not break the webhook.
+ */
+export async function recordOrderLedger(args: {
+  stripe: Stripe;
+  orderId: string | null | undefined;
+  paymentIntentId: string | null | undefined;
+}): Promise<LedgerRow | null> {
+  const { orderId, paymentIntentId } = args;
+  if (!orderId) return null;
+
+  try {
+    const { data: order, error } = await supabaseAdmin
+      .from("orders")
+      .select(
+        "id,created_at,user_email,fuel,litres,postcode,total_pence,commission_percent,platform_fee_pence,refinery_cost_pence,paid_at"
+      )
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error || !order) {
+      console.error("[ledger] order not found", orderId, error);
+      return null;
+    }
+
+    const o = order as any;
+    const revenue = Number(o.total_pence) || 0;
+    const commission = await commissionForOrder(o);
+    const refineryCost =
+      o.refinery_cost_pence != null
+        ? Number(o.refinery_cost_pence)
+        : revenue - commission.feePence;
+
+    let fee: Awaited<ReturnType<typeof loadStripeFee>> = null;
+    if (paymentIntentId) {
+      try {
+        fee = await loadStripeFee(args.stripe, paymentIntentId);
+      } catch (e) {
+        console.error("[ledger] stripe fee lookup failed", e);
+      }
+    }
+
+    const row: LedgerRow = {
+      order_id: orderId,
+      user_email: o.user_email ? String(o.user_email).toLowerCase() : null,
+      fuel: o.fuel ?? null,
+      litres: o.litres ?? null,
+      currency: "GBP",
+      revenue_pence: revenue,
+      commission_percent: commission.percent,
+      commission_from_snapshot: commission.snapshot,
+      platform_fee_pence: commission.feePence,
+      refinery_cost_pence: refineryCost,
+      stripe_fee_pence: fee?.feePence ?? null,
+      stripe_balance_transaction_id: fee?.balanceTransactionId ?? null,
+      net_margin_pence: commission.feePence - (fee?.feePence ?? 0),
+      refunded_pence: 0,
+      paid_at: o.paid_at || new Date().toISOString(),
+    };
+
+    // keep refunds already recorded against this order
+    const { data: existing } = await supabaseAdmin
+      .from("order_ledger")
+      .select("refunded_pence")
+      .eq("order_id", orderId)
+      .maybeSingle();
+    row.refunded_pence = Number((existing as any)?.refunded_pence) || 0;
+
+    const { error: upErr } = await supabaseAdmin
+      .from("order_ledger")
+      .upsert({ ...row, updated_at: new Date().toISOString() } as any, {
+        onConflict: "order_id",
+      });
+    if (upErr) {
+      console.error("[ledger] upsert failed", upErr);
+      return null;
+    }
+    return row;
+  } catch (e) {
+    console.error("[ledger] crash", e);
+    return null;
+  }
+}
+
+/** Record the cumulative refunded amount (pence) on an order's ledger row. */
+export async function recordLedgerRefund(
+  orderId: string | null | undefined,
+  refundedPence: number
+) {
+  if (!orderId) return;
+  const { error } = await supabaseAdmin
+    .from("order_ledger")
+    .update({
+      refunded_pence: refundedPence,
+      updated_at: new Date().toISOString(),
+    } as any)
+    .eq("order_id", orderId);
+  if (error) console.error("[ledger] refund update failed", error);
+}
@@ -0,0 +1,187 @@
+// src/lib/off-session-orders.ts
+// Orders charged to a saved card / BACS mandate without Stripe Checkout –
+// standing orders (lib/recurring-orders.ts) and one-click reorders
+// (api/orders/reorder).
+//
+// Priced, commissioned and slotted by lib/order-service like checkout, then
+// charged with a confirmed off-session PaymentIntent carrying the canonical
+// order metadata, so payment_intent.succeeded runs the usual webhook ->
+// invoice -> refinery flow. Cards settle straight away; BACS debits stay
+// "processing" for a few days and the order is marked paid when Stripe
+// confirms them.
+
+import Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+import type { Fuel } from "./pricing";
+import {
+  confirmDeliveryBooking,
+  releaseDeliveryBooking,
+} from "./delivery-capacity";
+import {
+  createPendingOrder,
+  orderMetadata,
+  type OrderAddress,
+  type OrderSource,
+} from "./order-service";
+import { transitionOrder } from "./order-lifecycle";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+export type OffSessionOrderArgs = {
+  email: string;
+  fuel: Fuel;
+  litres: number;
+  deliveryDate: string;
+  address: OrderAddress;
+  site?: { id: string; name: string } | null;
+  tank?: { id: string; name: string } | null;
+  stripeCustomerId: string;
+  paymentMethodId: string;
+  source: Extract<OrderSource, "recurring" | "reorder">;
+  /** extra order columns, e.g. recurring_order_id / reorder_of */
+  orderFields?: Record<string, any>;
+  /** extra PaymentIntent metadata */
+  metadata?: Record<string, string>;
+  description?: string;
+  /** same key -> the same order and charge (retries, double clicks) */
+  idempotencyKey?: string | null;
+};
+
+export type OffSessionOrderResult =
+  | { ok: true; orderId: string; paymentStatus: Stripe.PaymentIntent.Status }
+  | {
+      ok: false;
+      reason: "full" | "price" | "payment" | "in_progress" | "error";
+      error: string;
+    };
+
+/** The order a repeated request already placed, as its first result. */
+async function existingOffSessionOrder(
+  key: string
+): Promise<OffSessionOrderResult | null> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("id,status,stripe_payment_intent")
+    .eq("idempotency_key", key)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  const o = data as any;
+
+  if (o.status === "payment_failed") {
+    return { ok: false, reason: "payment", error: "Payment failed" };
+  }
+  if (!o.stripe_payment_intent) {
+    return { ok: false, reason: "in_progress", error: "This order is already being placed" };
+  }
+  const pi = await stripe.paymentIntents.retrieve(o.stripe_payment_intent);
+  return { ok: true, orderId: o.id, paymentStatus: pi.status };
+}
+
+export async function placeOffSessionOrder(
+  args: OffSessionOrderArgs
+): Promise<OffSessionOrderResult> {
+  const email = args.email.toLowerCase();
+  const key = args.idempotencyKey || null;
+
+  if (key) {
+    const existing = await existingOffSessionOrder(key);
+    if (existing) return existing;
+  }
+
+  const created = await createPendingOrder(
+    {
+      email,
+      fuel: args.fuel,
+      litres: args.litres,
+      deliveryDate: args.deliveryDate,
+      address: args.address,
+      site: args.site ?? null,
+      tank: args.tank ?? null,
+    },
+    {
+      customerEmail: email,
+      orderFields: {
+        ...(args.orderFields || {}),
+        ...(key ? { idempotency_key: key } : {}),
+      },
+      actor: args.source === "recurring" ? "system:recurring" : email,
+    }
+  );
+  if (!created.ok) {
+    // a concurrent request with the same key inserted first
+    if (key) {
+      const existing = await existingOffSessionOrder(key);
+      if (existing) return existing;
+    }
+    const reason =
+      created.reason === "full" || created.reason === "price"
+        ? created.reason
+        : "error";
+    return {
+      ok: false,
+      reason,
+      error: reason === "full" ? "Delivery day fully booked" : created.error,
+    };
+  }
+
+  const order = created.order;
+  const orderId = order.id;
+
+  // Same Connect split as checkout
+  const refineryAccountId = process.env.REFINERY_STRIPE_ACCOUNT_ID;
+
+  try {
+    const pi = await stripe.paymentIntents.create(
+      {
+        amount: order.totalPence,
+        currency: "gbp",
+        customer: args.stripeCustomerId,
+        payment_method: args.paymentMethodId,
+        off_session: true,
+        confirm: true,
+        receipt_email: email,
+        description:
+          args.description ||
+          `${args.litres.toLocaleString()} L ${args.fuel} – ${args.deliveryDate}`,
+        ...(refineryAccountId
+          ? {
+              ...(order.platformFeePence > 0
+                ? { application_fee_amount: order.platformFeePence }
+                : {}),
+              transfer_data: { destination: refineryAccountId },
+            }
+          : {}),
+        metadata: orderMetadata(order, args.source, args.metadata),
+      },
+      key ? { idempotencyKey: `off-session-order-${key}` } : undefined
+    );
+
+    await supabaseAdmin
+      .from("orders")
+      .update({ stripe_payment_intent: pi.id } as any)
+      .eq("id", orderId);
+    // a Direct Debit takes days to clear – keep the slot meanwhile (the
+    // webhook gives it back if the debit fails)
+    if (pi.status === "processing") await confirmDeliveryBooking(orderId);
+    return { ok: true, orderId, paymentStatus: pi.status };
+  } catch (e: any) {
+    // declined / needs authentication – give the slot back
+    const error =
+      e?.code === "authentication_required"
+        ? "Your bank needs you to confirm this payment – please order through checkout"
+        : e?.raw?.message || e?.message || "Payment failed";
+    await transitionOrder({
+      orderId,
+      to: "cancelled",
+      onlyFrom: ["pending"],
+      actor: "system:stripe",
+      reason: error,
+      fields: { status: "payment_failed" },
+    });
+    await releaseDeliveryBooking({ orderId, reason: "payment_failed" });
+    return { ok: false, reason: "payment", error };
+  }
+}
@@ -0,0 +1,823 @@
+// src/lib/order-changes.ts
+// Customer cancellations and amendments (public.order_changes), allowed
+// while the order is confirmed but not yet with the refinery (state
+// "paid").
+//
+//   cancel  card / BACS orders are refunded in full through Stripe (the
+//           webhook then moves the order on to "refunded"); on-account
+//           orders just drop off the balance. A credit note is emailed.
+//   amend   new litres and / or delivery date, re-priced on the order's
+//           own day price with the volume band for the new litres (see
+//           repriceOrder). Less -> partial refund (only once the order
+//           has been updated), more -> top-up charged off-session to the
+//           card / mandate the order was paid with (on account: checked
+//           against the available credit). Once settled the order is
+//           updated and a revised invoice emailed; a refinery pack that is
+//           still queued picks up the new invoice.
+
+import Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+import { platformFeePence } from "./commission";
+import { checkDeliveryDate, loadDeliveryCalendar } from "./delivery-calendar";
+import {
+  attachBookingToOrder,
+  confirmDeliveryBooking,
+  deliveryHoldMinutes,
+  releaseDeliveryBooking,
+  reserveDeliverySlot,
+} from "./delivery-capacity";
+import { loadCreditAccount } from "./credit-accounts";
+import { recordOrderLedger } from "./margin-ledger";
+import {
+  SETTLED_ORDER_STATUSES,
+  recordOrderEvent,
+  transitionOrder,
+} from "./order-lifecycle";
+import { issueOrderDocument, orderDocumentNumber } from "./order-documents";
+import { applyTier, loadVolumeTiers, pickTier } from "./volume-tiers";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+export type OrderChangeKind = "cancel" | "amend";
+export type OrderChangeStatus = "awaiting_payment" | "completed" | "failed";
+
+export type OrderChange = {
+  id: string;
+  orderId: string;
+  kind: OrderChangeKind;
+  status: OrderChangeStatus;
+  requestedBy: string;
+  reason: string | null;
+  oldLitres: number | null;
+  newLitres: number | null;
+  oldDeliveryDate: string | null;
+  newDeliveryDate: string | null;
+  oldTotalPence: number;
+  newTotalPence: number;
+  differencePence: number;
+  documentNumber: string | null;
+  documentPath: string | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+export type OrderChangeResult =
+  | {
+      ok: true;
+      change: OrderChange;
+      /** amend with a top-up still clearing (BACS) */
+      awaitingPayment?: boolean;
+    }
+  | { ok: false; status: number; error: string };
+
+const CHANGE_COLUMNS =
+  "id,order_id,kind,status,requested_by,reason,old_litres,new_litres,old_delivery_date,new_delivery_date,old_total_pence,new_total_pence,difference_pence,document_number,document_path,error,created_at,completed_at";
+
+const ORDER_COLUMNS =
+  "id,user_email,name,product,fuel,litres,unit_price_pence,base_unit_price_pence,volume_tier_id,volume_tier_name,volume_discount_pence,price_agreement_id,total_pence,delivery_surcharge_pence,price_zone_name,commission_percent,delivery_date,delivery_booking_id,status,state,refinery_notification_status,stripe_payment_intent,payment_due_date,address_line1,address_line2,city,postcode,created_at";
+
+function changeFromRow(r: any): OrderChange {
+  return {
+    id: r.id,
+    orderId: r.order_id,
+    kind: r.kind,
+    status: r.status,
+    requestedBy: r.requested_by,
+    reason: r.reason ?? null,
+    oldLitres: r.old_litres ?? null,
+    newLitres: r.new_litres ?? null,
+    oldDeliveryDate: r.old_delivery_date ?? null,
+    newDeliveryDate: r.new_delivery_date ?? null,
+    oldTotalPence: Number(r.old_total_pence) || 0,
+    newTotalPence: Number(r.new_total_pence) || 0,
+    differencePence: Number(r.difference_pence) || 0,
+    documentNumber: r.document_number ?? null,
+    documentPath: r.document_path ?? null,
+    error: r.error ?? null,
+    createdAt: r.created_at,
+    completedAt: r.completed_at ?? null,
+  };
+}
+
+function refuse(status: number, error: string): OrderChangeResult {
+  return { ok: false, status, error };
+}
+
+async function loadOrder(orderId: string): Promise<any | null> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_COLUMNS)
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Why this order can't be changed any more, or null if it can. */
+export function changeBlockedReason(order: {
+  state?: string | null;
+  status?: string | null;
+  refinery_notification_status?: string | null;
+}): string | null {
+  if (order.state === "pending") return "This order hasn't been paid yet";
+  if (order.state !== "paid" || order.refinery_notification_status === "sent") {
+    return "This order is already with the refinery – please contact us to change it";
+  }
+  // partially_refunded: an earlier amendment took litres off
+  if (!SETTLED_ORDER_STATUSES.includes(order.status || "")) {
+    return "This order can't be changed online – please contact us";
+  }
+  return null;
+}
+
+export type OrderReprice = {
+  unitPricePence: number;
+  totalPence: number;
+  tier: { id: string; name: string } | null;
+  volumeSavingPence: number;
+};
+
+/** Pricing columns repriceOrder reads. */
+export type RepricedOrder = {
+  fuel: string | null;
+  litres: number | null;
+  unit_price_pence: number | null;
+  base_unit_price_pence: number | null;
+  delivery_surcharge_pence: number | null;
+  volume_tier_id: string | null;
+  volume_tier_name: string | null;
+  volume_discount_pence: number | null;
+  price_agreement_id: string | null;
+};
+
+/**
+ * Fuel line + the flat surcharge for `litres` of this order. The order's
+ * own day price and zone uplift stand; the volume band is resolved again
+ * for the new litres, as quoteUnitPrice does at checkout – dropping below
+ * the band that earned a discount loses it, moving up into a better band
+ * gains it, and staying within the order's band keeps its unit price.
+ * Agreement prices replace the band, so they (and orders from before the
+ * day price was recorded) keep their unit price.
+ */
+export async function repriceOrder(
+  order: RepricedOrder,
+  litres: number
+): Promise<OrderReprice> {
+  let unitPricePence = Number(order.unit_price_pence) || 0;
+  let tier = order.volume_tier_id
+    ? { id: order.volume_tier_id, name: order.volume_tier_name || "" }
+    : null;
+  let volumeSavingPence = 0;
+
+  const oldLitres = Number(order.litres) || 0;
+  const base = order.base_unit_price_pence;
+  const fuel = order.fuel;
+  if (
+    base != null &&
+    !order.price_agreement_id &&
+    oldLitres > 0 &&
+    (fuel === "petrol" || fuel === "diesel")
+  ) {
+    // zoned price before the band, back out of what the band saved
+    const listUnitPence =
+      unitPricePence + Math.round((Number(order.volume_discount_pence) || 0) / oldLitres);
+    const picked = pickTier(await loadVolumeTiers(), litres, fuel);
+    if ((picked?.id ?? null) !== (order.volume_tier_id ?? null)) {
+      unitPricePence = Math.round(applyTier(base, picked) + (listUnitPence - base));
+      tier = picked ? { id: picked.id, name: picked.name } : null;
+    }
+    volumeSavingPence = tier
+      ? Math.round(Math.max(listUnitPence - unitPricePence, 0) * litres)
+      : 0;
+  }
+
+  return {
+    unitPricePence,
+    totalPence:
+      Math.round(unitPricePence * litres) + (Number(order.delivery_surcharge_pence) || 0),
+    tier,
+    volumeSavingPence,
+  };
+}
+
+/** The customer's changes to an order, newest first. */
+export async function loadOrderChanges(orderId: string): Promise<OrderChange[]> {
+  const { data, error } = await supabaseAdmin
+    .from("order_changes")
+    .select(CHANGE_COLUMNS)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data || []).map(changeFromRow);
+}
+
+/* ---------- documents ---------- */
+
+/** Credit note (cancel) or revised invoice number `revision` (amend). */
+function issueChangeDocument(
+  order: any,
+  args: {
+    kind: OrderChangeKind;
+    litres: number;
+    totalPence: number;
+    revision: number;
+    notes: string;
+  }
+) {
+  const creditNote = args.kind === "cancel";
+  return issueOrderDocument(order, {
+    number: creditNote
+      ? orderDocumentNumber("CN", order.id)
+      : orderDocumentNumber("INV", order.id, `-R${args.revision}`),
+    litres: args.litres,
+    totalPence: args.totalPence,
+    notes: args.notes,
+    creditNote,
+    tag: "order-changes",
+  });
+}
+
+/* ---------- Stripe ---------- */
+
+function connectRefundOptions() {
+  // destination charges: take the refinery's share and our fee back too
+  return process.env.REFINERY_STRIPE_ACCOUNT_ID
+    ? { reverse_transfer: true, refund_application_fee: true }
+    : {};
+}
+
+/** Part of the order's payment back (amount omitted = all that's left). */
+async function refundPayment(
+  order: any,
+  paymentIntentId: string,
+  changeId: string,
+  amountPence?: number
+): Promise<string> {
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      ...(amountPence != null ? { amount: amountPence } : {}),
+      reason: "requested_by_customer",
+      metadata: { order_id: order.id, order_change_id: changeId },
+      ...connectRefundOptions(),
+    },
+    { idempotencyKey: `order-change-refund-${changeId}-${paymentIntentId}` }
+  );
+  return refund.id;
+}
+
+/** The order's payment plus any top-ups taken for amendments. */
+async function orderPaymentIntents(order: any): Promise<string[]> {
+  const { data } = await supabaseAdmin
+    .from("order_changes")
+    .select("stripe_payment_intent")
+    .eq("order_id", order.id)
+    .eq("kind", "amend")
+    .eq("status", "completed")
+    .gt("difference_pence", 0);
+  return [
+    order.stripe_payment_intent,
+    ...(data || []).map((r: any) => r.stripe_payment_intent),
+  ].filter(Boolean);
+}
+
+/* ---------- cancel ---------- */
+
+export async function cancelOrder(args: {
+  orderId: string;
+  actor: string;
+  reason?: string | null;
+}): Promise<OrderChangeResult> {
+  const order = await loadOrder(args.orderId);
+  if (!order) return refuse(404, "Order not found");
+  const blocked = changeBlockedReason(order);
+  if (blocked) return refuse(409, blocked);
+
+  const onAccount = order.status === "approved_on_account";
+  if (!onAccount && !order.stripe_payment_intent) {
+    return refuse(409, "This order can't be refunded online – please contact us");
+  }
+
+  const total = Number(order.total_pence) || 0;
+  const { data: row, error } = await supabaseAdmin
+    .from("order_changes")
+    .insert({
+      order_id: order.id,
+      kind: "cancel",
+      status: "completed",
+      requested_by: args.actor,
+      reason: args.reason || null,
+      old_litres: order.litres,
+      old_delivery_date: order.delivery_date,
+      old_total_pence: total,
+      new_total_pence: 0,
+      difference_pence: -total,
+    } as any)
+    .select("id")
+    .single();
+  if (error || !row) {
+    if ((error as any)?.code === "23505") {
+      return refuse(409, "A change to this order is still waiting for payment");
+    }
+    throw new Error(error?.message || "Failed to record cancellation");
+  }
+  const changeId = (row as any).id as string;
+
+  // stop the order first so it can't be sent to the refinery meanwhile;
+  // card orders stay "paid" until the refund webhook marks them refunded
+  const moved = await transitionOrder({
+    orderId: order.id,
+    to: "cancelled",
+    onlyFrom: ["paid"],
+    actor: args.actor,
+    reason: args.reason || "Cancelled by the customer",
+    meta: { order_change_id: changeId },
+    fields: {
+      ...(onAccount ? { status: "cancelled" } : {}),
+      refinery_notification_status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+    },
+  });
+  if (!moved.ok) {
+    await supabaseAdmin
+      .from("order_changes")
+      .update({ status: "failed", error: moved.error } as any)
+      .eq("id", changeId);
+    return refuse(409, "This order is already with the refinery – please contact us to change it");
+  }
+
+  const refundIds: string[] = [];
+  if (!onAccount) {
+    for (const pi of await orderPaymentIntents(order)) {
+      try {
+        refundIds.push(await refundPayment(order, pi, changeId));
+      } catch (e: any) {
+        if (e?.code === "charge_already_refunded") continue;
+        // the order is cancelled either way – flag it for a manual refund
+        const message = e?.raw?.message || e?.message || "Refund failed";
+        console.error("[order-changes] cancel refund failed:", message);
+        await supabaseAdmin
+          .from("order_changes")
+          .update({ error: `Refund failed (${pi}): ${message}` } as any)
+          .eq("id", changeId);
+        await recordOrderEvent({
+          orderId: order.id,
+          event: "refund_failed",
+          actor: "system:stripe",
+          reason: message,
+          meta: { payment_intent: pi },
+        });
+      }
+    }
+  }
+
+  await releaseDeliveryBooking({
+    orderId: order.id,
+    reason: "order_cancelled",
+    includeConfirmed: true,
+  });
+
+  const doc = await issueChangeDocument(order, {
+    kind: "cancel",
+    litres: Number(order.litres) || 0,
+    totalPence: total,
+    revision: 0,
+    notes: onAccount
+      ? "Order cancelled – this amount has been removed from your account balance."
+      : "Order cancelled – this amount is being refunded to your original payment method.",
+  });
+
+  const { data: done } = await supabaseAdmin
+    .from("order_changes")
+    .update({
+      stripe_refund_id: refundIds.join(",") || null,
+      document_number: doc?.number ?? null,
+      document_path: doc?.path ?? null,
+      completed_at: new Date().toISOString(),
+    } as any)
+    .eq("id", changeId)
+    .select(CHANGE_COLUMNS)
+    .single();
+
+  return { ok: true, change: changeFromRow(done) };
+}
+
+/* ---------- amend ---------- */
+
+export async function amendOrder(args: {
+  orderId: string;
+  actor: string;
+  litres?: number | null;
+  deliveryDate?: string | null;
+  reason?: string | null;
+}): Promise<OrderChangeResult> {
+  const order = await loadOrder(args.orderId);
+  if (!order) return refuse(404, "Order not found");
+  const blocked = changeBlockedReason(order);
+  if (blocked) return refuse(409, blocked);
+
+  const oldLitres = Number(order.litres) || 0;
+  const litres = args.litres != null ? Math.round(Number(args.litres)) : oldLitres;
+  if (!Number.isFinite(litres) || litres <= 0) return refuse(400, "Invalid litres");
+  const date = args.deliveryDate || order.delivery_date;
+  if (litres === oldLitres && date === order.delivery_date) {
+    return refuse(400, "Nothing to change");
+  }
+
+  // lead time / cut-off only for a new day – the booked one stands
+  if (date !== order.delivery_date) {
+    const calendar = await loadDeliveryCalendar(supabaseAdmin, order.postcode);
+    const check = checkDeliveryDate(calendar, date, { litres });
+    if (!check.ok) return refuse(400, check.message);
+  }
+
+  const oldTotal = Number(order.total_pence) || 0;
+  const priced = await repriceOrder(order, litres);
+  const newTotal = priced.totalPence;
+  const difference = newTotal - oldTotal;
+  const onAccount = order.status === "approved_on_account";
+
+  if (onAccount && difference > 0) {
+    const account = await loadCreditAccount(order.user_email);
+    if (!account || account.status !== "active" || account.availablePence < difference) {
+      return refuse(402, "Not enough credit on your account for this change");
+    }
+  }
+  if (!onAccount && difference !== 0 && !order.stripe_payment_intent) {
+    return refuse(409, "This order can't be changed online – please contact us");
+  }
+
+  // new slot for the new day / size; the old one is only given back once
+  // the change goes through (so it can still fall back) but isn't counted
+  // against the day meanwhile
+  const slot = await reserveDeliverySlot({
+    postcode: order.postcode,
+    date,
+    litres,
+    expiresAt: new Date(Date.now() + deliveryHoldMinutes() * 60_000),
+    replaces: order.delivery_booking_id ?? null,
+  });
+  if (!slot.ok) return refuse(409, "That delivery day is fully booked");
+
+  const { data: row, error } = await supabaseAdmin
+    .from("order_changes")
+    .insert({
+      order_id: order.id,
+      kind: "amend",
+      status: "awaiting_payment",
+      requested_by: args.actor,
+      reason: args.reason || null,
+      old_litres: oldLitres,
+      new_litres: litres,
+      old_delivery_date: order.delivery_date,
+      new_delivery_date: date,
+      old_total_pence: oldTotal,
+      new_total_pence: newTotal,
+      difference_pence: difference,
+      new_unit_price_pence: priced.unitPricePence,
+      new_volume_tier_id: priced.tier?.id ?? null,
+      new_volume_tier_name: priced.tier?.name ?? null,
+      new_volume_discount_pence: priced.volumeSavingPence,
+      booking_id: slot.bookingId,
+    } as any)
+    .select("id")
+    .single();
+  if (error || !row) {
+    await releaseDeliveryBooking({
+      bookingId: slot.bookingId,
+      reason: "amend_failed",
+      includeConfirmed: true,
+    });
+    if ((error as any)?.code === "23505") {
+      return refuse(409, "A change to this order is still waiting for payment");
+    }
+    throw new Error(error?.message || "Failed to record amendment");
+  }
+  const changeId = (row as any).id as string;
+  await attachBookingToOrder(slot.bookingId, order.id);
+
+  const fail = async (message: string, status = 402) => {
+    await supabaseAdmin
+      .from("order_changes")
+      .update({ status: "failed", error: message } as any)
+      .eq("id", changeId);
+    await releaseDeliveryBooking({
+      bookingId: slot.bookingId,
+      reason: "amend_failed",
+      includeConfirmed: true,
+    });
+    return refuse(status, message);
+  };
+
+  if (!onAccount && difference > 0) {
+    // top-up on the same card / mandate as the order
+    const original = await stripe.paymentIntents.retrieve(order.stripe_payment_intent);
+    const customer =
+      typeof original.customer === "string" ? original.customer : original.customer?.id;
+    const paymentMethod =
+      typeof original.payment_method === "string"
+        ? original.payment_method
+        : original.payment_method?.id;
+    if (!customer || !paymentMethod) {
+      return fail("The card used for this order wasn't saved – please contact us to add litres");
+    }
+
+    const refineryAccountId = process.env.REFINERY_STRIPE_ACCOUNT_ID;
+    const fee = platformFeePence(difference, Number(order.commission_percent) || 0);
+    try {
+      const pi = await stripe.paymentIntents.create(
+        {
+          amount: difference,
+          currency: "gbp",
+          customer,
+          payment_method: paymentMethod,
+          off_session: true,
+          confirm: true,
+          receipt_email: order.user_email,
+          description: `Order change – ${oldLitres.toLocaleString()} → ${litres.toLocaleString()} L`,
+          ...(refineryAccountId
+            ? {
+                ...(fee > 0 ? { application_fee_amount: fee } : {}),
+                transfer_data: { destination: refineryAccountId },
+              }
+            : {}),
+          // no order_id: the webhook must not treat this as the order's payment
+          metadata: { order_change_id: changeId, order_ref: order.id, source: "amendment" },
+        },
+        { idempotencyKey: `order-change-topup-${changeId}` }
+      );
+      await supabaseAdmin
+        .from("order_changes")
+        .update({ stripe_payment_intent: pi.id } as any)
+        .eq("id", changeId);
+
+      if (pi.status === "processing") {
+        // a Direct Debit takes days – keep the new slot meanwhile
+        await confirmDeliveryBooking(order.id);
+        await recordOrderEvent({
+          orderId: order.id,
+          event: "amendment_requested",
+          actor: args.actor,
+          reason: args.reason || null,
+          meta: { order_change_id: changeId, difference_pence: difference },
+        });
+        const { data: waiting } = await supabaseAdmin
+          .from("order_changes")
+          .select(CHANGE_COLUMNS)
+          .eq("id", changeId)
+          .single();
+        return { ok: true, change: changeFromRow(waiting), awaitingPayment: true };
+      }
+      if (pi.status !== "succeeded") return fail("Payment wasn't completed");
+    } catch (e: any) {
+      return fail(
+        e?.code === "authentication_required"
+          ? "Your bank needs you to confirm this payment – please contact us to add litres"
+          : e?.raw?.message || e?.message || "Payment failed"
+      );
+    }
+  }
+
+  return completeOrderChange(changeId);
+}
+
+/**
+ * Applies a settled amendment to the order. The change is claimed first
+ * (awaiting_payment -> completed), so amendOrder and the top-up webhook
+ * can't both apply it – the loser gets the change as it stands. If the
+ * order moved on while a top-up was clearing, the top-up is refunded
+ * instead. A smaller order's refund is only issued here, once the change
+ * has been applied.
+ */
+export async function completeOrderChange(changeId: string): Promise<OrderChangeResult> {
+  const { data: claimed, error } = await supabaseAdmin
+    .from("order_changes")
+    .update({ status: "completed" } as any)
+    .eq("id", changeId)
+    .eq("status", "awaiting_payment")
+    .select(
+      `${CHANGE_COLUMNS},booking_id,stripe_payment_intent,new_unit_price_pence,new_volume_tier_id,new_volume_tier_name,new_volume_discount_pence`
+    )
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!claimed) {
+    const { data: current } = await supabaseAdmin
+      .from("order_changes")
+      .select(CHANGE_COLUMNS)
+      .eq("id", changeId)
+      .maybeSingle();
+    if (!current) return refuse(404, "Change not found");
+    const c = current as any;
+    return c.status === "completed"
+      ? { ok: true, change: changeFromRow(c) }
+      : refuse(409, c.error || "Change failed");
+  }
+  const r = claimed as any;
+
+  const order = await loadOrder(r.order_id);
+  const now = new Date().toISOString();
+  const newTotal = Number(r.new_total_pence) || 0;
+  const fee = platformFeePence(newTotal, Number(order?.commission_percent) || 0);
+
+  // only while the order is still ours to change
+  const { data: applied, error: applyErr } = order
+    ? await supabaseAdmin
+        .from("orders")
+        .update({
+          litres: r.new_litres,
+          delivery_date: r.new_delivery_date,
+          total_pence: newTotal,
+          amount: newTotal / 100,
+          unit_price_pence: r.new_unit_price_pence,
+          volume_tier_id: r.new_volume_tier_id,
+          volume_tier_name: r.new_volume_tier_name,
+          volume_discount_pence: r.new_volume_discount_pence ?? 0,
+          platform_fee_pence: fee,
+          refinery_cost_pence: newTotal - fee,
+          delivery_booking_id: r.booking_id,
+          amended_at: now,
+        } as any)
+        .eq("id", order.id)
+        .eq("state", "paid")
+        .neq("refinery_notification_status", "sent")
+        .select("id")
+        .maybeSingle()
+    : { data: null, error: null };
+  if (applyErr) throw new Error(applyErr.message);
+
+  if (!applied) {
+    const message = "The order went to the refinery before the change was paid";
+    if (r.stripe_payment_intent && Number(r.difference_pence) > 0) {
+      try {
+        await stripe.refunds.create(
+          { payment_intent: r.stripe_payment_intent, ...connectRefundOptions() },
+          { idempotencyKey: `order-change-topup-refund-${changeId}` }
+        );
+      } catch (e: any) {
+        console.error("[order-changes] top-up refund failed:", e?.message || e);
+      }
+    }
+    await supabaseAdmin
+      .from("order_changes")
+      .update({ status: "failed", error: message } as any)
+      .eq("id", changeId);
+    if (r.booking_id) {
+      await releaseDeliveryBooking({
+        bookingId: r.booking_id,
+        reason: "amend_failed",
+        includeConfirmed: true,
+      });
+    }
+    return refuse(409, message);
+  }
+
+  // swap the delivery slots
+  if (order.delivery_booking_id && order.delivery_booking_id !== r.booking_id) {
+    await releaseDeliveryBooking({
+      bookingId: order.delivery_booking_id,
+      reason: "order_amended",
+      includeConfirmed: true,
+    });
+  }
+  await confirmDeliveryBooking(order.id);
+
+  const diff = Number(r.difference_pence) || 0;
+  const onAccount = order.status === "approved_on_account";
+  let refunded = false;
+  if (diff < 0 && !onAccount && order.stripe_payment_intent) {
+    try {
+      const refundId = await refundPayment(
+        order,
+        order.stripe_payment_intent,
+        changeId,
+        -diff
+      );
+      await supabaseAdmin
+        .from("order_changes")
+        .update({ stripe_refund_id: refundId } as any)
+        .eq("id", changeId);
+      refunded = true;
+    } catch (e: any) {
+      // the change stands either way – flag it for a manual refund
+      const message = e?.raw?.message || e?.message || "Refund failed";
+      console.error("[order-changes] amend refund failed:", message);
+      await supabaseAdmin
+        .from("order_changes")
+        .update({ error: `Refund failed: ${message}` } as any)
+        .eq("id", changeId);
+      await recordOrderEvent({
+        orderId: order.id,
+        event: "refund_failed",
+        actor: "system:stripe",
+        reason: message,
+        meta: { payment_intent: order.stripe_payment_intent },
+      });
+    }
+  }
+
+  await recordOrderEvent({
+    orderId: order.id,
+    event: "amended",
+    actor: r.requested_by,
+    reason: r.reason ?? null,
+    meta: {
+      order_change_id: changeId,
+      litres: [r.old_litres, r.new_litres],
+      delivery_date: [r.old_delivery_date, r.new_delivery_date],
+      total_pence: [r.old_total_pence, newTotal],
+    },
+  });
+
+  // this change is already counted – it was claimed as completed
+  const { count } = await supabaseAdmin
+    .from("order_changes")
+    .select("id", { count: "exact", head: true })
+    .eq("order_id", order.id)
+    .eq("kind", "amend")
+    .eq("status", "completed");
+
+  const money = (p: number) => `£${(Math.abs(p) / 100).toFixed(2)}`;
+  const doc = await issueChangeDocument(
+    { ...order, litres: r.new_litres },
+    {
+      kind: "amend",
+      litres: Number(r.new_litres) || 0,
+      totalPence: newTotal,
+      revision: count || 1,
+      notes: [
+        `Revised order: ${Number(r.new_litres).toLocaleString()} L for delivery on ${r.new_delivery_date}.`,
+        diff < 0 && !onAccount
+          ? refunded
+            ? `${money(diff)} has been refunded to your original payment method.`
+            : `${money(diff)} will be refunded to your original payment method.`
+          : diff > 0 && !onAccount
+          ? `${money(diff)} has been charged to your original payment method.`
+          : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    }
+  );
+
+  // a refinery pack still waiting to go out carries the revised invoice
+  if (doc?.path && order.refinery_notification_status === "ready") {
+    await supabaseAdmin
+      .from("orders")
+      .update({
+        refinery_invoice_storage_path: doc.path,
+        refinery_notified_at: now,
+      } as any)
+      .eq("id", order.id);
+  }
+
+  if (order.stripe_payment_intent) {
+    await recordOrderLedger({
+      stripe,
+      orderId: order.id,
+      paymentIntentId: order.stripe_payment_intent,
+    });
+  }
+
+  const { data: done } = await supabaseAdmin
+    .from("order_changes")
+    .update({
+      document_number: doc?.number ?? null,
+      document_path: doc?.path ?? null,
+      completed_at: now,
+    } as any)
+    .eq("id", changeId)
+    .select(CHANGE_COLUMNS)
+    .single();
+
+  return { ok: true, change: changeFromRow(done) };
+}
+
+/** A top-up that didn't clear (e.g. a failed Direct Debit). */
+export async function failOrderChange(changeId: string, message: string) {
+  const { data } = await supabaseAdmin
+    .from("order_changes")
+    .update({ status: "failed", error: message } as any)
+    .eq("id", changeId)
+    .eq("status", "awaiting_payment")
+    .select("order_id,booking_id,requested_by")
+    .maybeSingle();
+  if (!data) return;
+  const r = data as any;
+  if (r.booking_id) {
+    await releaseDeliveryBooking({
+      bookingId: r.booking_id,
+      reason: "amend_failed",
+      includeConfirmed: true,
+    });
+  }
+  await recordOrderEvent({
+    orderId: r.order_id,
+    event: "amendment_failed",
+    actor: "system:stripe",
+    reason: message,
+    meta: { order_change_id: changeId },
+  });
+}
@@ -0,0 +1,117 @@
+// src/lib/order-documents.ts
+// Follow-up documents for an order, emailed and filed through
+// /api/invoices/create: credit notes and revised invoices after a change
+// (lib/order-changes.ts), and credit notes / supplementary invoices for a
+// delivery that differs from the order (lib/delivery-variance.ts).
+
+const INVOICE_BASE =
+  (process.env.SELF_BASE_URL || "").replace(/\/+$/, "") ||
+  (process.env.SITE_URL || process.env.NEXT_PUBLIC_SITE_URL || "").replace(
+    /\/+$/,
+    ""
+  ) ||
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "");
+
+/** CN-YYMMDD-XXXXXX / INV-YYMMDD-XXXXXX-<suffix> from the order id. */
+export function orderDocumentNumber(
+  prefix: "CN" | "INV",
+  orderId: string,
+  suffix = ""
+) {
+  const d = new Date();
+  const ymd = `${String(d.getFullYear()).slice(-2)}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+  const tail = orderId.replace(/[^A-Za-z0-9]/g, "").slice(-6).toUpperCase();
+  return `${prefix}-${ymd}-${tail}${suffix}`;
+}
+
+/**
+ * Emails a credit note, revised or supplementary invoice and returns its
+ * storage path. Lines default to `litres` at the order's price plus the
+ * order's delivery surcharge. Best effort: returns null rather than
+ * throwing, so the caller's change stands (the document can be re-issued
+ * from the invoice tools).
+ */
+export async function issueOrderDocument(
+  order: any,
+  args: {
+    number: string;
+    litres: number;
+    totalPence: number;
+    notes: string;
+    creditNote?: boolean;
+    /** an extra invoice next to the order's own (not a replacement) */
+    supplementary?: boolean;
+    /** own lines instead of fuel + surcharge (total in pounds) */
+    items?: { description: string; litres: number; total: number }[];
+    /** unpaid: payment due date (YYYY-MM-DD); defaults to the order's on account */
+    dueDate?: string | null;
+    /** log tag of the caller */
+    tag: string;
+  }
+): Promise<{ number: string; path: string | null } | null> {
+  if (!process.env.INVOICE_SECRET || !INVOICE_BASE) {
+    console.error(`[${args.tag}] INVOICE_SECRET / SITE_URL not set – no document`);
+    return null;
+  }
+
+  const creditNote = !!args.creditNote;
+  const dueDate =
+    args.dueDate ??
+    (order.status === "approved_on_account" ? order.payment_due_date : null);
+  const surchargePence = Number(order.delivery_surcharge_pence) || 0;
+  const items = args.items || [
+    {
+      description: order.product || order.fuel || "Fuel order",
+      litres: args.litres,
+      total: (args.totalPence - surchargePence) / 100,
+    },
+    ...(surchargePence > 0
+      ? [
+          {
+            description: `Delivery surcharge${
+              order.price_zone_name ? ` (${order.price_zone_name})` : ""
+            }`,
+            litres: 1,
+            total: surchargePence / 100,
+          },
+        ]
+      : []),
+  ];
+
+  try {
+    const resp = await fetch(`${INVOICE_BASE}/api/invoices/create`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-invoice-secret": process.env.INVOICE_SECRET,
+      },
+      body: JSON.stringify({
+        customer: {
+          name: order.name,
+          email: order.user_email,
+          address_line1: order.address_line1,
+          address_line2: order.address_line2,
+          city: order.city,
+          postcode: order.postcode,
+        },
+        items,
+        currency: "GBP",
+        meta: {
+          invoiceNumber: args.number,
+          orderId: order.id,
+          notes: args.notes,
+          creditNote,
+          revised: !creditNote && !args.supplementary,
+          supplementary: !creditNote && !!args.supplementary,
+          ...(!creditNote && dueDate ? { dueDateISO: `${dueDate}T12:00:00.000Z` } : {}),
+        },
+      }),
+    });
+    const json = await resp.json().catch(() => ({}));
+    if (!resp.ok) throw new Error(json?.error || `Invoice route error: ${resp.status}`);
+    return { number: args.number, path: json?.storagePath ?? null };
+  } catch (e: any) {
+    console.error(`[${args.tag}] document failed for`, order.id, e?.message || e);
+    return null;
+  }
+}
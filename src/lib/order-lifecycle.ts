@@ -0,0 +1,193 @@
+// src/lib/order-lifecycle.ts
+// Order lifecycle state machine (orders.state) and its audit history
+// (public.order_events).
+//
+//   pending -> paid -> sent_to_refinery -> scheduled -> out_for_delivery
+//           -> delivered, with cancelled / refunded as exits (see
+//           ORDER_TRANSITIONS)
+//
+// "paid" means confirmed: payment taken, or approved on a credit account.
+// orders.status stays the payment status; the state is only ever moved by
+// transitionOrder (compare-and-set, so concurrent webhooks / admins can't
+// skip a check) and every move is written to order_events with its actor.
+
+import supabaseAdmin from "./supabaseAdmin";
+import {
+  canTransition,
+  isOrderState,
+  type OrderEvent,
+  type OrderState,
+} from "./order-states";
+
+export {
+  ORDER_STATES,
+  ORDER_STATE_LABEL,
+  ORDER_TRANSITIONS,
+  SETTLED_ORDER_STATUSES,
+  canTransition,
+  isOrderState,
+  type OrderEvent,
+  type OrderState,
+} from "./order-states";
+
+/** fulfilment_status kept in step for older readers / views. */
+const FULFILMENT_FOR_STATE: Partial<Record<OrderState, string>> = {
+  pending: "pending",
+  paid: "pending",
+  sent_to_refinery: "ordered",
+  scheduled: "ordered",
+  out_for_delivery: "out_for_delivery",
+  delivered: "delivered",
+  cancelled: "cancelled",
+};
+
+const EVENT_COLUMNS =
+  "id,order_id,event,from_state,to_state,actor,reason,meta,created_at";
+
+function eventFromRow(r: any): OrderEvent {
+  return {
+    id: r.id,
+    orderId: r.order_id,
+    event: r.event,
+    fromState: r.from_state ?? null,
+    toState: r.to_state ?? null,
+    actor: r.actor,
+    reason: r.reason ?? null,
+    meta: r.meta ?? null,
+    createdAt: r.created_at,
+  };
+}
+
+/**
+ * Records something that happened to an order without changing its state
+ * (created, payment, partial refund …). Best effort – never throws.
+ */
+export async function recordOrderEvent(args: {
+  orderId: string;
+  event: string;
+  actor: string;
+  reason?: string | null;
+  meta?: Record<string, any> | null;
+  fromState?: OrderState | null;
+  toState?: OrderState | null;
+}) {
+  const { error } = await supabaseAdmin.from("order_events").insert({
+    order_id: args.orderId,
+    event: args.event,
+    from_state: args.fromState ?? null,
+    to_state: args.toState ?? null,
+    actor: args.actor,
+    reason: args.reason ?? null,
+    meta: args.meta ?? null,
+  } as any);
+  if (error) console.error("[order-events] insert failed:", error.message);
+}
+
+export type TransitionResult =
+  | { ok: true; from: OrderState; to: OrderState; changed: boolean }
+  | {
+      ok: false;
+      reason: "not_found" | "invalid_transition" | "conflict";
+      error: string;
+      from?: OrderState;
+    };
+
+/**
+ * Moves an order to `to` if that's allowed from its current state, writing
+ * `fields` (e.g. status / paid_at) in the same update. Already in `to` is
+ * a no-op that still writes `fields` (idempotent webhooks).
+ */
+export async function transitionOrder(args: {
+  orderId: string;
+  to: OrderState;
+  actor: string;
+  reason?: string | null;
+  meta?: Record<string, any> | null;
+  /** extra orders columns to set with the move */
+  fields?: Record<string, any>;
+  /** only move from these states (narrower than ORDER_TRANSITIONS) */
+  onlyFrom?: OrderState[];
+}): Promise<TransitionResult> {
+  // a concurrent move between our read and write -> re-read and re-check
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: row, error } = await supabaseAdmin
+      .from("orders")
+      .select("id,state")
+      .eq("id", args.orderId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!row) return { ok: false, reason: "not_found", error: "Order not found" };
+
+    const current = (row as any).state;
+    const from: OrderState = isOrderState(current) ? current : "pending";
+
+    if (from === args.to) {
+      if (args.fields && Object.keys(args.fields).length) {
+        const { error: upErr } = await supabaseAdmin
+          .from("orders")
+          .update(args.fields as any)
+          .eq("id", args.orderId);
+        if (upErr) throw new Error(upErr.message);
+      }
+      return { ok: true, from, to: args.to, changed: false };
+    }
+
+    if (
+      !canTransition(from, args.to) ||
+      (args.onlyFrom && !args.onlyFrom.includes(from))
+    ) {
+      return {
+        ok: false,
+        reason: "invalid_transition",
+        error: `Can't move an order from ${from} to ${args.to}`,
+        from,
+      };
+    }
+
+    const now = new Date().toISOString();
+    const fulfilment = FULFILMENT_FOR_STATE[args.to];
+    const { data: moved, error: moveErr } = await supabaseAdmin
+      .from("orders")
+      .update({
+        ...(fulfilment ? { fulfilment_status: fulfilment } : {}),
+        ...(args.to === "delivered" ? { delivered_at: now } : {}),
+        ...(args.fields || {}),
+        state: args.to,
+        state_changed_at: now,
+      } as any)
+      .eq("id", args.orderId)
+      .eq("state", from)
+      .select("id")
+      .maybeSingle();
+    if (moveErr) throw new Error(moveErr.message);
+    if (!moved) continue;
+
+    await recordOrderEvent({
+      orderId: args.orderId,
+      event: "transition",
+      fromState: from,
+      toState: args.to,
+      actor: args.actor,
+      reason: args.reason,
+      meta: args.meta,
+    });
+    return { ok: true, from, to: args.to, changed: true };
+  }
+
+  return {
+    ok: false,
+    reason: "conflict",
+    error: "The order was changed at the same time – please try again",
+  };
+}
+
+/** An order's history, oldest first. */
+export async function loadOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from("order_events")
+    .select(EVENT_COLUMNS)
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []).map(eventFromRow);
+}
@@ -0,0 +1,861 @@
+// src/lib/order-service.ts
+// The one place orders are created.
+//
+// Every entry point goes through here so orders rows and Stripe metadata
+// always have the same shape:
+//
+//   api/create-checkout-session          order page (Stripe Checkout / on account)
+//   api/checkout/create, create-session  legacy adapters -> placeOrder
+//   api/stripe/checkout/create           legacy adapter  -> placeOrder
+//   lib/off-session-orders               standing orders + one-click reorders
+//
+// parseOrderRequest validates the request body, resolveOrderRequest turns it
+// into an OrderDraft (site, tank, address, calendar check), and
+// createPendingOrder prices it (live price or price lock), takes the
+// commission snapshot, holds a delivery slot and inserts the canonical
+// orders row. How it is then paid is up to the caller: placeOrder does
+// Stripe Checkout or credit terms, off-session-orders a saved card.
+
+import Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+import { quoteUnitPrice, type Fuel, type PriceQuote } from "./pricing";
+import { normalisePostcode, verifyPriceLock } from "./price-lock";
+import { resolveCommission, platformFeePence } from "./commission";
+import { checkDeliveryDate, loadDeliveryCalendar } from "./delivery-calendar";
+import {
+  attachBookingToOrder,
+  deliveryHoldMinutes,
+  releaseDeliveryBooking,
+  reserveDeliverySlot,
+} from "./delivery-capacity";
+import { createSite, loadSiteForCustomer, type CustomerSite } from "./customer-sites";
+import { allocateTank, type Tank } from "./tanks";
+import { isSandboxEmail } from "./sandbox";
+import { getOrCreateStripeCustomer, savedMethodTypes } from "./stripe-customers";
+import {
+  approveOrderOnAccount,
+  issueOnAccountInvoice,
+  loadCreditAccount,
+  type CreditAccount,
+} from "./credit-accounts";
+import { recordOrderEvent, transitionOrder } from "./order-lifecycle";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+/* ---------- request ---------- */
+
+/** Where an order came from (metadata.source). */
+export type OrderSource =
+  | "checkout"
+  | "legacy_checkout"
+  | "recurring"
+  | "reorder";
+
+export type OrderRequest = {
+  fuel: Fuel;
+  litres: number;
+  /** receipt email (the order's user_email) */
+  email: string;
+  name: string;
+  /** ignored when siteId is set – the site's address is used */
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  postcode: string | null;
+  /** YYYY-MM-DD */
+  deliveryDate: string;
+  /** token from /api/prices/lock */
+  priceLock: string | null;
+  /** saved delivery site (customer_sites.id) */
+  siteId: string | null;
+  /** tank at the site the fuel goes into (optional if only one) */
+  tankId: string | null;
+  /** save the typed address as a new site */
+  saveSite: boolean;
+  siteName: string | null;
+  /** charge the customer's credit account instead of Stripe */
+  payOnAccount: boolean;
+  /** printed on the invoice */
+  notes: string | null;
+};
+
+export type OrderFailure = {
+  ok: false;
+  /** HTTP status for API routes */
+  status: number;
+  error: string;
+  reason?: string;
+  /** extra fields for the response body (e.g. remainingLitres) */
+  details?: Record<string, unknown>;
+};
+
+function fail(
+  status: number,
+  error: string,
+  reason?: string,
+  details?: Record<string, unknown>
+): OrderFailure {
+  return {
+    ok: false,
+    status,
+    error,
+    ...(reason ? { reason } : {}),
+    ...(details ? { details } : {}),
+  };
+}
+
+/** JSON body for an OrderFailure response. */
+export function orderFailureBody(f: OrderFailure): Record<string, unknown> {
+  return {
+    error: f.error,
+    ...(f.reason ? { reason: f.reason } : {}),
+    ...(f.details || {}),
+  };
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function text(v: unknown): string | null {
+  if (typeof v === "number") return String(v);
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  return t ? t : null;
+}
+
+/**
+ * Validates a raw request body against the OrderRequest schema. Field
+ * names are the order page's; legacy routes map theirs first.
+ */
+export function parseOrderRequest(
+  body: unknown
+): { ok: true; request: OrderRequest } | OrderFailure {
+  const b = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const invalid: string[] = [];
+
+  const fuel = text(b.fuel)?.toLowerCase();
+  if (fuel !== "petrol" && fuel !== "diesel") invalid.push("fuel");
+
+  const litres = Number(b.litres);
+  if (!Number.isFinite(litres) || litres <= 0) invalid.push("litres");
+
+  const email = text(b.email);
+  if (!email || !email.includes("@")) invalid.push("email");
+
+  const name = text(b.name);
+  if (!name) invalid.push("name");
+
+  const siteId = text(b.siteId);
+  const addressLine1 = text(b.addressLine1);
+  const city = text(b.city);
+  const postcode = text(b.postcode);
+  if (!siteId) {
+    if (!addressLine1) invalid.push("addressLine1");
+    if (!city) invalid.push("city");
+    if (!postcode) invalid.push("postcode");
+  }
+
+  const deliveryDate = text(b.deliveryDate);
+  if (!deliveryDate || !DATE_RE.test(deliveryDate)) invalid.push("deliveryDate");
+
+  if (invalid.length) {
+    return fail(400, "Missing order details", "invalid", { fields: invalid });
+  }
+
+  return {
+    ok: true,
+    request: {
+      fuel: fuel as Fuel,
+      litres: Math.round(litres),
+      email: email as string,
+      name: name as string,
+      addressLine1,
+      addressLine2: text(b.addressLine2),
+      city,
+      postcode,
+      deliveryDate: deliveryDate as string,
+      priceLock: text(b.priceLock),
+      siteId,
+      tankId: text(b.tankId),
+      saveSite: b.saveSite === true,
+      siteName: text(b.siteName),
+      payOnAccount: b.payOnAccount === true,
+      notes: text(b.notes)?.slice(0, 500) ?? null,
+    },
+  };
+}
+
+/* ---------- draft ---------- */
+
+export type OrderAddress = {
+  name: string;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  postcode: string;
+};
+
+/** Everything needed to price and insert an order. */
+export type OrderDraft = {
+  /** receipt email – stored as user_email */
+  email: string;
+  fuel: Fuel;
+  litres: number;
+  deliveryDate: string;
+  address: OrderAddress;
+  site: Pick<CustomerSite, "id" | "name"> | null;
+  tank: Pick<Tank, "id" | "name"> | null;
+};
+
+/**
+ * Resolves the saved site (must be the signed-in customer's), the tank and
+ * the address, and re-checks the delivery date against the same calendar
+ * the order page uses (bank holidays, cut-off, lead time, blackouts).
+ */
+export async function resolveOrderRequest(
+  request: OrderRequest,
+  customerEmail: string | null
+): Promise<{ ok: true; draft: OrderDraft } | OrderFailure> {
+  let site: CustomerSite | null = null;
+  if (request.siteId) {
+    if (!customerEmail) return fail(401, "Sign in to deliver to a saved site");
+    site = await loadSiteForCustomer(request.siteId, customerEmail);
+    if (!site) return fail(404, "Delivery site not found");
+  }
+
+  let tank: Tank | null = null;
+  if (site) {
+    const allocated = await allocateTank({
+      siteId: site.id,
+      fuel: request.fuel,
+      tankId: request.tankId,
+    });
+    if (!allocated.ok) return fail(400, allocated.error);
+    tank = allocated.tank;
+  }
+
+  const address: OrderAddress = site
+    ? {
+        name: request.name,
+        addressLine1: site.addressLine1,
+        addressLine2: site.addressLine2,
+        city: site.city,
+        postcode: site.postcode,
+      }
+    : {
+        name: request.name,
+        addressLine1: request.addressLine1 as string,
+        addressLine2: request.addressLine2,
+        city: request.city as string,
+        postcode: request.postcode as string,
+      };
+
+  const calendar = await loadDeliveryCalendar(supabaseAdmin, address.postcode);
+  const dateCheck = checkDeliveryDate(calendar, request.deliveryDate);
+  if (!dateCheck.ok) {
+    return fail(400, dateCheck.message, dateCheck.reason, {
+      earliest: dateCheck.earliest,
+    });
+  }
+
+  return {
+    ok: true,
+    draft: {
+      email: request.email.toLowerCase(),
+      fuel: request.fuel,
+      litres: request.litres,
+      deliveryDate: request.deliveryDate,
+      address,
+      site,
+      tank,
+    },
+  };
+}
+
+/* ---------- pending order ---------- */
+
+export type PendingOrder = {
+  id: string;
+  draft: OrderDraft;
+  quote: PriceQuote;
+  unitPricePence: number;
+  deliverySurchargePence: number;
+  totalPence: number;
+  platformFeePence: number;
+  priceLockId: string | null;
+  bookingId: string;
+  /** when the slot hold (and a Checkout session) runs out */
+  holdUntil: Date;
+};
+
+/** The canonical orders row for a priced draft. */
+function orderRow(
+  draft: OrderDraft,
+  priced: {
+    quote: PriceQuote;
+    totalPence: number;
+    commission: { percent: number; rateId: string | null };
+    platformFeePence: number;
+    priceLockId: string | null;
+    bookingId: string;
+  }
+): Record<string, any> {
+  const { quote } = priced;
+  return {
+    user_email: draft.email,
+    // dashboards / legacy fields
+    product: draft.fuel === "petrol" ? "Petrol (95)" : "Diesel",
+    amount: priced.totalPence / 100, // pounds, for old views
+    status: "pending",
+
+    fuel: draft.fuel,
+    litres: draft.litres,
+    unit_price_pence: quote.unitPricePence,
+    total_pence: priced.totalPence,
+    base_unit_price_pence: quote.baseUnitPence,
+    delivery_surcharge_pence: quote.deliverySurchargePence,
+    price_zone_id: quote.zone?.id ?? null,
+    price_zone_name: quote.zone?.name ?? null,
+    volume_tier_id: quote.tier?.id ?? null,
+    volume_tier_name: quote.tier?.name ?? null,
+    volume_discount_pence: quote.volumeSavingPence,
+    price_agreement_id: quote.agreement?.id ?? null,
+    price_agreement_name: quote.agreement?.name ?? null,
+    price_agreement_kind: quote.agreement?.kind ?? null,
+    price_agreement_contract_id: quote.agreement?.contractId ?? null,
+    price_lock_id: priced.priceLockId,
+    delivery_booking_id: priced.bookingId,
+    commission_percent: priced.commission.percent,
+    commission_rate_id: priced.commission.rateId,
+    platform_fee_pence: priced.platformFeePence,
+    refinery_cost_pence: priced.totalPence - priced.platformFeePence,
+    delivery_date: draft.deliveryDate,
+    site_id: draft.site?.id ?? null,
+    site_name: draft.site?.name ?? null,
+    tank_id: draft.tank?.id ?? null,
+    tank_name: draft.tank?.name ?? null,
+    name: draft.address.name,
+    address_line1: draft.address.addressLine1,
+    address_line2: draft.address.addressLine2,
+    city: draft.address.city,
+    postcode: draft.address.postcode,
+  };
+}
+
+/** Give a claimed price lock back so the customer can use it again. */
+async function releasePriceLock(priceLockId: string | null) {
+  if (!priceLockId) return;
+  await supabaseAdmin
+    .from("price_locks")
+    .update({ used_at: null } as any)
+    .eq("id", priceLockId);
+}
+
+/**
+ * Prices the draft (a valid price lock wins over the live price), holds a
+ * delivery slot and inserts the pending order. Nothing is left behind on
+ * failure.
+ */
+export async function createPendingOrder(
+  draft: OrderDraft,
+  opts: {
+    /** signed-in customer – agreements and price locks are theirs */
+    customerEmail: string | null;
+    priceLock?: string | null;
+    /** save the typed address as a site once the slot is held */
+    saveSiteAs?: { email: string; name: string } | null;
+    /** extra columns, e.g. recurring_order_id / reorder_of */
+    orderFields?: Record<string, any>;
+    /** who placed it, for the order history (defaults to the customer) */
+    actor?: string;
+  }
+): Promise<{ ok: true; order: PendingOrder } | OrderFailure> {
+  const { fuel, litres: qty, address } = draft;
+
+  // Negotiated agreements only apply to the signed-in customer, not to
+  // whatever receipt email was typed in
+  const liveQuote = await quoteUnitPrice({
+    fuel,
+    postcode: address.postcode,
+    litres: qty,
+    customerEmail: opts.customerEmail,
+  });
+
+  // Locks are tied to the signed-in user, the postcode + litres they were
+  // quoted for, and can only be used once
+  let quote: PriceQuote | null = liveQuote;
+  let priceLockId: string | null = null;
+
+  if (opts.priceLock) {
+    const rejectLock = (reason: string) =>
+      fail(409, "Price lock is no longer valid", reason);
+
+    const check = verifyPriceLock(opts.priceLock, opts.customerEmail);
+    if (!check.ok) return rejectLock(check.reason);
+
+    const lock = check.lock;
+    const locked = lock.prices[fuel];
+    if (
+      !locked ||
+      lock.postcode !== normalisePostcode(address.postcode) ||
+      lock.litres !== qty
+    ) {
+      return rejectLock("mismatch");
+    }
+
+    // claim it (atomic: only succeeds while used_at is still null)
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from("price_locks")
+      .update({
+        used_at: new Date().toISOString(),
+        fuel,
+        locked_unit_price_pence: locked.unitPricePence,
+        live_unit_price_pence: liveQuote?.unitPricePence ?? null,
+      } as any)
+      .eq("id", lock.id)
+      .is("used_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (claimError) console.error("[price-lock] claim error:", claimError);
+    if (!claimed) return rejectLock("used");
+
+    quote = { fuel, ...locked };
+    priceLockId = lock.id;
+  }
+
+  if (!quote) {
+    console.error("[orders] price not available for", fuel);
+    return fail(500, "Price not available", "price");
+  }
+
+  const totalPence = quote.unitPricePence * qty + quote.deliverySurchargePence;
+
+  // Commission as % of the order total – the rate in force now for this
+  // customer / region, snapshotted on the order. Customer rates follow the
+  // signed-in account, never the typed receipt email (guests: none)
+  const commission = await resolveCommission({
+    fuel,
+    customerEmail: opts.customerEmail,
+    postcode: address.postcode,
+  });
+  const platformFee = platformFeePence(totalPence, commission.percent);
+
+  // Hold a delivery slot for that day/region while the customer pays
+  const holdUntil = new Date(Date.now() + deliveryHoldMinutes() * 60_000);
+  const slot = await reserveDeliverySlot({
+    postcode: address.postcode,
+    date: draft.deliveryDate,
+    litres: qty,
+    expiresAt: holdUntil,
+  });
+  if (!slot.ok) {
+    await releasePriceLock(priceLockId);
+    return fail(
+      409,
+      "That delivery date is fully booked. Please choose another day.",
+      "full",
+      { remainingLitres: slot.remainingLitres, remainingDrops: slot.remainingDrops }
+    );
+  }
+
+  // New address the customer wants to keep (best effort)
+  let site = draft.site;
+  if (!site && opts.saveSiteAs) {
+    const created = await createSite(opts.saveSiteAs.email, {
+      name: opts.saveSiteAs.name,
+      addressLine1: address.addressLine1,
+      addressLine2: address.addressLine2,
+      city: address.city,
+      postcode: address.postcode,
+    });
+    if (created.ok) site = created.site;
+    else console.error("[sites] save from checkout failed:", created.error);
+  }
+  const finalDraft: OrderDraft = { ...draft, site };
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from("orders")
+    .insert({
+      ...orderRow(finalDraft, {
+        quote,
+        totalPence,
+        commission,
+        platformFeePence: platformFee,
+        priceLockId,
+        bookingId: slot.bookingId,
+      }),
+      ...(opts.orderFields || {}),
+    } as any) // `as any` – optional columns
+    .select("id")
+    .single();
+
+  if (insertError || !inserted) {
+    console.error("[orders] insert failed:", insertError);
+    await releasePriceLock(priceLockId);
+    await releaseDeliveryBooking({
+      bookingId: slot.bookingId,
+      reason: "order_insert_failed",
+    });
+    return fail(500, "Failed to create order in DB", "error", {
+      details: insertError?.message ?? null,
+    });
+  }
+
+  const orderId = inserted.id as string;
+  if (priceLockId) {
+    await supabaseAdmin
+      .from("price_locks")
+      .update({ order_id: orderId } as any)
+      .eq("id", priceLockId);
+  }
+  await attachBookingToOrder(slot.bookingId, orderId);
+  await recordOrderEvent({
+    orderId,
+    event: "created",
+    toState: "pending",
+    actor: opts.actor || opts.customerEmail || draft.email,
+    meta: { total_pence: totalPence, price_lock_id: priceLockId },
+  });
+
+  return {
+    ok: true,
+    order: {
+      id: orderId,
+      draft: finalDraft,
+      quote,
+      unitPricePence: quote.unitPricePence,
+      deliverySurchargePence: quote.deliverySurchargePence,
+      totalPence,
+      platformFeePence: platformFee,
+      priceLockId,
+      bookingId: slot.bookingId,
+      holdUntil,
+    },
+  };
+}
+
+/** A pending order that won't go ahead: frees its lock and slot. */
+export async function abandonPendingOrder(
+  order: PendingOrder,
+  args: { reason: string; status?: string }
+) {
+  if (args.status) {
+    await transitionOrder({
+      orderId: order.id,
+      to: "cancelled",
+      onlyFrom: ["pending"],
+      actor: "system:orders",
+      reason: args.reason,
+      fields: { status: args.status },
+    });
+  }
+  await releasePriceLock(order.priceLockId);
+  await releaseDeliveryBooking({ bookingId: order.bookingId, reason: args.reason });
+}
+
+/**
+ * A pending order whose Checkout session expired unpaid: cancelled, and
+ * its price lock and held slot given back. Leaves a paid order alone.
+ */
+export async function expirePendingOrder(orderId: string) {
+  const moved = await transitionOrder({
+    orderId,
+    to: "cancelled",
+    onlyFrom: ["pending"],
+    actor: "system:stripe",
+    reason: "Checkout session expired",
+    fields: { status: "expired" },
+  });
+  if (moved.ok && moved.changed) {
+    const { data } = await supabaseAdmin
+      .from("orders")
+      .select("price_lock_id")
+      .eq("id", orderId)
+      .maybeSingle();
+    await releasePriceLock((data as any)?.price_lock_id ?? null);
+  }
+  await releaseDeliveryBooking({ orderId, reason: "session_expired" });
+}
+
+/* ---------- Stripe metadata ---------- */
+
+/**
+ * Canonical Stripe metadata for an order (Checkout session or
+ * PaymentIntent). The webhook reads it back with readOrderMetadata.
+ */
+export function orderMetadata(
+  order: PendingOrder,
+  source: OrderSource,
+  extra?: Record<string, string>
+): Record<string, string> {
+  const { draft, quote } = order;
+  return {
+    order_id: order.id,
+    source,
+    email: draft.email,
+    fuel: draft.fuel,
+    litres: String(draft.litres),
+    deliveryDate: draft.deliveryDate,
+    unit_price_pence: String(order.unitPricePence),
+    total_pence: String(order.totalPence),
+    ...(draft.site ? { site_id: draft.site.id } : {}),
+    ...(draft.tank ? { tank_id: draft.tank.id } : {}),
+    ...(quote.zone ? { price_zone: quote.zone.name } : {}),
+    ...(quote.tier ? { volume_tier: quote.tier.name } : {}),
+    ...(quote.agreement
+      ? { price_agreement: quote.agreement.id || quote.agreement.name }
+      : {}),
+    ...(order.priceLockId ? { price_lock_id: order.priceLockId } : {}),
+    ...(extra || {}),
+  };
+}
+
+export type OrderMetadata = {
+  orderId: string | null;
+  email: string | null;
+  litres: number | null;
+  deliveryDate: string | null;
+  notes: string | null;
+};
+
+/**
+ * Reads orderMetadata back – and the keys older sessions / PaymentIntents
+ * used (customer_email, delivery_date) so in-flight payments still match.
+ */
+export function readOrderMetadata(
+  md: Stripe.Metadata | null | undefined
+): OrderMetadata {
+  const m = (md || {}) as Record<string, string | undefined>;
+  const litres = Number(m.litres);
+  return {
+    orderId: m.order_id || null,
+    email: (m.email || m.customer_email || "").toLowerCase() || null,
+    litres: Number.isFinite(litres) && litres > 0 ? litres : null,
+    deliveryDate: m.deliveryDate || m.delivery_date || null,
+    notes: m.notes || null,
+  };
+}
+
+/* ---------- placing an order (Checkout / on account) ---------- */
+
+export type PlacedOrder = {
+  ok: true;
+  /** Checkout session id, or cs_sandbox / on_account */
+  id: string;
+  url: string;
+  orderId: string | null;
+};
+
+/** Public origin for Stripe redirect URLs. */
+export function appOrigin(requestOrigin?: string | null): string {
+  const envAppUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return (
+    (envAppUrl && envAppUrl.startsWith("http")
+      ? envAppUrl
+      : envAppUrl
+      ? `https://${envAppUrl}`
+      : requestOrigin) || "https://dashboard.fuelflow.co.uk"
+  );
+}
+
+async function startCheckout(
+  order: PendingOrder,
+  args: {
+    customerEmail: string | null;
+    origin: string;
+    source: OrderSource;
+    notes: string | null;
+  }
+): Promise<PlacedOrder> {
+  const { draft, quote } = order;
+
+  // Connect split – only if the refinery account is configured
+  const refineryAccountId = process.env.REFINERY_STRIPE_ACCOUNT_ID;
+  const paymentIntentData: Stripe.Checkout.SessionCreateParams.PaymentIntentData =
+    refineryAccountId
+      ? {
+          // only send application_fee_amount if there is a fee
+          ...(order.platformFeePence > 0
+            ? { application_fee_amount: order.platformFeePence }
+            : {}),
+          transfer_data: { destination: refineryAccountId },
+        }
+      : {};
+
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+    {
+      price_data: {
+        currency: "gbp",
+        product_data: {
+          name: `${
+            draft.fuel === "petrol" ? "Petrol (95)" : "Diesel"
+          } – ${draft.litres.toLocaleString()} litres`,
+        },
+        unit_amount: order.unitPricePence,
+      },
+      quantity: draft.litres,
+    },
+  ];
+  if (order.deliverySurchargePence > 0) {
+    lineItems.push({
+      price_data: {
+        currency: "gbp",
+        product_data: {
+          name: `Delivery surcharge${quote.zone ? ` – ${quote.zone.name}` : ""}`,
+        },
+        unit_amount: order.deliverySurchargePence,
+      },
+      quantity: 1,
+    });
+  }
+
+  // Signed-in accounts pay as their Stripe Customer so Checkout offers
+  // their saved cards / mandates and can save new ones for reorders
+  const stripeCustomerId = args.customerEmail
+    ? await getOrCreateStripeCustomer(args.customerEmail)
+    : null;
+
+  const metadata = orderMetadata(
+    order,
+    args.source,
+    args.notes ? { notes: args.notes } : undefined
+  );
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    ...(stripeCustomerId
+      ? {
+          customer: stripeCustomerId,
+          payment_method_types: savedMethodTypes(),
+          saved_payment_method_options: { payment_method_save: "enabled" },
+        }
+      : { customer_email: draft.email }),
+    success_url: `${args.origin}/checkout/success?session_id={CHECKOUT_SESSION_ID}&orderId=${order.id}`,
+    cancel_url: `${args.origin}/checkout/cancel?orderId=${order.id}&session_id={CHECKOUT_SESSION_ID}`,
+    expires_at: Math.floor(order.holdUntil.getTime() / 1000),
+    line_items: lineItems,
+    // on the PaymentIntent too – a Direct Debit's later succeeded /
+    // failed events only carry the PI. The card / mandate is saved for
+    // off-session use (guests get a Customer for it): amendment top-ups,
+    // delivery variance charges and reorders charge it without the
+    // customer present
+    payment_intent_data: {
+      ...paymentIntentData,
+      setup_future_usage: "off_session",
+      metadata,
+    },
+    metadata,
+  });
+
+  // session id on the order (dashboards & reconciliation)
+  await supabaseAdmin
+    .from("orders")
+    .update({ stripe_session_id: session.id } as any)
+    .eq("id", order.id);
+
+  return { ok: true, id: session.id, url: session.url as string, orderId: order.id };
+}
+
+async function placeOnAccount(
+  order: PendingOrder,
+  account: CreditAccount
+): Promise<PlacedOrder | OrderFailure> {
+  const approved = await approveOrderOnAccount({ orderId: order.id, account });
+  if (!approved.ok) {
+    await abandonPendingOrder(order, {
+      reason: "on_account_refused",
+      status: "cancelled",
+    });
+    return fail(402, approved.message, approved.reason, {
+      availablePence: approved.availablePence ?? null,
+    });
+  }
+
+  try {
+    await issueOnAccountInvoice(order.id);
+  } catch (e) {
+    // the order stands; the invoice can be re-sent from the admin side
+    console.error("[credit-accounts] invoice failed for", order.id, e);
+  }
+
+  return {
+    ok: true,
+    id: "on_account",
+    url: `/checkout/success?orderId=${order.id}&on_account=1`,
+    orderId: order.id,
+  };
+}
+
+/**
+ * Validates, prices and places an order from any checkout entry point:
+ * Stripe Checkout, or straight onto the customer's credit account. Sandbox
+ * accounts never reach Stripe (no order, slot or session).
+ */
+export async function placeOrder(
+  body: unknown,
+  args: {
+    customerEmail: string | null;
+    requestOrigin?: string | null;
+    source?: OrderSource;
+  }
+): Promise<PlacedOrder | OrderFailure> {
+  const { customerEmail } = args;
+
+  if (await isSandboxEmail(customerEmail)) {
+    return {
+      ok: true,
+      id: "cs_sandbox",
+      url: "/checkout/success?sandbox=1",
+      orderId: null,
+    };
+  }
+
+  const parsed = parseOrderRequest(body);
+  if (!parsed.ok) return parsed;
+  const { request } = parsed;
+
+  const resolved = await resolveOrderRequest(request, customerEmail);
+  if (!resolved.ok) return resolved;
+  const { draft } = resolved;
+
+  // Paying on account needs a credit account on file; the limit, overdue
+  // and suspension checks happen atomically once the order exists
+  let creditAccount: CreditAccount | null = null;
+  if (request.payOnAccount) {
+    if (!customerEmail) return fail(401, "Sign in to pay on account");
+    creditAccount = await loadCreditAccount(customerEmail);
+    if (!creditAccount) return fail(403, "No credit account on file");
+  }
+
+  const created = await createPendingOrder(draft, {
+    customerEmail,
+    priceLock: request.priceLock,
+    saveSiteAs:
+      !draft.site && request.saveSite && customerEmail
+        ? {
+            email: customerEmail,
+            name:
+              request.siteName ||
+              `${draft.address.addressLine1}, ${draft.address.postcode}`,
+          }
+        : null,
+  });
+  if (!created.ok) return created;
+  const order = created.order;
+
+  if (creditAccount) return placeOnAccount(order, creditAccount);
+
+  try {
+    return await startCheckout(order, {
+      customerEmail,
+      origin: appOrigin(args.requestOrigin),
+      source: args.source || "checkout",
+      notes: request.notes,
+    });
+  } catch (e) {
+    await abandonPendingOrder(order, { reason: "checkout_failed" });
+    throw e;
+  }
+}
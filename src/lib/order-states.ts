@@ -0,0 +1,76 @@
+// src/lib/order-states.ts
+// The order lifecycle states and allowed transitions – no server imports,
+// so the dashboards can use them too. Orders are moved by transitionOrder
+// (lib/order-lifecycle.ts).
+
+export type OrderState =
+  | "pending"
+  | "paid"
+  | "sent_to_refinery"
+  | "scheduled"
+  | "out_for_delivery"
+  | "delivered"
+  | "cancelled"
+  | "refunded";
+
+export const ORDER_STATES: OrderState[] = [
+  "pending",
+  "paid",
+  "sent_to_refinery",
+  "scheduled",
+  "out_for_delivery",
+  "delivered",
+  "cancelled",
+  "refunded",
+];
+
+/** Allowed next states. */
+export const ORDER_TRANSITIONS: Record<OrderState, OrderState[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["sent_to_refinery", "cancelled", "refunded"],
+  sent_to_refinery: ["scheduled", "out_for_delivery", "cancelled", "refunded"],
+  scheduled: ["out_for_delivery", "cancelled", "refunded"],
+  // a failed drop goes back to scheduled
+  out_for_delivery: ["delivered", "scheduled", "refunded"],
+  delivered: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+};
+
+export const ORDER_STATE_LABEL: Record<OrderState, string> = {
+  pending: "Awaiting payment",
+  paid: "Confirmed",
+  sent_to_refinery: "Sent to refinery",
+  scheduled: "Scheduled",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+/**
+ * Payment statuses (orders.status) of an order that stands: paid, on
+ * account, or paid with litres since refunded by an amendment.
+ */
+export const SETTLED_ORDER_STATUSES = ["paid", "partially_refunded", "approved_on_account"];
+
+/** One order_events row (lib/order-lifecycle.ts). */
+export type OrderEvent = {
+  id: string;
+  orderId: string;
+  event: string;
+  fromState: OrderState | null;
+  toState: OrderState | null;
+  actor: string;
+  reason: string | null;
+  meta: Record<string, any> | null;
+  createdAt: string;
+};
+
+export function isOrderState(v: unknown): v is OrderState {
+  return ORDER_STATES.includes(v as OrderState);
+}
+
+export function canTransition(from: OrderState, to: OrderState): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
@@ -0,0 +1,143 @@
+// src/lib/pod-pdf.ts
+// Proof of delivery PDF – what was delivered, the meter ticket, and the
+// signature / photo captured by the driver (lib/proof-of-delivery.ts).
+
+import { PDFDocument, StandardFonts, rgb, type PDFImage } from "pdf-lib";
+
+export type PodForPdf = {
+  orderId: string;
+  customerName: string | null;
+  deliveryAddress: string;
+  product: string;
+  orderedLitres: number;
+  deliveredLitres: number;
+  meterTicket: string;
+  deliveredAt: string;
+  driverName: string | null;
+  notes: string | null;
+  signature: { bytes: Uint8Array; contentType: string };
+  photo: { bytes: Uint8Array; contentType: string } | null;
+};
+
+function fmtWhen(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Europe/London",
+  });
+}
+
+// the standard fonts only encode WinAnsi
+const plain = (v: string) => v.replace(/[^\n\x20-\x7E\xA0-\xFF]/g, "");
+
+export async function buildPodPdf(pod: PodForPdf) {
+  const pdfDoc = await PDFDocument.create();
+
+  // A4 in points
+  const pageWidth = 595.28;
+  const pageHeight = 841.89;
+  const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+  const fontRegular = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const marginX = 48;
+  const headerBarHeight = 80;
+
+  page.drawRectangle({
+    x: 0,
+    y: pageHeight - headerBarHeight,
+    width: pageWidth,
+    height: headerBarHeight,
+    color: rgb(5 / 255, 8 / 255, 22 / 255),
+  });
+  page.drawText("PROOF OF DELIVERY", {
+    x: marginX,
+    y: pageHeight - headerBarHeight / 2 - 6,
+    size: 16,
+    font: fontBold,
+    color: rgb(1, 1, 1),
+  });
+
+  let cursorY = pageHeight - 120;
+
+  function drawField(label: string, value: string) {
+    page.drawText(label, {
+      x: marginX,
+      y: cursorY,
+      size: 9,
+      font: fontBold,
+      color: rgb(0.32, 0.37, 0.45),
+    });
+    cursorY -= 12;
+    for (const line of plain(value || "—").split(/\n+/)) {
+      page.drawText(line, {
+        x: marginX,
+        y: cursorY,
+        size: 11,
+        font: fontRegular,
+        color: rgb(0.09, 0.1, 0.12),
+      });
+      cursorY -= 13;
+    }
+    cursorY -= 6;
+  }
+
+  drawField("Order reference", pod.orderId);
+  drawField("Customer", pod.customerName || "—");
+  drawField("Delivery address", pod.deliveryAddress);
+  drawField("Product", pod.product);
+  drawField("Ordered", `${pod.orderedLitres.toLocaleString("en-GB")} L`);
+  drawField("Delivered", `${pod.deliveredLitres.toLocaleString("en-GB")} L`);
+  drawField("Meter ticket", pod.meterTicket);
+  drawField("Delivered at", fmtWhen(pod.deliveredAt));
+  if (pod.driverName) drawField("Driver", pod.driverName);
+  if (pod.notes) drawField("Notes", pod.notes);
+
+  async function embed(img: { bytes: Uint8Array; contentType: string }) {
+    return img.contentType === "image/png"
+      ? pdfDoc.embedPng(img.bytes)
+      : pdfDoc.embedJpg(img.bytes);
+  }
+
+  // scaled to fit maxW × maxH, top-left at (marginX, cursorY)
+  function drawImage(label: string, image: PDFImage, maxW: number, maxH: number) {
+    page.drawText(label, {
+      x: marginX,
+      y: cursorY,
+      size: 9,
+      font: fontBold,
+      color: rgb(0.32, 0.37, 0.45),
+    });
+    cursorY -= 8;
+    const scale = Math.min(maxW / image.width, maxH / image.height, 1);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    page.drawImage(image, { x: marginX, y: cursorY - h, width: w, height: h });
+    cursorY -= h + 16;
+  }
+
+  cursorY -= 6;
+  drawImage("Signature", await embed(pod.signature), 240, 90);
+
+  if (pod.photo) {
+    // whatever room is left on the page
+    drawImage(
+      "Delivery photo",
+      await embed(pod.photo),
+      pageWidth - marginX * 2,
+      Math.max(cursorY - 48, 60)
+    );
+  }
+
+  const pdfBytes = await pdfDoc.save();
+  return {
+    pdfBuffer: Buffer.from(pdfBytes),
+    filename: `proof-of-delivery-${pod.orderId}.pdf`,
+  };
+}
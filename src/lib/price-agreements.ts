@@ -0,0 +1,214 @@
+// src/lib/price-agreements.ts
+// Negotiated per-customer prices.
+//
+// Table: public.price_agreements
+//   customer_email  who it applies to
+//   contract_id     optional – only honoured while that contract is approved
+//   kind            "fixed"        fixed_price_pence per litre
+//                   "market_minus" zoned daily price minus discount_pence_per_litre
+//                   "margin_cap"   never more than refinery cost + margin_cap_pence_per_litre
+//   fuel            "petrol" | "diesel" | null (null = both)
+//   valid_from / valid_to (inclusive dates, null = open)
+//
+// Approved contracts with fuelflow_price_gbp_l and no explicit agreement
+// are treated as a fixed-price agreement.
+
+import supabaseAdmin from "./supabaseAdmin";
+
+type Fuel = "petrol" | "diesel";
+
+export type PriceAgreementKind = "fixed" | "market_minus" | "margin_cap";
+
+export type PriceAgreement = {
+  /** null for agreements derived from a contract's fuelflow price */
+  id: string | null;
+  name: string;
+  kind: PriceAgreementKind;
+  fuel: Fuel | null;
+  contractId: string | null;
+  fixedPricePence: number | null;
+  discountPencePerLitre: number;
+  marginCapPencePerLitre: number | null;
+  validFrom: string | null;
+  validTo: string | null;
+};
+
+type PriceAgreementRow = {
+  id: string;
+  name: string | null;
+  kind: string;
+  fuel: string | null;
+  contract_id: string | null;
+  fixed_price_pence: number | null;
+  discount_pence_per_litre: number | null;
+  margin_cap_pence_per_litre: number | null;
+  valid_from: string | null;
+  valid_to: string | null;
+};
+
+type ContractRow = {
+  id: string;
+  status: string | null;
+  fuelflow_price_gbp_l: number | null;
+  approved_at: string | null;
+};
+
+const KIND_LABEL: Record<PriceAgreementKind, string> = {
+  fixed: "Fixed price",
+  market_minus: "Market minus",
+  margin_cap: "Margin cap",
+};
+
+function fromRow(r: PriceAgreementRow): PriceAgreement | null {
+  const kind = String(r.kind || "").toLowerCase() as PriceAgreementKind;
+  if (!KIND_LABEL[kind]) return null;
+  return {
+    id: r.id,
+    name: r.name || KIND_LABEL[kind],
+    kind,
+    fuel: (r.fuel ? r.fuel.toLowerCase() : null) as Fuel | null,
+    contractId: r.contract_id,
+    fixedPricePence:
+      r.fixed_price_pence != null ? Number(r.fixed_price_pence) : null,
+    discountPencePerLitre: Number(r.discount_pence_per_litre) || 0,
+    marginCapPencePerLitre:
+      r.margin_cap_pence_per_litre != null
+        ? Number(r.margin_cap_pence_per_litre)
+        : null,
+    validFrom: r.valid_from,
+    validTo: r.valid_to,
+  };
+}
+
+function fromContract(c: ContractRow): PriceAgreement {
+  return {
+    id: null,
+    name: "Contract price",
+    kind: "fixed",
+    fuel: null,
+    contractId: c.id,
+    fixedPricePence: Math.round(Number(c.fuelflow_price_gbp_l) * 100),
+    discountPencePerLitre: 0,
+    marginCapPencePerLitre: null,
+    validFrom: c.approved_at ? c.approved_at.slice(0, 10) : null,
+    validTo: null,
+  };
+}
+
+/**
+ * Agreement in force for a fuel on a date (YYYY-MM-DD).
+ * Explicit agreements beat contract-derived ones, fuel-specific beat
+ * shared ones, then the most recently started wins.
+ */
+export function pickAgreement(
+  agreements: PriceAgreement[],
+  fuel: Fuel,
+  dateISO: string
+): PriceAgreement | null {
+  const matches = agreements.filter(
+    (a) =>
+      (!a.fuel || a.fuel === fuel) &&
+      (!a.validFrom || a.validFrom <= dateISO) &&
+      (!a.validTo || a.validTo >= dateISO)
+  );
+  if (!matches.length) return null;
+
+  return [...matches].sort((a, b) => {
+    if (!!a.id !== !!b.id) return a.id ? -1 : 1;
+    if (!!a.fuel !== !!b.fuel) return a.fuel ? -1 : 1;
+    return String(b.validFrom || "").localeCompare(String(a.validFrom || ""));
+  })[0];
+}
+
+/**
+ * Per-litre price (pence) under an agreement, or null if it can't be
+ * applied (e.g. margin cap without a refinery price).
+ *  - listUnitPence:   zoned daily price, before volume bands
+ *  - publicUnitPence: what a customer without an agreement would pay
+ */
+export function applyAgreement(
+  agreement: PriceAgreement,
+  prices: {
+    listUnitPence: number;
+    publicUnitPence: number;
+    refineryUnitPence: number | null;
+  }
+): number | null {
+  switch (agreement.kind) {
+    case "fixed":
+      return agreement.fixedPricePence != null &&
+        agreement.fixedPricePence > 0
+        ? agreement.fixedPricePence
+        : null;
+    case "market_minus":
+      return Math.max(
+        prices.listUnitPence - agreement.discountPencePerLitre,
+        0
+      );
+    case "margin_cap":
+      if (
+        agreement.marginCapPencePerLitre == null ||
+        !prices.refineryUnitPence
+      ) {
+        return null;
+      }
+      return Math.min(
+        prices.publicUnitPence,
+        prices.refineryUnitPence + agreement.marginCapPencePerLitre
+      );
+    default:
+      return null;
+  }
+}
+
+/** All active agreements for a customer (explicit + contract-derived). */
+export async function loadAgreementsForCustomer(
+  email: string
+): Promise<PriceAgreement[]> {
+  const emailLower = email.trim().toLowerCase();
+  if (!emailLower) return [];
+
+  const [agreementsRes, contractsRes] = await Promise.all([
+    supabaseAdmin
+      .from("price_agreements")
+      .select(
+        "id,name,kind,fuel,contract_id,fixed_price_pence,discount_pence_per_litre,margin_cap_pence_per_litre,valid_from,valid_to"
+      )
+      .eq("customer_email", emailLower)
+      .eq("active", true),
+    supabaseAdmin
+      .from("contracts")
+      .select("id,status,fuelflow_price_gbp_l,approved_at")
+      .eq("email", emailLower),
+  ]);
+
+  if (agreementsRes.error) {
+    console.error("[price-agreements] load error:", agreementsRes.error);
+  }
+  if (contractsRes.error) {
+    console.error("[price-agreements] contracts error:", contractsRes.error);
+  }
+
+  const contracts = (contractsRes.data || []) as ContractRow[];
+  const approved = new Set(
+    contracts.filter((c) => c.status === "approved").map((c) => c.id)
+  );
+
+  const explicit = ((agreementsRes.data || []) as PriceAgreementRow[])
+    .map(fromRow)
+    .filter((a): a is PriceAgreement => a !== null)
+    // linked agreements lapse with their contract
+    .filter((a) => !a.contractId || approved.has(a.contractId));
+
+  const covered = new Set(explicit.map((a) => a.contractId).filter(Boolean));
+  const fromContracts = contracts
+    .filter(
+      (c) =>
+        approved.has(c.id) &&
+        !covered.has(c.id) &&
+        Number(c.fuelflow_price_gbp_l) > 0
+    )
+    .map(fromContract);
+
+  return [...explicit, ...fromContracts];
+}
@@ -0,0 +1,280 @@
+// src/lib/price-alerts.ts
+// Customer price alerts, evaluated after each daily_prices import.
+//
+// Table: public.price_alert_subscriptions
+//   kind "below"    – latest price under `threshold` (GBP / litre)
+//   kind "move_pct" – latest price moved more than `threshold` percent
+//                     from the previous price day (either direction)
+//
+// De-duplication:
+//   below    fires once when the price drops under the threshold
+//            (armed -> false) and re-arms when it goes back above.
+//   move_pct fires at most once per price day (last_triggered_price_date).
+// Rules are claimed with a conditional update before emailing, so two
+// overlapping runs can't both send.
+
+import supabaseAdmin from "./supabaseAdmin";
+import { sendMail } from "./mailer";
+import { buildBrandedEmailHtml } from "./branded-email";
+
+type Fuel = "petrol" | "diesel";
+
+export type PriceAlertKind = "below" | "move_pct";
+
+export type PriceAlertSubscription = {
+  id: string;
+  user_email: string;
+  fuel: Fuel;
+  kind: PriceAlertKind;
+  threshold: number;
+  active: boolean;
+  armed: boolean;
+  last_triggered_price_date: string | null;
+  unsubscribe_token: string;
+  created_at?: string;
+};
+
+type LatestPrice = {
+  date: string;
+  price: number;
+  prevDate: string | null;
+  prevPrice: number | null;
+};
+
+type Triggered = {
+  sub: PriceAlertSubscription;
+  latest: LatestPrice;
+  movePct: number | null;
+};
+
+const SITE_URL = process.env.SITE_URL || "https://dashboard.fuelflow.co.uk";
+const CLIENT_DASHBOARD_URL =
+  process.env.CLIENT_DASHBOARD_URL || `${SITE_URL}/client-dashboard`;
+
+const FUEL_LABEL: Record<Fuel, string> = {
+  petrol: "Petrol (95)",
+  diesel: "Diesel",
+};
+
+const gbpL = (v: number) => `£${v.toFixed(3)}/L`;
+
+export function describeRule(
+  s: Pick<PriceAlertSubscription, "fuel" | "kind" | "threshold">
+) {
+  return s.kind === "below"
+    ? `${FUEL_LABEL[s.fuel]} below ${gbpL(Number(s.threshold))}`
+    : `${FUEL_LABEL[s.fuel]} moves more than ${Number(s.threshold)}% in a day`;
+}
+
+/** Latest and previous price day per fuel. */
+async function loadLatestPrices(): Promise<Partial<Record<Fuel, LatestPrice>>> {
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - 21);
+
+  const { data, error } = await supabaseAdmin
+    .from("daily_prices")
+    .select("price_date,fuel,total_price")
+    .gte("price_date", since.toISOString().slice(0, 10))
+    .order("price_date", { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const out: Partial<Record<Fuel, LatestPrice>> = {};
+  for (const r of (data || []) as any[]) {
+    const fuel = String(r.fuel).toLowerCase() as Fuel;
+    const price = Number(r.total_price);
+    if ((fuel !== "petrol" && fuel !== "diesel") || !Number.isFinite(price)) {
+      continue;
+    }
+    const cur = out[fuel];
+    if (!cur) {
+      out[fuel] = { date: r.price_date, price, prevDate: null, prevPrice: null };
+    } else if (cur.prevDate == null && r.price_date < cur.date) {
+      cur.prevDate = r.price_date;
+      cur.prevPrice = price;
+    }
+  }
+  return out;
+}
+
+/** Conditional update so only one run gets to send for a rule. */
+async function claim(t: Triggered): Promise<boolean> {
+  const now = new Date().toISOString();
+  let q = supabaseAdmin
+    .from("price_alert_subscriptions")
+    .update({
+      ...(t.sub.kind === "below" ? { armed: false } : {}),
+      last_triggered_price_date: t.latest.date,
+      last_triggered_at: now,
+    })
+    .eq("id", t.sub.id)
+    .eq("active", true);
+
+  q =
+    t.sub.kind === "below"
+      ? q.eq("armed", true)
+      : q.or(
+          `last_triggered_price_date.is.null,last_triggered_price_date.neq.${t.latest.date}`
+        );
+
+  const { data, error } = await q.select("id");
+  if (error) {
+    console.error("[price-alerts] claim error:", error);
+    return false;
+  }
+  return !!data?.length;
+}
+
+/** Put a rule back the way it was if its email failed. */
+async function unclaim(t: Triggered) {
+  await supabaseAdmin
+    .from("price_alert_subscriptions")
+    .update({
+      armed: t.sub.armed,
+      last_triggered_price_date: t.sub.last_triggered_price_date,
+    })
+    .eq("id", t.sub.id);
+}
+
+function buildAlertEmail(email: string, items: Triggered[]) {
+  const tokens = items.map((t) => t.sub.unsubscribe_token).join(",");
+  const unsubscribeUrl = `${SITE_URL}/api/price-alerts/unsubscribe?token=${encodeURIComponent(tokens)}`;
+
+  const rows = items.map((t) => {
+    const move =
+      t.movePct != null
+        ? ` (${t.movePct > 0 ? "+" : ""}${t.movePct.toFixed(1)}%)`
+        : "";
+    return {
+      label: describeRule(t.sub),
+      value: `${gbpL(t.latest.price)}${move}`,
+    };
+  });
+
+  const first = items[0];
+  const subject =
+    items.length === 1
+      ? `FuelFlow price alert — ${describeRule(first.sub)}`
+      : `FuelFlow price alerts — ${items.length} rules triggered`;
+
+  const intro = [
+    `Prices for ${first.latest.date} are in and ${
+      items.length === 1 ? "one of your alerts has" : "some of your alerts have"
+    } triggered.`,
+    "Log in to your dashboard to place an order at today's price.",
+  ];
+
+  const html = buildBrandedEmailHtml({
+    title: "FuelFlow — price alert",
+    heading: "Your price alert",
+    preheader: rows.map((r) => `${r.label}: ${r.value}`).join(" · "),
+    intro,
+    rows,
+    cta: { label: "Order now", href: CLIENT_DASHBOARD_URL },
+    footer: "You're receiving this because you set up a price alert.",
+    footerLink: { label: "Unsubscribe from these alerts", href: unsubscribeUrl },
+  });
+
+  const text = [
+    ...intro,
+    "",
+    ...rows.map((r) => `${r.label}: ${r.value}`),
+    "",
+    `Dashboard: ${CLIENT_DASHBOARD_URL}`,
+    `Unsubscribe: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  return { to: email, subject, html, text };
+}
+
+/**
+ * Check every active rule against the latest prices and email anyone
+ * whose rules fired (one email per customer).
+ */
+export async function evaluatePriceAlerts(): Promise<{
+  checked: number;
+  triggered: number;
+  emailed: number;
+  failed: number;
+}> {
+  const latest = await loadLatestPrices();
+
+  const { data, error } = await supabaseAdmin
+    .from("price_alert_subscriptions")
+    .select(
+      "id,user_email,fuel,kind,threshold,active,armed,last_triggered_price_date,unsubscribe_token"
+    )
+    .eq("active", true);
+  if (error) throw new Error(error.message);
+
+  const subs = (data || []) as PriceAlertSubscription[];
+  const byEmail = new Map<string, Triggered[]>();
+  let triggered = 0;
+
+  for (const sub of subs) {
+    const l = latest[sub.fuel];
+    if (!l) continue;
+    const threshold = Number(sub.threshold);
+
+    if (sub.kind === "below") {
+      if (l.price >= threshold) {
+        // back above the line – arm for the next drop
+        if (!sub.armed) {
+          await supabaseAdmin
+            .from("price_alert_subscriptions")
+            .update({ armed: true })
+            .eq("id", sub.id);
+        }
+        continue;
+      }
+      if (!sub.armed) continue;
+    } else {
+      if (l.prevPrice == null || l.prevPrice <= 0) continue;
+      if (sub.last_triggered_price_date === l.date) continue;
+      const pct = ((l.price - l.prevPrice) / l.prevPrice) * 100;
+      if (Math.abs(pct) <= threshold) continue;
+    }
+
+    const t: Triggered = {
+      sub,
+      latest: l,
+      movePct:
+        l.prevPrice && l.prevPrice > 0
+          ? ((l.price - l.prevPrice) / l.prevPrice) * 100
+          : null,
+    };
+    if (!(await claim(t))) continue;
+
+    triggered++;
+    const email = sub.user_email.toLowerCase();
+    byEmail.set(email, [...(byEmail.get(email) || []), t]);
+  }
+
+  let emailed = 0;
+  let failed = 0;
+
+  for (const [email, items] of byEmail) {
+    try {
+      const msg = buildAlertEmail(email, items);
+      const messageId = await sendMail(msg);
+      emailed++;
+
+      await supabaseAdmin.from("price_alert_notifications").insert(
+        items.map((t) => ({
+          subscription_id: t.sub.id,
+          user_email: email,
+          fuel: t.sub.fuel,
+          price_date: t.latest.date,
+          price: t.latest.price,
+          message_id: messageId || null,
+        }))
+      );
+    } catch (e) {
+      failed++;
+      console.error("[price-alerts] send failed for", email, e);
+      await Promise.all(items.map(unclaim));
+    }
+  }
+
+  return { checked: subs.length, triggered, emailed, failed };
+}
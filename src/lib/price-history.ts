@@ -0,0 +1,112 @@
+// src/lib/price-history.ts
+// Daily per-fuel price series from daily_prices, with summary stats.
+
+import supabaseAdmin from "./supabaseAdmin";
+
+type Fuel = "petrol" | "diesel";
+
+export type PricePoint = {
+  date: string; // YYYY-MM-DD
+  price: number; // total_price, GBP / litre
+  refinery?: number | null;
+  margin?: number | null;
+};
+
+export type PriceStats = {
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  latest: number | null;
+  /** latest vs the last price on/before 7 days earlier, percent */
+  weekOnWeekPct: number | null;
+};
+
+export type PriceSeries = { points: PricePoint[]; stats: PriceStats };
+
+export type PriceHistory = {
+  from: string;
+  to: string;
+  series: Record<Fuel, PriceSeries>;
+};
+
+const FUELS: Fuel[] = ["petrol", "diesel"];
+
+function addDays(iso: string, days: number) {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function seriesStats(points: PricePoint[]): PriceStats {
+  if (!points.length) {
+    return { min: null, max: null, avg: null, latest: null, weekOnWeekPct: null };
+  }
+
+  const prices = points.map((p) => p.price);
+  const sum = prices.reduce((a, b) => a + b, 0);
+  const last = points[points.length - 1];
+
+  const weekAgo = addDays(last.date, -7);
+  const before = [...points].reverse().find((p) => p.date <= weekAgo);
+  const weekOnWeekPct =
+    before && before.price > 0
+      ? Math.round(((last.price - before.price) / before.price) * 1000) / 10
+      : null;
+
+  return {
+    min: Math.min(...prices),
+    max: Math.max(...prices),
+    avg: Math.round((sum / prices.length) * 10000) / 10000,
+    latest: last.price,
+    weekOnWeekPct,
+  };
+}
+
+/**
+ * Prices between two dates (inclusive). `withCosts` adds refinery price
+ * and margin – admin only, never send those to customers.
+ * An extra week before `from` is read so week-on-week works at the
+ * start of the range.
+ */
+export async function loadPriceHistory(args: {
+  from: string;
+  to: string;
+  withCosts?: boolean;
+}): Promise<PriceHistory> {
+  const { data, error } = await supabaseAdmin
+    .from("daily_prices")
+    .select("price_date,fuel,total_price,refinery_price,margin")
+    .gte("price_date", addDays(args.from, -7))
+    .lte("price_date", args.to)
+    .order("price_date", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const series = {} as Record<Fuel, PriceSeries>;
+  for (const fuel of FUELS) {
+    const all: PricePoint[] = (data || [])
+      .filter((r: any) => String(r.fuel).toLowerCase() === fuel)
+      .map((r: any) => ({
+        date: String(r.price_date).slice(0, 10),
+        price: Number(r.total_price),
+        ...(args.withCosts
+          ? {
+              refinery: r.refinery_price != null ? Number(r.refinery_price) : null,
+              margin: r.margin != null ? Number(r.margin) : null,
+            }
+          : {}),
+      }))
+      .filter((p) => Number.isFinite(p.price));
+
+    const stats = seriesStats(all);
+    const points = all.filter((p) => p.date >= args.from);
+    // min / max / avg over the requested range only
+    const inRange = seriesStats(points);
+    series[fuel] = {
+      points,
+      stats: { ...inRange, weekOnWeekPct: stats.weekOnWeekPct },
+    };
+  }
+
+  return { from: args.from, to: args.to, series };
+}
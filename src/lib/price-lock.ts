@@ -0,0 +1,125 @@
+// src/lib/price-lock.ts
+// Server-signed price locks so the price quoted on /order is the price
+// charged at checkout, even if import-prices runs in between.
+//
+// Token = base64url(JSON payload) + "." + base64url(HMAC-SHA256)
+// signed with PRICE_LOCK_SECRET. Each lock is also stored in
+// public.price_locks so it can only be used once and so locked vs live
+// price can be reported on later.
+
+import crypto from "crypto";
+import type { Fuel, PriceQuote } from "./pricing";
+
+export type LockedPrice = Omit<PriceQuote, "fuel">;
+
+export type PriceLockPayload = {
+  v: 1;
+  /** lock id (= price_locks.id) */
+  id: string;
+  email: string;
+  postcode: string | null;
+  litres: number | null;
+  prices: Partial<Record<Fuel, LockedPrice>>;
+  /** issued / expires, epoch seconds */
+  iat: number;
+  exp: number;
+};
+
+export type PriceLockCheck =
+  | { ok: true; lock: PriceLockPayload }
+  | {
+      ok: false;
+      reason: "malformed" | "bad_signature" | "expired" | "wrong_user";
+    };
+
+export function priceLockMinutes(): number {
+  const n = Number(process.env.PRICE_LOCK_MINUTES || "15");
+  return Number.isFinite(n) && n > 0 ? n : 15;
+}
+
+function secret(): string {
+  const s = process.env.PRICE_LOCK_SECRET;
+  if (!s) throw new Error("PRICE_LOCK_SECRET not set");
+  return s;
+}
+
+function b64url(buf: Buffer): string {
+  return buf
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromB64url(s: string): Buffer {
+  const pad = s.length % 4 ? "=".repeat(4 - (s.length % 4)) : "";
+  return Buffer.from(s.replace(/-/g, "+").replace(/_/g, "/") + pad, "base64");
+}
+
+function sign(body: string): string {
+  return b64url(crypto.createHmac("sha256", secret()).update(body).digest());
+}
+
+/** Postcodes compared without spaces / case ("cm8 6ed" == "CM86ED"). */
+export function normalisePostcode(pc: string | null | undefined): string | null {
+  const v = String(pc || "").replace(/\s+/g, "").toUpperCase();
+  return v || null;
+}
+
+export function signPriceLock(
+  input: Omit<PriceLockPayload, "v" | "iat" | "exp">,
+  now = new Date()
+): { token: string; payload: PriceLockPayload } {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload: PriceLockPayload = {
+    v: 1,
+    ...input,
+    iat,
+    exp: iat + Math.round(priceLockMinutes() * 60),
+  };
+  const body = b64url(Buffer.from(JSON.stringify(payload), "utf8"));
+  return { token: `${body}.${sign(body)}`, payload };
+}
+
+/**
+ * Checks signature, expiry and owner. Does not check single use –
+ * callers look the id up in price_locks for that.
+ */
+export function verifyPriceLock(
+  token: string,
+  email: string | null,
+  now = new Date()
+): PriceLockCheck {
+  const [body, sig, extra] = String(token || "").split(".");
+  if (!body || !sig || extra !== undefined) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const expected = Buffer.from(sign(body));
+  const given = Buffer.from(sig);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  let payload: PriceLockPayload;
+  try {
+    payload = JSON.parse(fromB64url(body).toString("utf8"));
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+  if (payload?.v !== 1 || !payload.id || !payload.prices) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  if (payload.exp * 1000 <= now.getTime()) {
+    return { ok: false, reason: "expired" };
+  }
+  if (!email || payload.email !== email.toLowerCase()) {
+    return { ok: false, reason: "wrong_user" };
+  }
+
+  return { ok: true, lock: payload };
+}
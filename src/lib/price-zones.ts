@@ -0,0 +1,107 @@
+// src/lib/price-zones.ts
+// Delivery pricing zones, keyed by postcode outward code / area or by the
+// N/S/E/W/G region used for cost centres.
+//
+// Table: public.price_zones
+//   outward_code  e.g. "CM8" (full outward) or "CM" (area letters)
+//   region        "N" | "S" | "E" | "W" | "G"  (used when outward_code is null)
+//   fuel          "petrol" | "diesel" | null   (null = applies to both)
+//   uplift_pence_per_litre, delivery_surcharge_pence
+
+import supabaseAdmin from "./supabaseAdmin";
+import { getOutwardPart, getRegionFromPostcode, type Region } from "./cost-centre";
+
+type Fuel = "petrol" | "diesel";
+
+export type PriceZone = {
+  id: string;
+  name: string;
+  outwardCode: string | null;
+  region: Region | null;
+  fuel: Fuel | null;
+  upliftPencePerLitre: number;
+  deliverySurchargePence: number;
+};
+
+type PriceZoneRow = {
+  id: string;
+  name: string | null;
+  outward_code: string | null;
+  region: string | null;
+  fuel: string | null;
+  uplift_pence_per_litre: number | null;
+  delivery_surcharge_pence: number | null;
+};
+
+function fromRow(r: PriceZoneRow): PriceZone {
+  return {
+    id: r.id,
+    name: r.name || r.outward_code || r.region || "Zone",
+    outwardCode: r.outward_code ? r.outward_code.toUpperCase() : null,
+    region: (r.region ? r.region.toUpperCase() : null) as Region | null,
+    fuel: (r.fuel ? r.fuel.toLowerCase() : null) as Fuel | null,
+    upliftPencePerLitre: Number(r.uplift_pence_per_litre) || 0,
+    deliverySurchargePence: Math.round(Number(r.delivery_surcharge_pence) || 0),
+  };
+}
+
+/**
+ * Pick the most specific zone for a postcode + fuel.
+ * Priority: full outward code ("CM8") → area letters ("CM") → region ("E").
+ * At the same level, a fuel-specific zone beats a zone for both fuels.
+ */
+export function pickZone(
+  zones: PriceZone[],
+  postcode: string,
+  fuel: Fuel
+): PriceZone | null {
+  const outward = getOutwardPart(postcode || "");
+  if (!outward) return null;
+
+  const area = outward.replace(/[^A-Z]/g, "").slice(0, 2);
+  const region = getRegionFromPostcode(postcode);
+
+  const candidates = zones.filter((z) => !z.fuel || z.fuel === fuel);
+  const byFuel = (list: PriceZone[]) =>
+    list.find((z) => z.fuel === fuel) ?? list[0] ?? null;
+
+  const exact = candidates.filter((z) => z.outwardCode === outward);
+  if (exact.length) return byFuel(exact);
+
+  const areaMatch = candidates.filter(
+    (z) => z.outwardCode && z.outwardCode === area
+  );
+  if (areaMatch.length) return byFuel(areaMatch);
+
+  const regionMatch = candidates.filter(
+    (z) => !z.outwardCode && z.region === region
+  );
+  if (regionMatch.length) return byFuel(regionMatch);
+
+  return null;
+}
+
+/** Load active zones (service role). Returns [] if the table is unavailable. */
+export async function loadPriceZones(): Promise<PriceZone[]> {
+  const { data, error } = await supabaseAdmin
+    .from("price_zones")
+    .select(
+      "id,name,outward_code,region,fuel,uplift_pence_per_litre,delivery_surcharge_pence"
+    )
+    .eq("active", true);
+
+  if (error) {
+    console.error("[price-zones] load error:", error);
+    return [];
+  }
+  return ((data || []) as PriceZoneRow[]).map(fromRow);
+}
+
+export async function findZoneForPostcode(
+  postcode: string,
+  fuel: Fuel
+): Promise<PriceZone | null> {
+  if (!postcode) return null;
+  const zones = await loadPriceZones();
+  return pickZone(zones, postcode, fuel);
+}
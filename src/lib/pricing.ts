@@ -0,0 +1,152 @@
+// src/lib/pricing.ts
+// Server-side unit price resolution. Checkout, /api/prices and invoices
+// all go through here so the customer sees the same number everywhere.
+
+import supabaseAdmin from "./supabaseAdmin";
+import { findZoneForPostcode, type PriceZone } from "./price-zones";
+import {
+  applyTier,
+  loadVolumeTiers,
+  pickTier,
+  type VolumeTier,
+} from "./volume-tiers";
+import {
+  applyAgreement,
+  loadAgreementsForCustomer,
+  pickAgreement,
+  type PriceAgreement,
+} from "./price-agreements";
+
+export type Fuel = "petrol" | "diesel";
+
+export type PriceQuote = {
+  fuel: Fuel;
+  /** national price from latest_daily_prices (pence / litre) */
+  baseUnitPence: number;
+  /** zoned price before any volume band (pence / litre) */
+  listUnitPence: number;
+  /** price actually charged per litre (pence) */
+  unitPricePence: number;
+  /** flat per-order delivery charge (pence) */
+  deliverySurchargePence: number;
+  zone: Pick<PriceZone, "id" | "name"> | null;
+  tier: Pick<VolumeTier, "id" | "name"> | null;
+  /** listUnitPence - unitPricePence, times litres (pence) */
+  volumeSavingPence: number;
+  /** customer agreement that set unitPricePence, if any */
+  agreement: Pick<PriceAgreement, "id" | "name" | "kind" | "contractId"> | null;
+};
+
+/** Latest national price for a fuel, in GBP per litre. */
+export async function loadBaseUnitPrice(fuel: Fuel): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from("latest_daily_prices")
+    .select("total_price, fuel")
+    .eq("fuel", fuel)
+    .order("price_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error("[pricing] base price error:", error);
+    return null;
+  }
+
+  const v = Number(data.total_price);
+  return Number.isFinite(v) ? v : null;
+}
+
+/** Latest refinery cost for a fuel, in pence per litre (null if not set). */
+export async function loadRefineryUnitPence(fuel: Fuel): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from("daily_prices")
+    .select("refinery_price")
+    .eq("fuel", fuel)
+    .order("price_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error("[pricing] refinery price error:", error);
+    return null;
+  }
+
+  const v = Number(data.refinery_price);
+  return Number.isFinite(v) && v > 0 ? Math.round(v * 100) : null;
+}
+
+/**
+ * Unit price for a fuel delivered to a postcode.
+ * - zone uplift / surcharge from the postcode
+ * - volume band from litres (applied to the daily price, before the uplift)
+ * - the customer's price agreement, when an email is given; this replaces
+ *   the volume band (a margin cap only ever lowers the public price)
+ * Returns null if we have no base price for the fuel.
+ */
+export async function quoteUnitPrice(args: {
+  fuel: Fuel;
+  postcode?: string | null;
+  litres?: number | null;
+  customerEmail?: string | null;
+}): Promise<PriceQuote | null> {
+  const baseGbp = await loadBaseUnitPrice(args.fuel);
+  if (baseGbp == null) return null;
+
+  const baseUnitPence = Math.round(baseGbp * 100);
+
+  const [zone, tiers, agreements] = await Promise.all([
+    args.postcode ? findZoneForPostcode(args.postcode, args.fuel) : null,
+    args.litres ? loadVolumeTiers() : Promise.resolve([]),
+    args.customerEmail
+      ? loadAgreementsForCustomer(args.customerEmail)
+      : Promise.resolve([]),
+  ]);
+
+  const litres = Number(args.litres) || 0;
+  let tier = litres ? pickTier(tiers, litres, args.fuel) : null;
+
+  const uplift = zone?.upliftPencePerLitre ?? 0;
+  const listUnitPence = Math.round(baseUnitPence + uplift);
+  let unitPricePence = Math.round(applyTier(baseUnitPence, tier) + uplift);
+
+  const today = new Date().toISOString().slice(0, 10);
+  let agreement = pickAgreement(agreements, args.fuel, today);
+  if (agreement) {
+    const refineryUnitPence =
+      agreement.kind === "margin_cap"
+        ? await loadRefineryUnitPence(args.fuel)
+        : null;
+    const agreed = applyAgreement(agreement, {
+      listUnitPence,
+      publicUnitPence: unitPricePence,
+      refineryUnitPence,
+    });
+    if (agreed == null) {
+      agreement = null;
+    } else {
+      unitPricePence = Math.round(agreed);
+      tier = null;
+    }
+  }
+
+  return {
+    fuel: args.fuel,
+    baseUnitPence,
+    listUnitPence,
+    unitPricePence,
+    deliverySurchargePence: zone?.deliverySurchargePence ?? 0,
+    zone: zone ? { id: zone.id, name: zone.name } : null,
+    tier: tier ? { id: tier.id, name: tier.name } : null,
+    volumeSavingPence: tier
+      ? Math.round(Math.max(listUnitPence - unitPricePence, 0) * litres)
+      : 0,
+    agreement: agreement
+      ? {
+          id: agreement.id,
+          name: agreement.name,
+          kind: agreement.kind,
+          contractId: agreement.contractId,
+        }
+      : null,
+  };
+}
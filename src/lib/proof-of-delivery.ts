@@ -0,0 +1,294 @@
+// src/lib/proof-of-delivery.ts
+// Proof of delivery (public.order_deliveries) recorded by the refinery or
+// driver when the fuel goes in: delivered litres, meter ticket, time,
+// signature and an optional photo.
+//
+// Recording it moves the order to "delivered", stores the files and a POD
+// PDF in the private delivery-proofs bucket, and sets
+// orders.delivered_litres – which tank estimates use in place of the
+// ordered litres. Any difference from the ordered litres is then priced
+// and settled as a delivery variance (lib/delivery-variance.ts).
+
+import supabaseAdmin from "./supabaseAdmin";
+import { transitionOrder, type OrderState } from "./order-lifecycle";
+import {
+  recordDeliveryVariance,
+  recordVarianceFailure,
+  type DeliveryVariance,
+} from "./delivery-variance";
+import { buildPodPdf } from "./pod-pdf";
+
+export const POD_BUCKET = "delivery-proofs";
+
+/** Signature / photo limit (decoded). */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export type ProofOfDelivery = {
+  id: string;
+  orderId: string;
+  orderedLitres: number;
+  deliveredLitres: number;
+  meterTicket: string;
+  deliveredAt: string;
+  driverName: string | null;
+  notes: string | null;
+  recordedBy: string;
+  signaturePath: string;
+  photoPath: string | null;
+  podPath: string | null;
+  createdAt: string;
+};
+
+export type PodResult =
+  | { ok: true; delivery: ProofOfDelivery; variance: DeliveryVariance | null }
+  | { ok: false; status: number; error: string };
+
+const POD_COLUMNS =
+  "id,order_id,ordered_litres,delivered_litres,meter_ticket,delivered_at,driver_name,notes,recorded_by,signature_path,photo_path,pod_path,created_at";
+
+const ORDER_COLUMNS =
+  "id,user_email,name,product,fuel,litres,unit_price_pence,total_pence,delivery_surcharge_pence,price_zone_name,status,state,payment_due_date,address_line1,address_line2,city,postcode";
+
+/** States a delivery can be recorded from (delivered: marked by hand, no POD yet). */
+const DELIVERABLE: OrderState[] = [
+  "sent_to_refinery",
+  "scheduled",
+  "out_for_delivery",
+  "delivered",
+];
+
+function podFromRow(r: any): ProofOfDelivery {
+  return {
+    id: r.id,
+    orderId: r.order_id,
+    orderedLitres: Number(r.ordered_litres) || 0,
+    deliveredLitres: Number(r.delivered_litres) || 0,
+    meterTicket: r.meter_ticket,
+    deliveredAt: r.delivered_at,
+    driverName: r.driver_name ?? null,
+    notes: r.notes ?? null,
+    recordedBy: r.recorded_by,
+    signaturePath: r.signature_path,
+    photoPath: r.photo_path ?? null,
+    podPath: r.pod_path ?? null,
+    createdAt: r.created_at,
+  };
+}
+
+function refuse(status: number, error: string): PodResult {
+  return { ok: false, status, error };
+}
+
+/** A PNG / JPEG `data:` URL -> bytes, or null when it isn't one. */
+export function parseImageDataUrl(
+  value: unknown
+): { bytes: Uint8Array; contentType: string; ext: string } | null {
+  const m = /^data:(image\/(?:png|jpe?g));base64,([A-Za-z0-9+/=\s]+)$/.exec(
+    String(value || "")
+  );
+  if (!m) return null;
+  const contentType = m[1] === "image/jpg" ? "image/jpeg" : m[1];
+  const bytes = new Uint8Array(Buffer.from(m[2], "base64"));
+  if (!bytes.length) return null;
+  return { bytes, contentType, ext: contentType === "image/png" ? "png" : "jpg" };
+}
+
+async function upload(path: string, bytes: Uint8Array, contentType: string) {
+  const { error } = await supabaseAdmin.storage
+    .from(POD_BUCKET)
+    .upload(path, bytes, { contentType, upsert: true });
+  if (error) throw new Error(`POD upload failed: ${error.message}`);
+}
+
+export async function loadProofOfDelivery(
+  orderId: string
+): Promise<ProofOfDelivery | null> {
+  const { data, error } = await supabaseAdmin
+    .from("order_deliveries")
+    .select(POD_COLUMNS)
+    .eq("order_id", orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? podFromRow(data) : null;
+}
+
+/** Short-lived links to the POD PDF, signature and photo. */
+export async function podSignedUrls(pod: ProofOfDelivery, expiresIn = 60 * 10) {
+  const sign = async (path: string | null) => {
+    if (!path) return null;
+    const { data, error } = await supabaseAdmin.storage
+      .from(POD_BUCKET)
+      .createSignedUrl(path, expiresIn);
+    if (error) console.error("[pod] signed url failed:", path, error.message);
+    return data?.signedUrl ?? null;
+  };
+  const [podUrl, signatureUrl, photoUrl] = await Promise.all([
+    sign(pod.podPath),
+    sign(pod.signaturePath),
+    sign(pod.photoPath),
+  ]);
+  return { podUrl, signatureUrl, photoUrl };
+}
+
+export async function recordProofOfDelivery(args: {
+  orderId: string;
+  /** admin email or system:refinery */
+  actor: string;
+  deliveredLitres: number;
+  meterTicket: string;
+  /** ISO timestamp; defaults to now */
+  deliveredAt?: string | null;
+  driverName?: string | null;
+  notes?: string | null;
+  /** data: URLs (PNG / JPEG) */
+  signature: string;
+  photo?: string | null;
+}): Promise<PodResult> {
+  const litres = Number(args.deliveredLitres);
+  if (!Number.isFinite(litres) || litres <= 0) {
+    return refuse(400, "deliveredLitres must be a positive number");
+  }
+  const deliveredLitres = Math.round(litres);
+  const meterTicket = String(args.meterTicket || "").trim().slice(0, 100);
+  if (!meterTicket) return refuse(400, "Missing meterTicket");
+
+  const deliveredAt = args.deliveredAt ? new Date(args.deliveredAt) : new Date();
+  if (Number.isNaN(deliveredAt.getTime())) return refuse(400, "Invalid deliveredAt");
+  if (deliveredAt.getTime() > Date.now() + 5 * 60 * 1000) {
+    return refuse(400, "deliveredAt is in the future");
+  }
+
+  const signature = parseImageDataUrl(args.signature);
+  if (!signature) return refuse(400, "signature must be a PNG or JPEG data URL");
+  const photo = args.photo ? parseImageDataUrl(args.photo) : null;
+  if (args.photo && !photo) return refuse(400, "photo must be a PNG or JPEG data URL");
+  if (
+    signature.bytes.length > MAX_IMAGE_BYTES ||
+    (photo && photo.bytes.length > MAX_IMAGE_BYTES)
+  ) {
+    return refuse(413, "Images must be 5 MB or smaller");
+  }
+
+  const { data: order, error } = await supabaseAdmin
+    .from("orders")
+    .select(ORDER_COLUMNS)
+    .eq("id", args.orderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!order) return refuse(404, "Order not found");
+  const o = order as any;
+  if (!DELIVERABLE.includes(o.state)) {
+    return refuse(409, `A ${o.state} order can't be delivered`);
+  }
+  if (await loadProofOfDelivery(o.id)) {
+    return refuse(409, "Proof of delivery has already been recorded for this order");
+  }
+
+  // files first – the row only exists once they're stored
+  const dir = o.id as string;
+  const signaturePath = `${dir}/signature.${signature.ext}`;
+  const photoPath = photo ? `${dir}/photo.${photo.ext}` : null;
+  const podPath = `${dir}/proof-of-delivery.pdf`;
+  const orderedLitres = Number(o.litres) || 0;
+  const driverName = args.driverName ? String(args.driverName).trim().slice(0, 100) : null;
+  const notes = args.notes ? String(args.notes).trim().slice(0, 1000) : null;
+
+  await upload(signaturePath, signature.bytes, signature.contentType);
+  if (photo && photoPath) await upload(photoPath, photo.bytes, photo.contentType);
+
+  const { pdfBuffer } = await buildPodPdf({
+    orderId: o.id,
+    customerName: o.name,
+    deliveryAddress: [o.address_line1, o.address_line2, o.city, o.postcode]
+      .filter(Boolean)
+      .join("\n"),
+    product: o.product || o.fuel || "Fuel",
+    orderedLitres,
+    deliveredLitres,
+    meterTicket,
+    deliveredAt: deliveredAt.toISOString(),
+    driverName,
+    notes,
+    signature,
+    photo,
+  });
+  await upload(podPath, pdfBuffer, "application/pdf");
+
+  const { data: row, error: insErr } = await supabaseAdmin
+    .from("order_deliveries")
+    .insert({
+      order_id: o.id,
+      ordered_litres: orderedLitres,
+      delivered_litres: deliveredLitres,
+      meter_ticket: meterTicket,
+      delivered_at: deliveredAt.toISOString(),
+      driver_name: driverName,
+      notes,
+      recorded_by: args.actor,
+      signature_path: signaturePath,
+      photo_path: photoPath,
+      pod_path: podPath,
+    } as any)
+    .select(POD_COLUMNS)
+    .single();
+  if (insErr || !row) {
+    if ((insErr as any)?.code === "23505") {
+      return refuse(409, "Proof of delivery has already been recorded for this order");
+    }
+    throw new Error(insErr?.message || "Failed to record proof of delivery");
+  }
+
+  // the lifecycle has no shortcut to delivered – go via out_for_delivery
+  const meta = { meter_ticket: meterTicket, delivered_litres: deliveredLitres };
+  if (o.state === "sent_to_refinery" || o.state === "scheduled") {
+    await transitionOrder({
+      orderId: o.id,
+      to: "out_for_delivery",
+      actor: args.actor,
+      onlyFrom: ["sent_to_refinery", "scheduled"],
+    });
+  }
+  const moved = await transitionOrder({
+    orderId: o.id,
+    to: "delivered",
+    actor: args.actor,
+    reason: "Proof of delivery recorded",
+    meta,
+    fields: {
+      delivered_litres: deliveredLitres,
+      delivered_at: deliveredAt.toISOString(),
+    },
+  });
+  if (!moved.ok) {
+    // keep the files, drop the row so the POD can be sent again
+    await supabaseAdmin.from("order_deliveries").delete().eq("id", (row as any).id);
+    return refuse(409, moved.error);
+  }
+
+  const delivery = podFromRow(row);
+
+  // priced and settled per the tolerance rules (lib/delivery-variance.ts)
+  let variance: DeliveryVariance | null = null;
+  try {
+    variance = await recordDeliveryVariance({
+      orderId: o.id,
+      deliveryId: delivery.id,
+      orderedLitres,
+      deliveredLitres,
+      actor: args.actor,
+    });
+  } catch (e: any) {
+    // the POD stands – keep the variance as failed for the retry cron
+    console.error("[pod] variance failed for", o.id, e?.message || e);
+    variance = await recordVarianceFailure({
+      orderId: o.id,
+      deliveryId: delivery.id,
+      orderedLitres,
+      deliveredLitres,
+      unitPricePence: Number(o.unit_price_pence) || 0,
+      error: e?.message || "Variance couldn't be worked out",
+    });
+  }
+
+  return { ok: true, delivery, variance };
+}
@@ -0,0 +1,580 @@
+// src/lib/recurring-orders.ts
+// Standing / recurring fuel orders (public.recurring_orders).
+//
+//   interval   "2,000 L diesel every other Tuesday": litres every
+//              interval_weeks on weekday; next_delivery_date is the next
+//              occurrence and moves on by the interval after each run
+//   threshold  "top up when the estimate drops below 30%": litres into the
+//              tank whenever its level estimate (lib/tanks.ts) reaches
+//              threshold_percent, once per fill cycle
+//
+// Enrolment saves a card / BACS mandate with a SetupIntent (setup-mode
+// Checkout Session on the account's Stripe Customer); the webhook stores
+// the payment method and activates the schedule. Occurrences are run by
+// the daily cron (api/cron/recurring-orders): each one is claimed in
+// public.recurring_order_runs and placed with lib/off-session-orders.ts,
+// which feeds the usual webhook -> invoice -> refinery flow.
+//
+// A schedule is paused after MAX_FAILURES failed charges in a row.
+
+import Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+import { sendMail } from "./mailer";
+import { buildBrandedEmailHtml } from "./branded-email";
+import type { Fuel } from "./pricing";
+import {
+  addDays,
+  checkDeliveryDate,
+  earliestDeliveryDate,
+  loadDeliveryCalendar,
+  londonNow,
+  type DeliveryCalendar,
+} from "./delivery-calendar";
+import {
+  placeOffSessionOrder,
+  type OffSessionOrderResult,
+} from "./off-session-orders";
+import { createSetupSession, getOrCreateStripeCustomer } from "./stripe-customers";
+import {
+  loadSiteById,
+  loadSiteForCustomer,
+  type CustomerSite,
+} from "./customer-sites";
+import { allocateTank, estimateTankLevels, loadTanks } from "./tanks";
+import { isSandboxEmail } from "./sandbox";
+import { SETTLED_ORDER_STATUSES } from "./order-states";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+const SITE_URL = process.env.SITE_URL || "https://dashboard.fuelflow.co.uk";
+
+export type RecurringKind = "interval" | "threshold";
+export type RecurringStatus = "pending_setup" | "active" | "paused" | "cancelled";
+
+export type RecurringOrder = {
+  id: string;
+  userEmail: string;
+  status: RecurringStatus;
+  kind: RecurringKind;
+  fuel: Fuel;
+  litres: number;
+  intervalWeeks: number | null;
+  /** ISO weekday (1 = Mon … 5 = Fri) */
+  weekday: number | null;
+  nextDeliveryDate: string | null;
+  thresholdPercent: number | null;
+  siteId: string;
+  tankId: string | null;
+  stripeCustomerId: string | null;
+  stripePaymentMethodId: string | null;
+  failureCount: number;
+  lastError: string | null;
+  lastOrderId: string | null;
+  lastRunAt: string | null;
+};
+
+export type RecurringOrderInput = {
+  kind?: string;
+  fuel?: string;
+  litres?: number | string;
+  intervalWeeks?: number | string | null;
+  weekday?: number | string | null;
+  /** first delivery (interval), YYYY-MM-DD – must fall on `weekday` */
+  startDate?: string | null;
+  thresholdPercent?: number | string | null;
+  siteId?: string;
+  tankId?: string | null;
+};
+
+export const RECURRING_COLUMNS =
+  "id,user_email,status,kind,fuel,litres,interval_weeks,weekday,next_delivery_date,threshold_percent,site_id,tank_id,stripe_customer_id,stripe_payment_method_id,failure_count,last_error,last_order_id,last_run_at";
+
+export const MIN_LITRES = 500;
+const MAX_FAILURES = 3;
+// orders are placed this many days before an interval delivery date
+const DEFAULT_LEAD_DAYS = 3;
+
+export function recurringLeadDays(): number {
+  const n = Number(process.env.RECURRING_ORDER_LEAD_DAYS || DEFAULT_LEAD_DAYS);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : DEFAULT_LEAD_DAYS;
+}
+
+export function recurringFromRow(r: any): RecurringOrder {
+  return {
+    id: r.id,
+    userEmail: String(r.user_email || "").toLowerCase(),
+    status: r.status,
+    kind: r.kind,
+    fuel: String(r.fuel).toLowerCase() as Fuel,
+    litres: Number(r.litres),
+    intervalWeeks: r.interval_weeks != null ? Number(r.interval_weeks) : null,
+    weekday: r.weekday != null ? Number(r.weekday) : null,
+    nextDeliveryDate: r.next_delivery_date ?? null,
+    thresholdPercent:
+      r.threshold_percent != null ? Number(r.threshold_percent) : null,
+    siteId: r.site_id,
+    tankId: r.tank_id ?? null,
+    stripeCustomerId: r.stripe_customer_id ?? null,
+    stripePaymentMethodId: r.stripe_payment_method_id ?? null,
+    failureCount: Number(r.failure_count) || 0,
+    lastError: r.last_error ?? null,
+    lastOrderId: r.last_order_id ?? null,
+    lastRunAt: r.last_run_at ?? null,
+  };
+}
+
+/** ISO weekday (1 = Mon … 7 = Sun) of a YYYY-MM-DD date. */
+function isoWeekday(ymd: string): number {
+  const d = new Date(`${ymd}T00:00:00Z`).getUTCDay();
+  return d === 0 ? 7 : d;
+}
+
+/** First date on or after `from` that falls on `weekday`. */
+function onOrAfterWeekday(from: string, weekday: number): string {
+  return addDays(from, (weekday - isoWeekday(from) + 7) % 7);
+}
+
+/** First bookable delivery day on or after `from` (up to two weeks on). */
+function bookableOnOrAfter(
+  cal: DeliveryCalendar,
+  from: string,
+  litres: number,
+  now: Date
+): string | null {
+  for (let i = 0, d = from; i < 14; i++, d = addDays(d, 1)) {
+    if (checkDeliveryDate(cal, d, { now, litres }).ok) return d;
+  }
+  return null;
+}
+
+/**
+ * Validates a new schedule (or the changed fields of one) and returns the
+ * columns to write, or an error message.
+ */
+export async function recurringInputToRow(
+  email: string,
+  input: RecurringOrderInput,
+  existing: RecurringOrder | null = null,
+  now: Date = new Date()
+): Promise<{ ok: true; row: Record<string, any> } | { ok: false; error: string }> {
+  const row: Record<string, any> = {};
+
+  const kind = (input.kind ?? existing?.kind) as RecurringKind | undefined;
+  if (kind !== "interval" && kind !== "threshold") {
+    return { ok: false, error: "kind must be interval or threshold" };
+  }
+  if (!existing) row.kind = kind;
+  else if (input.kind && input.kind !== existing.kind) {
+    return { ok: false, error: "The schedule type can't be changed" };
+  }
+
+  const fuel = String(input.fuel ?? existing?.fuel ?? "").toLowerCase();
+  if (fuel !== "petrol" && fuel !== "diesel") {
+    return { ok: false, error: "fuel must be petrol or diesel" };
+  }
+  row.fuel = fuel;
+
+  const litres = Math.round(Number(input.litres ?? existing?.litres));
+  if (!Number.isFinite(litres) || litres < MIN_LITRES) {
+    return { ok: false, error: `Standing orders are at least ${MIN_LITRES} litres` };
+  }
+  row.litres = litres;
+
+  const siteId = String(input.siteId ?? existing?.siteId ?? "");
+  const site = siteId ? await loadSiteForCustomer(siteId, email) : null;
+  if (!site) {
+    return { ok: false, error: "Delivery site not found" };
+  }
+  row.site_id = site.id;
+
+  const allocated = await allocateTank({
+    siteId: site.id,
+    fuel: fuel as Fuel,
+    tankId:
+      input.tankId !== undefined ? input.tankId || null : existing?.tankId ?? null,
+  });
+  if (!allocated.ok) return { ok: false, error: allocated.error };
+  row.tank_id = allocated.tank?.id ?? null;
+
+  if (kind === "interval") {
+    const weeks = Number(input.intervalWeeks ?? existing?.intervalWeeks);
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > 8) {
+      return { ok: false, error: "intervalWeeks must be 1 to 8" };
+    }
+    const weekday = Number(input.weekday ?? existing?.weekday);
+    if (!Number.isInteger(weekday) || weekday < 1 || weekday > 5) {
+      return { ok: false, error: "weekday must be Monday (1) to Friday (5)" };
+    }
+    row.interval_weeks = weeks;
+    row.weekday = weekday;
+
+    // first delivery: the given start date, else the first bookable
+    // weekday after the lead time
+    const cal = await loadDeliveryCalendar(supabaseAdmin, site.postcode);
+    const earliest = addDays(
+      earliestDeliveryDate(cal, now),
+      recurringLeadDays()
+    );
+    let next: string | null | undefined = input.startDate;
+    if (next) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(next) || isoWeekday(next) !== weekday) {
+        return { ok: false, error: "startDate must fall on the chosen weekday" };
+      }
+      if (next < earliest) {
+        return { ok: false, error: `The first delivery can be ${earliest} at the earliest` };
+      }
+    } else if (
+      !existing?.nextDeliveryDate ||
+      input.weekday != null ||
+      input.intervalWeeks != null
+    ) {
+      next = onOrAfterWeekday(earliest, weekday);
+    }
+    if (next) row.next_delivery_date = next;
+    row.threshold_percent = null;
+  } else {
+    const pct = Number(input.thresholdPercent ?? existing?.thresholdPercent);
+    if (!Number.isFinite(pct) || pct < 5 || pct > 80) {
+      return { ok: false, error: "thresholdPercent must be 5 to 80" };
+    }
+    if (!row.tank_id) {
+      return { ok: false, error: "Top-up schedules need a tank at the site" };
+    }
+    row.threshold_percent = pct;
+    row.interval_weeks = null;
+    row.weekday = null;
+    row.next_delivery_date = null;
+  }
+
+  return { ok: true, row };
+}
+
+/** Standing orders need an approved rent contract (or a signed /
+ *  approved buy contract), as for ordering from the order page. */
+export async function canUseRecurringOrders(email: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("contracts")
+    .select("tank_option,status")
+    .eq("email", email.toLowerCase())
+    .in("status", ["signed", "approved"]);
+  if (error) {
+    console.error("[recurring-orders] contract lookup failed:", error.message);
+    return false;
+  }
+  return (data || []).some(
+    (c: any) =>
+      c.status === "approved" ||
+      (c.status === "signed" && String(c.tank_option).toLowerCase() === "buy")
+  );
+}
+
+/**
+ * Setup-mode Checkout Session that saves a card for off-session charges.
+ * The webhook (checkout.session.completed, mode "setup") activates the
+ * schedule via completeRecurringSetup.
+ */
+export async function createRecurringSetupSession(
+  rec: RecurringOrder,
+  origin: string
+): Promise<string> {
+  const customer = await getOrCreateStripeCustomer(rec.userEmail);
+  if (rec.stripeCustomerId !== customer) {
+    await supabaseAdmin
+      .from("recurring_orders")
+      .update({ stripe_customer_id: customer } as any)
+      .eq("id", rec.id);
+  }
+
+  return createSetupSession({
+    customerId: customer,
+    successUrl: `${origin}/client-dashboard?standing_order=saved`,
+    cancelUrl: `${origin}/client-dashboard?standing_order=cancelled`,
+    metadata: { recurring_order_id: rec.id },
+  });
+}
+
+/** Webhook: card saved – store it and switch the schedule on. */
+export async function completeRecurringSetup(
+  session: Stripe.Checkout.Session
+): Promise<string | null> {
+  const recurringId = (session.metadata as any)?.recurring_order_id;
+  if (!recurringId) return null;
+
+  const setupIntentId =
+    typeof session.setup_intent === "string"
+      ? session.setup_intent
+      : session.setup_intent?.id;
+  if (!setupIntentId) return null;
+
+  const si = await stripe.setupIntents.retrieve(setupIntentId);
+  const paymentMethod =
+    typeof si.payment_method === "string"
+      ? si.payment_method
+      : si.payment_method?.id;
+  if (!paymentMethod) return null;
+
+  const { error } = await supabaseAdmin
+    .from("recurring_orders")
+    .update({
+      status: "active",
+      stripe_setup_intent_id: si.id,
+      stripe_payment_method_id: paymentMethod,
+      stripe_customer_id:
+        typeof session.customer === "string" ? session.customer : null,
+      failure_count: 0,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    } as any)
+    .eq("id", recurringId)
+    .neq("status", "cancelled");
+  if (error) throw new Error(error.message);
+  return recurringId;
+}
+
+/** Creates the order for one occurrence and charges it off-session. */
+async function placeRecurringOrder(
+  rec: RecurringOrder,
+  site: CustomerSite,
+  deliveryDate: string
+): Promise<OffSessionOrderResult> {
+  const tank = rec.tankId
+    ? (await loadTanks({ siteId: site.id })).find((t) => t.id === rec.tankId) ??
+      null
+    : null;
+
+  return placeOffSessionOrder({
+    email: rec.userEmail,
+    fuel: rec.fuel,
+    litres: rec.litres,
+    deliveryDate,
+    address: {
+      name: site.contactName || site.name,
+      addressLine1: site.addressLine1,
+      addressLine2: site.addressLine2,
+      city: site.city,
+      postcode: site.postcode,
+    },
+    site,
+    tank,
+    stripeCustomerId: rec.stripeCustomerId as string,
+    paymentMethodId: rec.stripePaymentMethodId as string,
+    source: "recurring",
+    orderFields: { recurring_order_id: rec.id },
+    metadata: { recurring_order_id: rec.id },
+    description: `Standing order – ${rec.litres.toLocaleString()} L ${rec.fuel}`,
+  });
+}
+
+async function emailPaymentFailed(rec: RecurringOrder, error: string, paused: boolean) {
+  const dashboardUrl = `${SITE_URL}/client-dashboard`;
+  const intro = [
+    `We couldn't take payment for your standing order of ${rec.litres.toLocaleString()} L ${rec.fuel}: ${error}`,
+    paused
+      ? "We've paused the standing order. Update your card from your dashboard to switch it back on."
+      : "We'll try again at the next scheduled delivery. You can update your card from your dashboard.",
+  ];
+  const html = buildBrandedEmailHtml({
+    title: "FuelFlow — standing order payment failed",
+    heading: "Standing order payment failed",
+    preheader: "We couldn't charge your saved card",
+    intro,
+    cta: { label: "Update card", href: dashboardUrl },
+    footer: "You're receiving this because you have a standing order with FuelFlow.",
+  });
+  await sendMail({
+    to: rec.userEmail,
+    subject: "FuelFlow — standing order payment failed",
+    html,
+    text: [...intro, "", dashboardUrl].join("\n"),
+  });
+}
+
+type Occurrence = { key: string; from: string };
+
+/** Runs one occurrence: claim, pick a day, order + charge, record. */
+async function runOccurrence(
+  rec: RecurringOrder,
+  site: CustomerSite,
+  cal: DeliveryCalendar,
+  occ: Occurrence,
+  now: Date
+): Promise<"charged" | "failed" | "skipped"> {
+  const { data: run, error: claimErr } = await supabaseAdmin
+    .from("recurring_order_runs")
+    .insert({ recurring_order_id: rec.id, occurrence_key: occ.key })
+    .select("id")
+    .single();
+  if (claimErr || !run) {
+    if ((claimErr as any)?.code !== "23505") {
+      console.error("[recurring-orders] claim error:", claimErr);
+    }
+    return "skipped";
+  }
+
+  // the scheduled day, or the next one that can still take the delivery
+  let result: OffSessionOrderResult = {
+    ok: false,
+    reason: "full",
+    error: "No delivery day available",
+  };
+  let deliveryDate: string | null = occ.from;
+  for (let tries = 0; tries < 5; tries++) {
+    deliveryDate = bookableOnOrAfter(cal, deliveryDate, rec.litres, now);
+    if (!deliveryDate) break;
+    result = await placeRecurringOrder(rec, site, deliveryDate);
+    if (result.ok || result.reason !== "full") break;
+    deliveryDate = addDays(deliveryDate, 1);
+  }
+
+  const failures = result.ok ? 0 : rec.failureCount + 1;
+  const paused = !result.ok && failures >= MAX_FAILURES;
+
+  await supabaseAdmin
+    .from("recurring_order_runs")
+    .update({
+      status: result.ok ? "charged" : "failed",
+      order_id: result.ok ? result.orderId : null,
+      delivery_date: result.ok ? deliveryDate : null,
+      error: result.ok ? null : result.error,
+    } as any)
+    .eq("id", run.id);
+
+  await supabaseAdmin
+    .from("recurring_orders")
+    .update({
+      last_run_at: now.toISOString(),
+      failure_count: failures,
+      last_error: result.ok ? null : result.error,
+      ...(result.ok ? { last_order_id: result.orderId } : {}),
+      ...(paused ? { status: "paused" } : {}),
+      updated_at: now.toISOString(),
+    } as any)
+    .eq("id", rec.id);
+
+  if (!result.ok && result.reason === "payment") {
+    await emailPaymentFailed(rec, result.error, paused).catch((e) =>
+      console.error("[recurring-orders] failure email failed:", e)
+    );
+  }
+  return result.ok ? "charged" : "failed";
+}
+
+/**
+ * Daily run: place every occurrence that is due.
+ *   interval   when the next delivery date is within the lead time
+ *   threshold  when the tank estimate is at or below the threshold and
+ *              no order for the tank is still waiting for delivery
+ */
+export async function runRecurringOrders(now: Date = new Date()): Promise<{
+  checked: number;
+  charged: number;
+  failed: number;
+  skipped: number;
+}> {
+  const { data, error } = await supabaseAdmin
+    .from("recurring_orders")
+    .select(RECURRING_COLUMNS)
+    .eq("status", "active")
+    .not("stripe_payment_method_id", "is", null);
+  if (error) throw new Error(error.message);
+
+  const schedules = ((data || []) as any[]).map(recurringFromRow);
+  const today = londonNow(now).date;
+  let charged = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  const tally = (r: "charged" | "failed" | "skipped") => {
+    if (r === "charged") charged++;
+    else if (r === "failed") failed++;
+    else skipped++;
+  };
+
+  for (const rec of schedules) {
+    try {
+      // sandbox accounts never reach Stripe
+      if (await isSandboxEmail(rec.userEmail)) {
+        skipped++;
+        continue;
+      }
+
+      const site = await loadSiteById(rec.siteId);
+      if (!site) {
+        skipped++;
+        continue;
+      }
+      const cal = await loadDeliveryCalendar(supabaseAdmin, site.postcode);
+
+      if (rec.kind === "interval") {
+        let next = rec.nextDeliveryDate;
+        if (!next || !rec.intervalWeeks) {
+          skipped++;
+          continue;
+        }
+        const due = addDays(today, recurringLeadDays());
+        const earliest = earliestDeliveryDate(cal, now);
+
+        // a missed run (e.g. cron down) skips ahead rather than ordering late
+        while (next < earliest) next = addDays(next, rec.intervalWeeks * 7);
+
+        if (next <= due) {
+          tally(await runOccurrence(rec, site, cal, { key: next, from: next }, now));
+          next = addDays(next, rec.intervalWeeks * 7);
+        } else {
+          skipped++;
+        }
+
+        if (next !== rec.nextDeliveryDate) {
+          await supabaseAdmin
+            .from("recurring_orders")
+            .update({ next_delivery_date: next } as any)
+            .eq("id", rec.id);
+        }
+        continue;
+      }
+
+      // threshold
+      const tanks = rec.tankId
+        ? (await loadTanks({ siteId: rec.siteId })).filter((t) => t.id === rec.tankId)
+        : [];
+      const est = tanks.length
+        ? (await estimateTankLevels(tanks, now)).get(tanks[0].id)
+        : undefined;
+      if (!est || est.percentFull * 100 > (rec.thresholdPercent ?? 0)) {
+        skipped++;
+        continue;
+      }
+
+      const { count: open } = await supabaseAdmin
+        .from("orders")
+        .select("id", { count: "exact", head: true })
+        .eq("tank_id", rec.tankId as string)
+        .in("status", SETTLED_ORDER_STATUSES)
+        .neq("fulfilment_status", "delivered");
+      if (open) {
+        skipped++;
+        continue;
+      }
+
+      tally(
+        await runOccurrence(
+          rec,
+          site,
+          cal,
+          {
+            key: `cycle:${est.lastDeliveryDate || "none"}`,
+            from: earliestDeliveryDate(cal, now),
+          },
+          now
+        )
+      );
+    } catch (e) {
+      failed++;
+      console.error("[recurring-orders] run failed for", rec.id, e);
+    }
+  }
+
+  return { checked: schedules.length, charged, failed, skipped };
+}
@@ -10,12 +10,18 @@ export type RefineryOrderForPdf = {
   customerName: string | null;
   customerEmail: string | null;
   deliveryAddress: string;
+  // delivery site (optional – orders placed without a saved site)
+  siteName?: string | null;
+  siteContact?: string | null;
+  accessNotes?: string | null;
   deliveryDate: string | null;
   product: string;
   litres: number;
   // internal only – we don't show this in the PDF
   unitPriceCustomerGbp: number;
   totalForRefineryGbp: number;
+  // on a credit account: not paid yet, FuelFlow collects it
+  onAccount?: boolean;
 };
 
 const gbp = new Intl.NumberFormat("en-GB", {
@@ -330,6 +336,12 @@ page.drawRectangle({
   drawField("Customer", customerLine);
   drawField("Delivery address", formattedAddress);
 
+  // free text typed by customers – the standard fonts only encode WinAnsi
+  const plain = (v: string) => v.replace(/[^\n\x20-\x7E\xA0-\xFF]/g, "");
+  if (order.siteName) drawField("Site", plain(order.siteName));
+  if (order.siteContact) drawField("Site contact", plain(order.siteContact));
+  if (order.accessNotes) drawField("Access notes", plain(order.accessNotes));
+
   /* -----------------------------
      Total + note
      ----------------------------- */
@@ -357,7 +369,9 @@ page.drawRectangle({
   cursorY -= 26;
 
   const note =
-    "This order has already been paid in full by the customer via FuelFlow. " +
+    (order.onAccount
+      ? "This order is on the customer's FuelFlow credit account – FuelFlow collects payment from the customer. "
+      : "This order has already been paid in full by the customer via FuelFlow. ") +
     'Please arrange delivery and invoice FuelFlow for the "Total payable to refinery" amount only.';
 
   const noteLines = wrapText(note, pageWidth - marginX * 2, fontRegular, 9);
@@ -0,0 +1,298 @@
+// src/lib/sandbox.ts
+// Sandbox (demo / QA) accounts – public.sandbox_accounts.
+//
+// A flagged account sees seeded fixture data instead of live data:
+//   /api/usage/reminder         one tank running low
+//   /api/prices                 fixed petrol / diesel prices
+//   /api/orders                 a few months of delivered orders
+//   /api/orders/events          their lifecycle history
+//   /api/documents/invoices     invoices for those orders (PDFs built on
+//                               the fly, marked SANDBOX)
+// and checkout returns straight to the success page without creating an
+// order or a Stripe session, so nothing reaches Stripe or Xero.
+//
+// Fixture dates are relative to `now` so the demo never goes stale.
+
+import supabaseAdmin from "./supabaseAdmin";
+import { buildInvoicePdf } from "./invoice-pdf";
+import { forecastConsumption } from "./consumption-forecast";
+import type { OrderEvent, OrderState } from "./order-states";
+
+type Fuel = "petrol" | "diesel";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** GBP / litre incl. delivery, as returned by /api/prices */
+export const SANDBOX_PRICES: Record<Fuel, number> = {
+  petrol: 1.429,
+  diesel: 1.519,
+};
+
+const TANK = {
+  tankId: "00000000-0000-4000-8000-0000000000a1",
+  tankName: "Main diesel tank",
+  siteId: "00000000-0000-4000-8000-0000000000b1",
+  siteName: "Demo Depot",
+  fuel: "diesel" as Fuel,
+  capacityL: 5000,
+  monthlyConsumptionL: 2000,
+  estimatedLitresLeft: 1750,
+};
+
+// days ago / litres – newest first
+const DELIVERIES: { daysAgo: number; litres: number }[] = [
+  { daysAgo: 25, litres: 3200 },
+  { daysAgo: 73, litres: 3000 },
+  { daysAgo: 118, litres: 3100 },
+  { daysAgo: 166, litres: 2800 },
+  { daysAgo: 214, litres: 3300 },
+  { daysAgo: 262, litres: 2900 },
+];
+
+export async function isSandboxEmail(
+  email: string | null | undefined
+): Promise<boolean> {
+  const e = String(email || "").toLowerCase();
+  if (!e) return false;
+  const { data, error } = await supabaseAdmin
+    .from("sandbox_accounts")
+    .select("email")
+    .eq("email", e)
+    .maybeSingle();
+  if (error) {
+    console.error("[sandbox] lookup failed:", error);
+    return false;
+  }
+  return !!data?.email;
+}
+
+function daysAgo(now: Date, days: number) {
+  return new Date(now.getTime() - days * MS_PER_DAY);
+}
+
+function orderId(i: number) {
+  return `00000000-0000-4000-8000-${String(i + 1).padStart(12, "0")}`;
+}
+
+function invoiceNumber(i: number) {
+  return `SBX-${1000 + DELIVERIES.length - i}`;
+}
+
+export type SandboxOrder = {
+  id: string;
+  created_at: string;
+  user_email: string;
+  fuel: Fuel;
+  litres: number;
+  unit_price_pence: number;
+  total_pence: number;
+  status: string;
+  state: OrderState;
+  fulfilment_status: string;
+  fulfilment_notes: string | null;
+  delivered_at: string;
+  delivered_litres: number;
+};
+
+/** Delivered, paid orders (newest first) – same columns as orders. */
+export function sandboxOrders(email: string, now = new Date()): SandboxOrder[] {
+  return DELIVERIES.map((d, i) => {
+    const delivered = daysAgo(now, d.daysAgo);
+    const unit = Math.round(SANDBOX_PRICES.diesel * 100);
+    return {
+      id: orderId(i),
+      created_at: daysAgo(now, d.daysAgo + 3).toISOString(),
+      user_email: email.toLowerCase(),
+      fuel: "diesel",
+      litres: d.litres,
+      unit_price_pence: unit,
+      total_pence: unit * d.litres,
+      status: "paid",
+      state: "delivered",
+      fulfilment_status: "delivered",
+      fulfilment_notes: "Sandbox order",
+      delivered_at: delivered.toISOString(),
+      delivered_litres: d.litres,
+    };
+  });
+}
+
+/** History for one of sandboxOrders (null if it isn't one of them). */
+export function sandboxOrderEvents(
+  email: string,
+  id: string,
+  now = new Date()
+): OrderEvent[] | null {
+  const order = sandboxOrders(email, now).find((o) => o.id === id);
+  if (!order) return null;
+
+  const created = new Date(order.created_at).getTime();
+  const hours = (h: number) => new Date(created + (h * MS_PER_DAY) / 24).toISOString();
+  const steps: [OrderState, OrderState, string, string][] = [
+    ["pending", "paid", "system:stripe", hours(0.1)],
+    ["paid", "sent_to_refinery", "system:refinery", hours(2)],
+    ["sent_to_refinery", "scheduled", "admin", hours(24)],
+    ["scheduled", "out_for_delivery", "admin", hours(71)],
+    ["out_for_delivery", "delivered", "admin", order.delivered_at],
+  ];
+  return [
+    {
+      id: `${id}-0`,
+      orderId: id,
+      event: "created",
+      fromState: null,
+      toState: "pending",
+      actor: order.user_email,
+      reason: null,
+      meta: null,
+      createdAt: order.created_at,
+    },
+    ...steps.map(([fromState, toState, actor, createdAt], i) => ({
+      id: `${id}-${i + 1}`,
+      orderId: id,
+      event: "transition",
+      fromState,
+      toState,
+      actor,
+      reason: null,
+      meta: null,
+      createdAt,
+    })),
+  ];
+}
+
+/** Matching payments rows for sandboxOrders. */
+export function sandboxPayments(email: string, now = new Date()) {
+  return sandboxOrders(email, now).map((o) => ({
+    order_id: o.id,
+    amount: o.total_pence,
+    currency: "gbp",
+    status: "succeeded",
+  }));
+}
+
+/** /api/prices rows (quoted shape). */
+export function sandboxPriceRows() {
+  return (Object.keys(SANDBOX_PRICES) as Fuel[]).map((fuel) => ({
+    fuel,
+    total_price: SANDBOX_PRICES[fuel],
+    base_price: SANDBOX_PRICES[fuel],
+    list_price: SANDBOX_PRICES[fuel],
+    delivery_surcharge: 0,
+    zone: null,
+    tier: null,
+    volume_saving: 0,
+    agreement: null,
+  }));
+}
+
+/** /api/usage/reminder body for a sandbox account. */
+export function sandboxReminder(now = new Date()) {
+  const deliveries = DELIVERIES.map((d) => ({
+    at: daysAgo(now, d.daysAgo),
+    litres: d.litres,
+  })).reverse();
+  const forecast = forecastConsumption({
+    deliveries,
+    currentLitres: TANK.estimatedLitresLeft,
+    monthlyConsumptionL: TANK.monthlyConsumptionL,
+    now,
+  });
+  const percentFull = TANK.estimatedLitresLeft / TANK.capacityL;
+  const daysSinceLastDelivery = DELIVERIES[0].daysAgo;
+
+  const tank = {
+    ...TANK,
+    percentFull,
+    daysSinceLastDelivery,
+    lastReadingAt: null,
+    calibrated: false,
+    showReminder: true,
+    forecast,
+  };
+
+  return {
+    ok: true as const,
+    showReminder: true,
+    message: `Sandbox: based on recent deliveries and typical usage, ${TANK.siteName} – ${TANK.tankName} may be around ${Math.round(
+      percentFull * 100
+    )}% full or lower. You may want to schedule a delivery.`,
+    percentFull,
+    daysSinceLastDelivery,
+    estimatedLitresLeft: TANK.estimatedLitresLeft,
+    contractTankSize: TANK.capacityL,
+    contractMonthlyConsumption: TANK.monthlyConsumptionL,
+    forecast,
+    tanks: [tank],
+  };
+}
+
+export type SandboxInvoiceFile = {
+  name: string;
+  path: string;
+  size: number | null;
+  created_at: string;
+  year: string;
+  month: string;
+};
+
+/** Invoice files for sandboxOrders, laid out like the invoices bucket. */
+export function sandboxInvoiceFiles(
+  email: string,
+  now = new Date()
+): SandboxInvoiceFile[] {
+  const root = email.toLowerCase();
+  return sandboxOrders(email, now).map((o, i) => {
+    const at = new Date(o.delivered_at);
+    const year = String(at.getFullYear());
+    const month = String(at.getMonth() + 1).padStart(2, "0");
+    const name = `${invoiceNumber(i)}.pdf`;
+    return {
+      name,
+      path: `${root}/${year}/${month}/${name}`,
+      size: null,
+      created_at: o.delivered_at,
+      year,
+      month,
+    };
+  });
+}
+
+/** Builds the PDF for one sandbox invoice, or null for an unknown path. */
+export async function sandboxInvoicePdf(
+  email: string,
+  path: string,
+  now = new Date()
+): Promise<Buffer | null> {
+  // matched on the file name – dates shift with `now`
+  const name = path.split("/").pop();
+  const files = sandboxInvoiceFiles(email, now);
+  const i = files.findIndex((f) => f.name === name);
+  if (i < 0) return null;
+  const order = sandboxOrders(email, now)[i];
+
+  const built = await buildInvoicePdf({
+    customer: {
+      name: "Demo Customer Ltd",
+      email: email.toLowerCase(),
+      address_line1: "1 Demo Way",
+      city: "Chelmsford",
+      postcode: "CM1 1AA",
+    },
+    items: [
+      {
+        description: `Diesel (${order.litres.toLocaleString()} L)`,
+        quantity: order.litres,
+        unitPrice: order.unit_price_pence / 100,
+      },
+    ],
+    currency: "GBP",
+    meta: {
+      invoiceNumber: invoiceNumber(i),
+      orderId: order.id,
+      dateISO: order.delivered_at,
+      notes: "SANDBOX – sample invoice, not a real charge.",
+    },
+  });
+  return built.pdfBuffer;
+}
@@ -0,0 +1,173 @@
+// src/lib/stripe-customers.ts
+// One Stripe Customer per FuelFlow account (public.stripe_customers).
+//
+// Checkout sessions, standing orders and one-click reorders all run
+// against the customer, so cards and BACS Direct Debit mandates saved on
+// one of them can be charged again from the others. BACS is only offered
+// when STRIPE_BACS_DEBIT is set (it must be enabled on the Stripe account
+// first).
+
+import Stripe from "stripe";
+import supabaseAdmin from "./supabaseAdmin";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+export type SavedMethodType = "card" | "bacs_debit";
+
+export type SavedPaymentMethod = {
+  id: string;
+  type: SavedMethodType;
+  /** e.g. "Visa •••• 4242" / "Direct Debit •••• 2345" */
+  label: string;
+  /** cards only, "MM/YY" */
+  expires: string | null;
+  isDefault: boolean;
+};
+
+/** Payment method types we collect and save. */
+export function savedMethodTypes(): SavedMethodType[] {
+  const bacs = /^(1|true|yes)$/i.test(process.env.STRIPE_BACS_DEBIT || "");
+  return bacs ? ["card", "bacs_debit"] : ["card"];
+}
+
+/**
+ * The account's Stripe Customer, created (or adopted by email, for
+ * customers made before the mapping existed) on first use.
+ */
+export async function getOrCreateStripeCustomer(email: string): Promise<string> {
+  const e = email.toLowerCase();
+
+  const { data: mapped, error } = await supabaseAdmin
+    .from("stripe_customers")
+    .select("stripe_customer_id")
+    .eq("user_email", e)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (mapped?.stripe_customer_id) return mapped.stripe_customer_id as string;
+
+  const found = await stripe.customers.list({ email: e, limit: 1 });
+  const customerId =
+    found.data[0]?.id ??
+    (await stripe.customers.create({ email: e, metadata: { fuelflow_email: e } }))
+      .id;
+
+  const { error: insertErr } = await supabaseAdmin
+    .from("stripe_customers")
+    .insert({ user_email: e, stripe_customer_id: customerId });
+  if (insertErr) {
+    // a parallel request mapped the account first – use theirs
+    if ((insertErr as any).code === "23505") {
+      const { data: again } = await supabaseAdmin
+        .from("stripe_customers")
+        .select("stripe_customer_id")
+        .eq("user_email", e)
+        .maybeSingle();
+      if (again?.stripe_customer_id) return again.stripe_customer_id as string;
+    }
+    throw new Error(insertErr.message);
+  }
+  return customerId;
+}
+
+/** The mapped customer, without creating one. */
+export async function findStripeCustomer(email: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from("stripe_customers")
+    .select("stripe_customer_id")
+    .eq("user_email", email.toLowerCase())
+    .maybeSingle();
+  return (data?.stripe_customer_id as string) ?? null;
+}
+
+function methodFromStripe(pm: Stripe.PaymentMethod, defaultId: string | null): SavedPaymentMethod {
+  if (pm.type === "bacs_debit") {
+    return {
+      id: pm.id,
+      type: "bacs_debit",
+      label: `Direct Debit •••• ${pm.bacs_debit?.last4 ?? "????"}`,
+      expires: null,
+      isDefault: pm.id === defaultId,
+    };
+  }
+  const brand = pm.card?.brand ? pm.card.brand[0].toUpperCase() + pm.card.brand.slice(1) : "Card";
+  return {
+    id: pm.id,
+    type: "card",
+    label: `${brand} •••• ${pm.card?.last4 ?? "????"}`,
+    expires: pm.card
+      ? `${String(pm.card.exp_month).padStart(2, "0")}/${String(pm.card.exp_year).slice(-2)}`
+      : null,
+    isDefault: pm.id === defaultId,
+  };
+}
+
+/** Saved cards / mandates, default first. */
+export async function listSavedPaymentMethods(
+  customerId: string
+): Promise<SavedPaymentMethod[]> {
+  const customer = await stripe.customers.retrieve(customerId);
+  const defaultId =
+    !customer.deleted && customer.invoice_settings?.default_payment_method
+      ? typeof customer.invoice_settings.default_payment_method === "string"
+        ? customer.invoice_settings.default_payment_method
+        : customer.invoice_settings.default_payment_method.id
+      : null;
+
+  const lists = await Promise.all(
+    savedMethodTypes().map((type) =>
+      stripe.paymentMethods.list({ customer: customerId, type, limit: 20 })
+    )
+  );
+  return lists
+    .flatMap((l) => l.data)
+    .map((pm) => methodFromStripe(pm, defaultId))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/** A saved method, only if it belongs to the customer. */
+export async function findSavedPaymentMethod(
+  customerId: string,
+  paymentMethodId: string
+): Promise<SavedPaymentMethod | null> {
+  const methods = await listSavedPaymentMethods(customerId);
+  return methods.find((m) => m.id === paymentMethodId) ?? null;
+}
+
+export async function setDefaultPaymentMethod(customerId: string, paymentMethodId: string) {
+  await stripe.customers.update(customerId, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  });
+}
+
+export async function detachPaymentMethod(paymentMethodId: string) {
+  await stripe.paymentMethods.detach(paymentMethodId);
+}
+
+/**
+ * Setup-mode Checkout Session that saves a card / mandate on the
+ * customer. `metadata` comes back on checkout.session.completed.
+ */
+export async function createSetupSession(args: {
+  customerId: string;
+  successUrl: string;
+  cancelUrl: string;
+  metadata?: Record<string, string>;
+}): Promise<string> {
+  const session = await stripe.checkout.sessions.create({
+    mode: "setup",
+    customer: args.customerId,
+    currency: "gbp",
+    payment_method_types: savedMethodTypes(),
+    success_url: args.successUrl,
+    cancel_url: args.cancelUrl,
+    ...(args.metadata
+      ? {
+          metadata: args.metadata,
+          setup_intent_data: { metadata: args.metadata },
+        }
+      : {}),
+  });
+  return session.url as string;
+}
@@ -0,0 +1,404 @@
+// src/lib/tanks.ts
+// Customer tanks (public.tanks) and per-tank level estimates.
+//
+// A site can have several tanks; each order is allocated to one tank
+// (orders.tank_id). Levels are estimated by replaying the tank's
+// deliveries and dip readings (public.tank_readings):
+//   - a dip reading sets the level; the latest one is the anchor
+//   - the first delivery on record (without an earlier reading) is
+//     assumed to fill the tank; later deliveries add their litres (the
+//     delivered litres from the proof of delivery, else the ordered ones)
+//   - usage is the burn rate learned from consecutive readings, else the
+//     delivery-history rate (lib/consumption-forecast.ts), else
+//     monthly_consumption_l spread over the tank's operating days
+// Each estimate carries a run-out forecast.
+
+import supabaseAdmin from "./supabaseAdmin";
+import {
+  forecastConsumption,
+  historyDailyRate,
+  type ConsumptionForecast,
+} from "./consumption-forecast";
+
+type Fuel = "petrol" | "diesel";
+
+export type Tank = {
+  id: string;
+  siteId: string;
+  userEmail: string;
+  name: string;
+  fuel: Fuel;
+  capacityL: number;
+  monthlyConsumptionL: number | null;
+  /** ISO weekdays the tank is drawn from (1 = Mon … 7 = Sun) */
+  operatingDays: number[];
+};
+
+export type TankInput = {
+  name?: string;
+  fuel?: string;
+  capacityL?: number | string;
+  monthlyConsumptionL?: number | string | null;
+  operatingDays?: number[];
+};
+
+export type TankEstimate = {
+  tankId: string;
+  percentFull: number;
+  estimatedLitresLeft: number;
+  daysSinceLastDelivery: number | null;
+  lastDeliveryDate: string | null;
+  lastDeliveredLitres: number;
+  lastReadingAt: string | null;
+  /** litres per operating day used for the estimate */
+  dailyUseL: number;
+  /** readings (dip readings) > history (delivery history) > profile */
+  dailyUseSource: "readings" | "history" | "profile";
+  forecast: ConsumptionForecast | null;
+};
+
+export const TANK_COLUMNS =
+  "id,site_id,user_email,name,fuel,capacity_l,monthly_consumption_l,operating_days";
+
+const ALL_DAYS = [1, 2, 3, 4, 5, 6, 7];
+
+export function tankFromRow(r: any): Tank {
+  const days = Array.isArray(r.operating_days)
+    ? r.operating_days.map(Number).filter((d: number) => d >= 1 && d <= 7)
+    : [];
+  return {
+    id: r.id,
+    siteId: r.site_id,
+    userEmail: String(r.user_email || "").toLowerCase(),
+    name: r.name,
+    fuel: String(r.fuel).toLowerCase() as Fuel,
+    capacityL: Number(r.capacity_l),
+    monthlyConsumptionL:
+      r.monthly_consumption_l != null ? Number(r.monthly_consumption_l) : null,
+    operatingDays: days.length ? days : ALL_DAYS,
+  };
+}
+
+/**
+ * Validate + map input to table columns. `partial` allows updates that
+ * only touch some fields. Returns an error message instead of throwing.
+ */
+export function tankInputToRow(
+  input: TankInput,
+  partial = false
+): { ok: true; row: Record<string, any> } | { ok: false; error: string } {
+  const row: Record<string, any> = {};
+
+  if (!partial || input.name !== undefined) {
+    const name = String(input.name ?? "").trim().slice(0, 100);
+    if (!name) return { ok: false, error: "Missing name" };
+    row.name = name;
+  }
+
+  if (!partial || input.fuel !== undefined) {
+    const fuel = String(input.fuel ?? "").toLowerCase();
+    if (fuel !== "petrol" && fuel !== "diesel") {
+      return { ok: false, error: "fuel must be petrol or diesel" };
+    }
+    row.fuel = fuel;
+  }
+
+  if (!partial || input.capacityL !== undefined) {
+    const cap = Math.round(Number(input.capacityL));
+    if (!Number.isFinite(cap) || cap <= 0) {
+      return { ok: false, error: "capacityL must be a positive number" };
+    }
+    row.capacity_l = cap;
+  }
+
+  if (input.monthlyConsumptionL !== undefined) {
+    const v = input.monthlyConsumptionL;
+    if (v == null || v === "") {
+      row.monthly_consumption_l = null;
+    } else {
+      const n = Math.round(Number(v));
+      if (!Number.isFinite(n) || n <= 0) {
+        return { ok: false, error: "monthlyConsumptionL must be a positive number" };
+      }
+      row.monthly_consumption_l = n;
+    }
+  }
+
+  if (input.operatingDays !== undefined) {
+    const days = Array.from(
+      new Set((input.operatingDays || []).map(Number))
+    ).filter((d) => Number.isInteger(d) && d >= 1 && d <= 7);
+    if (!days.length) return { ok: false, error: "Pick at least one operating day" };
+    row.operating_days = days.sort();
+  }
+
+  return { ok: true, row };
+}
+
+export async function loadTanks(filter: {
+  email?: string;
+  siteId?: string;
+}): Promise<Tank[]> {
+  let q = supabaseAdmin
+    .from("tanks")
+    .select(TANK_COLUMNS)
+    .is("archived_at", null)
+    .order("name", { ascending: true });
+  if (filter.email) q = q.eq("user_email", filter.email.toLowerCase());
+  if (filter.siteId) q = q.eq("site_id", filter.siteId);
+
+  const { data, error } = await q.limit(5000);
+  if (error) throw new Error(error.message);
+  return (data || []).map(tankFromRow);
+}
+
+/**
+ * Tank an order goes into. An explicit tankId must belong to the site and
+ * match the fuel; otherwise the site's only tank for that fuel is used.
+ */
+export async function allocateTank(args: {
+  siteId: string;
+  fuel: Fuel;
+  tankId?: string | null;
+}): Promise<{ ok: true; tank: Tank | null } | { ok: false; error: string }> {
+  const tanks = (await loadTanks({ siteId: args.siteId })).filter(
+    (t) => t.fuel === args.fuel
+  );
+
+  if (args.tankId) {
+    const tank = tanks.find((t) => t.id === args.tankId);
+    if (!tank) return { ok: false, error: "Tank not found for this site and fuel" };
+    return { ok: true, tank };
+  }
+  return { ok: true, tank: tanks.length === 1 ? tanks[0] : null };
+}
+
+/* ---------- usage ---------- */
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** Litres per operating day from the declared monthly consumption. */
+function profileDailyUse(tank: Tank): number {
+  const monthly = tank.monthlyConsumptionL || 0;
+  const opDaysPerMonth = (30 * tank.operatingDays.length) / 7;
+  return opDaysPerMonth ? monthly / opDaysPerMonth : 0;
+}
+
+/** Operating days (fractional) between two instants. */
+export function operatingDaysBetween(tank: Tank, from: Date, to: Date): number {
+  if (to <= from) return 0;
+  if (tank.operatingDays.length === 7) {
+    return (to.getTime() - from.getTime()) / MS_PER_DAY;
+  }
+
+  const open = new Set(tank.operatingDays);
+  let total = 0;
+  let cursor = from.getTime();
+  const end = to.getTime();
+  while (cursor < end) {
+    const d = new Date(cursor);
+    const nextMidnight = Date.UTC(
+      d.getUTCFullYear(),
+      d.getUTCMonth(),
+      d.getUTCDate() + 1
+    );
+    const sliceEnd = Math.min(nextMidnight, end);
+    const isoDay = d.getUTCDay() || 7;
+    if (open.has(isoDay)) total += (sliceEnd - cursor) / MS_PER_DAY;
+    cursor = sliceEnd;
+  }
+  return total;
+}
+
+export type TankDelivery = { at: Date; litres: number };
+export type TankReading = { at: Date; litres: number };
+
+// pairs of readings used to learn the burn rate (most recent first)
+const LEARN_FROM_PAIRS = 6;
+
+/**
+ * Actual litres per operating day from consecutive dip readings
+ * (deliveries in between are added back). Null until there are two
+ * readings at least a day apart.
+ */
+export function learnDailyUse(
+  tank: Tank,
+  readings: TankReading[],
+  deliveries: TankDelivery[]
+): number | null {
+  const sorted = [...readings].sort((a, b) => a.at.getTime() - b.at.getTime());
+  let used = 0;
+  let days = 0;
+  let pairs = 0;
+
+  for (let i = sorted.length - 1; i > 0 && pairs < LEARN_FROM_PAIRS; i--) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    const span = operatingDaysBetween(tank, a.at, b.at);
+    if (span < 1) continue;
+
+    const delivered = deliveries
+      .filter((d) => d.at > a.at && d.at <= b.at)
+      .reduce((sum, d) => sum + d.litres, 0);
+    const consumed = a.litres + delivered - b.litres;
+    if (consumed < 0) continue; // misread or unrecorded delivery
+
+    used += consumed;
+    days += span;
+    pairs += 1;
+  }
+
+  return days > 0 ? used / days : null;
+}
+
+/**
+ * Replay deliveries and dip readings (any order) against the tank's
+ * burn rate. A reading sets the level outright; a delivery adds its
+ * litres (capped at capacity). When a delivery comes first it is assumed
+ * to have filled the tank.
+ */
+export function replayTankLevel(
+  tank: Tank,
+  deliveries: TankDelivery[],
+  now: Date = new Date(),
+  readings: TankReading[] = []
+): TankEstimate | null {
+  const events = [
+    ...deliveries.map((d) => ({ ...d, kind: "delivery" as const })),
+    ...readings.map((r) => ({ ...r, kind: "reading" as const })),
+  ]
+    .filter((e) => e.at <= now)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+  if (!events.length) return null;
+
+  const learned = learnDailyUse(tank, readings, deliveries);
+  const history = historyDailyRate(deliveries, now);
+  const dailyUseL =
+    learned ??
+    (history != null ? (history * 7) / tank.operatingDays.length : null) ??
+    profileDailyUse(tank);
+  if (!dailyUseL && !readings.length) return null;
+
+  const use = (from: Date, to: Date) =>
+    dailyUseL * operatingDaysBetween(tank, from, to);
+
+  let level = events[0].kind === "reading" ? events[0].litres : tank.capacityL;
+  let at = events[0].at;
+  for (const e of events.slice(1)) {
+    level = Math.max(level - use(at, e.at), 0);
+    level =
+      e.kind === "reading"
+        ? e.litres
+        : Math.min(level + e.litres, tank.capacityL);
+    at = e.at;
+  }
+  level = Math.max(level - use(at, now), 0);
+
+  const lastDelivery = deliveries.length
+    ? deliveries.reduce((a, b) => (b.at > a.at ? b : a))
+    : null;
+  const lastReading = readings.length
+    ? readings.reduce((a, b) => (b.at > a.at ? b : a))
+    : null;
+
+  return {
+    tankId: tank.id,
+    percentFull: Math.max(0, Math.min(1, level / tank.capacityL)),
+    estimatedLitresLeft: level,
+    daysSinceLastDelivery: lastDelivery
+      ? Math.max((now.getTime() - lastDelivery.at.getTime()) / MS_PER_DAY, 0)
+      : null,
+    lastDeliveryDate: lastDelivery ? lastDelivery.at.toISOString() : null,
+    lastDeliveredLitres: lastDelivery ? lastDelivery.litres : 0,
+    lastReadingAt: lastReading ? lastReading.at.toISOString() : null,
+    dailyUseL,
+    dailyUseSource:
+      learned != null ? "readings" : history != null ? "history" : "profile",
+    forecast: forecastConsumption({
+      deliveries,
+      currentLitres: level,
+      operatingDays: tank.operatingDays,
+      learnedDailyUseL: learned,
+      monthlyConsumptionL: tank.monthlyConsumptionL,
+      now,
+    }),
+  };
+}
+
+/**
+ * Contract tank details as a Tank, for customers that have no tanks on
+ * file yet (the id is the contract id).
+ */
+export function contractAsTank(c: {
+  id: string;
+  email: string | null;
+  fuel?: string | null;
+  tank_size_l: number | null;
+  monthly_consumption_l: number | null;
+}): Tank | null {
+  const capacityL = Number(c.tank_size_l) || 0;
+  const monthly = Number(c.monthly_consumption_l) || 0;
+  if (!capacityL || !monthly) return null;
+  return {
+    id: c.id,
+    siteId: "",
+    userEmail: String(c.email || "").toLowerCase(),
+    name: "Contract tank",
+    fuel: (c.fuel === "petrol" ? "petrol" : "diesel") as Fuel,
+    capacityL,
+    monthlyConsumptionL: monthly,
+    operatingDays: ALL_DAYS,
+  };
+}
+
+/**
+ * Estimated level per tank from its delivered orders and dip readings.
+ * Tanks with neither a consumption figure nor readings, or with no
+ * deliveries / readings at all, are left out.
+ */
+export async function estimateTankLevels(
+  tanks: Tank[],
+  now: Date = new Date()
+): Promise<Map<string, TankEstimate>> {
+  const out = new Map<string, TankEstimate>();
+  if (!tanks.length) return out;
+  const ids = tanks.map((t) => t.id);
+
+  const [ordersRes, readingsRes] = await Promise.all([
+    supabaseAdmin
+      .from("orders")
+      .select("tank_id,litres,delivered_litres,delivered_at,created_at")
+      .in("tank_id", ids)
+      .eq("fulfilment_status", "delivered")
+      .not("delivered_at", "is", null)
+      .order("delivered_at", { ascending: true })
+      .limit(5000),
+    supabaseAdmin
+      .from("tank_readings")
+      .select("tank_id,litres,read_at")
+      .in("tank_id", ids)
+      .gte("read_at", new Date(now.getTime() - 365 * MS_PER_DAY).toISOString())
+      .order("read_at", { ascending: true })
+      .limit(5000),
+  ]);
+  if (ordersRes.error) throw new Error(ordersRes.error.message);
+  if (readingsRes.error) throw new Error(readingsRes.error.message);
+
+  for (const tank of tanks) {
+    const deliveries = ((ordersRes.data || []) as any[])
+      .filter((o) => o.tank_id === tank.id)
+      .map((o) => ({
+        at: new Date(o.delivered_at || o.created_at),
+        // proof of delivery when we have it, else what was ordered
+        litres: Number(o.delivered_litres ?? o.litres) || 0,
+      }))
+      .filter((d) => !Number.isNaN(d.at.getTime()));
+    const readings = ((readingsRes.data || []) as any[])
+      .filter((r) => r.tank_id === tank.id)
+      .map((r) => ({ at: new Date(r.read_at), litres: Number(r.litres) || 0 }));
+
+    const est = replayTankLevel(tank, deliveries, now, readings);
+    if (est) out.set(tank.id, est);
+  }
+  return out;
+}
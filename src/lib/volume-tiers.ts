@@ -0,0 +1,98 @@
+// src/lib/volume-tiers.ts
+// Volume (litre band) pricing, e.g. 1k–5k, 5k–10k, 10k+.
+//
+// Table: public.volume_price_tiers
+//   min_litres (inclusive), max_litres (exclusive, null = no upper bound)
+//   fuel "petrol" | "diesel" | null (null = both)
+//   unit_price_pence          fixed per-litre price for the band, or
+//   discount_pence_per_litre  reduction off the daily price
+
+import supabaseAdmin from "./supabaseAdmin";
+
+type Fuel = "petrol" | "diesel";
+
+export type VolumeTier = {
+  id: string;
+  name: string;
+  minLitres: number;
+  maxLitres: number | null;
+  fuel: Fuel | null;
+  unitPricePence: number | null;
+  discountPencePerLitre: number;
+};
+
+type VolumeTierRow = {
+  id: string;
+  name: string | null;
+  min_litres: number | null;
+  max_litres: number | null;
+  fuel: string | null;
+  unit_price_pence: number | null;
+  discount_pence_per_litre: number | null;
+};
+
+function bandLabel(min: number, max: number | null) {
+  const k = (n: number) =>
+    n >= 1000 && n % 1000 === 0 ? `${n / 1000}k` : n.toLocaleString("en-GB");
+  return max != null ? `${k(min)}–${k(max)} L` : `${k(min)}+ L`;
+}
+
+function fromRow(r: VolumeTierRow): VolumeTier {
+  const minLitres = Number(r.min_litres) || 0;
+  const maxLitres = r.max_litres != null ? Number(r.max_litres) : null;
+  return {
+    id: r.id,
+    name: r.name || bandLabel(minLitres, maxLitres),
+    minLitres,
+    maxLitres,
+    fuel: (r.fuel ? r.fuel.toLowerCase() : null) as Fuel | null,
+    unitPricePence:
+      r.unit_price_pence != null ? Number(r.unit_price_pence) : null,
+    discountPencePerLitre: Number(r.discount_pence_per_litre) || 0,
+  };
+}
+
+/** Band containing `litres`; fuel-specific bands win over shared ones. */
+export function pickTier(
+  tiers: VolumeTier[],
+  litres: number,
+  fuel: Fuel
+): VolumeTier | null {
+  if (!Number.isFinite(litres) || litres <= 0) return null;
+
+  const matches = tiers.filter(
+    (t) =>
+      (!t.fuel || t.fuel === fuel) &&
+      litres >= t.minLitres &&
+      (t.maxLitres == null || litres < t.maxLitres)
+  );
+  if (!matches.length) return null;
+
+  return [...matches].sort((a, b) => {
+    if (!!a.fuel !== !!b.fuel) return a.fuel ? -1 : 1;
+    return b.minLitres - a.minLitres;
+  })[0];
+}
+
+/** Apply a band to a per-litre price (pence). Never goes below zero. */
+export function applyTier(unitPence: number, tier: VolumeTier | null): number {
+  if (!tier) return unitPence;
+  if (tier.unitPricePence != null) return Math.max(tier.unitPricePence, 0);
+  return Math.max(unitPence - tier.discountPencePerLitre, 0);
+}
+
+export async function loadVolumeTiers(): Promise<VolumeTier[]> {
+  const { data, error } = await supabaseAdmin
+    .from("volume_price_tiers")
+    .select(
+      "id,name,min_litres,max_litres,fuel,unit_price_pence,discount_pence_per_litre"
+    )
+    .eq("active", true)
+    .order("min_litres", { ascending: true });
+
+  if (error) {
+    console.error("[volume-tiers] load error:", error);
+    return [];
+  }
+  return ((data || []) as VolumeTierRow[]).map(fromRow);
+}
@@ -148,6 +148,8 @@ export type OrderRow = {
 
   total_pence?: number | null;
   unit_price_pence?: number | null;
+  delivery_surcharge_pence?: number | null;
+  price_zone_name?: string | null;
 
   created_at?: string | null;
   paid_at?: string | null;
@@ -158,6 +160,8 @@ export type OrderRow = {
   city?: string | null;
 
   delivery_date?: string | null;
+  /** on-account orders (lib/credit-accounts.ts) */
+  payment_due_date?: string | null;
 
   cost_centre?: string | null;
   subjective_code?: string | null;
@@ -188,6 +192,44 @@ async function getTenantIdOrThrow(xero: any): Promise<string> {
   return tenantId;
 }
 
+// -----------------------------------------------------------------------------
+// Sales account / tax / tracking shared by every line we send
+// -----------------------------------------------------------------------------
+function salesLineSettings(order: OrderRow) {
+  // REQUIRED (in most orgs): at least an AccountCode (revenue) and a valid TaxType
+  const accountCode = process.env.XERO_SALES_ACCOUNT_CODE || process.env.XERO_ACCOUNT_CODE || "200";
+  const taxType = process.env.XERO_TAX_TYPE; // MUST be a valid Xero tax type code for your org
+
+  if (!taxType) {
+    // Don’t silently create broken invoices
+    throw new Error(
+      "Missing XERO_TAX_TYPE. Set it in Vercel to a VALID Xero tax type code (e.g. OUTPUT2 / NONE / etc, depending on your org)."
+    );
+  }
+
+  // Tracking (optional)
+  const trackingCategoryId = process.env.XERO_TRACKING_CATEGORY_ID;
+
+  // Prefer explicit cost_centre, fallback to postcode mapping if present
+  const trackingOptionId =
+    (order.cost_centre as string | undefined) ||
+    (order.postcode ? buildCostCentreFromPostcode(order.postcode) : undefined);
+
+  const tracking =
+    trackingCategoryId && trackingOptionId
+      ? {
+          tracking: [
+            {
+              trackingCategoryID: trackingCategoryId,
+              trackingOptionID: trackingOptionId,
+            },
+          ],
+        }
+      : {};
+
+  return { accountCode, taxType, tracking };
+}
+
 // -----------------------------------------------------------------------------
 // Back-compat: create invoice for order
 // MUST return { xeroInvoiceId, xeroInvoiceNumber }
@@ -212,24 +254,25 @@ export async function createXeroInvoiceForOrder(
     const fuel = order.fuel ?? order.Fuel ?? "Fuel";
     const description = `FuelFlow ${fuel} order (${order.id})`;
 
-    // REQUIRED (in most orgs): at least an AccountCode (revenue) and a valid TaxType
-    const accountCode = process.env.XERO_SALES_ACCOUNT_CODE || process.env.XERO_ACCOUNT_CODE || "200";
-    const taxType = process.env.XERO_TAX_TYPE; // MUST be a valid Xero tax type code for your org
-
-    if (!taxType) {
-      // Don’t silently create broken invoices
-      throw new Error(
-        "Missing XERO_TAX_TYPE. Set it in Vercel to a VALID Xero tax type code (e.g. OUTPUT2 / NONE / etc, depending on your org)."
-      );
-    }
-
-    // Tracking (optional)
-    const trackingCategoryId = process.env.XERO_TRACKING_CATEGORY_ID;
+    const { accountCode, taxType, tracking } = salesLineSettings(order);
 
-    // Prefer explicit cost_centre, fallback to postcode mapping if present
-    const trackingOptionId =
-      (order.cost_centre as string | undefined) ||
-      (order.postcode ? buildCostCentreFromPostcode(order.postcode) : undefined);
+    // Zoned delivery surcharge is a separate flat line (same as the PDF invoice)
+    const surchargeAmount = poundsFromPence(order.delivery_surcharge_pence);
+    const extraLines =
+      surchargeAmount && surchargeAmount > 0
+        ? [
+            {
+              description: `Delivery surcharge${
+                order.price_zone_name ? ` (${order.price_zone_name})` : ""
+              }`,
+              quantity: 1,
+              unitAmount: surchargeAmount,
+              accountCode,
+              taxType,
+              ...tracking,
+            },
+          ]
+        : [];
 
     // ✅ IMPORTANT: xero-node expects camelCase keys (invoices, lineItems, unitAmount, accountCode, taxType, contact)
     const payload: any = {
@@ -244,8 +287,14 @@ export async function createXeroInvoiceForOrder(
             emailAddress: order.user_email || undefined,
           },
 
-          date: isoDateOnly(order.paid_at || order.created_at),
-          dueDate: isoDateOnly(order.paid_at || order.created_at),
+          // on account: invoiced when placed, due on the account's terms;
+          // card orders are already paid, so due on the invoice date
+          date: isoDateOnly(
+            order.payment_due_date ? order.created_at : order.paid_at || order.created_at
+          ),
+          dueDate: isoDateOnly(
+            order.payment_due_date || order.paid_at || order.created_at
+          ),
 
           lineAmountTypes: "Exclusive",
 
@@ -256,18 +305,9 @@ export async function createXeroInvoiceForOrder(
               unitAmount,
               accountCode,
               taxType,
-
-              ...(trackingCategoryId && trackingOptionId
-                ? {
-                    tracking: [
-                      {
-                        trackingCategoryID: trackingCategoryId,
-                        trackingOptionID: trackingOptionId,
-                      },
-                    ],
-                  }
-                : {}),
+              ...tracking,
             },
+            ...extraLines,
           ],
         },
       ],
@@ -290,3 +330,89 @@ export async function createXeroInvoiceForOrder(
     return { xeroInvoiceId: invoiceId, xeroInvoiceNumber: invoiceNumber };
   });
 }
+
+// -----------------------------------------------------------------------------
+// Delivery variance (lib/delivery-variance.ts): a credit note for litres
+// not delivered, or an additional invoice for litres delivered over the
+// order – both at the order's unit price, next to the order's own invoice.
+// -----------------------------------------------------------------------------
+export async function createXeroVarianceDocument(
+  order: OrderRow,
+  variance: {
+    id: string;
+    varianceLitres: number;
+    unitPricePence: number;
+    amountPence: number;
+    createdAt: string;
+    /** unpaid additional invoice: when it's due (YYYY-MM-DD) */
+    dueDate?: string | null;
+  }
+): Promise<{ xeroDocumentId: string; xeroDocumentNumber?: string }> {
+  return await withXeroRetry(async (xero) => {
+    const tenantId = await getTenantIdOrThrow(xero);
+    const { accountCode, taxType, tracking } = salesLineSettings(order);
+
+    const credit = variance.amountPence < 0;
+    const qty = Math.abs(variance.varianceLitres);
+    const fuel = order.fuel ?? "Fuel";
+    const contact = {
+      name: order.name || order.user_email || "FuelFlow Customer",
+      emailAddress: order.user_email || undefined,
+    };
+    const document = {
+      type: credit ? "ACCRECCREDIT" : "ACCREC",
+      status: "AUTHORISED",
+      reference: `FuelFlow Order ${order.id} delivery variance`,
+      contact,
+      date: isoDateOnly(variance.createdAt),
+      lineAmountTypes: "Exclusive",
+      lineItems: [
+        {
+          description: credit
+            ? `FuelFlow ${fuel} not delivered (${order.id})`
+            : `FuelFlow ${fuel} delivered over order (${order.id})`,
+          quantity: qty,
+          unitAmount: poundsFromPence(variance.unitPricePence) ?? 0,
+          accountCode,
+          taxType,
+          ...tracking,
+        },
+      ],
+    };
+
+    if (credit) {
+      const resp = await xero.accountingApi.createCreditNotes(tenantId, {
+        creditNotes: [document],
+      } as any);
+      const body: any = resp?.body;
+      const note = body?.creditNotes?.[0] || body?.CreditNotes?.[0];
+      const id: string | undefined = note?.creditNoteID || note?.CreditNoteID;
+      if (!id) {
+        throw new Error("Xero credit note creation returned no creditNoteID. Check Xero response body.");
+      }
+      return {
+        xeroDocumentId: id,
+        xeroDocumentNumber: note?.creditNoteNumber || note?.CreditNoteNumber,
+      };
+    }
+
+    const resp = await xero.accountingApi.createInvoices(tenantId, {
+      invoices: [
+        {
+          ...document,
+          dueDate: isoDateOnly(variance.dueDate || variance.createdAt),
+        },
+      ],
+    } as any);
+    const body: any = resp?.body;
+    const invoice = body?.invoices?.[0] || body?.Invoices?.[0];
+    const id: string | undefined = invoice?.invoiceID || invoice?.InvoiceID;
+    if (!id) {
+      throw new Error("Xero invoice creation returned no invoiceID. Check Xero response body.");
+    }
+    return {
+      xeroDocumentId: id,
+      xeroDocumentNumber: invoice?.invoiceNumber || invoice?.InvoiceNumber,
+    };
+  });
+}
@@ -7,6 +7,24 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import { createClient } from "@supabase/supabase-js";
+import PriceHistoryChart from "@/components/PriceHistoryChart";
+import MarginReport from "@/components/MarginReport";
+import CommissionRates from "@/components/CommissionRates";
+import CreditAccounts from "@/components/CreditAccounts";
+import DeliveryBlackouts from "@/components/DeliveryBlackouts";
+import DeliveryCapacity from "@/components/DeliveryCapacity";
+import DeliveryVariances from "@/components/DeliveryVariances";
+import SandboxAccounts from "@/components/SandboxAccounts";
+import OrderTimeline from "@/components/OrderTimeline";
+import DeliveryProof from "@/components/DeliveryProof";
+import {
+  ORDER_STATES,
+  ORDER_STATE_LABEL,
+  ORDER_TRANSITIONS,
+  canTransition,
+  isOrderState,
+  type OrderState,
+} from "@/lib/order-states";
 
 /* =========================
    Supabase
@@ -30,6 +48,8 @@ type OrderRow = {
   unit_price_pence: number | null;
   total_pence: number | null;
   status: string | null; // payment status (paid/succeeded/etc)
+  state?: string | null; // lifecycle (lib/order-states)
+  delivered_litres?: number | null; // from the proof of delivery
   fulfilment_status: string | null; // delivery status (pending/dispatched/etc)
   fulfilment_notes?: string | null;
   // new: refinery sending status (used only for UI)
@@ -88,16 +108,27 @@ type ContractAdminRow = {
 };
 
 type LowFuelAlertRow = {
-  contractId: string;
+  contractId: string | null;
+  siteId: string | null;
+  siteName: string | null;
+  tankId: string | null;
+  tankName: string | null;
+  fuel: "petrol" | "diesel" | null;
   email: string | null;
   displayName: string | null;
   tankSizeL: number | null;
   monthlyConsumptionL: number | null;
   percentFull: number;
   estimatedLitresLeft: number;
-  daysSinceLastDelivery: number;
+  daysSinceLastDelivery: number | null;
   lastDeliveryDate: string | null;
   lastDeliveredLitres: number;
+  lastReadingAt: string | null;
+  calibrated: boolean;
+  runOutDate: string | null;
+  runOutEarliest: string | null;
+  runOutLatest: string | null;
+  forecastConfidence: "low" | "medium" | "high" | null;
   message: string;
 };
 
@@ -160,6 +191,9 @@ function toGBP(pence?: number | null) {
   if (pence == null) return 0;
   return pence / 100;
 }
+function orderState(o: OrderRow): OrderState {
+  return isOrderState(o.state) ? o.state : "pending";
+}
 function startOfYear(d = new Date()) {
   return new Date(d.getFullYear(), 0, 1);
 }
@@ -232,6 +266,16 @@ export default function AdminDashboard() {
 
      const [openContracts, setOpenContracts] = useState(true);
    const [openLowFuel, setOpenLowFuel] = useState(true);
+  const [openPriceHistory, setOpenPriceHistory] = useState(false);
+  const [openMargin, setOpenMargin] = useState(false);
+  const [openCommission, setOpenCommission] = useState(false);
+  const [openCredit, setOpenCredit] = useState(false);
+  const [openBlackouts, setOpenBlackouts] = useState(false);
+  const [openSandbox, setOpenSandbox] = useState(false);
+  const [openCapacity, setOpenCapacity] = useState(false);
+  const [openVariances, setOpenVariances] = useState(false);
+  // session token for API calls that return admin-only data
+  const [accessToken, setAccessToken] = useState<string | null>(null);
 
   // Contracts (rent / buy)
   const [contracts, setContracts] = useState<ContractAdminRow[]>([]);
@@ -250,7 +294,7 @@ export default function AdminDashboard() {
   const [ordersShown, setOrdersShown] = useState<number>(ORDERS_STEP);
 
   // Status filters
-  const [orderStatusFilter, setOrderStatusFilter] = useState<string>("all"); // fulfilment status filter
+  const [orderStatusFilter, setOrderStatusFilter] = useState<string>("all"); // lifecycle state filter
   const [paymentStatusFilter, setPaymentStatusFilter] = useState<string>("all");
 
   /* ====== APPROVALS (admin_customers_v) ====== */
@@ -288,7 +332,9 @@ export default function AdminDashboard() {
   /* ====== FULFILMENT PANEL STATE ====== */
   /* ====== FULFILMENT PANEL STATE ====== */
   const [fulfilOrder, setFulfilOrder] = useState<OrderRow | null>(null);
-  const [fulfilStatusDraft, setFulfilStatusDraft] = useState<string>("pending");
+  const [fulfilStatusDraft, setFulfilStatusDraft] = useState<string>("");
+  const [fulfilReason, setFulfilReason] = useState("");
+  const [fulfilHistoryKey, setFulfilHistoryKey] = useState(0);
   const [updatingFulfilment, setUpdatingFulfilment] = useState(false);
   const [fulfilError, setFulfilError] = useState<string | null>(null);
 
@@ -352,6 +398,7 @@ export default function AdminDashboard() {
 
         setMe(email);
         setIsAdmin(true);
+        setAccessToken(session?.access_token ?? null);
       } catch {
         window.location.replace("/client-dashboard");
       }
@@ -377,7 +424,7 @@ export default function AdminDashboard() {
 let oq = supabase
   .from("orders")
   .select(
-    "id, created_at, user_email, fuel, litres, unit_price_pence, total_pence, status, fulfilment_status, fulfilment_notes"
+    "id, created_at, user_email, fuel, litres, unit_price_pence, total_pence, status, state, delivered_litres, fulfilment_status, fulfilment_notes"
   )
   .order("created_at", { ascending: false })
   .limit(1000);
@@ -501,132 +548,27 @@ let oq = supabase
     }
   }
 
-  // NEW: load low-fuel alerts from /api/admin/usage/low-fuel
-  // Load low-fuel alerts directly from Supabase (no API route)
+  // Load low-fuel alerts from /api/admin/usage/low-fuel (per delivery site;
+  // customer_sites is service-role only)
   async function loadLowFuelAlerts() {
     if (isAdmin !== true) return;
     setLowFuelLoading(true);
     setLowFuelError(null);
 
     try {
-      // 1) Get contracts we can monitor
-      const { data: contractsData, error: contractsError } = await supabase
-        .from("contracts")
-        .select(
-          "id, email, customer_name, company_name, contact_name, contact_email, tank_size_l, monthly_consumption_l, status, signed_at"
-        )
-        .in("status", ["signed", "approved"])
-        .not("signed_at", "is", null)
-        .gt("tank_size_l", 0)
-        .gt("monthly_consumption_l", 0)
-        .limit(500);
-
-      if (contractsError) throw contractsError;
-
-      const contracts = (contractsData || []) as any[];
-
-      if (contracts.length === 0) {
-        setLowFuelAlerts([]);
-        return;
-      }
-
-      // 2) Collect all emails from those contracts
-      const emails = Array.from(
-        new Set(
-          contracts
-            .map(
-              (c) =>
-                c.contact_email ||
-                c.email
-            )
-            .filter(Boolean)
-        )
-      ) as string[];
-
-      if (emails.length === 0) {
-        setLowFuelAlerts([]);
-        return;
-      }
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) throw new Error("Not signed in");
 
-      // 3) Fetch delivered orders for those emails
-      const { data: ordersData, error: ordersError } = await supabase
-        .from("orders")
-        .select(
-          "id, user_email, litres, delivered_at, created_at, fulfilment_status, status"
-        )
-        .eq("fulfilment_status", "delivered")
-        .in("user_email", emails)
-        .not("delivered_at", "is", null)
-        .order("delivered_at", { ascending: false })
-        .limit(5000);
-
-      if (ordersError) throw ordersError;
-
-      const orders = (ordersData || []) as any[];
-
-      const rows: LowFuelAlertRow[] = [];
-      const now = new Date();
-      const msPerDay = 1000 * 60 * 60 * 24;
-
-      // 4) Build alert rows
-      for (const c of contracts) {
-        const email: string | null = c.contact_email || c.email;
-        if (!email) continue;
-
-        const tankSize: number | null = c.tank_size_l;
-        const monthly: number | null = c.monthly_consumption_l;
-        if (!tankSize || !monthly) continue;
-
-        // Latest delivered order for this email
-        const lastOrder = orders.find((o) => o.user_email === email);
-        if (!lastOrder) continue;
-
-        const lastDeliveryDate = new Date(
-          (lastOrder.delivered_at as string) ||
-            (lastOrder.created_at as string)
-        );
-        const daysSince =
-          (now.getTime() - lastDeliveryDate.getTime()) / msPerDay;
-
-        const dailyUsage = monthly / 30; // rough estimate
-        const litresUsed = dailyUsage * daysSince;
-        const litresLeft = tankSize - litresUsed;
-
-        // percentFull should be 0–1 (UI multiplies by 100)
-        const percentFull = Math.max(
-          0,
-          Math.min(1, litresLeft / tankSize)
-        );
-
-        // Only alert if we think they are below ~30% full
-        if (percentFull > 0.3) continue;
-
-        const displayName: string =
-          c.customer_name ||
-          c.company_name ||
-          c.contact_name ||
-          email;
-
-        const message = `Based on your contract tank size of ${tankSize.toLocaleString()}L and estimated usage of ${monthly.toLocaleString()}L/month, it looks like your tank may be around ${Math.round(
-          percentFull * 100
-        )}% full. Would you like us to arrange a top-up delivery?`;
-
-        rows.push({
-          contractId: c.id,
-          email,
-          displayName,
-          tankSizeL: tankSize,
-          monthlyConsumptionL: monthly,
-          percentFull,
-          estimatedLitresLeft: litresLeft,
-          daysSinceLastDelivery: Math.round(daysSince),
-          lastDeliveryDate: lastDeliveryDate.toISOString(),
-          lastDeliveredLitres: Number(lastOrder.litres) || 0,
-          message,
-        });
+      const res = await fetch("/api/admin/usage/low-fuel", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.ok) {
+        throw new Error(json?.reason || `HTTP ${res.status}`);
       }
 
-      setLowFuelAlerts(rows);
+      setLowFuelAlerts((json.rows || []) as LowFuelAlertRow[]);
     } catch (e: any) {
       setLowFuelError(e?.message || "Failed to load low fuel alerts");
     } finally {
@@ -707,39 +649,47 @@ let oq = supabase
      FULFILMENT ACTIONS
      ========================= */
 
-  // Update ONLY the fulfilment_status column (not payment status)
-  async function updateOrderStatus(orderId: string, newStatus: string) {
+  // Move the order through its lifecycle (server checks the transition and
+  // records it in the order history; cancelling a confirmed order refunds
+  // it, and a paid order is only marked refunded by the Stripe refund)
+  async function updateOrderStatus(
+    orderId: string,
+    to: OrderState,
+    reason?: string
+  ) {
     try {
       setUpdatingFulfilment(true);
       setFulfilError(null);
 
-      const statusClean = newStatus.toLowerCase();
-
-      const { error } = await supabase
-        .from("orders")
-        .update({ fulfilment_status: statusClean })
-        .eq("id", orderId);
+      const res = await fetch("/api/admin/order-state", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ orderId, to, reason: reason || null }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
 
-      if (error) throw error;
+      const state = json.state as OrderState;
 
       // Update local orders list
       setOrders((prev) =>
-        prev.map((o) =>
-          o.id === orderId ? { ...o, fulfilment_status: statusClean } : o
-        )
+        prev.map((o) => (o.id === orderId ? { ...o, state } : o))
       );
 
       // Update currently selected order, if open
       setFulfilOrder((prev) =>
-        prev && prev.id === orderId
-          ? { ...prev, fulfilment_status: statusClean }
-          : prev
+        prev && prev.id === orderId ? { ...prev, state } : prev
       );
 
-      // Keep panel open but show updated status
-      setFulfilStatusDraft(statusClean);
+      // Keep panel open on the next step
+      setFulfilStatusDraft(ORDER_TRANSITIONS[state][0] || "");
+      setFulfilReason("");
+      setFulfilHistoryKey((k) => k + 1);
     } catch (e: any) {
-      setFulfilError(e?.message || "Failed to update fulfilment status");
+      setFulfilError(e?.message || "Failed to update order state");
     } finally {
       setUpdatingFulfilment(false);
     }
@@ -778,9 +728,8 @@ let oq = supabase
 
   function openFulfilPanel(order: OrderRow) {
     setFulfilOrder(order);
-    setFulfilStatusDraft(
-      (order.fulfilment_status || "pending").toLowerCase()
-    );
+    setFulfilStatusDraft(ORDER_TRANSITIONS[orderState(order)][0] || "");
+    setFulfilReason("");
     setFulfilError(null);
   }
 
@@ -879,18 +828,7 @@ async function sendOrderToRefinery(orderId: string) {
   /* =========================
      Derived KPIs & options
      ========================= */
-  const orderStatusOptions = useMemo(() => {
-    const set = new Set<string>();
-    orders.forEach((o) => {
-      const s = (o.fulfilment_status || "").toLowerCase();
-      if (s) set.add(s);
-    });
-    // include defaults for consistency (fulfilment pipeline)
-    ["pending", "ordered", "dispatched", "delivered", "cancelled"].forEach(
-      (s) => set.add(s)
-    );
-    return ["all", ...Array.from(set).sort()];
-  }, [orders]);
+  const orderStatusOptions = useMemo(() => ["all", ...ORDER_STATES], []);
 
   const paymentStatusOptions = useMemo(() => {
     const set = new Set<string>();
@@ -901,11 +839,11 @@ async function sendOrderToRefinery(orderId: string) {
     return ["all", ...Array.from(set).sort()];
   }, [payments]);
 
-  // Orders (filtered) — filter by fulfilment_status
+  // Orders (filtered) — filter by lifecycle state
   const filteredOrders = useMemo(() => {
     const s = search.trim().toLowerCase();
     return orders.filter((o) => {
-      const fulfilStatus = (o.fulfilment_status || "").toLowerCase();
+      const fulfilStatus = orderState(o);
       const paymentStatus = (o.status || "").toLowerCase();
 
       const statusOk =
@@ -1925,6 +1863,88 @@ async function sendOrderToRefinery(orderId: string) {
         </section>
 
 
+        {/* ===== Price history ===== */}
+        <Accordion
+          title="Price history"
+          subtitle="Daily prices + import checks"
+          open={openPriceHistory}
+          onToggle={() => setOpenPriceHistory((s) => !s)}
+        >
+          {accessToken && (
+            <PriceHistoryChart jwt={accessToken} showImportChecks />
+          )}
+        </Accordion>
+
+        {/* ===== Margin report ===== */}
+        <Accordion
+          title="Margin report"
+          subtitle="Revenue, refinery cost, fees and net margin"
+          open={openMargin}
+          onToggle={() => setOpenMargin((s) => !s)}
+        >
+          {accessToken && <MarginReport jwt={accessToken} />}
+        </Accordion>
+
+        {/* ===== Commission rates ===== */}
+        <Accordion
+          title="Commission rates"
+          subtitle="Platform fee by fuel, customer and region"
+          open={openCommission}
+          onToggle={() => setOpenCommission((s) => !s)}
+        >
+          {accessToken && <CommissionRates jwt={accessToken} />}
+        </Accordion>
+
+        {/* ===== Credit accounts ===== */}
+        <Accordion
+          title="Credit accounts"
+          subtitle="Pay-on-account limits, terms and outstanding invoices"
+          open={openCredit}
+          onToggle={() => setOpenCredit((s) => !s)}
+        >
+          {accessToken && <CreditAccounts jwt={accessToken} />}
+        </Accordion>
+
+        {/* ===== Delivery blackouts ===== */}
+        <Accordion
+          title="Delivery blackout days"
+          subtitle="Extra no-delivery days on top of bank holidays"
+          open={openBlackouts}
+          onToggle={() => setOpenBlackouts((s) => !s)}
+        >
+          {accessToken && <DeliveryBlackouts jwt={accessToken} />}
+        </Accordion>
+
+        {/* ===== Delivery capacity ===== */}
+        <Accordion
+          title="Delivery capacity"
+          subtitle="Tanker limits per day and region"
+          open={openCapacity}
+          onToggle={() => setOpenCapacity((s) => !s)}
+        >
+          {accessToken && <DeliveryCapacity jwt={accessToken} />}
+        </Accordion>
+
+        {/* ===== Delivery variances ===== */}
+        <Accordion
+          title="Delivery variances"
+          subtitle="Delivered vs ordered litres – tolerance, refunds and extra charges"
+          open={openVariances}
+          onToggle={() => setOpenVariances((s) => !s)}
+        >
+          {accessToken && <DeliveryVariances jwt={accessToken} />}
+        </Accordion>
+
+        {/* ===== Sandbox accounts ===== */}
+        <Accordion
+          title="Sandbox accounts"
+          subtitle="Demo / QA logins with sample data"
+          open={openSandbox}
+          onToggle={() => setOpenSandbox((s) => !s)}
+        >
+          {accessToken && <SandboxAccounts jwt={accessToken} />}
+        </Accordion>
+
         {/* ===== Low fuel alerts ===== */}
         <Accordion
           title="Low fuel alerts"
@@ -1968,7 +1988,7 @@ async function sendOrderToRefinery(orderId: string) {
                 <tbody>
                   {lowFuelAlerts.map((r) => (
                     <tr
-                      key={r.contractId}
+                      key={r.tankId || r.siteId || r.contractId || r.email || ""}
                       className="border-b border-white/5 align-top"
                     >
                       <td className="py-2 px-3 text-xs">
@@ -1978,6 +1998,13 @@ async function sendOrderToRefinery(orderId: string) {
                         <div className="text-white/70 break-all">
                           {r.email || "—"}
                         </div>
+                        {r.siteName && (
+                          <div className="text-yellow-300/80">
+                            Site: {r.siteName}
+                            {r.tankName ? ` · ${r.tankName}` : ""}
+                            {r.fuel ? ` (${r.fuel})` : ""}
+                          </div>
+                        )}
                       </td>
                       <td className="py-2 px-3 text-xs">
                         <div>
@@ -2007,7 +2034,7 @@ async function sendOrderToRefinery(orderId: string) {
                             </div>
                             <div className="text-white/70 text-[11px]">
                               {Math.round(
-                                r.daysSinceLastDelivery
+                                r.daysSinceLastDelivery ?? 0
                               )}{" "}
                               days ago •{" "}
                               {r.lastDeliveredLitres.toLocaleString()} L
@@ -2034,6 +2061,29 @@ async function sendOrderToRefinery(orderId: string) {
                             L
                           </span>
                         </div>
+                        {r.lastReadingAt && (
+                          <div className="text-white/60 text-[11px]">
+                            Dip reading{" "}
+                            {new Date(r.lastReadingAt).toLocaleDateString()}
+                            {r.calibrated ? " · usage calibrated" : ""}
+                          </div>
+                        )}
+                        {r.runOutDate && (
+                          <div className="text-white/60 text-[11px]">
+                            Runs out ~
+                            {new Date(r.runOutDate).toLocaleDateString()}
+                            {r.runOutEarliest && r.runOutLatest
+                              ? ` (${new Date(
+                                  r.runOutEarliest
+                                ).toLocaleDateString()}–${new Date(
+                                  r.runOutLatest
+                                ).toLocaleDateString()})`
+                              : ""}
+                            {r.forecastConfidence
+                              ? ` · ${r.forecastConfidence} confidence`
+                              : ""}
+                          </div>
+                        )}
                       </td>
                       <td className="py-2 px-3 text-xs max-w-xs">
                         <div className="text-white/80 whitespace-pre-wrap">
@@ -2234,7 +2284,7 @@ async function sendOrderToRefinery(orderId: string) {
               value={orderStatusFilter}
               onChange={setOrderStatusFilter}
               options={orderStatusOptions}
-              label="Fulfilment"
+              label="State"
             />
           }
         >
@@ -2245,20 +2295,13 @@ async function sendOrderToRefinery(orderId: string) {
             ) : (
               visibleOrders.map((o) => {
                 const paymentStatus = (o.status || "—").toLowerCase();
-                const fulfilStatus = (
-                  o.fulfilment_status || "pending"
-                ).toLowerCase();
-                const isDelivered = fulfilStatus === "delivered";
-                const isDispatched =
-                  fulfilStatus === "dispatched" ||
-                  fulfilStatus === "out_for_delivery";
+                const fulfilStatus = orderState(o);
 
                 const refineryStatus = (
                   o.refinery_notification_status || ""
                 ).toLowerCase();
                 const canSendRefinery =
-                  (paymentStatus === "succeeded" ||
-                    paymentStatus === "paid") &&
+                  canTransition(fulfilStatus, "sent_to_refinery") &&
                   refineryStatus !== "sent";
 
                 return (
@@ -2305,19 +2348,21 @@ async function sendOrderToRefinery(orderId: string) {
                           </span>
                         </span>
                         <span className="text-[11px]">
-                          Delivery:{" "}
+                          State:{" "}
                           <span
                             className={cx(
                               "inline-flex items-center rounded px-2 py-0.5",
                               fulfilStatus === "delivered"
                                 ? "bg-green-700/70"
-                                : fulfilStatus === "dispatched" ||
-                                  fulfilStatus === "out_for_delivery"
+                                : fulfilStatus === "cancelled" ||
+                                  fulfilStatus === "refunded"
+                                ? "bg-rose-600/70"
+                                : fulfilStatus !== "pending"
                                 ? "bg-yellow-600/70"
                                 : "bg-gray-600/70"
                             )}
                           >
-                            {fulfilStatus}
+                            {ORDER_STATE_LABEL[fulfilStatus]}
                           </span>
                         </span>
                       </div>
@@ -2368,15 +2413,17 @@ async function sendOrderToRefinery(orderId: string) {
                           : "Send to refinery"}
                       </button>
 
-                      {!isDispatched && !isDelivered && (
+                      {canTransition(fulfilStatus, "out_for_delivery") && (
                         <button
-                          onClick={() => updateOrderStatus(o.id, "dispatched")}
+                          onClick={() =>
+                            updateOrderStatus(o.id, "out_for_delivery")
+                          }
                           className="rounded-lg bg-yellow-500 px-3 py-1.5 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400"
                         >
-                          Mark dispatched
+                          Out for delivery
                         </button>
                       )}
-                      {isDispatched && !isDelivered && (
+                      {canTransition(fulfilStatus, "delivered") && (
                         <button
                           onClick={() => updateOrderStatus(o.id, "delivered")}
                           className="rounded-lg bg-green-500 px-3 py-1.5 text-xs font-semibold text-[#041F3E] hover:bg-green-400"
@@ -2409,20 +2456,13 @@ async function sendOrderToRefinery(orderId: string) {
               <tbody>
                 {visibleOrders.map((o) => {
                   const paymentStatus = (o.status || "—").toLowerCase();
-                  const fulfilStatus = (
-                    o.fulfilment_status || "pending"
-                  ).toLowerCase();
-                  const isDelivered = fulfilStatus === "delivered";
-                  const isDispatched =
-                    fulfilStatus === "dispatched" ||
-                    fulfilStatus === "out_for_delivery";
+                  const fulfilStatus = orderState(o);
 
                   const refineryStatus = (
                     o.refinery_notification_status || ""
                   ).toLowerCase();
                   const canSendRefinery =
-                    (paymentStatus === "succeeded" ||
-                      paymentStatus === "paid") &&
+                    canTransition(fulfilStatus, "sent_to_refinery") &&
                     refineryStatus !== "sent";
                   return (
                     <tr key={o.id} className="border-b border-white/5">
@@ -2452,19 +2492,21 @@ async function sendOrderToRefinery(orderId: string) {
                             </span>
                           </div>
                           <div className="text-xs">
-                            Delivery:{" "}
+                            State:{" "}
                             <span
                               className={cx(
                                 "inline-flex items-center rounded px-2 py-0.5",
                                 fulfilStatus === "delivered"
                                   ? "bg-green-700/70"
-                                  : fulfilStatus === "dispatched" ||
-                                    fulfilStatus === "out_for_delivery"
+                                  : fulfilStatus === "cancelled" ||
+                                    fulfilStatus === "refunded"
+                                  ? "bg-rose-600/70"
+                                  : fulfilStatus !== "pending"
                                   ? "bg-yellow-600/70"
                                   : "bg-gray-600/70"
                               )}
                             >
-                              {fulfilStatus}
+                              {ORDER_STATE_LABEL[fulfilStatus]}
                             </span>
                           </div>
                           {o.fulfilment_notes && (
@@ -2517,17 +2559,17 @@ async function sendOrderToRefinery(orderId: string) {
                               : "Send to refinery"}
                           </button>
 
-                          {!isDispatched && !isDelivered && (
+                          {canTransition(fulfilStatus, "out_for_delivery") && (
                             <button
                               onClick={() =>
-                                updateOrderStatus(o.id, "dispatched")
+                                updateOrderStatus(o.id, "out_for_delivery")
                               }
                               className="rounded-lg bg-yellow-500 px-3 py-1.5 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400"
                             >
-                              Dispatch
+                              Out for delivery
                             </button>
                           )}
-                          {isDispatched && !isDelivered && (
+                          {canTransition(fulfilStatus, "delivered") && (
                             <button
                               onClick={() =>
                                 updateOrderStatus(o.id, "delivered")
@@ -3359,6 +3401,9 @@ async function sendOrderToRefinery(orderId: string) {
                 Litres:
                 <div className="text-white/80">
                   {fulfilOrder.litres ?? "—"}
+                  {fulfilOrder.delivered_litres != null &&
+                    fulfilOrder.delivered_litres !== fulfilOrder.litres &&
+                    ` (${fulfilOrder.delivered_litres} delivered)`}
                 </div>
               </div>
               <div>
@@ -3371,20 +3416,34 @@ async function sendOrderToRefinery(orderId: string) {
 
             <div className="mt-4">
               <label className="block text-xs text-white/70 mb-1.5">
-                Fulfilment status
+                State:{" "}
+                <span className="text-white">
+                  {ORDER_STATE_LABEL[orderState(fulfilOrder)]}
+                </span>
               </label>
-              <select
-                value={fulfilStatusDraft}
-                onChange={(e) => setFulfilStatusDraft(e.target.value)}
-                className="w-full rounded-lg border border-white/10 bg-white/5 px-2.5 py-2 text-sm outline-none focus:ring focus:ring-yellow-500/30"
-              >
-                <option value="pending">pending</option>
-                <option value="ordered">ordered</option>
-                <option value="dispatched">dispatched</option>
-                <option value="out_for_delivery">out_for_delivery</option>
-                <option value="delivered">delivered</option>
-                <option value="cancelled">cancelled</option>
-              </select>
+              {ORDER_TRANSITIONS[orderState(fulfilOrder)].length > 0 ? (
+                <select
+                  value={fulfilStatusDraft}
+                  onChange={(e) => setFulfilStatusDraft(e.target.value)}
+                  className="w-full rounded-lg border border-white/10 bg-white/5 px-2.5 py-2 text-sm outline-none focus:ring focus:ring-yellow-500/30"
+                >
+                  {ORDER_TRANSITIONS[orderState(fulfilOrder)].map((s) => (
+                    <option key={s} value={s}>
+                      Move to: {ORDER_STATE_LABEL[s]}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <div className="text-xs text-white/50">
+                  This order is closed – no further changes.
+                </div>
+              )}
+              <input
+                className="mt-2 w-full rounded-lg border border-white/10 bg-white/5 px-2.5 py-2 text-sm outline-none focus:ring focus:ring-yellow-500/30"
+                placeholder="Reason (kept in the order history)"
+                value={fulfilReason}
+                onChange={(e) => setFulfilReason(e.target.value)}
+              />
             </div>
 
             <div className="mt-3">
@@ -3406,40 +3465,58 @@ async function sendOrderToRefinery(orderId: string) {
 
             <div className="mt-3 flex flex-wrap gap-2">
               <button
-                disabled={updatingFulfilment}
+                disabled={updatingFulfilment || !isOrderState(fulfilStatusDraft)}
                 onClick={() =>
-                  updateOrderStatus(fulfilOrder.id, fulfilStatusDraft)
+                  isOrderState(fulfilStatusDraft) &&
+                  updateOrderStatus(
+                    fulfilOrder.id,
+                    fulfilStatusDraft,
+                    fulfilReason
+                  )
                 }
                 className={cx(
                   "rounded-lg px-3 py-2 text-sm font-semibold",
                   "bg-yellow-500 text-[#041F3E] hover:bg-yellow-400",
-                  updatingFulfilment && "opacity-60 cursor-not-allowed"
-                )}
-              >
-                {updatingFulfilment ? "Updating…" : "Save status"}
-              </button>
-              <button
-                disabled={updatingFulfilment}
-                onClick={() => updateOrderStatus(fulfilOrder.id, "dispatched")}
-                className={cx(
-                  "rounded-lg px-3 py-2 text-xs sm:text-sm",
-                  "bg-white/10 hover:bg-white/15",
-                  updatingFulfilment && "opacity-60 cursor-not-allowed"
-                )}
-              >
-                Quick: Dispatched
-              </button>
-              <button
-                disabled={updatingFulfilment}
-                onClick={() => updateOrderStatus(fulfilOrder.id, "delivered")}
-                className={cx(
-                  "rounded-lg px-3 py-2 text-xs sm:text-sm",
-                  "bg-green-500 text-[#041F3E] hover:bg-green-400",
-                  updatingFulfilment && "opacity-60 cursor-not-allowed"
+                  (updatingFulfilment || !isOrderState(fulfilStatusDraft)) &&
+                    "opacity-60 cursor-not-allowed"
                 )}
               >
-                Quick: Delivered
+                {updatingFulfilment ? "Updating…" : "Save state"}
               </button>
+              {canTransition(orderState(fulfilOrder), "out_for_delivery") && (
+                <button
+                  disabled={updatingFulfilment}
+                  onClick={() =>
+                    updateOrderStatus(
+                      fulfilOrder.id,
+                      "out_for_delivery",
+                      fulfilReason
+                    )
+                  }
+                  className={cx(
+                    "rounded-lg px-3 py-2 text-xs sm:text-sm",
+                    "bg-white/10 hover:bg-white/15",
+                    updatingFulfilment && "opacity-60 cursor-not-allowed"
+                  )}
+                >
+                  Quick: Out for delivery
+                </button>
+              )}
+              {canTransition(orderState(fulfilOrder), "delivered") && (
+                <button
+                  disabled={updatingFulfilment}
+                  onClick={() =>
+                    updateOrderStatus(fulfilOrder.id, "delivered", fulfilReason)
+                  }
+                  className={cx(
+                    "rounded-lg px-3 py-2 text-xs sm:text-sm",
+                    "bg-green-500 text-[#041F3E] hover:bg-green-400",
+                    updatingFulfilment && "opacity-60 cursor-not-allowed"
+                  )}
+                >
+                  Quick: Delivered
+                </button>
+              )}
             </div>
 
             {fulfilError && (
@@ -3448,10 +3525,31 @@ async function sendOrderToRefinery(orderId: string) {
               </div>
             )}
 
+            {accessToken && (
+              <div className="mt-4 max-h-56 overflow-y-auto">
+                <div className="mb-2 text-xs text-white/70">History</div>
+                <OrderTimeline
+                  jwt={accessToken}
+                  orderId={fulfilOrder.id}
+                  refreshKey={fulfilHistoryKey}
+                />
+              </div>
+            )}
+
+            {accessToken && (
+              <div className="mt-3">
+                <DeliveryProof
+                  jwt={accessToken}
+                  orderId={fulfilOrder.id}
+                  refreshKey={fulfilHistoryKey}
+                />
+              </div>
+            )}
+
             <p className="mt-3 text-[11px] text-white/50">
-              Payment status (Stripe) remains separate. This panel updates only
-              the fulfilment fields in Supabase so your internal delivery
-              tracking stays clear and separate from payments.
+              Payment status (Stripe) remains separate. Only the next steps
+              allowed from the current state are offered, and each change is
+              kept in the order history with your email and reason.
             </p>
           </div>
         </div>
@@ -0,0 +1,173 @@
+// src/pages/api/admin/commission-rates.ts
+// Versioned platform commission rates (public.commission_rates).
+// Rows are never edited in place so past orders keep resolving the rate
+// that applied on their date:
+//
+// GET                        all versions + the default rate in force now
+// POST   { fuel, percent, effectiveFrom?, customerEmail?, region?, note? }
+//                            add a new version (effectiveFrom defaults to now)
+// PATCH  { id, effectiveTo } end an override / version
+// DELETE ?id=                remove a version that hasn't taken effect yet
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import {
+  COMMISSION_RATE_COLUMNS,
+  commissionRateFromRow,
+  pickCommissionRate,
+} from "@/lib/commission";
+
+const FUELS = ["petrol", "diesel"];
+const REGIONS = ["N", "S", "E", "W", "G"];
+
+function parseDate(v: unknown): Date | null {
+  if (v == null || v === "") return null;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabaseAdmin
+        .from("commission_rates")
+        .select(COMMISSION_RATE_COLUMNS)
+        .order("effective_from", { ascending: false });
+      if (error) return res.status(500).json({ error: error.message });
+
+      const rates = (data || []).map((r) => commissionRateFromRow(r as any));
+      const now = new Date();
+      const current = Object.fromEntries(
+        FUELS.map((fuel) => [
+          fuel,
+          pickCommissionRate(rates, { fuel, at: now })?.percent ?? null,
+        ])
+      );
+      return res.status(200).json({ rates, current });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as {
+        fuel?: string | null;
+        percent?: number | string;
+        effectiveFrom?: string;
+        customerEmail?: string | null;
+        region?: string | null;
+        note?: string | null;
+      };
+
+      const fuel = body.fuel ? String(body.fuel).toLowerCase() : null;
+      if (fuel && !FUELS.includes(fuel)) {
+        return res.status(400).json({ error: "fuel must be petrol, diesel or empty" });
+      }
+
+      const percent = Number(body.percent);
+      if (!Number.isFinite(percent) || percent < 0 || percent >= 100) {
+        return res.status(400).json({ error: "percent must be between 0 and 100" });
+      }
+
+      const region = body.region ? String(body.region).toUpperCase() : null;
+      if (region && !REGIONS.includes(region)) {
+        return res.status(400).json({ error: "region must be N, S, E, W or G" });
+      }
+
+      const customerEmail = body.customerEmail
+        ? String(body.customerEmail).trim().toLowerCase()
+        : null;
+      if (customerEmail && region) {
+        return res
+          .status(400)
+          .json({ error: "Use either a customer or a region override, not both" });
+      }
+
+      const effectiveFrom = body.effectiveFrom
+        ? parseDate(body.effectiveFrom)
+        : new Date();
+      if (!effectiveFrom) {
+        return res.status(400).json({ error: "Invalid effectiveFrom" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("commission_rates")
+        .insert({
+          fuel,
+          percent,
+          customer_email: customerEmail,
+          region,
+          effective_from: effectiveFrom.toISOString(),
+          note: body.note ? String(body.note).slice(0, 500) : null,
+          created_by: admin,
+        } as any)
+        .select(COMMISSION_RATE_COLUMNS)
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+
+      return res.status(200).json({ rate: commissionRateFromRow(data as any) });
+    }
+
+    if (req.method === "PATCH") {
+      const { id, effectiveTo } = (req.body || {}) as {
+        id?: string;
+        effectiveTo?: string;
+      };
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const end = effectiveTo ? parseDate(effectiveTo) : new Date();
+      if (!end) return res.status(400).json({ error: "Invalid effectiveTo" });
+
+      const { data: row } = await supabaseAdmin
+        .from("commission_rates")
+        .select("effective_from")
+        .eq("id", id)
+        .maybeSingle();
+      if (!row) return res.status(404).json({ error: "Rate not found" });
+      if (new Date((row as any).effective_from) >= end) {
+        return res
+          .status(400)
+          .json({ error: "effectiveTo must be after the rate's start" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("commission_rates")
+        .update({ effective_to: end.toISOString() } as any)
+        .eq("id", id)
+        .select(COMMISSION_RATE_COLUMNS)
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+
+      return res.status(200).json({ rate: commissionRateFromRow(data as any) });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id || "");
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      // only future versions – anything already in force is history
+      const { data, error } = await supabaseAdmin
+        .from("commission_rates")
+        .delete()
+        .eq("id", id)
+        .gt("effective_from", new Date().toISOString())
+        .select("id");
+      if (error) return res.status(500).json({ error: error.message });
+      if (!data?.length) {
+        return res
+          .status(409)
+          .json({ error: "Only rates that haven't taken effect can be deleted" });
+      }
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[admin/commission-rates] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
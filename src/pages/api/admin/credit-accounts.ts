@@ -0,0 +1,138 @@
+// src/pages/api/admin/credit-accounts.ts
+// Credit accounts for approved business customers (public.credit_accounts):
+//
+// GET                        every account with its balance + unsettled
+//                            on-account orders
+// POST   { email, creditLimit, termsDays?, termsBasis?, status?, note? }
+//                            create / update the customer's account
+//                            (creditLimit in GBP)
+// PATCH  { orderId, action: "settle" | "invoice" }
+//                            mark an on-account order paid, or re-send its
+//                            invoice
+// DELETE ?email=             remove the account (suspended instead if it
+//                            still has orders on it)
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import {
+  creditAccountInputToRow,
+  issueOnAccountInvoice,
+  listCreditAccounts,
+  loadCreditAccount,
+  settleOnAccountOrder,
+  type CreditAccountInput,
+} from "@/lib/credit-accounts";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  try {
+    if (req.method === "GET") {
+      const accounts = await listCreditAccounts();
+
+      const { data: orders, error } = await supabaseAdmin
+        .from("orders")
+        .select(
+          "id,user_email,credit_account_id,total_pence,fuel,litres,delivery_date,payment_due_date,created_at"
+        )
+        .eq("status", "approved_on_account")
+        .order("payment_due_date", { ascending: true });
+      if (error) return res.status(500).json({ error: error.message });
+
+      return res.status(200).json({ accounts, orders: orders || [] });
+    }
+
+    if (req.method === "POST") {
+      const parsed = creditAccountInputToRow(
+        (req.body || {}) as CreditAccountInput
+      );
+      if (!parsed.ok) return res.status(400).json({ error: parsed.error });
+
+      const { error } = await supabaseAdmin
+        .from("credit_accounts")
+        .upsert(
+          {
+            ...parsed.row,
+            created_by: admin,
+            updated_at: new Date().toISOString(),
+          } as any,
+          { onConflict: "user_email" }
+        );
+      if (error) return res.status(500).json({ error: error.message });
+
+      const account = await loadCreditAccount(parsed.row.user_email);
+      return res.status(200).json({ account });
+    }
+
+    if (req.method === "PATCH") {
+      const { orderId, action } = (req.body || {}) as {
+        orderId?: string;
+        action?: string;
+      };
+      if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+
+      if (action === "invoice") {
+        const { data: order } = await supabaseAdmin
+          .from("orders")
+          .select("id")
+          .eq("id", orderId)
+          .eq("status", "approved_on_account")
+          .maybeSingle();
+        if (!order) {
+          return res.status(404).json({ error: "No unsettled on-account order" });
+        }
+        await issueOnAccountInvoice(orderId);
+        return res.status(200).json({ ok: true });
+      }
+
+      if (action && action !== "settle") {
+        return res.status(400).json({ error: "action must be settle or invoice" });
+      }
+      const settled = await settleOnAccountOrder(orderId, admin);
+      if (!settled) {
+        return res.status(409).json({ error: "Order isn't awaiting payment on account" });
+      }
+      return res.status(200).json({ ok: true });
+    }
+
+    if (req.method === "DELETE") {
+      const email = String(req.query.email || "").trim().toLowerCase();
+      if (!email) return res.status(400).json({ error: "Missing email" });
+
+      const account = await loadCreditAccount(email);
+      if (!account) return res.status(404).json({ error: "Account not found" });
+
+      // orders keep pointing at the account, so only suspend it then
+      const { count } = await supabaseAdmin
+        .from("orders")
+        .select("id", { count: "exact", head: true })
+        .eq("credit_account_id", account.id);
+
+      if (count) {
+        const { error } = await supabaseAdmin
+          .from("credit_accounts")
+          .update({ status: "suspended", updated_at: new Date().toISOString() } as any)
+          .eq("id", account.id);
+        if (error) return res.status(500).json({ error: error.message });
+        return res.status(200).json({ ok: true, suspended: true });
+      }
+
+      const { error } = await supabaseAdmin
+        .from("credit_accounts")
+        .delete()
+        .eq("id", account.id);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true, suspended: false });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[admin/credit-accounts] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
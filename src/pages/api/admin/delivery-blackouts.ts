@@ -0,0 +1,82 @@
+// src/pages/api/admin/delivery-blackouts.ts
+// Admin-managed days with no deliveries (public.delivery_blackouts),
+// applied by lib/delivery-calendar on the order page and at checkout.
+//
+// GET                                  upcoming blackouts
+// POST   { date, region?, reason? }    add a blackout (region null = everywhere)
+// DELETE ?id=
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import { londonNow } from "@/lib/delivery-calendar";
+
+const REGIONS = ["N", "S", "E", "W", "G"];
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabaseAdmin
+        .from("delivery_blackouts")
+        .select("id,date,region,reason,created_by,created_at")
+        .gte("date", londonNow().date)
+        .order("date", { ascending: true });
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ blackouts: data || [] });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as {
+        date?: string;
+        region?: string | null;
+        reason?: string | null;
+      };
+
+      const date = String(body.date || "");
+      if (!DAY_RE.test(date)) {
+        return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+      }
+      const region = body.region ? String(body.region).toUpperCase() : null;
+      if (region && !REGIONS.includes(region)) {
+        return res.status(400).json({ error: "region must be N, S, E, W or G" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("delivery_blackouts")
+        .insert({
+          date,
+          region,
+          reason: body.reason ? String(body.reason).slice(0, 200) : null,
+          created_by: admin,
+        } as any)
+        .select("id,date,region,reason,created_by,created_at")
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ blackout: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id || "");
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const { error } = await supabaseAdmin
+        .from("delivery_blackouts")
+        .delete()
+        .eq("id", id);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[admin/delivery-blackouts] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,152 @@
+// src/pages/api/admin/delivery-capacity.ts
+// Tanker capacity per region / day (public.delivery_capacity) and the
+// bookings against it.
+//
+// GET                 capacity rows + live bookings for the next 14 days
+// POST   { region?, date?, maxLitres?, maxDrops?, note? }
+//                     set capacity (region/date empty = default for all)
+// DELETE ?id=
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import { addDays, londonNow } from "@/lib/delivery-calendar";
+
+const REGIONS = ["N", "S", "E", "W", "G"];
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function limit(v: unknown): number | null | undefined {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : undefined;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  try {
+    if (req.method === "GET") {
+      const today = londonNow().date;
+      const [capRes, bookRes] = await Promise.all([
+        supabaseAdmin
+          .from("delivery_capacity")
+          .select("id,region,date,max_litres,max_drops,note,updated_by,updated_at")
+          .or(`date.is.null,date.gte.${today}`)
+          .order("date", { ascending: true, nullsFirst: true }),
+        supabaseAdmin
+          .from("delivery_bookings")
+          .select("region,date,litres,status,expires_at")
+          .gte("date", today)
+          .lte("date", addDays(today, 14))
+          .neq("status", "released"),
+      ]);
+      if (capRes.error) return res.status(500).json({ error: capRes.error.message });
+      if (bookRes.error) return res.status(500).json({ error: bookRes.error.message });
+
+      // live bookings per region/day
+      const now = Date.now();
+      const usage = new Map<
+        string,
+        { region: string; date: string; litres: number; drops: number; held: number }
+      >();
+      for (const b of (bookRes.data || []) as any[]) {
+        const held = b.status === "held";
+        if (held && (!b.expires_at || new Date(b.expires_at).getTime() <= now)) continue;
+        const key = `${b.region}|${b.date}`;
+        const u = usage.get(key) || {
+          region: b.region,
+          date: String(b.date).slice(0, 10),
+          litres: 0,
+          drops: 0,
+          held: 0,
+        };
+        u.litres += Number(b.litres) || 0;
+        u.drops += 1;
+        if (held) u.held += 1;
+        usage.set(key, u);
+      }
+
+      return res.status(200).json({
+        capacity: capRes.data || [],
+        usage: Array.from(usage.values()).sort(
+          (a, b) => a.date.localeCompare(b.date) || a.region.localeCompare(b.region)
+        ),
+      });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as {
+        region?: string | null;
+        date?: string | null;
+        maxLitres?: number | string | null;
+        maxDrops?: number | string | null;
+        note?: string | null;
+      };
+
+      const region = body.region ? String(body.region).toUpperCase() : null;
+      if (region && !REGIONS.includes(region)) {
+        return res.status(400).json({ error: "region must be N, S, E, W or G" });
+      }
+      const date = body.date ? String(body.date) : null;
+      if (date && !DAY_RE.test(date)) {
+        return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+      }
+      const maxLitres = limit(body.maxLitres);
+      const maxDrops = limit(body.maxDrops);
+      if (maxLitres === undefined || maxDrops === undefined) {
+        return res.status(400).json({ error: "Limits must be whole numbers ≥ 0" });
+      }
+
+      const row = {
+        region,
+        date,
+        max_litres: maxLitres,
+        max_drops: maxDrops,
+        note: body.note ? String(body.note).slice(0, 200) : null,
+        updated_by: admin,
+        updated_at: new Date().toISOString(),
+      };
+
+      // one row per region/date scope – replace it if it exists
+      let existing = supabaseAdmin.from("delivery_capacity").select("id");
+      existing = region ? existing.eq("region", region) : existing.is("region", null);
+      existing = date ? existing.eq("date", date) : existing.is("date", null);
+      const { data: found } = await existing.maybeSingle();
+
+      const { data, error } = found
+        ? await supabaseAdmin
+            .from("delivery_capacity")
+            .update(row as any)
+            .eq("id", (found as any).id)
+            .select("id,region,date,max_litres,max_drops,note,updated_by,updated_at")
+            .single()
+        : await supabaseAdmin
+            .from("delivery_capacity")
+            .insert(row as any)
+            .select("id,region,date,max_litres,max_drops,note,updated_by,updated_at")
+            .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ capacity: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id || "");
+      if (!id) return res.status(400).json({ error: "Missing id" });
+      const { error } = await supabaseAdmin
+        .from("delivery_capacity")
+        .delete()
+        .eq("id", id);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[admin/delivery-capacity] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,113 @@
+// src/pages/api/admin/delivery-variances.ts
+// Delivered-vs-ordered variances (public.order_variances) and the
+// tolerance rules that decide what happens to them (lib/delivery-variance.ts).
+//
+// GET  ?status=       settings + newest variances (with the order's email)
+// PUT  { toleranceLitres, tolerancePercent, underAction, overAction,
+//        reviewAbovePence }
+//                     save the tolerance rules
+// POST { id, action: refund | credit | charge | invoice | waive, reason? }
+//                     settle or waive a variance waiting for review / failed
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import {
+  listVariances,
+  loadVarianceSettings,
+  saveVarianceSettings,
+  settleVariance,
+  waiveVariance,
+  type VarianceAction,
+  type VarianceStatus,
+} from "@/lib/delivery-variance";
+
+const STATUSES: VarianceStatus[] = [
+  "within_tolerance",
+  "pending_review",
+  "awaiting_payment",
+  "completed",
+  "failed",
+  "waived",
+];
+const ACTIONS: VarianceAction[] = ["refund", "credit", "charge", "invoice"];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  try {
+    if (req.method === "GET") {
+      const status = String(req.query.status || "") as VarianceStatus;
+      if (status && !STATUSES.includes(status)) {
+        return res.status(400).json({ error: "Unknown status" });
+      }
+      const [settings, variances] = await Promise.all([
+        loadVarianceSettings(),
+        listVariances({ status: status || null }),
+      ]);
+
+      // the order's email / payment route for the list
+      const ids = Array.from(new Set(variances.map((v) => v.orderId)));
+      const { data: orders } = ids.length
+        ? await supabaseAdmin.from("orders").select("id,user_email,status").in("id", ids)
+        : { data: [] as any[] };
+      const byId = new Map(((orders || []) as any[]).map((o) => [o.id, o]));
+
+      return res.status(200).json({
+        settings,
+        variances: variances.map((v) => ({
+          ...v,
+          email: byId.get(v.orderId)?.user_email ?? null,
+          onAccount: byId.get(v.orderId)?.status === "approved_on_account",
+        })),
+      });
+    }
+
+    if (req.method === "PUT") {
+      const result = await saveVarianceSettings(req.body || {}, admin);
+      if (!result.ok) return res.status(400).json({ error: result.error });
+      return res.status(200).json({ settings: result.settings });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as {
+        id?: string;
+        action?: string;
+        reason?: string | null;
+      };
+      const id = String(body.id || "");
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const result =
+        body.action === "waive"
+          ? await waiveVariance({
+              varianceId: id,
+              actor: admin,
+              reason: body.reason ? String(body.reason).slice(0, 500) : null,
+            })
+          : ACTIONS.includes(body.action as VarianceAction)
+          ? await settleVariance({
+              varianceId: id,
+              action: body.action as VarianceAction,
+              actor: admin,
+            })
+          : null;
+      if (!result) {
+        return res
+          .status(400)
+          .json({ error: "action must be refund, credit, charge, invoice or waive" });
+      }
+      if (!result.ok) return res.status(result.status).json({ error: result.error });
+      return res.status(200).json({ variance: result.variance });
+    }
+
+    res.setHeader("Allow", "GET, PUT, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[admin/delivery-variances] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,112 @@
+// src/pages/api/admin/order-state.ts
+// Admin moves an order through its lifecycle (lib/order-lifecycle.ts).
+//   POST { orderId, to, reason?, notes? } -> { state, events }
+// Only transitions allowed from the order's current state go through;
+// each one is recorded in order_events against the admin's email.
+// Money follows the state: cancelling a confirmed order goes through
+// cancelOrder (Stripe refund / off the account balance, credit note), and
+// an order that still holds the customer's money can't otherwise be
+// marked cancelled or refunded – the charge.refunded webhook does that.
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import { cancelOrder } from "@/lib/order-changes";
+import {
+  ORDER_STATE_LABEL,
+  SETTLED_ORDER_STATUSES,
+  isOrderState,
+  loadOrderEvents,
+  transitionOrder,
+} from "@/lib/order-lifecycle";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  const { orderId, to, reason, notes } = (req.body || {}) as {
+    orderId?: string;
+    to?: string;
+    reason?: string;
+    notes?: string;
+  };
+  if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+  if (!isOrderState(to)) {
+    return res.status(400).json({ error: "Unknown order state" });
+  }
+
+  try {
+    if (to === "cancelled" || to === "refunded") {
+      const { data: order, error } = await supabaseAdmin
+        .from("orders")
+        .select("id,state,status")
+        .eq("id", orderId)
+        .maybeSingle();
+      if (error) return res.status(500).json({ error: error.message });
+      if (!order) return res.status(404).json({ error: "Order not found" });
+      const o = order as any;
+
+      if (SETTLED_ORDER_STATUSES.includes(o.status || "")) {
+        if (to === "cancelled" && o.state === "paid") {
+          const cancelled = await cancelOrder({
+            orderId,
+            actor: admin,
+            reason: reason?.trim() || "Cancelled by FuelFlow",
+          });
+          if (!cancelled.ok) {
+            return res
+              .status(cancelled.status)
+              .json({ error: cancelled.error, state: o.state ?? null });
+          }
+          if (typeof notes === "string") {
+            await supabaseAdmin
+              .from("orders")
+              .update({ fulfilment_notes: notes || null } as any)
+              .eq("id", orderId);
+          }
+          const events = await loadOrderEvents(orderId);
+          return res.status(200).json({ state: "cancelled", events });
+        }
+        return res.status(409).json({
+          error:
+            o.status === "approved_on_account"
+              ? "This order is on the customer's account – cancel it while it's confirmed, or raise a credit note"
+              : to === "cancelled"
+              ? "This order has been paid – refund it in Stripe first; it's marked refunded once the refund goes through"
+              : "Refund the payment in Stripe – the order is marked refunded once the refund goes through",
+          state: o.state ?? null,
+        });
+      }
+    }
+
+    const result = await transitionOrder({
+      orderId,
+      to,
+      actor: admin,
+      reason: reason?.trim() || null,
+      fields: typeof notes === "string" ? { fulfilment_notes: notes || null } : undefined,
+    });
+    if (!result.ok) {
+      const status =
+        result.reason === "not_found" ? 404 : result.reason === "conflict" ? 409 : 400;
+      const error =
+        result.reason === "invalid_transition" && result.from
+          ? `Can't move an order from "${ORDER_STATE_LABEL[result.from]}" to "${ORDER_STATE_LABEL[to]}"`
+          : result.error;
+      return res.status(status).json({ error, state: result.from ?? null });
+    }
+
+    const events = await loadOrderEvents(orderId);
+    return res.status(200).json({ state: result.to, events });
+  } catch (e: any) {
+    console.error("[admin/order-state] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,61 @@
+// src/pages/api/admin/prices/import.ts
+// Admin CSV upload for daily_prices. Same parser / checks / audit as the
+// import-prices edge function.
+//
+// POST { csv: string, dryRun?: boolean (default true), force?: boolean }
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+import { evaluatePriceAlerts } from "@/lib/price-alerts";
+import { runPriceImport } from "../../../../../supabase/functions/_shared/price-csv";
+
+export const config = { api: { bodyParser: { sizeLimit: "2mb" } } };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  const body = (req.body || {}) as {
+    csv?: string;
+    dryRun?: boolean;
+    force?: boolean;
+  };
+  if (!body.csv || typeof body.csv !== "string") {
+    return res.status(400).json({ error: "Missing csv" });
+  }
+
+  const maxJump = Number(process.env.PRICE_IMPORT_MAX_JUMP_PCT || "");
+
+  try {
+    const report = await runPriceImport(supabaseAdmin, body.csv, {
+      // preview unless explicitly told to write
+      dryRun: body.dryRun !== false,
+      force: !!body.force,
+      maxJumpPct: Number.isFinite(maxJump) && maxJump > 0 ? maxJump : undefined,
+      source: "admin_upload",
+      triggeredBy: admin,
+    });
+
+    let alerts: Awaited<ReturnType<typeof evaluatePriceAlerts>> | null = null;
+    if (!report.dryRun && report.summary.insert + report.summary.update > 0) {
+      try {
+        alerts = await evaluatePriceAlerts();
+      } catch (e) {
+        console.error("[admin/prices/import] price alerts failed:", e);
+      }
+    }
+
+    return res.status(200).json({ ...report, alerts });
+  } catch (e: any) {
+    console.error("[admin/prices/import] error:", e);
+    return res.status(400).json({ error: e?.message || "Import failed" });
+  }
+}
@@ -0,0 +1,142 @@
+// src/pages/api/admin/reports/margin.ts
+// Margin report from public.order_ledger.
+//
+// GET ?from=YYYY-MM-DD&to=YYYY-MM-DD&group=fuel|month|customer
+//   from/to default to the last 90 days (by paid_at, inclusive).
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+
+type Group = "fuel" | "month" | "customer";
+
+export type MarginReportRow = {
+  key: string;
+  orders: number;
+  litres: number;
+  revenuePence: number;
+  refineryCostPence: number;
+  platformFeePence: number;
+  stripeFeePence: number;
+  refundedPence: number;
+  netMarginPence: number;
+  /** orders whose Stripe fee hasn't been seen yet */
+  missingStripeFee: number;
+};
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function keyFor(group: Group, r: any): string {
+  if (group === "fuel") return String(r.fuel || "unknown").toLowerCase();
+  if (group === "customer") return String(r.user_email || "unknown").toLowerCase();
+  return String(r.paid_at || "").slice(0, 7) || "unknown";
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  const groupParam = String(req.query.group || "month");
+  if (!["fuel", "month", "customer"].includes(groupParam)) {
+    return res.status(400).json({ error: "group must be fuel, month or customer" });
+  }
+  const group = groupParam as Group;
+
+  const today = new Date();
+  const defFrom = new Date(today);
+  defFrom.setUTCDate(defFrom.getUTCDate() - 90);
+
+  const from = String(req.query.from || defFrom.toISOString().slice(0, 10));
+  const to = String(req.query.to || today.toISOString().slice(0, 10));
+  if (!DAY_RE.test(from) || !DAY_RE.test(to) || from > to) {
+    return res.status(400).json({ error: "Invalid from / to" });
+  }
+
+  const toExclusive = new Date(`${to}T00:00:00Z`);
+  toExclusive.setUTCDate(toExclusive.getUTCDate() + 1);
+
+  const { data, error } = await supabaseAdmin
+    .from("order_ledger")
+    .select(
+      "order_id,user_email,fuel,litres,paid_at,revenue_pence,refinery_cost_pence,platform_fee_pence,stripe_fee_pence,refunded_pence,net_margin_pence"
+    )
+    .gte("paid_at", `${from}T00:00:00Z`)
+    .lt("paid_at", toExclusive.toISOString())
+    .order("paid_at", { ascending: true })
+    .limit(10000);
+
+  if (error) {
+    console.error("[admin/reports/margin] load failed:", error);
+    return res.status(500).json({ error: error.message });
+  }
+
+  const map = new Map<string, MarginReportRow>();
+  for (const r of (data || []) as any[]) {
+    const key = keyFor(group, r);
+    const row =
+      map.get(key) ||
+      ({
+        key,
+        orders: 0,
+        litres: 0,
+        revenuePence: 0,
+        refineryCostPence: 0,
+        platformFeePence: 0,
+        stripeFeePence: 0,
+        refundedPence: 0,
+        netMarginPence: 0,
+        missingStripeFee: 0,
+      } as MarginReportRow);
+
+    row.orders++;
+    row.litres += Number(r.litres) || 0;
+    row.revenuePence += Number(r.revenue_pence) || 0;
+    row.refineryCostPence += Number(r.refinery_cost_pence) || 0;
+    row.platformFeePence += Number(r.platform_fee_pence) || 0;
+    row.stripeFeePence += Number(r.stripe_fee_pence) || 0;
+    row.refundedPence += Number(r.refunded_pence) || 0;
+    row.netMarginPence += Number(r.net_margin_pence) || 0;
+    if (r.stripe_fee_pence == null) row.missingStripeFee++;
+    map.set(key, row);
+  }
+
+  const rows = Array.from(map.values()).sort((a, b) =>
+    group === "month" ? a.key.localeCompare(b.key) : b.netMarginPence - a.netMarginPence
+  );
+
+  const totals = rows.reduce(
+    (t, r) => {
+      t.orders += r.orders;
+      t.litres += r.litres;
+      t.revenuePence += r.revenuePence;
+      t.refineryCostPence += r.refineryCostPence;
+      t.platformFeePence += r.platformFeePence;
+      t.stripeFeePence += r.stripeFeePence;
+      t.refundedPence += r.refundedPence;
+      t.netMarginPence += r.netMarginPence;
+      t.missingStripeFee += r.missingStripeFee;
+      return t;
+    },
+    {
+      key: "total",
+      orders: 0,
+      litres: 0,
+      revenuePence: 0,
+      refineryCostPence: 0,
+      platformFeePence: 0,
+      stripeFeePence: 0,
+      refundedPence: 0,
+      netMarginPence: 0,
+      missingStripeFee: 0,
+    } as MarginReportRow
+  );
+
+  return res.status(200).json({ from, to, group, rows, totals });
+}
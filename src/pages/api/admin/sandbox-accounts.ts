@@ -0,0 +1,69 @@
+// src/pages/api/admin/sandbox-accounts.ts
+// Sandbox (demo / QA) accounts (public.sandbox_accounts) – see
+// lib/sandbox.ts for what a flagged account gets.
+//
+// GET                        all sandbox accounts
+// POST   { email, note? }    flag an account
+// DELETE ?email=             unflag
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { requireAdmin } from "@/lib/api-auth";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabaseAdmin
+        .from("sandbox_accounts")
+        .select("email,note,created_by,created_at")
+        .order("created_at", { ascending: true });
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ accounts: data || [] });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as { email?: string; note?: string | null };
+      const email = String(body.email || "").trim().toLowerCase();
+      if (!EMAIL_RE.test(email)) {
+        return res.status(400).json({ error: "A valid email is required" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("sandbox_accounts")
+        .upsert({
+          email,
+          note: body.note ? String(body.note).slice(0, 200) : null,
+          created_by: admin,
+        } as any)
+        .select("email,note,created_by,created_at")
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ account: data });
+    }
+
+    if (req.method === "DELETE") {
+      const email = String(req.query.email || "").toLowerCase();
+      if (!email) return res.status(400).json({ error: "Missing email" });
+
+      const { error } = await supabaseAdmin
+        .from("sandbox_accounts")
+        .delete()
+        .eq("email", email);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[admin/sandbox-accounts] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
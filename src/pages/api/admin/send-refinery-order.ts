@@ -7,27 +7,46 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { createClient } from "@supabase/supabase-js";
 import { Resend } from "resend";
 import { buildRefineryOrderPdf, RefineryOrderForPdf } from "@/lib/refinery-order-pdf";
+import { commissionForOrder } from "@/lib/commission";
+import { loadSiteById } from "@/lib/customer-sites";
+import {
+  canTransition,
+  recordOrderEvent,
+  transitionOrder,
+  type OrderState,
+} from "@/lib/order-lifecycle";
 
 type Fuel = "petrol" | "diesel";
 
 type OrderRow = {
   id: string;
+  created_at: string | null;
   user_email: string | null;
   fuel: Fuel | null;
   litres: number | null;
   unit_price_pence: number | null;
   total_pence: number | null;
+  commission_percent: number | null;
+  platform_fee_pence: number | null;
   delivery_date: string | null;
   name: string | null;
   address_line1: string | null;
   address_line2: string | null;
   city: string | null;
   postcode: string | null;
+  site_id: string | null;
+  site_name: string | null;
+  tank_name: string | null;
   status: string | null;
+  state: string | null;
   refinery_notification_status: string | null;
+  refinery_notified_at: string | null;
   refinery_invoice_storage_path: string | null;
 };
 
+const ORDER_COLUMNS =
+  "id,created_at,user_email,fuel,litres,unit_price_pence,total_pence,commission_percent,platform_fee_pence,delivery_date,name,address_line1,address_line2,city,postcode,site_id,site_name,tank_name,status,state,refinery_notification_status,refinery_notified_at,refinery_invoice_storage_path";
+
 type Body = {
   orderId?: string;
   adminEmail?: string;
@@ -55,16 +74,6 @@ function sbAdmin() {
 
 /* ---------- Helpers ---------- */
 
-function getCommissionPercent(fuel: Fuel | null): number {
-  if (fuel === "petrol") {
-    return Number(process.env.PETROL_COMMISSION_PERCENT || "0");
-  }
-  if (fuel === "diesel") {
-    return Number(process.env.DIESEL_COMMISSION_PERCENT || "0");
-  }
-  return 0;
-}
-
 const gbp = new Intl.NumberFormat("en-GB", {
   style: "currency",
   currency: "GBP",
@@ -82,6 +91,15 @@ function fmtDate(dateIso: string | null) {
   return d.toLocaleDateString("en-GB");
 }
 
+// site fields are typed by customers
+function esc(v: string) {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 /**
  * Simple refinery reference – just for their paperwork.
  * REF-YYYYMMDD-<last 6 of order id>
@@ -108,7 +126,11 @@ function renderRefineryOrderHtml(props: {
   customerName: string | null;
   customerEmail: string | null;
   addressLines: string;
+  siteName: string | null;
+  accessNotes: string | null;
+  siteContact: string | null;
   totalForRefineryGbp: number | null;
+  onAccount: boolean;
 }) {
   const {
     product,
@@ -119,7 +141,11 @@ function renderRefineryOrderHtml(props: {
     customerName,
     customerEmail,
     addressLines,
+    siteName,
+    accessNotes,
+    siteContact,
     totalForRefineryGbp,
+    onAccount,
   } = props;
 
   const deliveryDateStr = fmtDate(deliveryDate);
@@ -128,6 +154,15 @@ function renderRefineryOrderHtml(props: {
     customerEmail ? ` (${customerEmail})` : ""
   }`;
 
+  const siteField = (label: string, value: string | null) =>
+    value
+      ? `
+            <div class="field-row">
+              <div class="field-label">${label}</div>
+              <div class="field-value">${esc(value).replace(/\n/g, "<br />")}</div>
+            </div>`
+      : "";
+
   return `
   <!doctype html>
   <html>
@@ -299,6 +334,7 @@ function renderRefineryOrderHtml(props: {
               <div class="field-label">Delivery address</div>
               <div class="field-value">${addressLines || "—"}</div>
             </div>
+${siteField("Site", siteName)}${siteField("Site contact", siteContact)}${siteField("Access notes", accessNotes)}
 
             <div class="field-row">
               <div class="field-label">Total payable to refinery</div>
@@ -306,7 +342,11 @@ function renderRefineryOrderHtml(props: {
             </div>
 
             <div class="footer-note">
-              This order has already been <strong>paid in full by the customer via FuelFlow</strong>.
+              ${
+                onAccount
+                  ? "This order is on the customer's <strong>FuelFlow credit account</strong> – FuelFlow collects payment from the customer."
+                  : "This order has already been <strong>paid in full by the customer via FuelFlow</strong>."
+              }
               Please arrange delivery and invoice FuelFlow for the
               <strong>"Total payable to refinery"</strong> amount only.
             </div>
@@ -388,9 +428,7 @@ export default async function handler(
     // 2) Load order
     const { data: order, error: orderError } = await supabase
       .from("orders")
-      .select(
-        "id,user_email,fuel,litres,unit_price_pence,total_pence,delivery_date,name,address_line1,address_line2,city,postcode,status,refinery_notification_status,refinery_invoice_storage_path"
-      )
+      .select(ORDER_COLUMNS)
       .eq("id", orderId)
       .maybeSingle();
 
@@ -407,12 +445,25 @@ export default async function handler(
         .json({ ok: false, error: "Order not found" });
     }
 
-    const o = order as unknown as OrderRow;
+    let o = order as unknown as OrderRow;
 
-    if (o.status !== "paid") {
+    // on-account orders are dispatched before they are paid; a partial
+    // refund means the customer took litres off (lib/order-changes)
+    if (
+      o.status !== "paid" &&
+      o.status !== "approved_on_account" &&
+      o.status !== "partially_refunded"
+    ) {
       return res.status(400).json({
         ok: false,
-        error: `Order is not paid (current status: ${o.status || "unknown"})`,
+        error: `Order is not paid or on account (current status: ${o.status || "unknown"})`,
+      });
+    }
+
+    if (o.state && !canTransition(o.state as OrderState, "sent_to_refinery")) {
+      return res.status(400).json({
+        ok: false,
+        error: `Order can't go to the refinery (currently ${o.state})`,
       });
     }
 
@@ -422,120 +473,186 @@ export default async function handler(
         .json({ ok: false, error: "Order already marked as sent to refinery" });
     }
 
-    // 3) Money calculations (no commission exposed)
-    const totalPence = o.total_pence ?? null;
-    const unitPence = o.unit_price_pence ?? null;
-
-    const totalCustomerGbp =
-      totalPence != null ? Math.round(totalPence) / 100 : null;
-    const unitPriceGbp =
-      unitPence != null ? Math.round(unitPence) / 100 : null;
-
-    let totalForRefineryGbp: number | null = null;
-    if (totalPence != null) {
-      const pct = getCommissionPercent(o.fuel);
-      const commissionPence = Math.round(totalPence * (pct / 100));
-      const refineryPence = totalPence - commissionPence;
-      totalForRefineryGbp = refineryPence / 100;
-    }
-
-    const addressLines = [
-      o.address_line1,
-      o.address_line2,
-      o.city,
-      o.postcode,
-    ]
-      .filter(Boolean)
-      .join(", ");
-
-    // 4) Build HTML email (no unit price, no customer-total)
-    const refineryRef = makeRefineryRef(o.id);
-
-    const html = renderRefineryOrderHtml({
-      product: o.fuel,
-      litres: o.litres,
-      deliveryDate: o.delivery_date,
+    // 3) Claim the order before anything goes out – a customer cancel /
+    //    amend (lib/order-changes) only applies while it is still "paid"
+    const actor = adminEmail.toLowerCase();
+    const claimed = await transitionOrder({
       orderId: o.id,
-      refineryRef,
-      customerName: o.name,
-      customerEmail: o.user_email,
-      addressLines,
-      totalForRefineryGbp,
-    });
-
-    // 5) Build refinery PDF using dedicated helper
-    const litresQty = o.litres ?? 0;
-    const unitPriceForCustomer =
-      litresQty && totalCustomerGbp != null
-        ? totalCustomerGbp / litresQty
-        : unitPriceGbp ?? 0;
-
-const refineryPdfInput: RefineryOrderForPdf = {
-  orderId: o.id,
-  refineryRef,
-  customerName: o.name,
-  customerEmail: o.user_email,
-    deliveryAddress: addressLines,      // ✅ use the correct key from RefineryOrderForPdf
-  deliveryDate: o.delivery_date,
-  product: o.fuel || "Fuel",
-  litres: litresQty,
-  unitPriceCustomerGbp: unitPriceForCustomer ?? 0,
-  totalForRefineryGbp: totalForRefineryGbp ?? 0,
-};
-
-
-    const { pdfBuffer, filename: pdfFilename } =
-      await buildRefineryOrderPdf(refineryPdfInput);
-
-    // 6) Send email via Resend with PDF attached
-    const subject = `FuelFlow order ${o.id} – ${o.fuel || "Fuel"} ${
-      o.litres ?? ""
-    }L`;
-
-    const emailResult = await resend.emails.send({
-      from:
-        process.env.REFINERY_FROM_EMAIL ||
-        `FuelFlow <orders@mail.fuelflow.co.uk>`,
-      to: [refineryTo],
-      subject,
-      html,
-      attachments: [
-        {
-          filename: pdfFilename || `refinery-order-${o.id}.pdf`,
-          content: pdfBuffer.toString("base64"),
-        },
-      ],
+      to: "sent_to_refinery",
+      actor,
+      reason: "Order emailed to the refinery",
+      fields: {
+        refinery_notification_status: "sent",
+        refinery_notified_at: new Date().toISOString(),
+      },
     });
-
-    if ((emailResult as any).error) {
-      console.error(
-        "[send-refinery-order] Resend error:",
-        (emailResult as any).error
-      );
-      return res
-        .status(500)
-        .json({ ok: false, error: "Failed to send refinery email" });
+    if (!claimed.ok || !claimed.changed) {
+      return res.status(409).json({
+        ok: false,
+        error: claimed.ok
+          ? "Order already marked as sent to refinery"
+          : `Order can't go to the refinery (${claimed.error})`,
+      });
     }
 
-    // 7) Mark order as sent
-    const { error: updateError } = await supabase
+    // the email describes the order as claimed, not as first read
+    const before = o;
+    const { data: fresh } = await supabase
       .from("orders")
-      .update({
-        refinery_notification_status: "sent",
-        refinery_notified_at: new Date().toISOString(),
-      } as any)
-      .eq("id", o.id);
-
-    if (updateError) {
-      console.error(
-        "[send-refinery-order] failed to update order status:",
-        updateError
-      );
-      return res.status(500).json({
-        ok: false,
-        error:
-          "Refinery email sent but failed to update order status in database",
+      .select(ORDER_COLUMNS)
+      .eq("id", o.id)
+      .maybeSingle();
+    if (fresh) o = fresh as unknown as OrderRow;
+
+    // nothing went out – back to "paid" so it can be sent again
+    const releaseClaim = async (error: string) => {
+      const { data: back } = await supabase
+        .from("orders")
+        .update({
+          state: "paid",
+          state_changed_at: new Date().toISOString(),
+          fulfilment_status: "pending",
+          refinery_notification_status: before.refinery_notification_status,
+          refinery_notified_at: before.refinery_notified_at,
+        } as any)
+        .eq("id", o.id)
+        .eq("state", "sent_to_refinery")
+        .select("id")
+        .maybeSingle();
+      if (back) {
+        await recordOrderEvent({
+          orderId: o.id,
+          event: "transition",
+          fromState: "sent_to_refinery",
+          toState: "paid",
+          actor,
+          reason: `Refinery email failed: ${error}`,
+        });
+      }
+    };
+
+    try {
+      // 4) Money calculations (no commission exposed)
+      const totalPence = o.total_pence ?? null;
+      const unitPence = o.unit_price_pence ?? null;
+
+      const totalCustomerGbp =
+        totalPence != null ? Math.round(totalPence) / 100 : null;
+      const unitPriceGbp =
+        unitPence != null ? Math.round(unitPence) / 100 : null;
+
+      let totalForRefineryGbp: number | null = null;
+      if (totalPence != null) {
+        // rate snapshotted at checkout (older orders: rate valid on their date)
+        const { feePence } = await commissionForOrder(o);
+        const refineryPence = totalPence - feePence;
+        totalForRefineryGbp = refineryPence / 100;
+      }
+
+      const addressLines = [
+        o.address_line1,
+        o.address_line2,
+        o.city,
+        o.postcode,
+      ]
+        .filter(Boolean)
+        .join(", ");
+
+      // delivery site: access notes + on-site contact for the driver
+      const site = o.site_id ? await loadSiteById(o.site_id) : null;
+      const siteName =
+        [site?.name || o.site_name, o.tank_name].filter(Boolean).join(" · ") ||
+        null;
+      const accessNotes = site?.accessNotes || null;
+      const siteContact = site
+        ? [site.contactName, site.contactPhone, site.contactEmail]
+            .filter(Boolean)
+            .join(" · ") || null
+        : null;
+
+      // 5) Build HTML email (no unit price, no customer-total)
+      const refineryRef = makeRefineryRef(o.id);
+      // on account: dispatched before the customer has paid
+      const onAccount = o.status === "approved_on_account";
+
+      const html = renderRefineryOrderHtml({
+        product: o.fuel,
+        litres: o.litres,
+        deliveryDate: o.delivery_date,
+        orderId: o.id,
+        refineryRef,
+        customerName: o.name,
+        customerEmail: o.user_email,
+        addressLines,
+        siteName,
+        accessNotes,
+        siteContact,
+        totalForRefineryGbp,
+        onAccount,
+      });
+
+      // 6) Build refinery PDF using dedicated helper
+      const litresQty = o.litres ?? 0;
+      const unitPriceForCustomer =
+        litresQty && totalCustomerGbp != null
+          ? totalCustomerGbp / litresQty
+          : unitPriceGbp ?? 0;
+
+      const refineryPdfInput: RefineryOrderForPdf = {
+        orderId: o.id,
+        refineryRef,
+        customerName: o.name,
+        customerEmail: o.user_email,
+        deliveryAddress: addressLines,
+        siteName,
+        accessNotes,
+        siteContact,
+        deliveryDate: o.delivery_date,
+        product: o.fuel || "Fuel",
+        litres: litresQty,
+        unitPriceCustomerGbp: unitPriceForCustomer ?? 0,
+        totalForRefineryGbp: totalForRefineryGbp ?? 0,
+        onAccount,
+      };
+
+      const { pdfBuffer, filename: pdfFilename } =
+        await buildRefineryOrderPdf(refineryPdfInput);
+
+      // 7) Send email via Resend with PDF attached
+      const subject = `FuelFlow order ${o.id} – ${o.fuel || "Fuel"} ${
+        o.litres ?? ""
+      }L`;
+
+      const emailResult = await resend.emails.send({
+        from:
+          process.env.REFINERY_FROM_EMAIL ||
+          `FuelFlow <orders@mail.fuelflow.co.uk>`,
+        to: [refineryTo],
+        subject,
+        html,
+        attachments: [
+          {
+            filename: pdfFilename || `refinery-order-${o.id}.pdf`,
+            content: pdfBuffer.toString("base64"),
+          },
+        ],
       });
+
+      if ((emailResult as any).error) {
+        console.error(
+          "[send-refinery-order] Resend error:",
+          (emailResult as any).error
+        );
+        await releaseClaim(
+          (emailResult as any).error?.message || "Resend error"
+        );
+        return res
+          .status(500)
+          .json({ ok: false, error: "Failed to send refinery email" });
+      }
+    } catch (err: any) {
+      await releaseClaim(err?.message || "Server error");
+      throw err;
     }
 
     return res.status(200).json({ ok: true });
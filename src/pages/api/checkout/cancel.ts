@@ -0,0 +1,66 @@
+// src/pages/api/checkout/cancel.ts
+// Called by /checkout/cancel when the customer backs out of Stripe
+// Checkout: expires the session and frees the held delivery slot straight
+// away instead of waiting for the session to time out.
+//
+// POST { orderId, sessionId } – the session id (from Stripe's cancel_url)
+// proves the caller came from that checkout.
+import type { NextApiRequest, NextApiResponse } from "next";
+import Stripe from "stripe";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { releaseDeliveryBooking } from "@/lib/delivery-capacity";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
+  apiVersion: "2024-06-20",
+});
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { orderId, sessionId } = (req.body || {}) as {
+    orderId?: string;
+    sessionId?: string;
+  };
+  if (!orderId || !sessionId) {
+    return res.status(400).json({ error: "Missing orderId or sessionId" });
+  }
+
+  try {
+    const { data: order } = await supabaseAdmin
+      .from("orders")
+      .select("id,status,stripe_session_id")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (!order || (order as any).stripe_session_id !== sessionId) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if ((order as any).status !== "pending") {
+      // already paid (or handled) – nothing to release
+      return res.status(200).json({ ok: true, released: false });
+    }
+
+    try {
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      if (session.status === "open") {
+        await stripe.checkout.sessions.expire(sessionId);
+      } else if (session.status === "complete") {
+        return res.status(200).json({ ok: true, released: false });
+      }
+    } catch (e) {
+      console.error("[checkout/cancel] session expire failed:", e);
+    }
+
+    await releaseDeliveryBooking({ orderId, reason: "checkout_cancelled" });
+    return res.status(200).json({ ok: true, released: true });
+  } catch (e: any) {
+    console.error("[checkout/cancel] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
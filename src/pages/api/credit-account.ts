@@ -0,0 +1,39 @@
+// src/pages/api/credit-account.ts
+// My credit account (Authorization: Bearer <jwt>).
+//   GET -> { account: CreditAccount | null, orders }
+//          orders = my on-account orders that are still to be paid
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { loadCreditAccount } from "@/lib/credit-accounts";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    const account = await loadCreditAccount(email);
+    if (!account) return res.status(200).json({ account: null, orders: [] });
+
+    const { data: orders, error } = await supabaseAdmin
+      .from("orders")
+      .select("id,total_pence,fuel,litres,delivery_date,payment_due_date,created_at")
+      .eq("credit_account_id", account.id)
+      .eq("status", "approved_on_account")
+      .order("payment_due_date", { ascending: true });
+    if (error) return res.status(500).json({ error: error.message });
+
+    return res.status(200).json({ account, orders: orders || [] });
+  } catch (e: any) {
+    console.error("[credit-account] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
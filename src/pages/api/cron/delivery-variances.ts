@@ -0,0 +1,29 @@
+// src/pages/api/cron/delivery-variances.ts
+// Daily retry of failed delivery variances (vercel.json cron).
+// Vercel sends GET with "Authorization: Bearer <CRON_SECRET>".
+import type { NextApiRequest, NextApiResponse } from "next";
+import { retryFailedVariances } from "@/lib/delivery-variance";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return res.status(500).json({ error: "CRON_SECRET not set" });
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: "Invalid secret" });
+  }
+
+  try {
+    const result = await retryFailedVariances();
+    return res.status(200).json({ ok: true, ...result });
+  } catch (e: any) {
+    console.error("[delivery-variances] cron error:", e);
+    return res.status(500).json({ ok: false, error: e?.message || "cron_failed" });
+  }
+}
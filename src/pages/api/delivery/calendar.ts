@@ -0,0 +1,58 @@
+// src/pages/api/delivery/calendar.ts
+// Delivery calendar for a postcode, used by the order page to pick and
+// validate dates with the same rules checkout enforces, plus remaining
+// capacity per day for the postcode's region.
+//
+// GET ?postcode=CM8%206ED
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import {
+  closedDaysBetween,
+  earliestDeliveryDate,
+  latestDeliveryDate,
+  loadDeliveryCalendar,
+} from "@/lib/delivery-calendar";
+import { loadRemainingCapacity } from "@/lib/delivery-capacity";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const postcode = String(req.query.postcode || "").trim() || null;
+    const calendar = await loadDeliveryCalendar(supabaseAdmin, postcode);
+
+    // only this region's blackouts go to the browser
+    calendar.blackouts = calendar.blackouts.filter(
+      (b) => !b.region || b.region === calendar.region
+    );
+
+    const earliest = earliestDeliveryDate(calendar);
+    const latest = latestDeliveryDate(calendar);
+
+    // remaining tanker capacity so the order page can grey out full days
+    if (calendar.region) {
+      calendar.capacity = await loadRemainingCapacity(
+        calendar.region,
+        earliest,
+        latest
+      );
+    }
+
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).json({
+      calendar,
+      earliest,
+      latest,
+      closedDays: closedDaysBetween(calendar, earliest, latest),
+    });
+  } catch (e: any) {
+    console.error("[delivery/calendar] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
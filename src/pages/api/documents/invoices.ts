@@ -0,0 +1,102 @@
+// src/pages/api/documents/invoices.ts
+// The signed-in customer's invoice PDFs (Authorization: Bearer <jwt>),
+// stored as invoices/<email>/<yyyy>/<mm>/<number>.pdf.
+//   GET            -> { files: [{ name, path, size, created_at, year, month }] }
+//   GET ?path=     -> the PDF itself
+// Sandbox accounts get fixture invoices (lib/sandbox.ts).
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import {
+  isSandboxEmail,
+  sandboxInvoiceFiles,
+  sandboxInvoicePdf,
+  type SandboxInvoiceFile,
+} from "@/lib/sandbox";
+
+const BUCKET = "invoices";
+
+type InvoiceFile = SandboxInvoiceFile;
+
+async function listInvoices(root: string): Promise<InvoiceFile[]> {
+  const bucket = supabaseAdmin.storage.from(BUCKET);
+  const out: InvoiceFile[] = [];
+
+  const years = await bucket.list(root, { limit: 100 });
+  if (years.error) throw years.error;
+
+  for (const y of years.data || []) {
+    if (!/^\d{4}$/.test(y.name)) continue;
+    const months = await bucket.list(`${root}/${y.name}`, { limit: 100 });
+    if (months.error) throw months.error;
+
+    for (const m of months.data || []) {
+      if (!/^(0[1-9]|1[0-2])$/.test(m.name)) continue;
+      const files = await bucket.list(`${root}/${y.name}/${m.name}`, {
+        limit: 1000,
+        sortBy: { column: "name", order: "desc" },
+      });
+      if (files.error) throw files.error;
+
+      for (const f of files.data || []) {
+        if (!f.name.toLowerCase().endsWith(".pdf")) continue;
+        out.push({
+          name: f.name,
+          path: `${root}/${y.name}/${m.name}/${f.name}`,
+          size: (f as any).metadata?.size ?? null,
+          created_at: f.created_at ?? "",
+          year: y.name,
+          month: m.name,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    const sandbox = await isSandboxEmail(email);
+    const path = typeof req.query.path === "string" ? req.query.path : "";
+
+    if (!path) {
+      const files = sandbox ? sandboxInvoiceFiles(email) : await listInvoices(email);
+      return res.status(200).json({ files, ...(sandbox ? { sandbox: true } : {}) });
+    }
+
+    // only the caller's own folder
+    if (!path.startsWith(`${email}/`) || path.includes("..")) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+
+    let pdf: Buffer | null;
+    if (sandbox) {
+      pdf = await sandboxInvoicePdf(email, path);
+    } else {
+      const { data, error } = await supabaseAdmin.storage.from(BUCKET).download(path);
+      pdf = error || !data ? null : Buffer.from(await data.arrayBuffer());
+    }
+    if (!pdf) return res.status(404).json({ error: "Invoice not found" });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename="${path.split("/").pop()}"`
+    );
+    return res.status(200).send(pdf);
+  } catch (e: any) {
+    console.error("[documents] invoices error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -38,6 +38,16 @@ type ApiPayload = {
     orderId?: string;
     notes?: string;
     dateISO?: string;
+    /** on-account orders: payment due date (invoice only, no receipt) */
+    dueDateISO?: string;
+    priceBand?: string;
+    priceBandSaving?: number;
+    /** credit note for a cancelled / reduced order (lib/order-changes.ts) */
+    creditNote?: boolean;
+    /** replaces the order's earlier invoice after an amendment */
+    revised?: boolean;
+    /** extra invoice next to the order's own, e.g. over-delivered litres */
+    supplementary?: boolean;
     // you can add paymentMethod here later if you want it on the receipt
   };
 };
@@ -128,7 +138,13 @@ export default async function handler(
       orderId: payload.meta?.orderId,
       notes: payload.meta?.notes,
       dateISO: payload.meta?.dateISO,
+      dueDateISO: payload.meta?.dueDateISO,
+      priceBand: payload.meta?.priceBand,
+      priceBandSaving: payload.meta?.priceBandSaving,
+      creditNote: payload.meta?.creditNote === true,
     };
+    const revised = payload.meta?.revised === true;
+    const supplementary = !revised && payload.meta?.supplementary === true;
 
     const c = payload.customer;
     let address_line1 = c.address_line1 ?? null;
@@ -163,42 +179,62 @@ export default async function handler(
     });
 
     const invNo = meta.invoiceNumber;
-    const subject = `${
-      process.env.COMPANY_NAME || "FuelFlow"
-    } — Invoice ${invNo}`;
+    const subject = `${process.env.COMPANY_NAME || "FuelFlow"} — ${
+      meta.creditNote
+        ? "Credit note"
+        : revised
+        ? "Revised invoice"
+        : supplementary
+        ? "Supplementary invoice"
+        : "Invoice"
+    } ${invNo}`;
+    // On-account invoices aren't paid yet – no receipt, say when it's due
+    const onAccount = !!meta.dueDateISO;
+    const dueLine = onAccount
+      ? ` Payment is due by ${new Date(meta.dueDateISO as string).toLocaleDateString("en-GB")}.`
+      : "";
+    const intro = meta.creditNote
+      ? `Your credit note ${invNo} is attached.`
+      : supplementary
+      ? `We delivered more than you ordered. Your invoice ${invNo} for the extra fuel is attached.${dueLine}`
+      : revised
+      ? `Your order has been changed. Your revised invoice ${invNo} is attached and replaces the earlier one.${dueLine}`
+      : `Thank you for your order. Your invoice ${invNo} is attached.${dueLine}`;
     const text = `Hi ${c.name || "there"},
 
-Thank you for your order. Your invoice ${invNo} is attached.
+${intro}
 
 Kind regards,
 ${process.env.COMPANY_NAME || "FuelFlow"}`;
 
     // ---------- Build Receipt PDF (NEW) ----------
-    const {
-      pdfBuffer: receiptBuffer,
-      filename: receiptFilename,
-    } = await buildReceiptPdf({
-      customer: {
-        name: c.name ?? null,
-        email: c.email,
-        address_line1,
-        address_line2,
-        city: c.city ?? null,
-        postcode: c.postcode ?? null,
-      },
-      items: normItems.map(({ description, quantity, unitPrice }) => ({
-        description,
-        quantity,
-        unitPrice,
-      })),
-      currency: (payload.currency || "GBP").toUpperCase(),
-      meta: {
-        invoiceNumber: meta.invoiceNumber,
-        orderId: meta.orderId,
-        notes: meta.notes,
-        dateISO: meta.dateISO,
-      },
-    });
+    // (credit notes / revised / supplementary invoices: the original
+    // receipt stands, Stripe emails its own for extra charges)
+    const receipt =
+      onAccount || meta.creditNote || revised || supplementary
+        ? null
+        : await buildReceiptPdf({
+            customer: {
+              name: c.name ?? null,
+              email: c.email,
+              address_line1,
+              address_line2,
+              city: c.city ?? null,
+              postcode: c.postcode ?? null,
+            },
+            items: normItems.map(({ description, quantity, unitPrice }) => ({
+              description,
+              quantity,
+              unitPrice,
+            })),
+            currency: (payload.currency || "GBP").toUpperCase(),
+            meta: {
+              invoiceNumber: meta.invoiceNumber,
+              orderId: meta.orderId,
+              notes: meta.notes,
+              dateISO: meta.dateISO,
+            },
+          });
 
     // ---------- Send email with BOTH attachments ----------
     const mailId = await sendMail({
@@ -212,11 +248,15 @@ ${process.env.COMPANY_NAME || "FuelFlow"}`;
           content: invoiceBuffer,
           contentType: "application/pdf",
         },
-        {
-          filename: receiptFilename || `${invNo}-receipt.pdf`,
-          content: receiptBuffer,
-          contentType: "application/pdf",
-        },
+        ...(receipt
+          ? [
+              {
+                filename: receipt.filename || `${invNo}-receipt.pdf`,
+                content: receipt.pdfBuffer,
+                contentType: "application/pdf",
+              },
+            ]
+          : []),
       ],
     });
 
@@ -237,19 +277,21 @@ ${process.env.COMPANY_NAME || "FuelFlow"}`;
       invoiceStoragePath = savedInvoice.path;
 
       // Receipt – reuse same helper, just tweak "invoiceNumber" so filename differs
-      const savedReceipt = await saveInvoicePdfToStorage({
-        email: c.email,
-        invoiceNumber: `${invNo}-receipt`,
-        pdfBuffer: receiptBuffer,
-        issuedAt: isNaN(issued.getTime()) ? new Date() : issued,
-      });
-      receiptStoragePath = savedReceipt.path;
+      if (receipt) {
+        const savedReceipt = await saveInvoicePdfToStorage({
+          email: c.email,
+          invoiceNumber: `${invNo}-receipt`,
+          pdfBuffer: receipt.pdfBuffer,
+          issuedAt: isNaN(issued.getTime()) ? new Date() : issued,
+        });
+        receiptStoragePath = savedReceipt.path;
+      }
     } catch (e: any) {
       console.error("Failed to save PDFs to storage:", e?.message || e);
     }
 
     // ---------- Update payments table with receipt info (NEW) ----------
-    if (meta.orderId) {
+    if (meta.orderId && receipt) {
       try {
         await sbAdmin
           .from("payments")
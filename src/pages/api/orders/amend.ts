@@ -0,0 +1,104 @@
+// src/pages/api/orders/amend.ts
+// Change the litres and / or delivery date of one of my orders before it
+// goes to the refinery (Authorization: Bearer <jwt>).
+//   GET  ?orderId=&litres=
+//     <- { blocked, unitPricePence, volumeTier, totalPence, differencePence,
+//        changes } – price on the order's own day price with the volume
+//        band for the new litres, and the order's change history
+//   POST { orderId, litres?, deliveryDate?, reason? }
+//     -> less: partial refund; more: top-up charged to the card / mandate
+//        the order was paid with. A revised invoice is emailed once paid.
+//     <- { change, awaitingPayment } (awaitingPayment: BACS top-up clearing)
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { isSandboxEmail } from "@/lib/sandbox";
+import {
+  amendOrder,
+  changeBlockedReason,
+  loadOrderChanges,
+  repriceOrder,
+} from "@/lib/order-changes";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  const body = (req.body || {}) as {
+    orderId?: string;
+    litres?: number | string | null;
+    deliveryDate?: string | null;
+    reason?: string | null;
+  };
+  const orderId = String(
+    (req.method === "GET" ? req.query.orderId : body.orderId) || ""
+  ).trim();
+  if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+
+  try {
+    if (await isSandboxEmail(email)) {
+      return res
+        .status(400)
+        .json({ error: "Orders can't be changed on sandbox accounts" });
+    }
+
+    const { data: order, error } = await supabaseAdmin
+      .from("orders")
+      .select(
+        "id,fuel,litres,total_pence,unit_price_pence,base_unit_price_pence,delivery_surcharge_pence,volume_tier_id,volume_tier_name,volume_discount_pence,price_agreement_id,state,status,refinery_notification_status"
+      )
+      .eq("id", orderId)
+      .eq("user_email", email)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!order) return res.status(404).json({ error: "Order not found" });
+
+    if (req.method === "GET") {
+      const litres = req.query.litres
+        ? Math.round(Number(req.query.litres))
+        : Number(order.litres) || 0;
+      if (!Number.isFinite(litres) || litres <= 0) {
+        return res.status(400).json({ error: "Invalid litres" });
+      }
+      const priced = await repriceOrder(order as any, litres);
+      return res.status(200).json({
+        blocked: changeBlockedReason(order as any),
+        unitPricePence: priced.unitPricePence,
+        volumeTier: priced.tier?.name ?? null,
+        totalPence: priced.totalPence,
+        differencePence: priced.totalPence - (Number(order.total_pence) || 0),
+        changes: await loadOrderChanges(orderId),
+      });
+    }
+
+    const litres =
+      body.litres != null && body.litres !== "" ? Number(body.litres) : null;
+    if (litres != null && !Number.isFinite(litres)) {
+      return res.status(400).json({ error: "Invalid litres" });
+    }
+
+    const result = await amendOrder({
+      orderId,
+      actor: email,
+      litres,
+      deliveryDate: body.deliveryDate || null,
+      reason: body.reason ? String(body.reason).slice(0, 500) : null,
+    });
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res.status(200).json({
+      change: result.change,
+      awaitingPayment: !!result.awaitingPayment,
+    });
+  } catch (e: any) {
+    console.error("[orders/amend] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
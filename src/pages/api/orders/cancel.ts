@@ -0,0 +1,59 @@
+// src/pages/api/orders/cancel.ts
+// Cancel one of my orders before it goes to the refinery
+// (Authorization: Bearer <jwt>).
+//   POST { orderId, reason? }
+//     -> full refund through Stripe (on-account orders drop off the
+//        balance), the delivery slot is released and a credit note emailed
+//     <- { change }
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { isSandboxEmail } from "@/lib/sandbox";
+import { cancelOrder } from "@/lib/order-changes";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  const { orderId, reason } = (req.body || {}) as {
+    orderId?: string;
+    reason?: string | null;
+  };
+  if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+
+  try {
+    if (await isSandboxEmail(email)) {
+      return res
+        .status(400)
+        .json({ error: "Orders can't be cancelled on sandbox accounts" });
+    }
+
+    const { data: order, error } = await supabaseAdmin
+      .from("orders")
+      .select("id")
+      .eq("id", orderId)
+      .eq("user_email", email)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!order) return res.status(404).json({ error: "Order not found" });
+
+    const result = await cancelOrder({
+      orderId,
+      actor: email,
+      reason: reason ? String(reason).slice(0, 500) : null,
+    });
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res.status(200).json({ change: result.change });
+  } catch (e: any) {
+    console.error("[orders/cancel] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
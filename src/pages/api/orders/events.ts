@@ -0,0 +1,63 @@
+// src/pages/api/orders/events.ts
+// An order's lifecycle history (Authorization: Bearer <jwt>).
+//   GET ?orderId= -> { state, events } (oldest first)
+// Customers see their own orders, with staff / system actors shown as
+// "FuelFlow" and no internal metadata; admins see any order in full.
+// Sandbox accounts get a fixture history (lib/sandbox.ts).
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail, isAdminEmail } from "@/lib/api-auth";
+import { loadOrderEvents } from "@/lib/order-lifecycle";
+import { isSandboxEmail, sandboxOrderEvents } from "@/lib/sandbox";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  const orderId = String(req.query.orderId || "").trim();
+  if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+
+  try {
+    if (await isSandboxEmail(email)) {
+      const events = sandboxOrderEvents(email, orderId);
+      if (!events) return res.status(404).json({ error: "Order not found" });
+      return res.status(200).json({ state: "delivered", events, sandbox: true });
+    }
+
+    const { data: order, error } = await supabaseAdmin
+      .from("orders")
+      .select("id,user_email,state")
+      .eq("id", orderId)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+
+    const admin = await isAdminEmail(email);
+    const own = (order?.user_email || "").toLowerCase() === email;
+    if (!order || (!own && !admin)) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const events = await loadOrderEvents(orderId);
+    return res.status(200).json({
+      state: order.state,
+      events: admin
+        ? events
+        : events.map((e) => ({
+            ...e,
+            actor: e.actor === email ? email : "FuelFlow",
+            meta: null,
+          })),
+    });
+  } catch (e: any) {
+    console.error("[orders/events] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,56 @@
+// src/pages/api/orders/index.ts
+// The signed-in customer's orders (Authorization: Bearer <jwt>).
+//   GET -> { orders, payments } (newest first, last 200)
+// Sandbox accounts get fixture orders (lib/sandbox.ts).
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { isSandboxEmail, sandboxOrders, sandboxPayments } from "@/lib/sandbox";
+
+const ORDER_COLUMNS =
+  "id, created_at, user_email, fuel, litres, unit_price_pence, total_pence, status, state, delivery_date, refinery_notification_status, delivered_litres, fulfilment_status, fulfilment_notes";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    if (await isSandboxEmail(email)) {
+      return res.status(200).json({
+        orders: sandboxOrders(email),
+        payments: sandboxPayments(email),
+        sandbox: true,
+      });
+    }
+
+    const { data: orders, error } = await supabaseAdmin
+      .from("orders")
+      .select(ORDER_COLUMNS)
+      .eq("user_email", email)
+      .order("created_at", { ascending: false })
+      .limit(200);
+    if (error) return res.status(500).json({ error: error.message });
+
+    const ids = (orders || []).map((o: any) => o.id).filter(Boolean);
+    const { data: payments, error: payErr } = ids.length
+      ? await supabaseAdmin
+          .from("payments")
+          .select("order_id, amount, currency, status")
+          .in("order_id", ids)
+      : { data: [], error: null };
+    if (payErr) return res.status(500).json({ error: payErr.message });
+
+    return res.status(200).json({ orders: orders || [], payments: payments || [] });
+  } catch (e: any) {
+    console.error("[orders] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,65 @@
+// src/pages/api/orders/pod.ts
+// An order's proof of delivery (Authorization: Bearer <jwt>).
+//   GET ?orderId= -> { delivery, variance, podUrl, signatureUrl, photoUrl }
+//                    (delivery null until the driver has recorded it;
+//                    links are signed for 10 minutes; variance: what
+//                    happened to any difference from the ordered litres)
+// Customers see their own orders (who recorded it shown as "FuelFlow"),
+// admins any order.
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail, isAdminEmail } from "@/lib/api-auth";
+import { loadProofOfDelivery, podSignedUrls } from "@/lib/proof-of-delivery";
+import { loadOrderVariance } from "@/lib/delivery-variance";
+import { isSandboxEmail } from "@/lib/sandbox";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  const orderId = String(req.query.orderId || "").trim();
+  if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+
+  try {
+    // sandbox orders have no files behind them
+    if (await isSandboxEmail(email)) {
+      return res.status(200).json({ delivery: null, sandbox: true });
+    }
+
+    const { data: order, error } = await supabaseAdmin
+      .from("orders")
+      .select("id,user_email")
+      .eq("id", orderId)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+
+    const admin = await isAdminEmail(email);
+    const own = (order?.user_email || "").toLowerCase() === email;
+    if (!order || (!own && !admin)) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const delivery = await loadProofOfDelivery(orderId);
+    if (!delivery) return res.status(200).json({ delivery: null });
+    const variance = await loadOrderVariance(orderId);
+    return res.status(200).json({
+      delivery: admin ? delivery : { ...delivery, recordedBy: "FuelFlow" },
+      variance:
+        admin || !variance
+          ? variance
+          : { ...variance, decidedBy: null, error: null, xeroDocumentNumber: null },
+      ...(await podSignedUrls(delivery)),
+    });
+  } catch (e: any) {
+    console.error("[orders/pod] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,176 @@
+// src/pages/api/orders/reorder.ts
+// One-click reorder (Authorization: Bearer <jwt>).
+//   POST { orderId, requestId, paymentMethodId?, deliveryDate? }
+//     -> repeats one of my paid / on-account orders (same fuel, litres,
+//        address / site / tank) at today's price, charged to a saved card
+//        or BACS mandate (the default one unless paymentMethodId is
+//        given). The delivery date defaults to the earliest bookable day.
+//        requestId is a nonce per click: a retry with the same one
+//        returns the order it already placed instead of charging again.
+//     <- { orderId, deliveryDate, totalPence, paymentStatus }
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { SETTLED_ORDER_STATUSES } from "@/lib/order-states";
+import { isSandboxEmail } from "@/lib/sandbox";
+import { loadSiteForCustomer } from "@/lib/customer-sites";
+import { loadTanks } from "@/lib/tanks";
+import {
+  addDays,
+  checkDeliveryDate,
+  earliestDeliveryDate,
+  loadDeliveryCalendar,
+} from "@/lib/delivery-calendar";
+import {
+  findStripeCustomer,
+  listSavedPaymentMethods,
+} from "@/lib/stripe-customers";
+import { placeOffSessionOrder } from "@/lib/off-session-orders";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  const { orderId, requestId, paymentMethodId, deliveryDate } = (req.body || {}) as {
+    orderId?: string;
+    requestId?: string;
+    paymentMethodId?: string | null;
+    deliveryDate?: string | null;
+  };
+  if (!orderId) return res.status(400).json({ error: "Missing orderId" });
+  if (!requestId || !/^[A-Za-z0-9_-]{8,100}$/.test(String(requestId))) {
+    return res.status(400).json({ error: "Missing or invalid requestId" });
+  }
+
+  try {
+    if (await isSandboxEmail(email)) {
+      return res
+        .status(400)
+        .json({ error: "Reorders aren't available on sandbox accounts" });
+    }
+
+    const { data: order, error } = await supabaseAdmin
+      .from("orders")
+      .select(
+        "id,fuel,litres,status,name,address_line1,address_line2,city,postcode,site_id,tank_id"
+      )
+      .eq("id", orderId)
+      .eq("user_email", email)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!order) return res.status(404).json({ error: "Order not found" });
+    if (!SETTLED_ORDER_STATUSES.includes(order.status)) {
+      return res.status(400).json({ error: "Only paid orders can be reordered" });
+    }
+
+    const fuel = String(order.fuel).toLowerCase() === "petrol" ? "petrol" : "diesel";
+    const litres = Number(order.litres) || 0;
+    if (litres <= 0 || !order.address_line1 || !order.postcode) {
+      return res.status(400).json({ error: "This order can't be repeated" });
+    }
+
+    // saved method: the one asked for, else the default / first
+    const customerId = await findStripeCustomer(email);
+    const methods = customerId ? await listSavedPaymentMethods(customerId) : [];
+    const method = paymentMethodId
+      ? methods.find((m) => m.id === paymentMethodId)
+      : methods[0];
+    if (!customerId || !method) {
+      return res.status(400).json({
+        error: "No saved card or Direct Debit – save one first or order through checkout",
+      });
+    }
+
+    // the site / tank if they are still on file, else just the address
+    const site = order.site_id
+      ? await loadSiteForCustomer(order.site_id, email)
+      : null;
+    const tank =
+      site && order.tank_id
+        ? (await loadTanks({ siteId: site.id })).find(
+            (t) => t.id === order.tank_id && t.fuel === fuel
+          ) ?? null
+        : null;
+    const address = site
+      ? {
+          name: order.name || site.contactName || site.name,
+          addressLine1: site.addressLine1,
+          addressLine2: site.addressLine2,
+          city: site.city,
+          postcode: site.postcode,
+        }
+      : {
+          name: order.name || "Customer",
+          addressLine1: order.address_line1,
+          addressLine2: order.address_line2 ?? null,
+          city: order.city,
+          postcode: order.postcode,
+        };
+
+    const calendar = await loadDeliveryCalendar(supabaseAdmin, address.postcode);
+    let date = deliveryDate || null;
+    if (date) {
+      const check = checkDeliveryDate(calendar, date, { litres });
+      if (!check.ok) return res.status(400).json({ error: check.message });
+    } else {
+      // earliest day that still has room
+      const earliest = earliestDeliveryDate(calendar);
+      for (let i = 0, d = earliest; i < 14 && !date; i++, d = addDays(d, 1)) {
+        if (checkDeliveryDate(calendar, d, { litres }).ok) date = d;
+      }
+      if (!date) {
+        return res.status(409).json({ error: "No delivery day available – please order through checkout" });
+      }
+    }
+
+    const placed = await placeOffSessionOrder({
+      email,
+      fuel,
+      litres,
+      deliveryDate: date,
+      address,
+      site,
+      tank,
+      stripeCustomerId: customerId,
+      paymentMethodId: method.id,
+      source: "reorder",
+      orderFields: { reorder_of: order.id },
+      metadata: { reorder_of: order.id },
+      description: `Reorder – ${litres.toLocaleString()} L ${fuel}`,
+      idempotencyKey: `reorder-${order.id}-${requestId}`,
+    });
+    if (!placed.ok) {
+      const status =
+        placed.reason === "full" || placed.reason === "in_progress"
+          ? 409
+          : placed.reason === "payment"
+          ? 402
+          : 500;
+      return res.status(status).json({ error: placed.error });
+    }
+
+    const { data: created } = await supabaseAdmin
+      .from("orders")
+      .select("total_pence,delivery_date")
+      .eq("id", placed.orderId)
+      .maybeSingle();
+
+    return res.status(200).json({
+      orderId: placed.orderId,
+      deliveryDate: created?.delivery_date ?? date,
+      totalPence: created?.total_pence ?? null,
+      paymentStatus: placed.paymentStatus,
+    });
+  } catch (e: any) {
+    console.error("[orders/reorder] error:", e);
+    return res.status(500).json({ error: e?.raw?.message || e?.message || "Server error" });
+  }
+}
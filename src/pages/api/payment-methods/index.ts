@@ -0,0 +1,110 @@
+// src/pages/api/payment-methods/index.ts
+// Saved cards / BACS Direct Debit mandates on the customer's Stripe
+// Customer (Authorization: Bearer <jwt>).
+//   GET                       -> { methods } (default first)
+//   POST                      -> { url } setup-mode Checkout to add a method
+//   PATCH { id }              -> make a method the default for reorders
+//   DELETE ?id=               -> remove a saved method
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { isSandboxEmail } from "@/lib/sandbox";
+import {
+  createSetupSession,
+  detachPaymentMethod,
+  findSavedPaymentMethod,
+  findStripeCustomer,
+  getOrCreateStripeCustomer,
+  listSavedPaymentMethods,
+  setDefaultPaymentMethod,
+} from "@/lib/stripe-customers";
+
+function appOrigin(req: NextApiRequest): string {
+  const envAppUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return (
+    (envAppUrl && envAppUrl.startsWith("http")
+      ? envAppUrl
+      : envAppUrl
+      ? `https://${envAppUrl}`
+      : req.headers.origin) || "https://dashboard.fuelflow.co.uk"
+  );
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    // sandbox accounts never reach Stripe
+    if (await isSandboxEmail(email)) {
+      if (req.method === "GET") return res.status(200).json({ methods: [] });
+      return res
+        .status(400)
+        .json({ error: "Saved payment methods aren't available on sandbox accounts" });
+    }
+
+    if (req.method === "GET") {
+      const customerId = await findStripeCustomer(email);
+      const methods = customerId ? await listSavedPaymentMethods(customerId) : [];
+      return res.status(200).json({ methods });
+    }
+
+    if (req.method === "POST") {
+      const customerId = await getOrCreateStripeCustomer(email);
+      const origin = appOrigin(req);
+      const url = await createSetupSession({
+        customerId,
+        successUrl: `${origin}/client-dashboard?payment_method=saved`,
+        cancelUrl: `${origin}/client-dashboard?payment_method=cancelled`,
+      });
+      return res.status(200).json({ url });
+    }
+
+    if (req.method === "PATCH" || req.method === "DELETE") {
+      const id =
+        req.method === "PATCH"
+          ? String((req.body || {}).id || "")
+          : typeof req.query.id === "string"
+          ? req.query.id
+          : "";
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const customerId = await findStripeCustomer(email);
+      const method = customerId
+        ? await findSavedPaymentMethod(customerId, id)
+        : null;
+      if (!customerId || !method) {
+        return res.status(404).json({ error: "Payment method not found" });
+      }
+
+      if (req.method === "PATCH") {
+        await setDefaultPaymentMethod(customerId, id);
+      } else {
+        const { count } = await supabaseAdmin
+          .from("recurring_orders")
+          .select("id", { count: "exact", head: true })
+          .eq("user_email", email)
+          .eq("stripe_payment_method_id", id)
+          .in("status", ["active", "paused"]);
+        if (count) {
+          return res.status(400).json({
+            error: "A standing order uses this method – change its card first",
+          });
+        }
+        await detachPaymentMethod(id);
+      }
+      return res
+        .status(200)
+        .json({ methods: await listSavedPaymentMethods(customerId) });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[payment-methods] error:", e);
+    return res.status(500).json({ error: e?.raw?.message || e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,30 @@
+// src/pages/api/price-alerts/evaluate.ts
+// Runs price alert rules against the latest daily_prices.
+// Called by the import-prices edge function after a successful import
+// (header x-price-alerts-secret: PRICE_ALERTS_SECRET).
+import type { NextApiRequest, NextApiResponse } from "next";
+import { evaluatePriceAlerts } from "@/lib/price-alerts";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.PRICE_ALERTS_SECRET;
+  if (!secret) return res.status(500).json({ error: "PRICE_ALERTS_SECRET not set" });
+  if (req.headers["x-price-alerts-secret"] !== secret) {
+    return res.status(401).json({ error: "Invalid secret" });
+  }
+
+  try {
+    const result = await evaluatePriceAlerts();
+    return res.status(200).json({ ok: true, ...result });
+  } catch (e: any) {
+    console.error("[price-alerts] evaluate error:", e);
+    return res.status(500).json({ ok: false, error: e?.message || "evaluate_failed" });
+  }
+}
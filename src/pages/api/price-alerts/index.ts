@@ -0,0 +1,95 @@
+// src/pages/api/price-alerts/index.ts
+// Customer price alert rules (Authorization: Bearer <jwt>).
+//   GET                                  -> list my rules
+//   POST { fuel, kind, threshold }       -> add a rule
+//   DELETE ?id=                          -> remove a rule
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+
+const MAX_RULES = 10;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabaseAdmin
+        .from("price_alert_subscriptions")
+        .select("id,fuel,kind,threshold,last_triggered_at,created_at")
+        .eq("user_email", email)
+        .eq("active", true)
+        .order("created_at", { ascending: true });
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ alerts: data || [] });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as {
+        fuel?: string;
+        kind?: string;
+        threshold?: number | string;
+      };
+      const fuel = String(body.fuel || "").toLowerCase();
+      const kind = String(body.kind || "");
+      const threshold = Number(body.threshold);
+
+      if (fuel !== "petrol" && fuel !== "diesel") {
+        return res.status(400).json({ error: "fuel must be petrol or diesel" });
+      }
+      if (kind !== "below" && kind !== "move_pct") {
+        return res.status(400).json({ error: "kind must be below or move_pct" });
+      }
+      if (
+        !Number.isFinite(threshold) ||
+        threshold <= 0 ||
+        (kind === "below" && threshold > 10) ||
+        (kind === "move_pct" && threshold > 100)
+      ) {
+        return res.status(400).json({ error: "Invalid threshold" });
+      }
+
+      const { count } = await supabaseAdmin
+        .from("price_alert_subscriptions")
+        .select("id", { count: "exact", head: true })
+        .eq("user_email", email)
+        .eq("active", true);
+      if ((count || 0) >= MAX_RULES) {
+        return res
+          .status(400)
+          .json({ error: `You can have up to ${MAX_RULES} alerts` });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("price_alert_subscriptions")
+        .insert({ user_email: email, fuel, kind, threshold })
+        .select("id,fuel,kind,threshold,last_triggered_at,created_at")
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ alert: data });
+    }
+
+    if (req.method === "DELETE") {
+      const id = typeof req.query.id === "string" ? req.query.id : "";
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const { error } = await supabaseAdmin
+        .from("price_alert_subscriptions")
+        .update({ active: false })
+        .eq("id", id)
+        .eq("user_email", email);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[price-alerts] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
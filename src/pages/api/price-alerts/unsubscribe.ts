@@ -0,0 +1,64 @@
+// src/pages/api/price-alerts/unsubscribe.ts
+// One-click unsubscribe from the link in price alert emails.
+// GET ?token=<unsubscribe_token>[,<token>...]
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function page(title: string, body: string) {
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${title}</title></head>
+<body style="margin:0;background:#041F3E;font-family:system-ui,-apple-system,Segoe UI,Roboto,Arial;color:#fff;">
+  <div style="max-width:520px;margin:80px auto;padding:24px;background:#0E2E57;border-radius:16px;">
+    <h1 style="margin:0 0 12px;font-size:22px;color:#F5B800;">${title}</h1>
+    <p style="margin:0;color:rgba(255,255,255,.8);line-height:1.5;">${body}</p>
+  </div>
+</body></html>`;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).end();
+  }
+
+  const tokens = String(req.query.token || "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => UUID_RE.test(t));
+
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+
+  if (!tokens.length) {
+    return res
+      .status(400)
+      .send(page("Link not valid", "This unsubscribe link is incomplete or has expired."));
+  }
+
+  const { error } = await supabaseAdmin
+    .from("price_alert_subscriptions")
+    .update({ active: false })
+    .in("unsubscribe_token", tokens);
+
+  if (error) {
+    console.error("[price-alerts] unsubscribe error:", error);
+    return res
+      .status(500)
+      .send(page("Something went wrong", "Please try again, or manage your alerts from your dashboard."));
+  }
+
+  return res
+    .status(200)
+    .send(
+      page(
+        "You're unsubscribed",
+        "You won't get these price alerts any more. You can set up new alerts from your dashboard at any time."
+      )
+    );
+}
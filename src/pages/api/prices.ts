@@ -1,13 +1,60 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { createClient } from "@supabase/supabase-js";
+import { quoteUnitPrice, type Fuel } from "@/lib/pricing";
+import { getBearerEmail } from "@/lib/api-auth";
+import { isSandboxEmail, sandboxPriceRows } from "@/lib/sandbox";
 
 const supabase = createClient(
   process.env.SUPABASE_URL as string,
   process.env.SUPABASE_SERVICE_ROLE_KEY as string
 );
 
-export default async function handler(_: NextApiRequest, res: NextApiResponse) {
+const FUELS: Fuel[] = ["petrol", "diesel"];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
+    const postcode =
+      typeof req.query.postcode === "string" ? req.query.postcode.trim() : "";
+    const litres = Number(req.query.litres);
+    // signed-in callers get their negotiated price (if any)
+    const customerEmail = await getBearerEmail(req);
+
+    if (await isSandboxEmail(customerEmail)) {
+      return res.status(200).json(sandboxPriceRows());
+    }
+
+    // Quoted prices: /api/prices?postcode=CM8 6ED&litres=6000
+    if (postcode || (Number.isFinite(litres) && litres > 0) || customerEmail) {
+      const quotes = await Promise.all(
+        FUELS.map((fuel) =>
+          quoteUnitPrice({
+            fuel,
+            postcode: postcode || null,
+            litres: Number.isFinite(litres) && litres > 0 ? litres : null,
+            customerEmail,
+          })
+        )
+      );
+      const rows = quotes
+        .filter((q): q is NonNullable<typeof q> => q !== null)
+        .map((q) => ({
+          fuel: q.fuel,
+          total_price: q.unitPricePence / 100,
+          base_price: q.baseUnitPence / 100,
+          list_price: q.listUnitPence / 100,
+          delivery_surcharge: q.deliverySurchargePence / 100,
+          zone: q.zone,
+          tier: q.tier,
+          volume_saving: q.volumeSavingPence / 100,
+          agreement: q.agreement,
+        }));
+
+      if (!rows.length) {
+        return res.status(500).json({ error: "No price data" });
+      }
+      return res.status(200).json(rows);
+    }
+
     let { data, error } = await supabase
       .from("latest_prices")
       .select("fuel,total_price");
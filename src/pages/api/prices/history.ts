@@ -0,0 +1,62 @@
+// src/pages/api/prices/history.ts
+// GET /api/prices/history?days=30
+// GET /api/prices/history?from=2026-01-01&to=2026-03-31
+// Daily series per fuel + min/max/avg/week-on-week. Admins also get
+// refinery price and margin per day.
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getBearerEmail, isAdminEmail } from "@/lib/api-auth";
+import { loadPriceHistory } from "@/lib/price-history";
+
+const MAX_DAYS = 366;
+
+function isIsoDate(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const to = isIsoDate(req.query.to) ? req.query.to : today;
+
+    let from: string;
+    if (isIsoDate(req.query.from)) {
+      from = req.query.from;
+    } else {
+      const days = Math.min(
+        Math.max(Number(req.query.days) || 30, 1),
+        MAX_DAYS
+      );
+      const d = new Date(`${to}T00:00:00Z`);
+      d.setUTCDate(d.getUTCDate() - (days - 1));
+      from = d.toISOString().slice(0, 10);
+    }
+
+    const spanDays =
+      (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86400000;
+    if (!(spanDays >= 0)) {
+      return res.status(400).json({ error: "from must be on or before to" });
+    }
+    if (spanDays >= MAX_DAYS) {
+      return res
+        .status(400)
+        .json({ error: `Range is limited to ${MAX_DAYS} days` });
+    }
+
+    const withCosts = await isAdminEmail(await getBearerEmail(req));
+    const history = await loadPriceHistory({ from, to, withCosts });
+
+    return res.status(200).json(history);
+  } catch (e: any) {
+    console.error("[prices/history] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
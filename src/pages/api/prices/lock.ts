@@ -0,0 +1,89 @@
+// src/pages/api/prices/lock.ts
+// POST { postcode?, litres? } -> signed price lock for both fuels.
+// Requires a signed-in customer (Authorization: Bearer <jwt>).
+import type { NextApiRequest, NextApiResponse } from "next";
+import crypto from "crypto";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { quoteUnitPrice, type Fuel } from "@/lib/pricing";
+import {
+  normalisePostcode,
+  signPriceLock,
+  type LockedPrice,
+} from "@/lib/price-lock";
+
+const FUELS: Fuel[] = ["petrol", "diesel"];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const email = await getBearerEmail(req);
+    if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+    const body = (req.body || {}) as { postcode?: string; litres?: number };
+    const postcode = normalisePostcode(body.postcode);
+    const litresNum = Number(body.litres);
+    const litres =
+      Number.isFinite(litresNum) && litresNum > 0 ? Math.round(litresNum) : null;
+
+    const quotes = await Promise.all(
+      FUELS.map((fuel) =>
+        quoteUnitPrice({ fuel, postcode, litres, customerEmail: email })
+      )
+    );
+
+    const prices: Partial<Record<Fuel, LockedPrice>> = {};
+    for (const q of quotes) {
+      if (!q) continue;
+      const { fuel, ...rest } = q;
+      prices[fuel] = rest;
+    }
+    if (!Object.keys(prices).length) {
+      return res.status(500).json({ error: "Price not available" });
+    }
+
+    const { token, payload } = signPriceLock({
+      id: crypto.randomUUID(),
+      email,
+      postcode,
+      litres,
+      prices,
+    });
+
+    const { error } = await supabaseAdmin.from("price_locks").insert({
+      id: payload.id,
+      user_email: email,
+      postcode,
+      litres,
+      petrol_unit_price_pence: prices.petrol?.unitPricePence ?? null,
+      diesel_unit_price_pence: prices.diesel?.unitPricePence ?? null,
+      issued_at: new Date(payload.iat * 1000).toISOString(),
+      expires_at: new Date(payload.exp * 1000).toISOString(),
+    } as any);
+
+    if (error) {
+      console.error("[price-lock] insert error:", error);
+      return res.status(500).json({ error: "Failed to lock price" });
+    }
+
+    return res.status(200).json({
+      token,
+      expires_at: new Date(payload.exp * 1000).toISOString(),
+      prices: FUELS.filter((f) => prices[f]).map((f) => ({
+        fuel: f,
+        total_price: prices[f]!.unitPricePence / 100,
+        delivery_surcharge: prices[f]!.deliverySurchargePence / 100,
+      })),
+    });
+  } catch (e: any) {
+    console.error("[price-lock] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,186 @@
+// src/pages/api/recurring-orders/index.ts
+// Customer standing orders (Authorization: Bearer <jwt>).
+//   GET                                        -> my standing orders (+ recent runs)
+//   POST { kind, fuel, litres, siteId, … }     -> create; returns setupUrl to save a card
+//   PATCH { id, action: "pause" | "resume" }   -> pause / resume
+//   PATCH { id, action: "card" }               -> new setupUrl to replace the card
+//   PATCH { id, …fields }                      -> edit litres / schedule / site
+//   DELETE ?id=                                -> cancel
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { isSandboxEmail } from "@/lib/sandbox";
+import {
+  RECURRING_COLUMNS,
+  canUseRecurringOrders,
+  createRecurringSetupSession,
+  recurringFromRow,
+  recurringInputToRow,
+  type RecurringOrderInput,
+} from "@/lib/recurring-orders";
+
+const MAX_SCHEDULES = 20;
+
+function appOrigin(req: NextApiRequest): string {
+  const envAppUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return (
+    (envAppUrl && envAppUrl.startsWith("http")
+      ? envAppUrl
+      : envAppUrl
+      ? `https://${envAppUrl}`
+      : req.headers.origin) || "https://dashboard.fuelflow.co.uk"
+  );
+}
+
+async function loadOwn(id: string, email: string) {
+  const { data, error } = await supabaseAdmin
+    .from("recurring_orders")
+    .select(RECURRING_COLUMNS)
+    .eq("id", id)
+    .eq("user_email", email)
+    .neq("status", "cancelled")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? recurringFromRow(data) : null;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    if (req.method === "GET") {
+      const { data, error } = await supabaseAdmin
+        .from("recurring_orders")
+        .select(RECURRING_COLUMNS)
+        .eq("user_email", email)
+        .neq("status", "cancelled")
+        .order("created_at", { ascending: true });
+      if (error) return res.status(500).json({ error: error.message });
+      const schedules = (data || []).map(recurringFromRow);
+
+      const { data: runs } = schedules.length
+        ? await supabaseAdmin
+            .from("recurring_order_runs")
+            .select("recurring_order_id,occurrence_key,status,order_id,delivery_date,error,created_at")
+            .in("recurring_order_id", schedules.map((s) => s.id))
+            .order("created_at", { ascending: false })
+            .limit(100)
+        : { data: [] as any[] };
+
+      return res.status(200).json({
+        schedules,
+        runs: runs || [],
+        eligible: await canUseRecurringOrders(email),
+      });
+    }
+
+    if (req.method === "POST") {
+      if (await isSandboxEmail(email)) {
+        return res
+          .status(400)
+          .json({ error: "Standing orders aren't available on sandbox accounts" });
+      }
+      if (!(await canUseRecurringOrders(email))) {
+        return res.status(403).json({
+          error: "Standing orders need an approved contract",
+        });
+      }
+
+      const { count } = await supabaseAdmin
+        .from("recurring_orders")
+        .select("id", { count: "exact", head: true })
+        .eq("user_email", email)
+        .neq("status", "cancelled");
+      if ((count || 0) >= MAX_SCHEDULES) {
+        return res
+          .status(400)
+          .json({ error: `You can have up to ${MAX_SCHEDULES} standing orders` });
+      }
+
+      const body = (req.body || {}) as RecurringOrderInput;
+      const mapped = await recurringInputToRow(email, body);
+      if (!mapped.ok) return res.status(400).json({ error: mapped.error });
+
+      const { data, error } = await supabaseAdmin
+        .from("recurring_orders")
+        .insert({ ...mapped.row, user_email: email, status: "pending_setup" } as any)
+        .select(RECURRING_COLUMNS)
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+
+      const schedule = recurringFromRow(data);
+      const setupUrl = await createRecurringSetupSession(schedule, appOrigin(req));
+      return res.status(200).json({ schedule, setupUrl });
+    }
+
+    if (req.method === "PATCH") {
+      const body = (req.body || {}) as RecurringOrderInput & {
+        id?: string;
+        action?: string;
+      };
+      if (!body.id) return res.status(400).json({ error: "Missing id" });
+
+      const existing = await loadOwn(body.id, email);
+      if (!existing) return res.status(404).json({ error: "Standing order not found" });
+
+      if (body.action === "card") {
+        const setupUrl = await createRecurringSetupSession(existing, appOrigin(req));
+        return res.status(200).json({ schedule: existing, setupUrl });
+      }
+
+      let row: Record<string, any>;
+      if (body.action === "pause") {
+        row = { status: "paused" };
+      } else if (body.action === "resume") {
+        if (!existing.stripePaymentMethodId) {
+          return res.status(400).json({ error: "Save a card first" });
+        }
+        // back on with a clean failure streak; missed dates are skipped by
+        // the next run
+        row = { status: "active", failure_count: 0, last_error: null };
+      } else if (body.action) {
+        return res.status(400).json({ error: "Unknown action" });
+      } else {
+        const mapped = await recurringInputToRow(email, body, existing);
+        if (!mapped.ok) return res.status(400).json({ error: mapped.error });
+        row = mapped.row;
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("recurring_orders")
+        .update({ ...row, updated_at: new Date().toISOString() } as any)
+        .eq("id", existing.id)
+        .eq("user_email", email)
+        .select(RECURRING_COLUMNS)
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ schedule: recurringFromRow(data) });
+    }
+
+    if (req.method === "DELETE") {
+      const id = typeof req.query.id === "string" ? req.query.id : "";
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const { error } = await supabaseAdmin
+        .from("recurring_orders")
+        .update({
+          status: "cancelled",
+          updated_at: new Date().toISOString(),
+        } as any)
+        .eq("id", id)
+        .eq("user_email", email);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[recurring-orders] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,74 @@
+// src/pages/api/refinery/proof-of-delivery.ts
+// Proof of delivery from the refinery / driver, or an admin on their
+// behalf (x-refinery-secret header, or Authorization: Bearer <admin jwt>).
+//   POST { orderId, deliveredLitres, meterTicket, deliveredAt?, driverName?,
+//          notes?, signature, photo? }
+//     signature / photo: PNG or JPEG data: URLs (5 MB each)
+//     -> order marked delivered on the delivered litres, files + POD PDF
+//        stored, any difference settled as a delivery variance
+//        (lib/delivery-variance.ts)
+//     <- { delivery, variance }
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireAdmin } from "@/lib/api-auth";
+import { recordProofOfDelivery } from "@/lib/proof-of-delivery";
+
+// base64 images
+export const config = { api: { bodyParser: { sizeLimit: "15mb" } } };
+
+const refinerySecret = process.env.REFINERY_SEND_SECRET || "";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  let actor: string | null = null;
+  const headerSecret = req.headers["x-refinery-secret"];
+  if (headerSecret) {
+    if (!refinerySecret || headerSecret !== refinerySecret) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    actor = "system:refinery";
+  } else {
+    actor = await requireAdmin(req, res);
+    if (!actor) return;
+  }
+
+  const body = (req.body || {}) as {
+    orderId?: string;
+    deliveredLitres?: number | string;
+    meterTicket?: string;
+    deliveredAt?: string | null;
+    driverName?: string | null;
+    notes?: string | null;
+    signature?: string;
+    photo?: string | null;
+  };
+  if (!body.orderId) return res.status(400).json({ error: "Missing orderId" });
+  if (!body.signature) return res.status(400).json({ error: "Missing signature" });
+
+  try {
+    const result = await recordProofOfDelivery({
+      orderId: body.orderId,
+      actor,
+      deliveredLitres: Number(body.deliveredLitres),
+      meterTicket: String(body.meterTicket || ""),
+      deliveredAt: body.deliveredAt || null,
+      driverName: body.driverName || null,
+      notes: body.notes || null,
+      signature: body.signature,
+      photo: body.photo || null,
+    });
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res
+      .status(200)
+      .json({ delivery: result.delivery, variance: result.variance });
+  } catch (e: any) {
+    console.error("[refinery/proof-of-delivery] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -4,6 +4,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { Resend } from "resend";
 import { createClient } from "@supabase/supabase-js";
+import { recordOrderEvent, transitionOrder } from "@/lib/order-lifecycle";
 
 type OrderForRefinery = {
   id: string;
@@ -17,8 +18,14 @@ type OrderForRefinery = {
   city: string | null;
   postcode: string | null;
   refinery_invoice_storage_path: string | null;
+  refinery_notified_at: string | null;
 };
 
+const ORDER_COLUMNS =
+  "id,user_email,name,fuel,litres,delivery_date,address_line1,address_line2,city,postcode,refinery_invoice_storage_path,refinery_notified_at";
+
+const ACTOR = "system:refinery";
+
 const resendApiKey = process.env.RESEND_API_KEY || "";
 const refineryEmail = process.env.REFINERY_ORDER_EMAIL || "";
 const refinerySecret = process.env.REFINERY_SEND_SECRET || "";
@@ -63,10 +70,9 @@ export default async function handler(
     // 3) Fetch orders that are ready to send
     const { data: orders, error } = await supabase
       .from("orders")
-      .select(
-        "id,user_email,name,fuel,litres,delivery_date,address_line1,address_line2,city,postcode,refinery_invoice_storage_path"
-      )
+      .select(ORDER_COLUMNS)
       .eq("refinery_notification_status", "ready")
+      .eq("state", "paid")
       .limit(20); // send max 20 at a time
 
     if (error) {
@@ -80,9 +86,68 @@ export default async function handler(
 
     const results: { id: string; ok: boolean; error?: string }[] = [];
 
-    for (const row of orders as OrderForRefinery[]) {
-      const orderId = row.id;
+    for (const listed of orders as OrderForRefinery[]) {
+      const orderId = listed.id;
+
+      // claim the order before anything goes out – a customer cancel /
+      // amend (lib/order-changes) only applies while it is still "paid",
+      // and an overlapping run loses the compare-and-set
+      const claimed = await transitionOrder({
+        orderId,
+        to: "sent_to_refinery",
+        actor: ACTOR,
+        reason: "Order emailed to the refinery",
+        onlyFrom: ["paid"],
+        fields: {
+          refinery_notification_status: "sent",
+          refinery_notified_at: new Date().toISOString(),
+        },
+      });
+      if (!claimed.ok || !claimed.changed) {
+        results.push({
+          id: orderId,
+          ok: false,
+          error: claimed.ok ? "Already sent to the refinery" : claimed.error,
+        });
+        continue;
+      }
+
+      // nothing went out – back to "paid" so the next run picks it up
+      const releaseClaim = async (reason: string) => {
+        const { data: back } = await supabase
+          .from("orders")
+          .update({
+            state: "paid",
+            state_changed_at: new Date().toISOString(),
+            fulfilment_status: "pending",
+            refinery_notification_status: "ready",
+            refinery_notified_at: listed.refinery_notified_at,
+          } as any)
+          .eq("id", orderId)
+          .eq("state", "sent_to_refinery")
+          .select("id")
+          .maybeSingle();
+        if (back) {
+          await recordOrderEvent({
+            orderId,
+            event: "transition",
+            fromState: "sent_to_refinery",
+            toState: "paid",
+            actor: ACTOR,
+            reason: `Refinery email failed: ${reason}`,
+          });
+        }
+      };
+
       try {
+        // the email describes the order as claimed, not as first listed
+        const { data: fresh } = await supabase
+          .from("orders")
+          .select(ORDER_COLUMNS)
+          .eq("id", orderId)
+          .maybeSingle();
+        const row = (fresh || listed) as OrderForRefinery;
+
         // 4) Build a public link to the invoice PDF (optional)
         let invoiceUrl: string | null = null;
         if (row.refinery_invoice_storage_path) {
@@ -140,34 +205,24 @@ export default async function handler(
         `;
 
         // 6) Send email (NO commission values inside)
-        await resend.emails.send({
+        const sent = await resend.emails.send({
           from: "orders@fuelflow.co.uk", // use a verified sender
           to: refineryEmail,
           subject,
           html,
         });
 
-        // 7) Mark order as sent
-        const { error: updateError } = await supabase
-          .from("orders")
-          .update({
-            refinery_notification_status: "sent",
-            refinery_notified_at: new Date().toISOString(),
-          })
-          .eq("id", orderId);
-
-        if (updateError) {
-          console.error("[refinery] update error:", updateError);
-          results.push({
-            id: orderId,
-            ok: false,
-            error: updateError.message,
-          });
+        if ((sent as any).error) {
+          const message = (sent as any).error?.message || "Resend error";
+          console.error("[refinery] send error for order", orderId, message);
+          await releaseClaim(message);
+          results.push({ id: orderId, ok: false, error: message });
         } else {
           results.push({ id: orderId, ok: true });
         }
       } catch (err: any) {
         console.error("[refinery] send crash for order", orderId, err);
+        await releaseClaim(err?.message || String(err));
         results.push({
           id: orderId,
           ok: false,
@@ -0,0 +1,108 @@
+// src/pages/api/sites/index.ts
+// Customer delivery sites (Authorization: Bearer <jwt>).
+//   GET                        -> my sites (+ their tanks and estimated levels)
+//   POST { name, address… }    -> add a site
+//   PATCH { id, …fields }      -> update a site
+//   DELETE ?id=                -> archive a site (old orders keep it)
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import {
+  SITE_COLUMNS,
+  createSite,
+  loadSitesForCustomer,
+  siteFromRow,
+  siteInputToRow,
+  type CustomerSiteInput,
+} from "@/lib/customer-sites";
+import { estimateTankLevels, loadTanks } from "@/lib/tanks";
+
+const MAX_SITES = 50;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    if (req.method === "GET") {
+      const [sites, tanks] = await Promise.all([
+        loadSitesForCustomer(email),
+        loadTanks({ email }),
+      ]);
+      const estimates = await estimateTankLevels(tanks).catch((e) => {
+        console.error("[sites] estimate failed:", e);
+        return new Map();
+      });
+      return res.status(200).json({
+        sites: sites.map((s) => ({
+          ...s,
+          tanks: tanks
+            .filter((t) => t.siteId === s.id)
+            .map((t) => ({ ...t, estimate: estimates.get(t.id) ?? null })),
+        })),
+      });
+    }
+
+    if (req.method === "POST") {
+      const { count } = await supabaseAdmin
+        .from("customer_sites")
+        .select("id", { count: "exact", head: true })
+        .eq("user_email", email)
+        .is("archived_at", null);
+      if ((count || 0) >= MAX_SITES) {
+        return res
+          .status(400)
+          .json({ error: `You can have up to ${MAX_SITES} sites` });
+      }
+
+      const created = await createSite(email, (req.body || {}) as CustomerSiteInput);
+      if (!created.ok) return res.status(400).json({ error: created.error });
+      return res.status(200).json({ site: created.site });
+    }
+
+    if (req.method === "PATCH") {
+      const body = (req.body || {}) as CustomerSiteInput & { id?: string };
+      if (!body.id) return res.status(400).json({ error: "Missing id" });
+
+      const mapped = siteInputToRow(body, true);
+      if (!mapped.ok) return res.status(400).json({ error: mapped.error });
+      if (!Object.keys(mapped.row).length) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("customer_sites")
+        .update({ ...mapped.row, updated_at: new Date().toISOString() } as any)
+        .eq("id", body.id)
+        .eq("user_email", email)
+        .is("archived_at", null)
+        .select(SITE_COLUMNS)
+        .maybeSingle();
+      if (error) return res.status(500).json({ error: error.message });
+      if (!data) return res.status(404).json({ error: "Site not found" });
+      return res.status(200).json({ site: siteFromRow(data) });
+    }
+
+    if (req.method === "DELETE") {
+      const id = typeof req.query.id === "string" ? req.query.id : "";
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const { error } = await supabaseAdmin
+        .from("customer_sites")
+        .update({ archived_at: new Date().toISOString() } as any)
+        .eq("id", id)
+        .eq("user_email", email);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[sites] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
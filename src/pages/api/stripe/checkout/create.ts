@@ -1,51 +1,13 @@
 // src/pages/api/stripe/checkout/create.ts
-// src/pages/api/stripe/checkout/create.ts
+// Legacy checkout endpoint – kept for old clients, adapts their snake_case
+// body to an OrderRequest and places it through lib/order-service like the
+// order page.
+//   POST { fuel, litres, deliveryDate, full_name, email, address_line1,
+//          address_line2?, city, postcode }
+//     <- { url }
 import type { NextApiRequest, NextApiResponse } from "next";
-import Stripe from "stripe";
-import { createClient } from "@supabase/supabase-js";
-
-/** Absolute base URL that works on Vercel & locally (server-side only) */
-function getBaseUrl(req: NextApiRequest) {
-  const env = process.env.SITE_URL && process.env.SITE_URL.trim();
-  if (env) return env.replace(/\/+$/, "");
-
-  const proto =
-    (req.headers["x-forwarded-proto"] as string) ||
-    (req.headers["x-forwarded-protocol"] as string) ||
-    "https";
-
-  const host =
-    (req.headers["x-forwarded-host"] as string) ||
-    (req.headers["host"] as string) ||
-    "localhost:3000";
-
-  return `${proto}://${host}`;
-}
-
-function reqError(res: NextApiResponse, code: number, msg: string) {
-  return res.status(code).json({ error: msg });
-}
-
-/* ---------- Stripe + Supabase setup ---------- */
-
-const STRIPE_KEY = process.env.STRIPE_SECRET_KEY;
-if (!STRIPE_KEY) {
-  throw new Error("Missing STRIPE_SECRET_KEY");
-}
-
-const stripe = new Stripe(STRIPE_KEY, { apiVersion: "2024-06-20" });
-
-const SUPABASE_URL = process.env.SUPABASE_URL as string;
-const SUPABASE_SERVICE_ROLE_KEY = process.env
-  .SUPABASE_SERVICE_ROLE_KEY as string;
-
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-  throw new Error("Missing Supabase server credentials");
-}
-
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-
-/* ---------- Handler ---------- */
+import { getBearerEmail } from "@/lib/api-auth";
+import { orderFailureBody, placeOrder } from "@/lib/order-service";
 
 export default async function handler(
   req: NextApiRequest,
@@ -53,161 +15,36 @@ export default async function handler(
 ) {
   if (req.method !== "POST") {
     res.setHeader("Allow", "POST");
-    return reqError(res, 405, "Method Not Allowed");
+    return res.status(405).json({ error: "Method Not Allowed" });
   }
 
   try {
-    const {
-      fuel, // "petrol" | "diesel"
-      litres,
-      deliveryDate,
-      full_name,
-      email,
-      address_line1,
-      address_line2,
-      city,
-      postcode,
-    } = req.body || {};
-
-    const litresNum = Number(litres);
-    if (!fuel || !Number.isFinite(litresNum) || litresNum <= 0) {
-      return reqError(res, 400, "Missing/invalid fuel or litres");
-    }
-
-    /* 1) Look up current unit price (GBP/L) in Supabase */
-
-    let unitPriceGBP: number | null = null;
-
-    const try1 = await supabase
-      .from("latest_prices")
-      .select("fuel,total_price")
-      .eq("fuel", fuel)
-      .maybeSingle();
-
-    if (try1.data?.total_price != null) {
-      unitPriceGBP = Number(try1.data.total_price);
-    } else {
-      const try2 = await supabase
-        .from("latest_daily_prices")
-        .select("fuel,total_price")
-        .eq("fuel", fuel)
-        .maybeSingle();
-
-      if (try2.data?.total_price != null) {
-        unitPriceGBP = Number(try2.data.total_price);
-      }
-    }
-
-    if (unitPriceGBP == null) {
-      return reqError(res, 500, "Price lookup failed");
-    }
-
-    /* 2) Insert order into Supabase (server-side only) */
-
-    const unit_price_pence = Math.round(unitPriceGBP * 100);
-    const total_pence = unit_price_pence * litresNum;
-    const amountGBP = total_pence / 100;
-
-    const { data: order, error: insErr } = await supabase
-      .from("orders")
-      .insert({
-        user_email: typeof email === "string" ? email.toLowerCase() : null,
-        product: fuel,
-        fuel,
-        litres: litresNum,
-        unit_price_pence,
-        total_pence,
-        amount: amountGBP,
-        status: "pending",
-        delivery_date: deliveryDate ?? null,
-        name: typeof full_name === "string" ? full_name : null,
-        address_line1:
-          typeof address_line1 === "string" ? address_line1 : null,
-        address_line2:
-          typeof address_line2 === "string" ? address_line2 : null,
-        city: typeof city === "string" ? city : null,
-        postcode: typeof postcode === "string" ? postcode : null,
-      })
-      .select("id")
-      .single();
-
-    if (insErr || !order) {
-      return reqError(
-        res,
-        500,
-        `DB insert failed: ${insErr?.message || "unknown error"}`
-      );
-    }
-
-    /* 3) Build Stripe Checkout Session params
-          (using a typed object so TypeScript is happy) */
-
-    const base = getBaseUrl(req);
-
-    const params: Stripe.Checkout.SessionCreateParams = {
-      mode: "payment",
-      line_items: [
-        {
-          price_data: {
-            currency: "gbp",
-            product_data: {
-              name: `Fuel order — ${fuel}`,
-              description: `${litresNum} L @ £${(
-                unit_price_pence / 100
-              ).toFixed(2)}/L`,
-            },
-            // total_pence here means “total for the order”,
-            // so we use quantity: 1
-            unit_amount: total_pence,
-          },
-          quantity: 1,
-        },
-      ],
-      success_url: `${base}/checkout/success?orderId=${order.id}&session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${base}/checkout/cancel?orderId=${order.id}&session_id={CHECKOUT_SESSION_ID}`,
-      metadata: {
-        order_id: order.id,
-        fuel: String(fuel),
-        litres: String(litresNum),
-        unit_price_pence: String(unit_price_pence),
-        total_pence: String(total_pence),
-        delivery_date: deliveryDate ? String(deliveryDate) : "",
-        full_name: typeof full_name === "string" ? full_name : "",
-        email: typeof email === "string" ? email : "",
-        address_line1:
-          typeof address_line1 === "string" ? address_line1 : "",
-        address_line2:
-          typeof address_line2 === "string" ? address_line2 : "",
-        city: typeof city === "string" ? city : "",
-        postcode: typeof postcode === "string" ? postcode : "",
-      },
-      payment_intent_data: {
-        metadata: {
-          order_id: order.id,
-          fuel: String(fuel),
-          litres: String(litresNum),
-          unit_price_pence: String(unit_price_pence),
-          total_pence: String(total_pence),
-          email: typeof email === "string" ? email : "",
-        },
+    const b = (req.body || {}) as Record<string, any>;
+    const placed = await placeOrder(
+      {
+        fuel: b.fuel,
+        litres: b.litres,
+        email: b.email,
+        name: b.full_name ?? b.name,
+        addressLine1: b.address_line1,
+        addressLine2: b.address_line2,
+        city: b.city,
+        postcode: b.postcode,
+        deliveryDate: b.deliveryDate,
       },
-    };
-
-    // Only set customer_email when we actually have a string
-    if (typeof email === "string" && email) {
-      params.customer_email = email;
-    }
-
-    /* 4) Create Checkout Session */
-
-    const session = await stripe.checkout.sessions.create(params);
+      {
+        customerEmail: await getBearerEmail(req),
+        requestOrigin: req.headers.origin ?? null,
+        source: "legacy_checkout",
+      }
+    );
+    if (!placed.ok) return res.status(placed.status).json(orderFailureBody(placed));
 
-    return res.status(200).json({ url: session.url });
+    return res.status(200).json({ url: placed.url });
   } catch (e: any) {
     console.error("Stripe create error:", e);
-    return reqError(res, 500, e?.message || "create_session_failed");
+    return res
+      .status(500)
+      .json({ error: e?.raw?.message || e?.message || "create_session_failed" });
   }
 }
-
-
-
@@ -5,6 +5,16 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
+import { recordOrderLedger, recordLedgerRefund } from "@/lib/margin-ledger";
+import {
+  confirmDeliveryBooking,
+  releaseDeliveryBooking,
+} from "@/lib/delivery-capacity";
+import { completeRecurringSetup } from "@/lib/recurring-orders";
+import { expirePendingOrder, readOrderMetadata } from "@/lib/order-service";
+import { recordOrderEvent, transitionOrder } from "@/lib/order-lifecycle";
+import { completeOrderChange, failOrderChange } from "@/lib/order-changes";
+import { completeVariance, failVarianceCharge } from "@/lib/delivery-variance";
 
 export const config = { api: { bodyParser: false } };
 
@@ -30,6 +40,10 @@ type OrderRow = {
   litres?: number | null;
   unit_price_pence?: number | null;
   total_pence?: number | null;
+  delivery_surcharge_pence?: number | null;
+  price_zone_name?: string | null;
+  volume_tier_name?: string | null;
+  volume_discount_pence?: number | null;
   name?: string | null;
   address_line1?: string | null;
   address_line2?: string | null;
@@ -133,12 +147,62 @@ async function hasCheckoutSessionForPI(piId?: string | null): Promise<boolean> {
   }
 }
 
+/**
+ * Order a PaymentIntent pays for: its metadata, then its charge's, then the
+ * order row that recorded the PI (Checkout sessions created before the PI
+ * carried the metadata).
+ */
+async function orderIdForPaymentIntent(pi: Stripe.PaymentIntent): Promise<string | null> {
+  const fromMeta = readOrderMetadata(pi.metadata).orderId;
+  if (fromMeta) return fromMeta;
+
+  if (typeof pi.latest_charge === "string") {
+    try {
+      const charge = await stripe.charges.retrieve(pi.latest_charge);
+      const fromCharge = readOrderMetadata(charge.metadata).orderId;
+      if (fromCharge) return fromCharge;
+    } catch (e) {
+      console.error("[webhook] failed to fetch charge for orderId resolution", e);
+    }
+  }
+
+  const { data } = await sb()
+    .from("orders")
+    .select("id")
+    .eq("stripe_payment_intent", pi.id)
+    .limit(1)
+    .maybeSingle();
+  return (data as any)?.id ?? null;
+}
+
+/** A Direct Debit that bounced after the customer left: cancel, free the slot. */
+async function failDirectDebitOrder(
+  orderId: string,
+  reason: string,
+  meta: Record<string, any>
+) {
+  await transitionOrder({
+    orderId,
+    to: "cancelled",
+    onlyFrom: ["pending"],
+    actor: "system:stripe",
+    reason,
+    meta,
+    fields: { status: "payment_failed" },
+  });
+  await releaseDeliveryBooking({
+    orderId,
+    reason: "payment_failed",
+    includeConfirmed: true,
+  });
+}
+
 async function fetchOrder(orderId?: string | null): Promise<OrderRow | null> {
   if (!orderId) return null;
   const { data, error } = await sb()
     .from("orders")
     .select(
-      "id,product,fuel,litres,unit_price_pence,total_pence,name,address_line1,address_line2,city,postcode,delivery_date,user_email"
+      "id,product,fuel,litres,unit_price_pence,total_pence,delivery_surcharge_pence,price_zone_name,volume_tier_name,volume_discount_pence,name,address_line1,address_line2,city,postcode,delivery_date,user_email"
     )
     .eq("id", orderId)
     .maybeSingle();
@@ -166,8 +230,27 @@ function buildItemsFromOrderOrStripe(args: {
         o.product ||
         o.fuel ||
         (lineItems?.data?.[0]?.description ?? "Fuel order");
+
+      // Zoned orders carry a flat delivery surcharge inside total_pence –
+      // invoice it as its own line so the fuel line matches the unit price.
+      const surchargePence = Number(o.delivery_surcharge_pence || 0);
+      const extras =
+        surchargePence > 0
+          ? [
+              {
+                description: `Delivery surcharge${
+                  o.price_zone_name ? ` (${o.price_zone_name})` : ""
+                }`,
+                litres: 1,
+                total: surchargePence / 100,
+              },
+            ]
+          : [];
+
       const totalMajor =
-        o.total_pence != null ? Number(o.total_pence) / 100 : undefined;
+        o.total_pence != null
+          ? (Number(o.total_pence) - surchargePence) / 100
+          : undefined;
       const unitMajor =
         o.unit_price_pence != null
           ? Number(o.unit_price_pence) / 100
@@ -176,9 +259,9 @@ function buildItemsFromOrderOrStripe(args: {
           : undefined;
 
       if (litres && totalMajor != null)
-        return [{ description: desc, litres, total: totalMajor }];
+        return [{ description: desc, litres, total: totalMajor }, ...extras];
       if (litres && unitMajor != null)
-        return [{ description: desc, litres, unitPrice: unitMajor }];
+        return [{ description: desc, litres, unitPrice: unitMajor }, ...extras];
     }
   }
 
@@ -200,7 +283,7 @@ function buildItemsFromOrderOrStripe(args: {
             (row.price?.metadata as any)?.litres ??
             ((row.price?.product as any)?.metadata?.litres)
         ) || 0;
-      const sessionLitres = Number((session?.metadata as any)?.litres || 0);
+      const sessionLitres = readOrderMetadata(session?.metadata).litres || 0;
       const litres =
         metaLitres || (sessionLitres && qty === 1 ? sessionLitres : qty);
 
@@ -231,7 +314,7 @@ function buildItemsFromOrderOrStripe(args: {
     : [
         {
           description: "Fuel order",
-          litres: Number((session?.metadata as any)?.litres || 1),
+          litres: readOrderMetadata(session?.metadata).litres || 1,
           total:
             ((session?.amount_total ?? session?.amount_subtotal ?? 0) as number) /
             100,
@@ -239,6 +322,15 @@ function buildItemsFromOrderOrStripe(args: {
       ];
 }
 
+/** Volume band for the invoice header (empty when no band applied). */
+function priceBandMeta(order: OrderRow | null) {
+  if (!order?.volume_tier_name) return {};
+  return {
+    priceBand: order.volume_tier_name,
+    priceBandSaving: Number(order.volume_discount_pence || 0) / 100,
+  };
+}
+
 function toISODate(dateStr?: string | null): string | undefined {
   if (!dateStr) return undefined;
   if (/^\d{4}-\d{2}-\d{2}T/.test(dateStr)) return dateStr;
@@ -407,6 +499,50 @@ async function markRefineryReady(args: {
   }
 }
 
+/* ---------- Lifecycle: pending -> paid ---------- */
+
+async function markOrderPaid(args: {
+  orderId: string;
+  fields?: Record<string, any>;
+  meta?: Record<string, any>;
+}) {
+  const result = await transitionOrder({
+    orderId: args.orderId,
+    to: "paid",
+    actor: "system:stripe",
+    reason: "Payment received",
+    meta: args.meta,
+    fields: {
+      status: "paid",
+      paid_at: new Date().toISOString(),
+      ...(args.fields || {}),
+
+      // mark this order ready to send to Xero
+      xero_sync_status: "pending",
+      xero_sync_error: null,
+      xero_invoice_id: null,
+      xero_invoice_number: null,
+    },
+  });
+
+  if (!result.ok) {
+    // e.g. a replayed event for an order already with the refinery
+    await logRow({
+      event_type: "order_paid_transition_skipped",
+      order_id: args.orderId,
+      error: result.error,
+      extra: { reason: result.reason, state: result.from ?? null },
+    });
+    return;
+  }
+
+  await logRow({
+    event_type: "order_updated_to_paid",
+    order_id: args.orderId,
+    status: "paid",
+  });
+}
+
 /* ---------- Xero helper: mark order as needing Xero sync ---------- */
 
 async function markXeroPending(args: { orderId?: string | null }) {
@@ -483,9 +619,27 @@ export default async function handler(
       /* ============================================================
          PRIMARY path for invoicing: Checkout Session completed
          ============================================================ */
-      case "checkout.session.completed": {
+      case "checkout.session.completed":
+      // a Direct Debit paid through Checkout clears days later
+      case "checkout.session.async_payment_succeeded": {
         const session = event.data.object as Stripe.Checkout.Session;
 
+        // Card / mandate saved (payment methods or standing-order
+        // enrolment) – nothing to invoice
+        if (session.mode === "setup") {
+          const recurringId = await completeRecurringSetup(session);
+          await logRow({
+            event_type: "setup_session_completed",
+            status: recurringId ? "recurring_active" : "saved",
+            extra: {
+              cs_id: session.id,
+              recurring_order_id: recurringId,
+              setup_intent: session.setup_intent ?? null,
+            },
+          });
+          break;
+        }
+
         const piId =
           typeof session.payment_intent === "string"
             ? session.payment_intent
@@ -497,9 +651,7 @@ export default async function handler(
         // 3) payment_intent.metadata.order_id
         let orderId: string | undefined = undefined;
 
-        if ((session.metadata as any)?.order_id) {
-          orderId = (session.metadata as any).order_id;
-        }
+        orderId = readOrderMetadata(session.metadata).orderId ?? undefined;
 
         if (!orderId && typeof session.success_url === "string") {
           try {
@@ -514,9 +666,7 @@ export default async function handler(
         if (!orderId && piId) {
           try {
             const pi = await stripe.paymentIntents.retrieve(piId);
-            if ((pi.metadata as any)?.order_id) {
-              orderId = (pi.metadata as any).order_id;
-            }
+            orderId = readOrderMetadata(pi.metadata).orderId ?? undefined;
           } catch (e) {
             console.error(
               "[webhook] failed to fetch PI for orderId resolution",
@@ -526,7 +676,7 @@ export default async function handler(
         }
 
         await logRow({
-          event_type: "checkout.session.completed/received",
+          event_type: `${event.type}/received`,
           order_id: orderId ?? null,
           extra: {
             session_id: session.id,
@@ -535,32 +685,44 @@ export default async function handler(
           },
         });
 
+        // Direct Debit: the mandate is set up but the money takes a few
+        // days – keep the slot and let async_payment_succeeded do the rest
+        if (session.payment_status === "unpaid") {
+          if (orderId) {
+            await sb()
+              .from("orders")
+              .update({
+                stripe_session_id: session.id,
+                stripe_payment_intent: piId ?? null,
+              } as any)
+              .eq("id", orderId);
+            await recordOrderEvent({
+              orderId,
+              event: "payment",
+              actor: "system:stripe",
+              reason: "Direct Debit submitted – waiting for it to clear",
+              meta: { session_id: session.id, pi_id: piId ?? null },
+            });
+          }
+          await confirmDeliveryBooking(orderId);
+          await logRow({
+            event_type: "checkout_payment_processing",
+            order_id: orderId ?? null,
+            status: "processing",
+            extra: { session_id: session.id, pi_id: piId },
+          });
+          break;
+        }
+
         // Mark order as paid
         if (orderId) {
-const { error } = await sb()
-  .from("orders")
-  .update({
-    status: "paid",
-    paid_at: new Date().toISOString(),
-    stripe_session_id: session.id,
-    stripe_payment_intent: piId ?? null,
-
-    // 👇 NEW – mark this order ready to send to Xero
-    xero_sync_status: "pending",
-    xero_sync_error: null,
-    xero_invoice_id: null,
-    xero_invoice_number: null,
-  } as any)
-  .eq("id", orderId);
-
-
-          if (error)
-            throw new Error(`Supabase order update failed: ${error.message}`);
-
-          await logRow({
-            event_type: "order_updated_to_paid",
-            order_id: orderId,
-            status: "paid",
+          await markOrderPaid({
+            orderId,
+            fields: {
+              stripe_session_id: session.id,
+              stripe_payment_intent: piId ?? null,
+            },
+            meta: { session_id: session.id, pi_id: piId ?? null },
           });
         } else {
           await logRow({
@@ -585,12 +747,35 @@ const { error } = await sb()
           email:
             (session.customer_details?.email ||
               session.customer_email ||
-              (session.metadata as any)?.email) ?? null,
+              readOrderMetadata(session.metadata).email) ?? null,
           order_id: orderId ?? null,
           cs_id: session.id,
           meta: session.metadata ? { ...(session.metadata as any) } : null,
         });
 
+        // Paid – the held delivery slot is now firm
+        await confirmDeliveryBooking(orderId);
+
+        // Margin ledger (commission snapshot + Stripe fee)
+        if (orderId) {
+          const ledger = await recordOrderLedger({
+            stripe,
+            orderId,
+            paymentIntentId: piId,
+          });
+          if (ledger) {
+            await logRow({
+              event_type: "order_ledger_recorded",
+              order_id: orderId,
+              extra: {
+                platform_fee_pence: ledger.platform_fee_pence,
+                stripe_fee_pence: ledger.stripe_fee_pence,
+                net_margin_pence: ledger.net_margin_pence,
+              },
+            });
+          }
+        }
+
         // Idempotency: if we already sent an invoice for this order, skip.
         if (await invoiceAlreadySent(orderId)) {
           await logRow({
@@ -615,7 +800,7 @@ const { error } = await sb()
 
         const dateISO =
           toISODate(order?.delivery_date) ||
-          toISODate((session.metadata as any)?.deliveryDate) ||
+          toISODate(readOrderMetadata(session.metadata).deliveryDate) ||
           new Date().toISOString();
 
         const emailLower =
@@ -623,7 +808,7 @@ const { error } = await sb()
             order?.user_email ||
             session.customer_details?.email ||
             session.customer_email ||
-            (session.metadata as any)?.email ||
+            readOrderMetadata(session.metadata).email ||
             ""
           )
             .toString()
@@ -642,8 +827,9 @@ const { error } = await sb()
           currency: (session.currency || "gbp").toUpperCase(),
           meta: {
             orderId: orderId ?? undefined,
-            notes: (session.metadata as any)?.notes ?? undefined,
+            notes: readOrderMetadata(session.metadata).notes ?? undefined,
             dateISO,
+            ...priceBandMeta(order),
           },
         };
 
@@ -676,12 +862,43 @@ const { error } = await sb()
         const pi = event.data.object as Stripe.PaymentIntent;
         const piId = pi.id;
 
-        const orderId =
-          (pi.metadata as any)?.order_id ||
-          (typeof pi.latest_charge === "string"
-            ? (await stripe.charges.retrieve(pi.latest_charge)).metadata
-                ?.order_id
-            : undefined);
+        // top-up for a customer amendment (lib/order-changes) – not an
+        // order payment, so none of the invoice / refinery flow below
+        if (pi.metadata?.order_change_id) {
+          const result = await completeOrderChange(pi.metadata.order_change_id);
+          await logRow({
+            event_type: "order_change_top_up_succeeded",
+            order_id: pi.metadata.order_ref ?? null,
+            error: result.ok ? null : result.error,
+            extra: { pi_id: piId, order_change_id: pi.metadata.order_change_id },
+          });
+          break;
+        }
+
+        // over-delivery charge (lib/delivery-variance) – likewise
+        if (pi.metadata?.order_variance_id) {
+          const result = await completeVariance(pi.metadata.order_variance_id);
+          await logRow({
+            event_type: "delivery_variance_charge_succeeded",
+            order_id: pi.metadata.order_ref ?? null,
+            error: result.ok ? null : result.error,
+            extra: { pi_id: piId, order_variance_id: pi.metadata.order_variance_id },
+          });
+          break;
+        }
+
+        // Checkout payments (card or Direct Debit) are handled by the
+        // checkout.session.* events above
+        if (await hasCheckoutSessionForPI(piId)) {
+          await logRow({
+            event_type: "payment_intent.succeeded/checkout_handled",
+            order_id: readOrderMetadata(pi.metadata).orderId,
+            extra: { pi_id: piId },
+          });
+          break;
+        }
+
+        const orderId = await orderIdForPaymentIntent(pi);
 
         // Fetch order row (may be null)
         const orderRow = await fetchOrder(orderId);
@@ -694,28 +911,7 @@ const { error } = await sb()
 
         // Mark order as paid in Supabase if we have an orderId
         if (orderId) {
-const { error } = await sb()
-  .from("orders")
-  .update({
-    status: "paid",
-    paid_at: new Date().toISOString(),
-
-    // 👇 NEW – mark this order ready to send to Xero
-    xero_sync_status: "pending",
-    xero_sync_error: null,
-    xero_invoice_id: null,
-    xero_invoice_number: null,
-  } as any)
-  .eq("id", orderId);
-
-          if (error)
-            throw new Error(`Supabase update failed: ${error.message}`);
-
-          await logRow({
-            event_type: "order_updated_to_paid",
-            order_id: orderId,
-            status: "paid",
-          });
+          await markOrderPaid({ orderId, meta: { pi_id: piId } });
         }
 
         // Upsert payment row
@@ -725,11 +921,34 @@ const { error } = await sb()
           currency: (pi.currency || "gbp").toUpperCase(),
           status: pi.status,
           email:
-            (pi.receipt_email || (pi.metadata as any)?.customer_email) ?? null,
+            (pi.receipt_email || readOrderMetadata(pi.metadata).email) ?? null,
           order_id: orderId ?? null,
           meta: pi.metadata ?? null,
         });
 
+        // Paid – the held delivery slot is now firm
+        await confirmDeliveryBooking(orderId);
+
+        // Margin ledger (commission snapshot + Stripe fee)
+        if (orderId) {
+          const ledger = await recordOrderLedger({
+            stripe,
+            orderId,
+            paymentIntentId: piId,
+          });
+          if (ledger) {
+            await logRow({
+              event_type: "order_ledger_recorded",
+              order_id: orderId,
+              extra: {
+                platform_fee_pence: ledger.platform_fee_pence,
+                stripe_fee_pence: ledger.stripe_fee_pence,
+                net_margin_pence: ledger.net_margin_pence,
+              },
+            });
+          }
+        }
+
         // Idempotency: if already invoiced for this order, skip
         if (await invoiceAlreadySent(orderId)) {
           await logRow({
@@ -749,7 +968,7 @@ const { error } = await sb()
           }) ?? [];
 
         if (!items.length) {
-          const litres = Number((pi.metadata as any)?.litres || 1);
+          const litres = readOrderMetadata(pi.metadata).litres || 1;
           const totalMajor = ((pi.amount_received ?? pi.amount) || 0) / 100;
           const desc = (pi.metadata as any)?.description || "Payment";
           items = [{ description: desc, litres, total: totalMajor }];
@@ -757,13 +976,13 @@ const { error } = await sb()
 
         const dateISO =
           toISODate(orderRow?.delivery_date) ||
-          toISODate((pi.metadata as any)?.deliveryDate) ||
+          toISODate(readOrderMetadata(pi.metadata).deliveryDate) ||
           new Date().toISOString();
 
         const emailLower = (
           orderRow?.user_email ||
           pi.receipt_email ||
-          (pi.metadata as any)?.customer_email ||
+          readOrderMetadata(pi.metadata).email ||
           ""
         )
           .toString()
@@ -786,8 +1005,9 @@ const { error } = await sb()
           currency: (pi.currency || "gbp").toUpperCase(),
           meta: {
             orderId: orderId ?? undefined,
-            notes: (pi.metadata as any)?.notes ?? undefined,
+            notes: readOrderMetadata(pi.metadata).notes ?? undefined,
             dateISO,
+            ...priceBandMeta(orderRow),
           },
         });
 
@@ -810,9 +1030,109 @@ const { error } = await sb()
         break;
       }
 
+      case "payment_intent.payment_failed": {
+        // Only Direct Debits fail after the customer has left – card
+        // declines are retried in Checkout / reported to the caller
+        const pi = event.data.object as Stripe.PaymentIntent;
+        const methodType = pi.last_payment_error?.payment_method?.type;
+
+        if (pi.metadata?.order_change_id) {
+          await failOrderChange(
+            pi.metadata.order_change_id,
+            pi.last_payment_error?.message || "Top-up payment failed"
+          );
+          await logRow({
+            event_type: "order_change_top_up_failed",
+            order_id: pi.metadata.order_ref ?? null,
+            error: pi.last_payment_error?.message ?? null,
+            extra: { pi_id: pi.id, order_change_id: pi.metadata.order_change_id },
+          });
+          break;
+        }
+
+        if (pi.metadata?.order_variance_id) {
+          await failVarianceCharge(
+            pi.metadata.order_variance_id,
+            pi.last_payment_error?.message || "Variance charge failed"
+          );
+          await logRow({
+            event_type: "delivery_variance_charge_failed",
+            order_id: pi.metadata.order_ref ?? null,
+            error: pi.last_payment_error?.message ?? null,
+            extra: { pi_id: pi.id, order_variance_id: pi.metadata.order_variance_id },
+          });
+          break;
+        }
+
+        const orderId = await orderIdForPaymentIntent(pi);
+        if (orderId && methodType === "bacs_debit") {
+          await failDirectDebitOrder(
+            orderId,
+            pi.last_payment_error?.message || "Direct Debit failed",
+            { pi_id: pi.id }
+          );
+        }
+        await logRow({
+          event_type: "payment_intent.payment_failed",
+          order_id: orderId,
+          status: "payment_failed",
+          error: pi.last_payment_error?.message ?? null,
+          extra: { pi_id: pi.id, payment_method_type: methodType ?? null },
+        });
+        break;
+      }
+
+      case "checkout.session.async_payment_failed": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        const piId =
+          typeof session.payment_intent === "string"
+            ? session.payment_intent
+            : session.payment_intent?.id || null;
+        const orderId = readOrderMetadata(session.metadata).orderId || null;
+
+        let reason = "Direct Debit failed";
+        if (piId) {
+          try {
+            const pi = await stripe.paymentIntents.retrieve(piId);
+            reason = pi.last_payment_error?.message || reason;
+          } catch (e) {
+            console.error("[webhook] failed to fetch PI for failed debit", e);
+          }
+        }
+
+        if (orderId) {
+          await failDirectDebitOrder(orderId, reason, {
+            session_id: session.id,
+            pi_id: piId,
+          });
+        }
+        await logRow({
+          event_type: "checkout_async_payment_failed",
+          order_id: orderId,
+          status: "payment_failed",
+          error: reason,
+          extra: { session_id: session.id, pi_id: piId },
+        });
+        break;
+      }
+
       /* ============================================================
          REFUNDS (full & partial)
          ============================================================ */
+      case "checkout.session.expired": {
+        // customer never paid – cancel the order, give the lock / slot back
+        const session = event.data.object as Stripe.Checkout.Session;
+        const orderId = readOrderMetadata(session.metadata).orderId || null;
+
+        if (orderId) await expirePendingOrder(orderId);
+        await logRow({
+          event_type: "checkout_session_expired",
+          order_id: orderId,
+          extra: { session_id: session.id },
+        });
+        break;
+      }
+
       case "charge.refunded": {
         const charge = event.data.object as Stripe.Charge;
         const piId =
@@ -821,12 +1141,12 @@ const { error } = await sb()
             : charge.payment_intent?.id || null;
 
         let orderId: string | null =
-          (charge.metadata as any)?.order_id || null;
+          readOrderMetadata(charge.metadata).orderId || null;
 
         if (!orderId && piId) {
           try {
             const pi = await stripe.paymentIntents.retrieve(piId);
-            orderId = (pi.metadata as any)?.order_id || null;
+            orderId = readOrderMetadata(pi.metadata).orderId || null;
           } catch (e) {
             console.error("[webhook] refund: failed to fetch PI", e);
           }
@@ -856,6 +1176,32 @@ const { error } = await sb()
               `Supabase order refund update failed: ${error.message}`
             );
 
+          const refundMeta = { charge_id: charge.id, total, refunded };
+          if (newStatus === "refunded") {
+            const moved = await transitionOrder({
+              orderId,
+              to: "refunded",
+              actor: "system:stripe",
+              reason: "Payment refunded in full",
+              meta: refundMeta,
+            });
+            if (!moved.ok) {
+              await logRow({
+                event_type: "order_refund_transition_skipped",
+                order_id: orderId,
+                error: moved.error,
+              });
+            }
+          } else if (newStatus === "partially_refunded") {
+            await recordOrderEvent({
+              orderId,
+              event: "refund",
+              actor: "system:stripe",
+              reason: "Partial refund",
+              meta: refundMeta,
+            });
+          }
+
           await logRow({
             event_type: "order_refund_status_update",
             order_id: orderId,
@@ -880,6 +1226,10 @@ const { error } = await sb()
           });
         }
 
+        if (orderId && refunded != null) {
+          await recordLedgerRefund(orderId, refunded);
+        }
+
         // Record refund in payments table as a negative amount
         const currency = (charge.currency || "gbp").toUpperCase();
         const refundAmount =
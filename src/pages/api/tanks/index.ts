@@ -0,0 +1,112 @@
+// src/pages/api/tanks/index.ts
+// Customer tanks (Authorization: Bearer <jwt>).
+//   GET ?siteId=                                   -> my tanks (+ estimated level)
+//   POST { siteId, name, fuel, capacityL, … }      -> add a tank to one of my sites
+//   PATCH { id, …fields }                          -> update a tank
+//   DELETE ?id=                                    -> archive a tank
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { loadSiteForCustomer } from "@/lib/customer-sites";
+import {
+  TANK_COLUMNS,
+  estimateTankLevels,
+  loadTanks,
+  tankFromRow,
+  tankInputToRow,
+  type TankInput,
+} from "@/lib/tanks";
+
+const MAX_TANKS_PER_SITE = 20;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    if (req.method === "GET") {
+      const siteId =
+        typeof req.query.siteId === "string" ? req.query.siteId : undefined;
+      const tanks = await loadTanks({ email, siteId });
+      const estimates = await estimateTankLevels(tanks);
+      return res.status(200).json({
+        tanks: tanks.map((t) => ({ ...t, estimate: estimates.get(t.id) ?? null })),
+      });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as TankInput & { siteId?: string };
+      if (!body.siteId) return res.status(400).json({ error: "Missing siteId" });
+
+      const site = await loadSiteForCustomer(body.siteId, email);
+      if (!site) return res.status(404).json({ error: "Site not found" });
+
+      const { count } = await supabaseAdmin
+        .from("tanks")
+        .select("id", { count: "exact", head: true })
+        .eq("site_id", site.id)
+        .is("archived_at", null);
+      if ((count || 0) >= MAX_TANKS_PER_SITE) {
+        return res.status(400).json({
+          error: `A site can have up to ${MAX_TANKS_PER_SITE} tanks`,
+        });
+      }
+
+      const mapped = tankInputToRow(body);
+      if (!mapped.ok) return res.status(400).json({ error: mapped.error });
+
+      const { data, error } = await supabaseAdmin
+        .from("tanks")
+        .insert({ ...mapped.row, site_id: site.id, user_email: email } as any)
+        .select(TANK_COLUMNS)
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ tank: tankFromRow(data) });
+    }
+
+    if (req.method === "PATCH") {
+      const body = (req.body || {}) as TankInput & { id?: string };
+      if (!body.id) return res.status(400).json({ error: "Missing id" });
+
+      const mapped = tankInputToRow(body, true);
+      if (!mapped.ok) return res.status(400).json({ error: mapped.error });
+      if (!Object.keys(mapped.row).length) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("tanks")
+        .update({ ...mapped.row, updated_at: new Date().toISOString() } as any)
+        .eq("id", body.id)
+        .eq("user_email", email)
+        .is("archived_at", null)
+        .select(TANK_COLUMNS)
+        .maybeSingle();
+      if (error) return res.status(500).json({ error: error.message });
+      if (!data) return res.status(404).json({ error: "Tank not found" });
+      return res.status(200).json({ tank: tankFromRow(data) });
+    }
+
+    if (req.method === "DELETE") {
+      const id = typeof req.query.id === "string" ? req.query.id : "";
+      if (!id) return res.status(400).json({ error: "Missing id" });
+
+      const { error } = await supabaseAdmin
+        .from("tanks")
+        .update({ archived_at: new Date().toISOString() } as any)
+        .eq("id", id)
+        .eq("user_email", email);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader("Allow", "GET, POST, PATCH, DELETE");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[tanks] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
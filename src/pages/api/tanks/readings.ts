@@ -0,0 +1,125 @@
+// src/pages/api/tanks/readings.ts
+// Tank dip readings (Authorization: Bearer <jwt>).
+// Customers can read / add readings for their own tanks; admins (drivers
+// and ops) for any tank.
+//   GET ?tankId=&limit=                                  -> recent readings
+//   POST { tankId, litres | percent, readAt?, note? }    -> add a reading
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail, isAdminEmail } from "@/lib/api-auth";
+import { TANK_COLUMNS, tankFromRow } from "@/lib/tanks";
+
+const READING_COLUMNS =
+  "id,tank_id,litres,entered_percent,read_at,source,submitted_by,note,created_at";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    const tankId =
+      req.method === "GET"
+        ? typeof req.query.tankId === "string"
+          ? req.query.tankId
+          : ""
+        : String((req.body || {}).tankId || "");
+    if (!tankId) return res.status(400).json({ error: "Missing tankId" });
+
+    const { data: tankRow, error: tankErr } = await supabaseAdmin
+      .from("tanks")
+      .select(TANK_COLUMNS)
+      .eq("id", tankId)
+      .is("archived_at", null)
+      .maybeSingle();
+    if (tankErr) return res.status(500).json({ error: tankErr.message });
+
+    const tank = tankRow ? tankFromRow(tankRow) : null;
+    const admin = await isAdminEmail(email);
+    if (!tank || (tank.userEmail !== email && !admin)) {
+      return res.status(404).json({ error: "Tank not found" });
+    }
+
+    if (req.method === "GET") {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 200);
+      const { data, error } = await supabaseAdmin
+        .from("tank_readings")
+        .select(READING_COLUMNS)
+        .eq("tank_id", tank.id)
+        .order("read_at", { ascending: false })
+        .limit(limit);
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ readings: data || [] });
+    }
+
+    if (req.method === "POST") {
+      const body = (req.body || {}) as {
+        litres?: number | string | null;
+        percent?: number | string | null;
+        readAt?: string | null;
+        note?: string | null;
+      };
+
+      const hasLitres = body.litres != null && body.litres !== "";
+      const hasPercent = body.percent != null && body.percent !== "";
+      if (hasLitres === hasPercent) {
+        return res
+          .status(400)
+          .json({ error: "Give the reading in litres or as a percentage" });
+      }
+
+      let litres: number;
+      let enteredPercent: number | null = null;
+      if (hasPercent) {
+        enteredPercent = Number(body.percent);
+        if (!Number.isFinite(enteredPercent) || enteredPercent < 0 || enteredPercent > 100) {
+          return res.status(400).json({ error: "percent must be 0–100" });
+        }
+        litres = (tank.capacityL * enteredPercent) / 100;
+      } else {
+        litres = Number(body.litres);
+        if (!Number.isFinite(litres) || litres < 0) {
+          return res.status(400).json({ error: "Invalid litres" });
+        }
+        if (litres > tank.capacityL) {
+          return res.status(400).json({
+            error: `Reading is above the tank capacity (${tank.capacityL.toLocaleString()} L)`,
+          });
+        }
+      }
+
+      const readAt = body.readAt ? new Date(body.readAt) : new Date();
+      if (Number.isNaN(readAt.getTime())) {
+        return res.status(400).json({ error: "Invalid readAt" });
+      }
+      // a little slack for clock drift on phones
+      if (readAt.getTime() > Date.now() + 5 * 60_000) {
+        return res.status(400).json({ error: "Reading time is in the future" });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from("tank_readings")
+        .insert({
+          tank_id: tank.id,
+          litres: Math.round(litres * 10) / 10,
+          entered_percent: enteredPercent,
+          read_at: readAt.toISOString(),
+          source: tank.userEmail === email ? "customer" : "driver",
+          submitted_by: email,
+          note: body.note ? String(body.note).trim().slice(0, 500) || null : null,
+        } as any)
+        .select(READING_COLUMNS)
+        .single();
+      if (error) return res.status(500).json({ error: error.message });
+      return res.status(200).json({ reading: data });
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (e: any) {
+    console.error("[tank-readings] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
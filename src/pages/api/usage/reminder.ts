@@ -3,6 +3,32 @@
 
 import type { NextApiRequest, NextApiResponse } from "next";
 import supabaseAdmin from "@/lib/supabaseAdmin";
+import { loadSitesForCustomer } from "@/lib/customer-sites";
+import { estimateTankLevels, loadTanks } from "@/lib/tanks";
+import { isSandboxEmail, sandboxReminder } from "@/lib/sandbox";
+import {
+  forecastConsumption,
+  historyDailyRate,
+  type ConsumptionForecast,
+} from "@/lib/consumption-forecast";
+
+type TankReminder = {
+  tankId: string;
+  tankName: string;
+  siteId: string;
+  siteName: string | null;
+  fuel: "petrol" | "diesel";
+  capacityL: number;
+  monthlyConsumptionL: number | null;
+  percentFull: number;
+  estimatedLitresLeft: number;
+  daysSinceLastDelivery: number | null;
+  lastReadingAt: string | null;
+  /** burn rate learned from dip readings */
+  calibrated: boolean;
+  showReminder: boolean;
+  forecast: ConsumptionForecast | null;
+};
 
 type ReminderResponse =
   | { ok: false; reason: string }
@@ -15,6 +41,10 @@ type ReminderResponse =
       estimatedLitresLeft?: number;
       contractTankSize?: number | null;
       contractMonthlyConsumption?: number | null;
+      /** predicted run-out date with confidence band */
+      forecast?: ConsumptionForecast | null;
+      /** per-tank estimates (customers with tanks on file) */
+      tanks?: TankReminder[];
     };
 
 export default async function handler(
@@ -49,20 +79,74 @@ export default async function handler(
     const emailLower = (user.email || "").toLowerCase();
 
     /* ---------------------------------------------------
-       1b) OPTIONAL: force a demo reminder for your test account
-           (remove this block when you go fully live)
+       1b) Sandbox (demo / QA) accounts get fixture data
        --------------------------------------------------- */
-    if (emailLower === "fuelflow.queries@gmail.com") {
+    if (await isSandboxEmail(emailLower)) {
+      return res.status(200).json(sandboxReminder());
+    }
+
+    // 30% threshold for "running low"
+    const threshold = 0.3;
+
+    /* ---------------------------------------------------
+       1c) Tanks on file: estimate each tank, remind on the lowest
+       --------------------------------------------------- */
+    const tanks = await loadTanks({ email: emailLower });
+    if (tanks.length) {
+      const [estimates, sites] = await Promise.all([
+        estimateTankLevels(tanks),
+        loadSitesForCustomer(emailLower),
+      ]);
+      const siteName = new Map(sites.map((s) => [s.id, s.name]));
+
+      const rows: TankReminder[] = [];
+      for (const t of tanks) {
+        const est = estimates.get(t.id);
+        if (!est) continue;
+        rows.push({
+          tankId: t.id,
+          tankName: t.name,
+          siteId: t.siteId,
+          siteName: siteName.get(t.siteId) ?? null,
+          fuel: t.fuel,
+          capacityL: t.capacityL,
+          monthlyConsumptionL: t.monthlyConsumptionL,
+          percentFull: est.percentFull,
+          estimatedLitresLeft: Math.round(est.estimatedLitresLeft),
+          daysSinceLastDelivery:
+            est.daysSinceLastDelivery != null
+              ? Math.round(est.daysSinceLastDelivery * 10) / 10
+              : null,
+          lastReadingAt: est.lastReadingAt,
+          calibrated: est.dailyUseSource === "readings",
+          showReminder: est.percentFull <= threshold,
+          forecast: est.forecast,
+        });
+      }
+      rows.sort((a, b) => a.percentFull - b.percentFull);
+
+      const lowest = rows[0];
+      if (!lowest) {
+        return res.status(200).json({ ok: true, showReminder: false, tanks: [] });
+      }
+
+      const label = [lowest.siteName, lowest.tankName].filter(Boolean).join(" – ");
+      const percentDisplay = Math.round(lowest.percentFull * 100);
       return res.status(200).json({
         ok: true,
-        showReminder: true,
-        message:
-          "Demo: Based on your test data we think you might want to schedule a top-up soon. This is only a preview of the reminder card.",
-        percentFull: 0.35, // 35% full (example)
-        daysSinceLastDelivery: 25,
-        estimatedLitresLeft: 1750,
-        contractTankSize: 5000,
-        contractMonthlyConsumption: 2000,
+        showReminder: lowest.showReminder,
+        message: lowest.showReminder
+          ? `Based on ${
+              lowest.lastReadingAt ? "your latest dip reading" : "recent deliveries"
+            } and ${lowest.calibrated ? "measured" : "typical"} usage, ${label} may be around ${percentDisplay}% full or lower. You may want to schedule a delivery.`
+          : `Your lowest tank (${label}) is estimated at around ${percentDisplay}% full.`,
+        percentFull: lowest.percentFull,
+        daysSinceLastDelivery: lowest.daysSinceLastDelivery ?? undefined,
+        estimatedLitresLeft: lowest.estimatedLitresLeft,
+        contractTankSize: lowest.capacityL,
+        contractMonthlyConsumption: lowest.monthlyConsumptionL,
+        forecast: lowest.forecast,
+        tanks: rows,
       });
     }
 
@@ -112,22 +196,23 @@ export default async function handler(
     const dailyUseL = monthlyUseL / 30;
 
     /* ---------------------------------------------------
-       3) Last delivery / order
+       3) Delivery history (newest first) / last order
        --------------------------------------------------- */
-    const { data: lastOrder, error: orderErr } = await supabaseAdmin
+    const { data: orderRows, error: orderErr } = await supabaseAdmin
       .from("orders")
-      .select("id, email, user_email, litres, delivery_date, created_at")
+      .select("id, email, user_email, litres, delivered_litres, delivery_date, created_at")
       // handle either email or user_email column
       .or(`email.eq.${emailLower},user_email.eq.${emailLower}`)
       .order("delivery_date", { ascending: false, nullsFirst: false })
       .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .limit(200);
 
     if (orderErr) {
       return res.status(500).json({ ok: false, reason: orderErr.message });
     }
 
+    const lastOrder = (orderRows || [])[0];
+
     if (!lastOrder) {
       // No orders yet – no "running low" reminder
       return res.status(200).json({
@@ -155,7 +240,9 @@ export default async function handler(
     const msDiff = now.getTime() - deliveryDate.getTime();
     const daysSince = msDiff / (1000 * 60 * 60 * 24);
 
-    const rawDelivered = Number((lastOrder as any).litres) || 0;
+    // proof of delivery when we have it, else what was ordered
+    const rawDelivered =
+      Number((lastOrder as any).delivered_litres ?? (lastOrder as any).litres) || 0;
 
     /* ---------------------------------------------------
        4) COMMON-SENSE SANITY CHECKS
@@ -187,23 +274,39 @@ export default async function handler(
     // 4b) Clamp delivered litres so it never exceeds tank capacity
     const deliveredLitres = Math.min(rawDelivered, tankSizeL);
 
+    // 4c) Normal deliveries (oldest first) for the history-based rate
+    const history = ((orderRows || []) as any[])
+      .map((o) => ({
+        at: new Date(o.delivery_date || o.created_at),
+        litres: Number(o.delivered_litres ?? o.litres) || 0,
+      }))
+      .filter((d) => !Number.isNaN(d.at.getTime()) && d.litres >= minValidDelivery)
+      .reverse();
+
     /* ---------------------------------------------------
        5) Estimate tank level
        --------------------------------------------------- */
 
-    const estimatedUsed = Math.max(dailyUseL * daysSince, 0);
+    // actual usage from the delivery history, declared usage until we have it
+    const rateL = historyDailyRate(history, now) ?? dailyUseL;
+    const estimatedUsed = Math.max(rateL * daysSince, 0);
     const estimatedLeft = Math.max(deliveredLitres - estimatedUsed, 0);
 
     const percentFull = tankSizeL
       ? Math.max(Math.min(estimatedLeft / tankSizeL, 1), 0)
       : 0;
 
-    // 30% threshold for "running low"
-    const threshold = 0.3;
     const showReminder = percentFull <= threshold;
 
     const percentDisplay = Math.round(percentFull * 100);
 
+    const forecast = forecastConsumption({
+      deliveries: history,
+      currentLitres: estimatedLeft,
+      monthlyConsumptionL: monthlyUseL,
+      now,
+    });
+
     const message = showReminder
       ? `Based on your last normal delivery and typical usage, your tank may be around ${percentDisplay}% full or lower. You may want to schedule a delivery.`
       : `Your estimated tank level is around ${percentDisplay}% full based on your recent usage.`;
@@ -221,6 +324,7 @@ export default async function handler(
       estimatedLitresLeft: Math.round(estimatedLeft),
       contractTankSize: tankSizeL,
       contractMonthlyConsumption: monthlyUseL,
+      forecast,
     });
   } catch (e: any) {
     console.error("usage reminder error", e);
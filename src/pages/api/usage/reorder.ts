@@ -0,0 +1,69 @@
+// src/pages/api/usage/reorder.ts
+// "Reorder same as last time" link from low-fuel alert emails.
+//   GET ?token=<low_fuel_alerts.reorder_token> (Authorization: Bearer <jwt>)
+//   -> the previous order's fuel, litres and delivery address, which
+//      /order pre-fills (the customer still picks a day and pays).
+import type { NextApiRequest, NextApiResponse } from "next";
+import supabaseAdmin from "@/lib/supabaseAdmin";
+import { getBearerEmail } from "@/lib/api-auth";
+import { reorderFromOrder } from "@/lib/low-fuel-alerts";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const email = await getBearerEmail(req);
+  if (!email) return res.status(401).json({ error: "Not authenticated" });
+
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  if (!UUID_RE.test(token)) {
+    return res.status(400).json({ error: "Invalid reorder link" });
+  }
+
+  try {
+    const { data: alert, error } = await supabaseAdmin
+      .from("low_fuel_alerts")
+      .select("id, user_email, reorder_order_id, reorder_clicked_at")
+      .eq("reorder_token", token)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+
+    // someone else's link is treated as unknown
+    if (!alert || String(alert.user_email).toLowerCase() !== email) {
+      return res.status(404).json({ error: "Reorder link not found" });
+    }
+    if (!alert.reorder_order_id) {
+      return res.status(404).json({ error: "No previous order to repeat" });
+    }
+
+    const { data: order, error: orderErr } = await supabaseAdmin
+      .from("orders")
+      .select(
+        "id,fuel,litres,name,address_line1,address_line2,city,postcode,site_id,tank_id"
+      )
+      .eq("id", alert.reorder_order_id)
+      .maybeSingle();
+    if (orderErr) return res.status(500).json({ error: orderErr.message });
+    if (!order) return res.status(404).json({ error: "No previous order to repeat" });
+
+    if (!alert.reorder_clicked_at) {
+      await supabaseAdmin
+        .from("low_fuel_alerts")
+        .update({ reorder_clicked_at: new Date().toISOString() })
+        .eq("id", alert.id);
+    }
+
+    return res.status(200).json({ reorder: reorderFromOrder(order) });
+  } catch (e: any) {
+    console.error("[reorder] error:", e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
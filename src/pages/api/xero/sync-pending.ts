@@ -6,8 +6,11 @@ import { createClient } from "@supabase/supabase-js";
 // Adjust this import if your path/alias is different
 import {
   createXeroInvoiceForOrder,
+  createXeroVarianceDocument,
   OrderRow as XeroOrderRow,
 } from "../../../lib/xero";
+import { varianceDueDate } from "../../../lib/delivery-variance";
+import { SETTLED_ORDER_STATUSES } from "../../../lib/order-lifecycle";
 
 function sb() {
   return createClient(
@@ -24,7 +27,8 @@ export default async function handler(
   // 🔓 TEMP: no secret check – route is open.
   // We'll re-add protection once everything is working end-to-end.
 
-  // 1) Load all PAID orders that are marked as pending for Xero
+  // 1) Load all PAID (on-account, or partially refunded after an amendment)
+  //    orders that are marked as pending for Xero
   const { data: orders, error } = await sb()
     .from("orders")
     .select(
@@ -38,14 +42,19 @@ export default async function handler(
         "fuel",
         "litres",
         "unit_price_pence",
+        "delivery_surcharge_pence",
+        "price_zone_name",
         "delivery_date",
+        "created_at",
+        "paid_at",
+        "payment_due_date",
         "cost_centre",
         "subjective_code",
         "xero_sync_status",
         "status",
       ].join(",")
     )
-    .eq("status", "paid")
+    .in("status", SETTLED_ORDER_STATUSES)
     .eq("xero_sync_status", "pending")
     .limit(20);
 
@@ -73,7 +82,12 @@ export default async function handler(
         fuel: row.fuel,
         litres: row.litres,
         unit_price_pence: row.unit_price_pence,
+        delivery_surcharge_pence: row.delivery_surcharge_pence,
+        price_zone_name: row.price_zone_name,
         delivery_date: row.delivery_date,
+        created_at: row.created_at,
+        paid_at: row.paid_at,
+        payment_due_date: row.payment_due_date,
         cost_centre: row.cost_centre,
         subjective_code: row.subjective_code,
       };
@@ -143,6 +157,85 @@ export default async function handler(
     }
   }
 
+  // 4) Delivery variances (credit notes / additional invoices) queued by
+  //    lib/delivery-variance.ts once settled
+  const { data: variances, error: varErr } = await sb()
+    .from("order_variances")
+    .select(
+      "id,order_id,action,variance_litres,unit_price_pence,amount_pence,created_at,completed_at"
+    )
+    .eq("xero_sync_status", "pending")
+    .limit(20);
+
+  if (varErr) {
+    console.error("[xero] failed to fetch pending variances:", varErr);
+  }
+
+  for (const v of (variances ?? []) as any[]) {
+    const varianceId = String(v.id);
+
+    try {
+      const { data: order, error: orderErr } = await sb()
+        .from("orders")
+        .select(
+          "id,user_email,name,fuel,postcode,cost_centre,subjective_code,status,payment_due_date"
+        )
+        .eq("id", v.order_id)
+        .maybeSingle();
+      if (orderErr || !order) {
+        throw new Error(orderErr?.message || "Order not found");
+      }
+
+      const { xeroDocumentId, xeroDocumentNumber } =
+        await createXeroVarianceDocument(order as XeroOrderRow, {
+          id: varianceId,
+          varianceLitres: Number(v.variance_litres) || 0,
+          unitPricePence: Number(v.unit_price_pence) || 0,
+          amountPence: Number(v.amount_pence) || 0,
+          createdAt: v.created_at,
+          dueDate: varianceDueDate(
+            { action: v.action, completedAt: v.completed_at },
+            order as any
+          ),
+        });
+
+      await sb()
+        .from("order_variances")
+        .update({
+          xero_document_id: xeroDocumentId,
+          xero_document_number: xeroDocumentNumber ?? null,
+          xero_synced_at: new Date().toISOString(),
+          xero_sync_status: "ok",
+          xero_sync_error: null,
+        } as any)
+        .eq("id", varianceId);
+
+      results.push({
+        varianceId,
+        status: "ok",
+        xeroDocumentId,
+        xeroDocumentNumber,
+      });
+    } catch (e: any) {
+      console.error("[xero] sync failed for variance", varianceId, e);
+
+      await sb()
+        .from("order_variances")
+        .update({
+          xero_sync_status: "error",
+          xero_sync_error: e?.message || String(e),
+        } as any)
+        .eq("id", varianceId);
+
+      results.push({
+        varianceId,
+        status: "error",
+        step: "create_variance_document",
+        error: e?.message || String(e),
+      });
+    }
+  }
+
   return res.status(200).json({
     synced: results.filter((r) => r.status === "ok").length,
     results,
@@ -2,10 +2,24 @@
 // src/pages/checkout/cancel.tsx
 import Link from "next/link";
 import { useRouter } from "next/router";
+import { useEffect } from "react";
 
 export default function CancelPage() {
   const { query } = useRouter();
   const orderId = (query.orderId as string) || "";
+  const sessionId = (query.session_id as string) || "";
+
+  // free the delivery slot held for this checkout
+  useEffect(() => {
+    if (!orderId || !sessionId) return;
+    fetch("/api/checkout/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId, sessionId }),
+    }).catch(() => {
+      // the hold still expires with the Stripe session
+    });
+  }, [orderId, sessionId]);
 
   return (
     <main className="min-h-screen relative overflow-hidden bg-[#061B34] text-white">
@@ -15,13 +15,18 @@ function ellipsize(id?: string, left = 10, right = 8) {
 export default function SuccessPage() {
   const { query } = useRouter();
   const sessionId = (query.session_id as string) || "";
+  // sandbox accounts skip Stripe entirely (see lib/sandbox.ts)
+  const sandbox = query.sandbox === "1";
+  // orders on a credit account skip Stripe too (see lib/credit-accounts.ts)
+  const onAccount = query.on_account === "1";
+  const accountOrderId = (query.orderId as string) || "";
 
   const [orderId, setOrderId] = useState<string>("");
   const [copied, setCopied] = useState<"session" | "order" | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Fallback: if no order id yet, show session id as reference
-  const orderRefToShow = orderId || sessionId;
+  const orderRefToShow = orderId || accountOrderId || sessionId;
 
   const sessionShort = useMemo(() => ellipsize(sessionId), [sessionId]);
   const orderShort = useMemo(
@@ -114,21 +119,31 @@ export default function SuccessPage() {
           </div>
 
           <h1 className="text-center text-3xl md:text-4xl font-extrabold tracking-tight">
-            Thanks! Payment received ✅
+            {sandbox
+              ? "Sandbox order placed ✅"
+              : onAccount
+              ? "Thanks! Order placed on account ✅"
+              : "Thanks! Payment received ✅"}
           </h1>
           <p className="mt-2 text-center text-white/70">
-            We’ve confirmed your payment and saved your order details.
+            {sandbox
+              ? "This is a sandbox account – no payment was taken and no order was created."
+              : onAccount
+              ? "Your order has been charged to your credit account – no payment is needed now."
+              : "We’ve confirmed your payment and saved your order details."}
           </p>
 
           {/* Details card */}
           <div className="mt-6 grid gap-3 rounded-2xl border border-white/10 bg-[#0B274B]/60 p-4 sm:p-5">
-            <Row
-              label="Payment session"
-              value={sessionShort}
-              fullValue={sessionId}
-              onCopy={() => copy(sessionId, "session")}
-              copied={copied === "session"}
-            />
+            {!onAccount && (
+              <Row
+                label="Payment session"
+                value={sessionShort}
+                fullValue={sessionId}
+                onCopy={() => copy(sessionId, "session")}
+                copied={copied === "session"}
+              />
+            )}
             <Row
               label="Order reference"
               value={orderShort}
@@ -137,8 +152,9 @@ export default function SuccessPage() {
               copied={copied === "order"}
             />
             <div className="mt-1 rounded-xl border border-white/10 bg-white/5 p-3 text-sm text-white/70">
-              You’ll receive an email receipt from Stripe. A FuelFlow invoice/dispatch
-              confirmation will follow shortly.
+              {onAccount
+                ? "Your invoice, with its payment due date, is on its way by email."
+                : "You’ll receive an email receipt from Stripe. A FuelFlow invoice/dispatch confirmation will follow shortly."}
             </div>
             {error && (
               <div className="mt-2 rounded border border-rose-400/40 bg-rose-500/10 px-3 py-2 text-xs text-rose-100">
@@ -7,6 +7,22 @@ import type { GetServerSideProps } from "next";
 import { createClient } from "@supabase/supabase-js";
 import { getServerSupabase } from "@/lib/supabase-server";
 import { OrderAIChat } from "@/components/OrderAIChat";
+import PriceHistoryChart from "@/components/PriceHistoryChart";
+import PriceAlerts from "@/components/PriceAlerts";
+import CustomerSites from "@/components/CustomerSites";
+import DipReadings from "@/components/DipReadings";
+import RecurringOrders from "@/components/RecurringOrders";
+import SavedPaymentMethods, {
+  type SavedMethod,
+} from "@/components/SavedPaymentMethods";
+import OrderTimeline from "@/components/OrderTimeline";
+import OrderChangeForm from "@/components/OrderChangeForm";
+import DeliveryProof from "@/components/DeliveryProof";
+import {
+  ORDER_STATE_LABEL,
+  SETTLED_ORDER_STATUSES,
+  isOrderState,
+} from "@/lib/order-states";
 
 /* =========================
    Setup
@@ -40,6 +56,10 @@ type OrderRow = {
   unit_price_pence: number | null;
   total_pence: number | null;
   status: string | null; // payment status (legacy / backup)
+  state?: string | null; // lifecycle (lib/order-states)
+  delivery_date?: string | null;
+  refinery_notification_status?: string | null;
+  delivered_litres?: number | null; // from the proof of delivery
   fulfilment_status: string | null; // delivery status
   fulfilment_notes?: string | null; // admin → client message
 };
@@ -63,6 +83,11 @@ type UsageReminder = {
   estimatedLitresLeft?: number;
   contractTankSize?: number | null;
   contractMonthlyConsumption?: number | null;
+  siteName?: string | null;
+  /** predicted run-out date (ISO) with its band */
+  runOutDate?: string | null;
+  runOutEarliest?: string | null;
+  runOutLatest?: string | null;
 };
 
 /* =========================
@@ -105,6 +130,13 @@ export default function ClientDashboard() {
   // prices
   const [petrolPrice, setPetrolPrice] = useState<number | null>(null);
   const [dieselPrice, setDieselPrice] = useState<number | null>(null);
+  // session token for our own API routes
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+
+  // negotiated price agreement per fuel (from /api/prices)
+  const [agreements, setAgreements] = useState<
+    Partial<Record<"petrol" | "diesel", string>>
+  >({});
 
   // smart usage reminder
   const [reminder, setReminder] = useState<UsageReminder | null>(null);
@@ -116,6 +148,16 @@ export default function ClientDashboard() {
   const [visibleCount, setVisibleCount] = useState<number>(20);
   const [error, setError] = useState<string | null>(null);
 
+  // one-click reorder (saved card / Direct Debit, default first)
+  const [savedMethods, setSavedMethods] = useState<SavedMethod[]>([]);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  // request id per source order until the server answers – a retry after
+  // a dropped connection can't charge twice
+  const reorderRequestIds = useRef<Record<string, string>>({});
+  const [reorderNotice, setReorderNotice] = useState<string | null>(null);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
+  const [changeOrderId, setChangeOrderId] = useState<string | null>(null);
+
   // usage UI
   const currentYear = new Date().getFullYear();
   const currentMonthIdx = new Date().getMonth();
@@ -223,10 +265,13 @@ export default function ClientDashboard() {
       const lower = (emailLower || auth.user.email || "").toLowerCase();
       setUserEmail(lower);
 
+      const { data: sess } = await supabase.auth.getSession();
+      setAccessToken(sess?.session?.access_token ?? null);
+
             await Promise.all([
         loadLatestPrices(),
-        loadOrders(lower),
-        loadUsageReminder(lower),
+        loadOrders(sess?.session?.access_token ?? null),
+        loadUsageReminder(lower, sess?.session?.access_token ?? null),
       ]);
 
 
@@ -239,35 +284,88 @@ export default function ClientDashboard() {
     }
   }
 
-  // ----------------- Load ORDERS for this customer -----------------
-  async function loadOrders(emailLower: string) {
-    const { data: rawOrders, error: ordErr } = await supabase
-      .from("orders")
-      .select(
-        "id, created_at, user_email, fuel, litres, unit_price_pence, total_pence, status, fulfilment_status, fulfilment_notes"
+  // ----------------- One-click reorder -----------------
+  async function reorder(o: OrderWithExtras) {
+    const method = savedMethods[0];
+    if (!accessToken || !method) return;
+    if (
+      !window.confirm(
+        `Reorder ${o.litres ?? ""} L ${o.fuel ?? ""} at today's price for the earliest delivery day, paid with ${method.label}?`
       )
-      .eq("user_email", emailLower)
-      .order("created_at", { ascending: false })
-      .limit(200);
+    ) {
+      return;
+    }
+    if (reorderingId) return;
+    const requestId = (reorderRequestIds.current[o.id] ||= crypto.randomUUID());
+    try {
+      setReorderingId(o.id);
+      setReorderNotice(null);
+      setError(null);
+      const res = await fetch("/api/orders/reorder", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ orderId: o.id, requestId, paymentMethodId: method.id }),
+      });
+      const json = await res.json().catch(() => ({}));
+      // answered (placed or refused) – the next click is a new reorder
+      if (res.status !== 409) delete reorderRequestIds.current[o.id];
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+
+      const when = new Date(json.deliveryDate).toLocaleDateString("en-GB", {
+        weekday: "long",
+        day: "numeric",
+        month: "long",
+      });
+      const total =
+        json.totalPence != null ? ` for ${gbp.format(json.totalPence / 100)}` : "";
+      setReorderNotice(
+        json.paymentStatus === "processing"
+          ? `Reordered${total} for delivery on ${when}. Your Direct Debit will be collected in the next few days.`
+          : `Reordered${total} for delivery on ${when}.`
+      );
+      await loadAll();
+    } catch (e: any) {
+      setError(e?.message || "Reorder failed.");
+    } finally {
+      setReorderingId(null);
+    }
+  }
 
-    if (ordErr) throw ordErr;
+  // ----------------- Cancel / amend (lib/order-changes) -----------------
+  // the API re-checks; this only decides whether to offer the button
+  function canChange(o: OrderWithExtras) {
+    return (
+      o.state === "paid" &&
+      o.refinery_notification_status !== "sent" &&
+      SETTLED_ORDER_STATUSES.includes(o.status || "")
+    );
+  }
 
-    const ordersArr = (rawOrders || []) as OrderRow[];
-    const ids = ordersArr.map((o) => o.id).filter(Boolean);
+  async function orderChanged(message: string) {
+    setChangeOrderId(null);
+    setReorderNotice(message);
+    await loadAll();
+  }
+
+  // ----------------- Load ORDERS for this customer -----------------
+  async function loadOrders(token: string | null) {
+    // via the API so sandbox accounts get their fixture orders
+    const res = await fetch("/api/orders", {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+
+    const ordersArr = (json.orders || []) as OrderRow[];
 
     // payments
     let paymentMap = new Map<string, PaymentRow>();
-    if (ids.length) {
-      const { data: pays, error: payErr } = await supabase
-        .from("payments")
-        .select("order_id, amount, currency, status")
-        .in("order_id", ids);
-
-      if (payErr) throw payErr;
-      (pays || []).forEach((p: any) => {
-        if (p.order_id) paymentMap.set(p.order_id, p);
-      });
-    }
+    ((json.payments || []) as any[]).forEach((p) => {
+      if (p.order_id) paymentMap.set(p.order_id, p);
+    });
 
     const withTotals: OrderWithExtras[] = ordersArr.map((o) => {
       const pay = paymentMap.get(o.id || "");
@@ -345,6 +443,31 @@ export default function ClientDashboard() {
       return false;
     };
 
+    // Customer-specific prices first (agreements / contract price)
+    try {
+      const { data: sess } = await supabase.auth.getSession();
+      const token = sess?.session?.access_token;
+      if (token) {
+        const res = await fetch("/api/prices", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const rows = res.ok ? await res.json() : null;
+        if (Array.isArray(rows) && rows.length) {
+          apply(rows as Row[]);
+          const next: Partial<Record<"petrol" | "diesel", string>> = {};
+          for (const r of rows) {
+            const f = String(r?.fuel || "").toLowerCase();
+            if ((f === "petrol" || f === "diesel") && r?.agreement?.name) {
+              next[f] = r.agreement.name;
+            }
+          }
+          setAgreements(next);
+          return;
+        }
+      }
+    } catch {}
+    setAgreements({});
+
     if (await tryTable("latest_prices")) return;
     if (await tryTable("latest_fuel_prices_view")) return;
     if (await tryTable("latest_prices_view")) return;
@@ -369,8 +492,44 @@ export default function ClientDashboard() {
 
      // ---------- Usage reminder (AI-style hint) ----------
   // ---------- Usage reminder (AI-style hint, calculated here) ----------
-  async function loadUsageReminder(emailLower: string) {
+  async function loadUsageReminder(emailLower: string, token: string | null) {
     try {
+      // 0) Tanks on file – the API estimates each tank, lowest first
+      if (token) {
+        const res = await fetch("/api/usage/reminder", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const json = await res.json().catch(() => ({}));
+
+        if (res.ok && Array.isArray(json.tanks)) {
+          const lowest = json.tanks[0];
+          if (!lowest || !lowest.showReminder) {
+            setReminder(null);
+            return;
+          }
+
+          setReminder({
+            showReminder: true,
+            message: json.message,
+            percentFull: lowest.percentFull,
+            daysSinceLastDelivery:
+              lowest.daysSinceLastDelivery != null
+                ? Math.round(lowest.daysSinceLastDelivery)
+                : undefined,
+            estimatedLitresLeft: lowest.estimatedLitresLeft,
+            contractTankSize: lowest.capacityL,
+            contractMonthlyConsumption: lowest.monthlyConsumptionL,
+            siteName: [lowest.siteName, lowest.tankName]
+              .filter(Boolean)
+              .join(" – "),
+            runOutDate: lowest.forecast?.runOutDate ?? null,
+            runOutEarliest: lowest.forecast?.runOutEarliest ?? null,
+            runOutLatest: lowest.forecast?.runOutLatest ?? null,
+          });
+          return;
+        }
+      }
+
       // 1) Find relevant contracts for this email
       const { data: contractsData, error: contractsError } = await supabase
         .from("contracts")
@@ -691,6 +850,11 @@ base[m].spend  += o.amount_gbp ?? 0;
             <div className="mt-1 text-xs text-white/60">
               Refreshed: {formatShortDMY(refreshedAt)}
             </div>
+            {agreements.petrol && (
+              <div className="mt-1 text-xs text-emerald-200">
+                Your agreed price · {agreements.petrol}
+              </div>
+            )}
           </Card>
 
           <Card title="Diesel">
@@ -704,6 +868,11 @@ base[m].spend  += o.amount_gbp ?? 0;
             <div className="mt-1 text-xs text-white/60">
               Refreshed: {formatShortDMY(refreshedAt)}
             </div>
+            {agreements.diesel && (
+              <div className="mt-1 text-xs text-emerald-200">
+                Your agreed price · {agreements.diesel}
+              </div>
+            )}
           </Card>
 
           <div className="bg-gray-800 rounded-xl p-4 md:p-5 flex flex-col justify-between">
@@ -736,6 +905,7 @@ base[m].spend  += o.amount_gbp ?? 0;
                   <div>
                     <h2 className="text-sm md:text-base font-semibold text-yellow-100">
                       Smart usage reminder
+                      {reminder.siteName ? ` · ${reminder.siteName}` : ""}
                     </h2>
                     <p className="mt-1 text-xs md:text-sm text-yellow-50/90">
                       We monitor your tank size and typical usage. When we think
@@ -789,6 +959,22 @@ base[m].spend  += o.amount_gbp ?? 0;
               <div className="mt-3 rounded-lg border border-yellow-400/50 bg-[#0b1220]/70 p-3 text-xs md:text-sm text-yellow-50/95">
                 <p>{reminder.message}</p>
 
+                {reminder.runOutDate && (
+                  <p className="mt-2 text-[11px] md:text-xs text-yellow-100/90">
+                    Likely to run out around{" "}
+                    <strong>
+                      {new Date(reminder.runOutDate).toLocaleDateString("en-GB")}
+                    </strong>
+                    {reminder.runOutEarliest && reminder.runOutLatest
+                      ? ` (between ${new Date(
+                          reminder.runOutEarliest
+                        ).toLocaleDateString("en-GB")} and ${new Date(
+                          reminder.runOutLatest
+                        ).toLocaleDateString("en-GB")})`
+                      : ""}
+                  </p>
+                )}
+
                 {typeof reminder.estimatedLitresLeft === "number" &&
                   reminder.contractTankSize && (
                     <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2 text-[11px] md:text-xs">
@@ -815,7 +1001,53 @@ base[m].spend  += o.amount_gbp ?? 0;
           </section>
         )}
 
-         
+        {/* Delivery sites */}
+        {accessToken && (
+          <section className="bg-gray-800/40 rounded-xl p-4 md:p-6">
+            <h2 className="mb-3 text-xl md:text-2xl font-semibold">
+              Delivery sites
+            </h2>
+            <CustomerSites jwt={accessToken} />
+            <div className="mt-6 border-t border-white/10 pt-4">
+              <h3 className="mb-2 text-lg font-semibold">Tank dip readings</h3>
+              <DipReadings jwt={accessToken} />
+            </div>
+          </section>
+        )}
+
+        {/* Standing orders */}
+        {accessToken && (
+          <section className="bg-gray-800/40 rounded-xl p-4 md:p-6">
+            <h2 className="mb-3 text-xl md:text-2xl font-semibold">
+              Standing orders
+            </h2>
+            <RecurringOrders jwt={accessToken} />
+          </section>
+        )}
+
+        {/* Payment methods */}
+        {accessToken && (
+          <section className="bg-gray-800/40 rounded-xl p-4 md:p-6">
+            <h2 className="mb-3 text-xl md:text-2xl font-semibold">
+              Payment methods
+            </h2>
+            <SavedPaymentMethods jwt={accessToken} onChange={setSavedMethods} />
+          </section>
+        )}
+
+        {/* Price trends */}
+        <section className="bg-gray-800/40 rounded-xl p-4 md:p-6">
+          <h2 className="mb-3 text-xl md:text-2xl font-semibold">
+            Price trends
+          </h2>
+          <PriceHistoryChart />
+          {accessToken && (
+            <div className="mt-6 border-t border-white/10 pt-4">
+              <PriceAlerts jwt={accessToken} />
+            </div>
+          )}
+        </section>
+
         {/* Usage & Spend */}
         <section className="bg-gray-800/40 rounded-xl p-4 md:p-6">
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-3">
@@ -953,6 +1185,12 @@ base[m].spend  += o.amount_gbp ?? 0;
             </div>
           </div>
 
+          {reorderNotice && (
+            <div className="mb-3 rounded border border-green-400/40 bg-green-500/10 p-2 text-sm text-green-200">
+              {reorderNotice}
+            </div>
+          )}
+
           {loading ? (
             <div className="text-gray-300">Loading…</div>
           ) : orders.length === 0 ? (
@@ -966,8 +1204,11 @@ base[m].spend  += o.amount_gbp ?? 0;
                 {visibleOrders.map((o) => {
                   const payment =
                     (o.payment_status || "").toLowerCase() || "pending";
-                  const fulfil =
-                    (o.fulfilment_status || "pending").toLowerCase();
+                  const fulfil = isOrderState(o.state)
+
+                    ? o.state
+
+                    : (o.fulfilment_status || "pending").toLowerCase();
 
                   const paymentIsGood =
                     payment === "succeeded" || payment === "paid";
@@ -980,7 +1221,9 @@ base[m].spend  += o.amount_gbp ?? 0;
                   const fulfilIsMoving =
                     fulfil === "dispatched" ||
                     fulfil === "out_for_delivery" ||
-                    fulfil === "ordered";
+                    fulfil === "ordered" ||
+                    fulfil === "sent_to_refinery" ||
+                    fulfil === "scheduled";
 
                   return (
                     <div
@@ -1000,7 +1243,10 @@ base[m].spend  += o.amount_gbp ?? 0;
                           {(o.fuel as string) || "—"}
                         </div>
                         <div className="text-xs text-white/70">
-                          {o.litres ?? "—"} L
+                          {o.delivered_litres != null &&
+                          o.delivered_litres !== o.litres
+                            ? `${o.delivered_litres} L delivered (${o.litres ?? "—"} L ordered)`
+                            : `${o.litres ?? "—"} L`}
                         </div>
                       </div>
 
@@ -1019,7 +1265,7 @@ base[m].spend  += o.amount_gbp ?? 0;
                                 "bg-white/10 text-white/80"
                             )}
                           >
-                            {payment}
+                            {payment === "approved_on_account" ? "on account" : payment}
                           </span>
                         </div>
                         <div className="flex items-center justify-between gap-2">
@@ -1037,7 +1283,7 @@ base[m].spend  += o.amount_gbp ?? 0;
                                 "bg-white/10 text-white/80"
                             )}
                           >
-                            {fulfil}
+                            {isOrderState(fulfil) ? ORDER_STATE_LABEL[fulfil] : fulfil}
                           </span>
                         </div>
                       </div>
@@ -1053,9 +1299,67 @@ base[m].spend  += o.amount_gbp ?? 0;
                         </div>
                       )}
 
-                      <div className="text-[10px] text-white/40 mt-1">
-                        Order ID: {o.id}
+                      <div className="flex items-center justify-between gap-2 mt-1">
+                        <div className="text-[10px] text-white/40">
+                          Order ID: {o.id}
+                        </div>
+                        <div className="flex gap-2">
+                          {accessToken && (
+                            <button
+                              onClick={() =>
+                                setHistoryOrderId((id) =>
+                                  id === o.id ? null : o.id
+                                )
+                              }
+                              className="rounded bg-white/10 px-2.5 py-1 text-xs hover:bg-white/15"
+                            >
+                              History
+                            </button>
+                          )}
+                          {accessToken && canChange(o) && (
+                            <button
+                              onClick={() =>
+                                setChangeOrderId((id) =>
+                                  id === o.id ? null : o.id
+                                )
+                              }
+                              className="rounded bg-white/10 px-2.5 py-1 text-xs hover:bg-white/15"
+                            >
+                              Change
+                            </button>
+                          )}
+                          {SETTLED_ORDER_STATUSES.includes(o.status || "") && savedMethods.length > 0 && (
+                            <button
+                              onClick={() => reorder(o)}
+                              disabled={reorderingId !== null}
+                              className="rounded bg-yellow-500 px-2.5 py-1 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+                            >
+                              {reorderingId === o.id ? "Ordering…" : "Reorder"}
+                            </button>
+                          )}
+                        </div>
                       </div>
+
+                      {accessToken && historyOrderId === o.id && (
+                        <div className="mt-2 rounded-lg border border-white/10 bg-white/5 p-3">
+                          <OrderTimeline jwt={accessToken} orderId={o.id} />
+                          {o.state === "delivered" && (
+                            <div className="mt-3">
+                              <DeliveryProof jwt={accessToken} orderId={o.id} />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {accessToken && changeOrderId === o.id && canChange(o) && (
+                        <div className="mt-2 rounded-lg border border-white/10 bg-white/5 p-3">
+                          <OrderChangeForm
+                            jwt={accessToken}
+                            order={o}
+                            onDone={orderChanged}
+                          />
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -1074,14 +1378,18 @@ base[m].spend  += o.amount_gbp ?? 0;
                         <th className="py-2 pr-4">Payment</th>
                         <th className="py-2 pr-4">Delivery</th>
                         <th className="py-2 pr-4">Notes</th>
+                        <th className="py-2 pr-4"></th>
                       </tr>
                     </thead>
                     <tbody>
                       {visibleOrders.map((o) => {
                         const payment =
                           (o.payment_status || "").toLowerCase() || "pending";
-                        const fulfil =
-                          (o.fulfilment_status || "pending").toLowerCase();
+                        const fulfil = isOrderState(o.state)
+
+                          ? o.state
+
+                          : (o.fulfilment_status || "pending").toLowerCase();
 
                         const paymentIsGood =
                           payment === "succeeded" || payment === "paid";
@@ -1094,66 +1402,137 @@ base[m].spend  += o.amount_gbp ?? 0;
                         const fulfilIsMoving =
                           fulfil === "dispatched" ||
                           fulfil === "out_for_delivery" ||
-                          fulfil === "ordered";
+                          fulfil === "ordered" ||
+                          fulfil === "sent_to_refinery" ||
+                          fulfil === "scheduled";
 
                         return (
-                          <tr key={o.id} className="border-b border-gray-800">
-                            <td className="py-2 pr-4 whitespace-nowrap">
-                              {new Date(o.created_at).toLocaleString()}
-                            </td>
-                            <td className="py-2 pr-4 capitalize">
-                              {(o.fuel as string) || "—"}
-                            </td>
-                            <td className="py-2 pr-4">{o.litres ?? "—"}</td>
-                            <td className="py-2 pr-4">
-                              {gbp.format(o.amount_gbp)}
-                            </td>
-                            <td className="py-2 pr-4">
-                              <span
-                                className={cx(
-                                  "inline-flex items-center rounded px-2 py-0.5 text-xs capitalize",
-                                  paymentIsGood &&
-                                    "bg-green-600/80 text-[#041F3E] font-semibold",
-                                  paymentIsBad &&
-                                    "bg-rose-500/80 text-[#041F3E] font-semibold",
-                                  !paymentIsGood &&
-                                    !paymentIsBad &&
-                                    "bg-gray-600/70"
-                                )}
-                              >
-                                {payment}
-                              </span>
-                            </td>
-                            <td className="py-2 pr-4">
-                              <span
-                                className={cx(
-                                  "inline-flex items-center rounded px-2 py-0.5 text-xs capitalize",
-                                  fulfilIsDelivered &&
-                                    "bg-green-600/80 text-[#041F3E] font-semibold",
-                                  fulfilIsMoving &&
-                                    !fulfilIsDelivered &&
-                                    "bg-yellow-500/80 text-[#041F3E] font-semibold",
-                                  !fulfilIsDelivered &&
-                                    !fulfilIsMoving &&
-                                    "bg-gray-600/70"
+                          <React.Fragment key={o.id}>
+                            <tr className="border-b border-gray-800">
+                              <td className="py-2 pr-4 whitespace-nowrap">
+                                {new Date(o.created_at).toLocaleString()}
+                              </td>
+                              <td className="py-2 pr-4 capitalize">
+                                {(o.fuel as string) || "—"}
+                              </td>
+                              <td className="py-2 pr-4">
+                                {o.delivered_litres != null &&
+                                o.delivered_litres !== o.litres ? (
+                                  <span title={`${o.litres ?? "—"} L ordered`}>
+                                    {o.delivered_litres} delivered
+                                  </span>
+                                ) : (
+                                  o.litres ?? "—"
                                 )}
-                              >
-                                {fulfil}
-                              </span>
-                            </td>
-                            <td className="py-2 pr-4 max-w-xs">
-                              {o.fulfilment_notes ? (
+                              </td>
+                              <td className="py-2 pr-4">
+                                {gbp.format(o.amount_gbp)}
+                              </td>
+                              <td className="py-2 pr-4">
+                                <span
+                                  className={cx(
+                                    "inline-flex items-center rounded px-2 py-0.5 text-xs capitalize",
+                                    paymentIsGood &&
+                                      "bg-green-600/80 text-[#041F3E] font-semibold",
+                                    paymentIsBad &&
+                                      "bg-rose-500/80 text-[#041F3E] font-semibold",
+                                    !paymentIsGood &&
+                                      !paymentIsBad &&
+                                      "bg-gray-600/70"
+                                  )}
+                                >
+                                  {payment === "approved_on_account" ? "on account" : payment}
+                                </span>
+                              </td>
+                              <td className="py-2 pr-4">
                                 <span
-                                  className="text-xs text-white/80"
-                                  title={o.fulfilment_notes}
+                                  className={cx(
+                                    "inline-flex items-center rounded px-2 py-0.5 text-xs capitalize",
+                                    fulfilIsDelivered &&
+                                      "bg-green-600/80 text-[#041F3E] font-semibold",
+                                    fulfilIsMoving &&
+                                      !fulfilIsDelivered &&
+                                      "bg-yellow-500/80 text-[#041F3E] font-semibold",
+                                    !fulfilIsDelivered &&
+                                      !fulfilIsMoving &&
+                                      "bg-gray-600/70"
+                                  )}
                                 >
-                                  {truncate(o.fulfilment_notes, 70)}
+                                  {isOrderState(fulfil) ? ORDER_STATE_LABEL[fulfil] : fulfil}
                                 </span>
-                              ) : (
-                                <span className="text-xs text-white/40">—</span>
-                              )}
-                            </td>
-                          </tr>
+                              </td>
+                              <td className="py-2 pr-4 max-w-xs">
+                                {o.fulfilment_notes ? (
+                                  <span
+                                    className="text-xs text-white/80"
+                                    title={o.fulfilment_notes}
+                                  >
+                                    {truncate(o.fulfilment_notes, 70)}
+                                  </span>
+                                ) : (
+                                  <span className="text-xs text-white/40">—</span>
+                                )}
+                              </td>
+                              <td className="py-2 pr-4 whitespace-nowrap">
+                                {accessToken && (
+                                  <button
+                                    onClick={() =>
+                                      setHistoryOrderId((id) =>
+                                        id === o.id ? null : o.id
+                                      )
+                                    }
+                                    className="mr-2 rounded bg-white/10 px-2.5 py-1 text-xs hover:bg-white/15"
+                                  >
+                                    History
+                                  </button>
+                                )}
+                                {accessToken && canChange(o) && (
+                                  <button
+                                    onClick={() =>
+                                      setChangeOrderId((id) =>
+                                        id === o.id ? null : o.id
+                                      )
+                                    }
+                                    className="mr-2 rounded bg-white/10 px-2.5 py-1 text-xs hover:bg-white/15"
+                                  >
+                                    Change
+                                  </button>
+                                )}
+                                {SETTLED_ORDER_STATUSES.includes(o.status || "") && savedMethods.length > 0 && (
+                                  <button
+                                    onClick={() => reorder(o)}
+                                    disabled={reorderingId !== null}
+                                    className="rounded bg-yellow-500 px-2.5 py-1 text-xs font-semibold text-[#041F3E] hover:bg-yellow-400 disabled:opacity-50"
+                                  >
+                                    {reorderingId === o.id ? "Ordering…" : "Reorder"}
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                            {accessToken && historyOrderId === o.id && (
+                              <tr className="border-b border-gray-800">
+                                <td colSpan={8} className="py-3 pr-4">
+                                  <OrderTimeline jwt={accessToken} orderId={o.id} />
+                                  {o.state === "delivered" && (
+                                    <div className="mt-3">
+                                      <DeliveryProof jwt={accessToken} orderId={o.id} />
+                                    </div>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                            {accessToken && changeOrderId === o.id && canChange(o) && (
+                              <tr className="border-b border-gray-800">
+                                <td colSpan={8} className="py-3 pr-4">
+                                  <OrderChangeForm
+                                    jwt={accessToken}
+                                    order={o}
+                                    onDone={orderChanged}
+                                  />
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
                         );
                       })}
                     </tbody>
@@ -14,7 +14,6 @@ type ContractStatus = "draft" | "signed" | "approved" | "cancelled";
 type TankOption = "buy" | "rent";
 
 const TERMS_VERSION = "v1.2";
-const INVOICES_BUCKET = "invoices";
 
 // storage buckets/paths for PDFs
 const CONTRACTS_BUCKET = "contracts";
@@ -84,16 +83,6 @@ type ContractRow = {
 
 type PriceRow = { fuel: string; total_price: number; price_date?: string | null };
 
-/** Minimal shape returned by Storage list() that we rely on */
-type StorageListItem = {
-  name: string;
-  id?: string;
-  created_at?: string;
-  updated_at?: string;
-  last_accessed_at?: string;
-  metadata?: { size?: number } | null;
-};
-
 function cx(...c: (string | false | null | undefined)[]) {
   return c.filter(Boolean).join(" ");
 }
@@ -547,6 +536,12 @@ type InvoiceFile = {
 
 type InvoiceTree = Record<string, Record<string, InvoiceFile[]>>;
 
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data?.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 function InvoicesExplorer({ email }: { email: string }) {
   const [loading, setLoading] = useState(true);
   const [tree, setTree] = useState<InvoiceTree>({});
@@ -561,59 +556,17 @@ function InvoicesExplorer({ email }: { email: string }) {
         setError(null);
         if (!email) return;
 
-        const root = email.toLowerCase();
-
-        // ---- List year folders ----
-        const yearsRes = await supabase.storage
-          .from(INVOICES_BUCKET)
-          .list(root, { limit: 100, offset: 0, sortBy: { column: "name", order: "asc" } });
-        if (yearsRes.error) throw yearsRes.error;
-
-        const yearsData = (yearsRes.data || []) as StorageListItem[];
-        const years = yearsData
-          .filter((e: StorageListItem) => e.name && /^\d{4}$/.test(e.name))
-          .map((e: StorageListItem) => e.name);
+        // via the API so sandbox accounts get their fixture invoices
+        const res = await fetch("/api/documents/invoices", {
+          headers: await authHeaders(),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
 
         const agg: InvoiceTree = {};
-
-        for (const y of years) {
-          agg[y] = {};
-
-          // ---- List months ----
-          const monthsRes = await supabase.storage
-            .from(INVOICES_BUCKET)
-            .list(`${root}/${y}`, { limit: 100, offset: 0, sortBy: { column: "name", order: "asc" } });
-          if (monthsRes.error) throw monthsRes.error;
-
-          const monthsData = (monthsRes.data || []) as StorageListItem[];
-          const months = monthsData
-            .filter((e: StorageListItem) => e.name && /^(0[1-9]|1[0-2])$/.test(e.name))
-            .map((e: StorageListItem) => e.name);
-
-          for (const m of months) {
-            const filesRes = await supabase.storage
-              .from(INVOICES_BUCKET)
-              .list(`${root}/${y}/${m}`, {
-                limit: 1000,
-                offset: 0,
-                sortBy: { column: "name", order: "desc" },
-              });
-            if (filesRes.error) throw filesRes.error;
-
-            const filesData = (filesRes.data || []) as StorageListItem[];
-            const files = filesData
-              .filter((f: StorageListItem) => (f.name || "").toLowerCase().endsWith(".pdf"))
-              .map<InvoiceFile>((f: StorageListItem) => ({
-                name: f.name,
-                path: `${root}/${y}/${m}/${f.name}`,
-                size: f?.metadata?.size ?? null,
-                created_at: f?.created_at ?? null,
-                year: y,
-                month: m,
-              }));
-
-            agg[y][m] = files;
-          }
+        for (const f of (json.files || []) as InvoiceFile[]) {
+          agg[f.year] = agg[f.year] || {};
+          agg[f.year][f.month] = [...(agg[f.year][f.month] || []), f];
         }
 
         setTree(agg);
@@ -630,12 +583,17 @@ function InvoicesExplorer({ email }: { email: string }) {
   }, [email]);
 
   async function viewFile(file: InvoiceFile) {
-    const { data, error } = await supabase.storage.from(INVOICES_BUCKET).createSignedUrl(file.path, 60);
-    if (error || !data?.signedUrl) {
-      alert("Could not generate a signed link. Please try again.");
+    const res = await fetch(
+      `/api/documents/invoices?path=${encodeURIComponent(file.path)}`,
+      { headers: await authHeaders() }
+    );
+    if (!res.ok) {
+      alert("Could not open this invoice. Please try again.");
       return;
     }
-    window.open(data.signedUrl, "_blank");
+    const url = URL.createObjectURL(await res.blob());
+    window.open(url, "_blank");
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
   }
 
   if (loading) {
@@ -7,6 +7,17 @@
 import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { createClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_DELIVERY_CONFIG,
+  addDays,
+  checkDeliveryDate,
+  earliestDeliveryDate,
+  isDayFull,
+  isDeliveryDay,
+  latestDeliveryDate,
+  nationForPostcode,
+  type DeliveryCalendar,
+} from "@/lib/delivery-calendar";
 
 /* =========================
    Setup & types
@@ -24,6 +35,24 @@ const TERMS_VERSION = "v1.2";
 const TEST_LITRES = 1;
 const BUSINESS_MIN_LITRES = 500;
 
+type ZonedPriceRow = {
+  fuel: Fuel;
+  total_price: number;
+  base_price: number;
+  list_price: number;
+  delivery_surcharge: number;
+  zone: { id: string; name: string } | null;
+  tier: { id: string; name: string } | null;
+  volume_saving: number;
+  agreement: { id: string | null; name: string; kind: string } | null;
+};
+
+type PriceLock = {
+  token: string;
+  expires_at: string;
+  prices: { fuel: Fuel; total_price: number; delivery_surcharge: number }[];
+};
+
 type ContractRow = {
   id: string;
   tank_option: TankOption;
@@ -33,6 +62,18 @@ type ContractRow = {
   email: string | null;
 };
 
+// saved delivery site (from /api/sites)
+type SavedSite = {
+  id: string;
+  name: string;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  postcode: string;
+  contactName: string | null;
+  tanks: { id: string; name: string; fuel: Fuel }[];
+};
+
 const supabase =
   typeof window !== "undefined"
     ? createClient(
@@ -41,6 +82,14 @@ const supabase =
       )
     : (null as any);
 
+// Bearer header so the API can apply the customer's price agreement
+async function authHeader(): Promise<Record<string, string>> {
+  if (!supabase) return {};
+  const { data } = await supabase.auth.getSession();
+  const token = data?.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 /* =========================
    UI tokens (aligned to dashboard)
    ========================= */
@@ -76,55 +125,6 @@ function toDateMaybe(r: any): Date | null {
   return k ? new Date(k) : null;
 }
 
-function ymd(d: Date) {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, "0");
-  const day = String(d.getDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
-// ---- working-day helpers ----
-
-function isWorkingDay(date: Date) {
-  const day = date.getDay(); // 0 = Sun, 6 = Sat
-  return day !== 0 && day !== 6;
-}
-
-function addWorkingDays(from: Date, days: number) {
-  const d = new Date(from);
-  let remaining = days;
-  while (remaining > 0) {
-    d.setDate(d.getDate() + 1);
-    if (isWorkingDay(d)) remaining -= 1;
-  }
-  return d;
-}
-
-/**
- * Business rule:
- * - Orders are processed Mon–Fri, 09:00–17:00.
- * - If placed outside those hours, treat as received on next working day.
- * - Earliest delivery = 3 working days after that processing day.
- */
-function getEarliestDeliveryDate() {
-  const now = new Date();
-  const processing = new Date(now);
-
-  const hour = now.getHours();
-
-  if (!isWorkingDay(now) || hour < 9 || hour >= 17) {
-    // move to next working day at 09:00
-    do {
-      processing.setDate(processing.getDate() + 1);
-    } while (!isWorkingDay(processing));
-    processing.setHours(9, 0, 0, 0);
-  }
-
-  // add 3 working days
-  const earliest = addWorkingDays(processing, 3);
-  return earliest;
-}
-
 function isValidLitres(value: number) {
   if (!Number.isFinite(value) || value <= 0) return false;
   if (value === TEST_LITRES) return true; // 1L test orders
@@ -145,6 +145,9 @@ export default function OrderPage() {
   const [pricesUpdatedAt, setPricesUpdatedAt] = useState<Date | null>(null);
   const [loadingPrices, setLoadingPrices] = useState<boolean>(true);
 
+  // zoned prices for the delivery postcode (from /api/prices?postcode=)
+  const [zonedPrices, setZonedPrices] = useState<ZonedPriceRow[] | null>(null);
+
   // form state
   const [fuel, setFuel] = useState<Fuel>("diesel");
   const [litres, setLitres] = useState<number>(1000);
@@ -157,6 +160,13 @@ export default function OrderPage() {
   const [postcode, setPostcode] = useState("");
   const [city, setCity] = useState("");
 
+  // saved delivery sites – picking one fills (and locks) the address
+  const [sites, setSites] = useState<SavedSite[]>([]);
+  const [siteId, setSiteId] = useState("");
+  const [tankId, setTankId] = useState("");
+  const [saveSite, setSaveSite] = useState(false);
+  const [newSiteName, setNewSiteName] = useState("");
+
   // validation state
   const [dateError, setDateError] = useState<string | null>(null);
   const [litresError, setLitresError] = useState<string | null>(null);
@@ -170,11 +180,51 @@ export default function OrderPage() {
 
   const [startingCheckout, setStartingCheckout] = useState(false);
 
-  // Earliest date based on working-days rule
-  const minDeliveryDateStr = useMemo(() => {
-    const earliest = getEarliestDeliveryDate();
-    return ymd(earliest);
-  }, []);
+  // price lock (held for a few minutes, honoured by checkout)
+  const [priceLock, setPriceLock] = useState<PriceLock | null>(null);
+  const [lockingPrice, setLockingPrice] = useState(false);
+
+  // credit account (approved business customers can pay on terms)
+  const [creditAccount, setCreditAccount] = useState<{
+    termsDays: number;
+    termsBasis: "invoice" | "month_end";
+    status: "active" | "suspended";
+    availablePence: number;
+    overduePence: number;
+  } | null>(null);
+  const [payOnAccount, setPayOnAccount] = useState(false);
+
+  // delivery calendar for the postcode (bank holidays, blackouts, cut-off)
+  // – same rules the checkout API enforces
+  const [deliveryCalendar, setDeliveryCalendar] = useState<DeliveryCalendar>({
+    nation: "england-and-wales",
+    region: null,
+    config: DEFAULT_DELIVERY_CONFIG,
+    blackouts: [],
+  });
+
+  const minDeliveryDateStr = useMemo(
+    () => earliestDeliveryDate(deliveryCalendar),
+    [deliveryCalendar]
+  );
+  const maxDeliveryDateStr = useMemo(
+    () => latestDeliveryDate(deliveryCalendar),
+    [deliveryCalendar]
+  );
+
+  // next few delivery days for quick picking (full days greyed out)
+  const upcomingDeliveryDays = useMemo(() => {
+    const days: { date: string; full: boolean }[] = [];
+    for (
+      let d = minDeliveryDateStr;
+      days.length < 10 && d <= maxDeliveryDateStr;
+      d = addDays(d, 1)
+    ) {
+      if (!isDeliveryDay(deliveryCalendar, d)) continue;
+      days.push({ date: d, full: isDayFull(deliveryCalendar, d, litres) });
+    }
+    return days;
+  }, [deliveryCalendar, minDeliveryDateStr, maxDeliveryDateStr, litres]);
 
   /* ---------- load auth + requirements ---------- */
   useEffect(() => {
@@ -278,12 +328,245 @@ export default function OrderPage() {
     })();
   }, []);
 
+  /* ---------- zoned + volume-banded prices for this order ---------- */
+  useEffect(() => {
+    const pc = postcode.trim();
+    const qty = Number.isFinite(litres) && litres > 0 ? litres : 0;
+    if (pc.length < 2 && !qty) {
+      setZonedPrices(null);
+      return;
+    }
+
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams();
+        if (pc.length >= 2) params.set("postcode", pc);
+        if (qty) params.set("litres", String(qty));
+        const res = await fetch(`/api/prices?${params.toString()}`, {
+          headers: await authHeader(),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const rows = (await res.json()) as ZonedPriceRow[];
+        if (!cancelled) setZonedPrices(Array.isArray(rows) ? rows : null);
+      } catch {
+        // fall back to the national price tiles
+        if (!cancelled) setZonedPrices(null);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [postcode, litres]);
+
+  /* ---------- delivery calendar for this postcode ---------- */
+  useEffect(() => {
+    const pc = postcode.trim();
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams();
+        if (pc.length >= 2) params.set("postcode", pc);
+        const res = await fetch(`/api/delivery/calendar?${params.toString()}`);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const json = (await res.json()) as { calendar: DeliveryCalendar };
+        if (!cancelled && json.calendar) setDeliveryCalendar(json.calendar);
+      } catch {
+        // keep weekends + bank holidays; checkout re-checks anyway
+        if (!cancelled) {
+          setDeliveryCalendar((c) => ({ ...c, nation: nationForPostcode(pc) }));
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [postcode]);
+
+  /* ---------- saved delivery sites ---------- */
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const headers = await authHeader();
+      if (!headers.Authorization) return;
+      try {
+        const res = await fetch("/api/sites", { headers });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (!cancelled) setSites((json.sites || []) as SavedSite[]);
+      } catch {
+        // no sites – the address form still works
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /* ---------- credit account ---------- */
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const headers = await authHeader();
+      if (!headers.Authorization) return;
+      try {
+        const res = await fetch("/api/credit-account", { headers });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (!cancelled) setCreditAccount(json.account ?? null);
+      } catch {
+        // no account – card / Direct Debit checkout as usual
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const canPayOnAccount =
+    !!creditAccount &&
+    creditAccount.status === "active" &&
+    creditAccount.overduePence === 0;
+
+  /* ---------- "reorder same as last time" (low-fuel email link) ---------- */
+  const [reorderSite, setReorderSite] = useState<{
+    siteId: string;
+    tankId: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("reorder");
+    if (!token) return;
+    (async () => {
+      const headers = await authHeader();
+      if (!headers.Authorization) return;
+      try {
+        const res = await fetch(
+          `/api/usage/reorder?token=${encodeURIComponent(token)}`,
+          { headers }
+        );
+        const json = await res.json().catch(() => ({}));
+        const r = json?.reorder;
+        if (!res.ok || !r) return;
+        setFuel(r.fuel);
+        if (r.litres) setLitres(r.litres);
+        if (r.name) setFullName(r.name);
+        setAddress1(r.addressLine1 || "");
+        setAddress2(r.addressLine2 || "");
+        setCity(r.city || "");
+        setPostcode(r.postcode || "");
+        if (r.siteId) setReorderSite({ siteId: r.siteId, tankId: r.tankId });
+      } catch {
+        // link expired / not ours – the blank form still works
+      }
+    })();
+  }, []);
+
+  // the saved site (and tank) is picked once the sites have loaded
+  useEffect(() => {
+    if (!reorderSite) return;
+    if (!sites.some((s) => s.id === reorderSite.siteId)) return;
+    pickSite(reorderSite.siteId);
+    if (reorderSite.tankId) setTankId(reorderSite.tankId);
+    setReorderSite(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reorderSite, sites]);
+
+  function pickSite(id: string) {
+    setSiteId(id);
+    const site = sites.find((s) => s.id === id);
+    if (!site) return;
+    setAddress1(site.addressLine1);
+    setAddress2(site.addressLine2 || "");
+    setCity(site.city);
+    setPostcode(site.postcode);
+    if (site.contactName && !fullName) setFullName(site.contactName);
+    setSaveSite(false);
+  }
+
+  // tanks at the chosen site for the chosen fuel – the customer picks one
+  // when there are several
+  const siteTanks = useMemo(
+    () =>
+      (sites.find((s) => s.id === siteId)?.tanks || []).filter(
+        (t) => t.fuel === fuel
+      ),
+    [sites, siteId, fuel]
+  );
+
+  useEffect(() => {
+    setTankId((prev) =>
+      siteTanks.some((t) => t.id === prev)
+        ? prev
+        : siteTanks.length === 1
+        ? siteTanks[0].id
+        : ""
+    );
+  }, [siteTanks]);
+
+  /* ---------- price lock ---------- */
+  // a lock is only valid for the postcode + litres it was quoted for
+  useEffect(() => {
+    setPriceLock(null);
+  }, [postcode, litres]);
+
+  useEffect(() => {
+    if (!priceLock) return;
+    const ms = new Date(priceLock.expires_at).getTime() - Date.now();
+    const t = setTimeout(() => setPriceLock(null), Math.max(ms, 0));
+    return () => clearTimeout(t);
+  }, [priceLock]);
+
+  async function lockPrice() {
+    try {
+      setLockingPrice(true);
+      const res = await fetch("/api/prices/lock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeader()) },
+        body: JSON.stringify({ postcode: postcode.trim(), litres }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data?.token) {
+        alert(data?.error || `Could not lock price (${res.status})`);
+        return;
+      }
+      setPriceLock(data as PriceLock);
+    } catch (e: any) {
+      alert(e?.message || "Could not lock price");
+    } finally {
+      setLockingPrice(false);
+    }
+  }
+
   /* ---------- derived ---------- */
 
-  const unitPrice = fuel === "diesel" ? dieselPrice ?? 0 : petrolPrice ?? 0;
+  const zoned = zonedPrices?.find((r) => r.fuel === fuel) ?? null;
+  const zonedPetrol = zonedPrices?.find((r) => r.fuel === "petrol") ?? null;
+  const zonedDiesel = zonedPrices?.find((r) => r.fuel === "diesel") ?? null;
+
+  const locked = priceLock?.prices.find((p) => p.fuel === fuel) ?? null;
+
+  const unitPrice = locked
+    ? Number(locked.total_price)
+    : zoned
+    ? Number(zoned.total_price)
+    : fuel === "diesel"
+    ? dieselPrice ?? 0
+    : petrolPrice ?? 0;
+  const deliverySurcharge = locked
+    ? Number(locked.delivery_surcharge) || 0
+    : zoned
+    ? Number(zoned.delivery_surcharge) || 0
+    : 0;
+  const volumeSaving = zoned ? Number(zoned.volume_saving) || 0 : 0;
   const estTotal = useMemo(
-    () => (Number.isFinite(litres) ? litres * unitPrice : 0),
-    [litres, unitPrice]
+    () =>
+      Number.isFinite(litres) ? litres * unitPrice + deliverySurcharge : 0,
+    [litres, unitPrice, deliverySurcharge]
   );
 
   // gating:
@@ -293,32 +576,17 @@ export default function OrderPage() {
   const hasRentApproved = !!rentContract;
   const requirementsMet = termsAccepted && (hasBuy || hasRentApproved);
 
-  // date validation (weekday + minimum date)
+  // date validation (delivery days + lead time, see lib/delivery-calendar)
   useEffect(() => {
     if (!deliveryDate) {
       setDateError(null);
       return;
     }
-    const chosen = new Date(deliveryDate);
-    const min = new Date(minDeliveryDateStr);
-    if (isNaN(chosen.getTime())) {
-      setDateError("Please choose a valid date.");
-      return;
-    }
-    if (!isWorkingDay(chosen)) {
-      setDateError(
-        "Deliveries are Monday to Friday only. Please choose a weekday."
-      );
-      return;
-    }
-    if (chosen < min) {
-      setDateError(
-        `Earliest delivery is ${min.toLocaleDateString()} (3 working days after the processing day).`
-      );
-      return;
-    }
-    setDateError(null);
-  }, [deliveryDate, minDeliveryDateStr]);
+    const check = checkDeliveryDate(deliveryCalendar, deliveryDate, {
+      litres,
+    });
+    setDateError(check.ok ? null : check.message);
+  }, [deliveryDate, deliveryCalendar, litres]);
 
   // litres validation
   useEffect(() => {
@@ -346,7 +614,8 @@ export default function OrderPage() {
     !deliveryDate ||
     !Number.isFinite(litres) ||
     unitPrice <= 0 ||
-    !receiptEmail;
+    !receiptEmail ||
+    (siteTanks.length > 1 && !tankId);
 
   /* ---------- Stripe checkout (calls our API) ---------- */
   async function startCheckout() {
@@ -356,18 +625,11 @@ export default function OrderPage() {
       const litresNum = Number(litres);
 
       // final guards
-      const chosen = new Date(deliveryDate);
-      const min = new Date(minDeliveryDateStr);
-
-      if (
-        !deliveryDate ||
-        isNaN(chosen.getTime()) ||
-        chosen < min ||
-        !isWorkingDay(chosen)
-      ) {
-        alert(
-          `Please choose a weekday delivery date on or after ${min.toLocaleDateString()}.`
-        );
+      const dateCheck = checkDeliveryDate(deliveryCalendar, deliveryDate, {
+        litres: litresNum,
+      });
+      if (!dateCheck.ok) {
+        alert(dateCheck.message);
         return;
       }
 
@@ -391,7 +653,7 @@ export default function OrderPage() {
       // Call our backend that talks to Stripe with Connect split
       const res = await fetch("/api/create-checkout-session", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...(await authHeader()) },
         body: JSON.stringify({
           fuel, // "diesel" | "petrol" (lowercase)
           litres: litresNum,
@@ -402,17 +664,36 @@ export default function OrderPage() {
           city: city.trim(),
           postcode: postcode.trim(),
           deliveryDate, // "YYYY-MM-DD"
+          priceLock: priceLock?.token ?? null,
+          siteId: siteId || null,
+          tankId: siteId ? tankId || null : null,
+          saveSite: !siteId && saveSite,
+          siteName: !siteId && saveSite ? newSiteName.trim() || null : null,
+          payOnAccount: canPayOnAccount && payOnAccount,
         }),
       });
 
-      const data = (await res.json()) as { url?: string; error?: string };
+      const data = (await res.json()) as {
+        url?: string;
+        error?: string;
+        reason?: string;
+      };
+
+      if (res.status === 409 && data.reason && data.reason !== "full") {
+        // lock expired / already used – fall back to the live price
+        setPriceLock(null);
+        alert(
+          "Your price lock has expired or no longer matches this order. Please check the latest price and try again."
+        );
+        return;
+      }
 
       if (!res.ok || !data.url) {
         alert(data.error || `Checkout failed (${res.status})`);
         return;
       }
 
-      // redirect to Stripe Checkout
+      // redirect to Stripe Checkout (or straight to success when on account)
       window.location.href = data.url;
     } catch (e: any) {
       alert(e?.message || "Failed to create order");
@@ -489,12 +770,24 @@ export default function OrderPage() {
         <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <Tile
             title="Petrol (95)"
-            value={petrolPrice != null ? GBP(petrolPrice) : "—"}
+            value={
+              zonedPetrol
+                ? GBP(zonedPetrol.total_price)
+                : petrolPrice != null
+                ? GBP(petrolPrice)
+                : "—"
+            }
             suffix="/ litre"
           />
           <Tile
             title="Diesel"
-            value={dieselPrice != null ? GBP(dieselPrice) : "—"}
+            value={
+              zonedDiesel
+                ? GBP(zonedDiesel.total_price)
+                : dieselPrice != null
+                ? GBP(dieselPrice)
+                : "—"
+            }
             suffix="/ litre"
           />
           <Tile title="Estimated total" value={GBP(estTotal)} />
@@ -505,6 +798,13 @@ export default function OrderPage() {
             : pricesUpdatedAt
             ? `Last update: ${pricesUpdatedAt.toLocaleString()}`
             : "Prices timestamp unavailable."}
+          {zoned && postcode.trim().length >= 2 && (
+            <>
+              {" "}
+              · Prices shown for {postcode.trim().toUpperCase()}
+              {zoned.zone ? ` (${zoned.zone.name})` : ""}
+            </>
+          )}
         </div>
 
         {/* Requirements hint */}
@@ -601,16 +901,54 @@ export default function OrderPage() {
                   type="date"
                   value={deliveryDate}
                   min={minDeliveryDateStr}
+                  max={maxDeliveryDateStr}
                   onChange={(e) => setDeliveryDate(e.target.value)}
                 />
+                {upcomingDeliveryDays.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {upcomingDeliveryDays.map((d) => (
+                      <button
+                        key={d.date}
+                        type="button"
+                        disabled={d.full}
+                        onClick={() => setDeliveryDate(d.date)}
+                        title={d.full ? "Fully booked" : undefined}
+                        className={
+                          "rounded-md px-2 py-1 text-xs " +
+                          (d.full
+                            ? "cursor-not-allowed bg-white/5 text-white/30 line-through"
+                            : deliveryDate === d.date
+                            ? "bg-yellow-500 font-semibold text-[#041F3E]"
+                            : "bg-white/10 text-white/80 hover:bg-white/15")
+                        }
+                      >
+                        {new Date(`${d.date}T00:00:00Z`).toLocaleDateString(
+                          "en-GB",
+                          {
+                            weekday: "short",
+                            day: "numeric",
+                            month: "short",
+                            timeZone: "UTC",
+                          }
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 {showDeliveryInfo && (
                   <p className="mt-1 text-[11px] text-white/60">
-                    Orders are processed Monday–Friday, 9am–5pm. If you order
-                    outside those hours (for example late at night or over the
-                    weekend), we treat it as received on the{" "}
+                    Orders are processed Monday–Friday,{" "}
+                    {deliveryCalendar.config.openTime}–
+                    {deliveryCalendar.config.cutoffTime} (UK time). If you
+                    order outside those hours (for example late at night or
+                    over the weekend), we treat it as received on the{" "}
                     <strong>next working day</strong>. The earliest delivery is
-                    then <strong>three working days</strong> after that
-                    processing day. Deliveries are on weekdays only.
+                    then{" "}
+                    <strong>
+                      {deliveryCalendar.config.leadDays} working days
+                    </strong>{" "}
+                    after that processing day. Deliveries are on weekdays only,
+                    excluding bank holidays.
                   </p>
                 )}
                 {dateError && (
@@ -642,6 +980,42 @@ export default function OrderPage() {
               Please ensure access is safe and clearly signposted on the day.
             </p>
 
+            {sites.length > 0 && (
+              <div className="mb-4">
+                <label className={label}>Delivery site</label>
+                <select
+                  className={input}
+                  value={siteId}
+                  onChange={(e) => pickSite(e.target.value)}
+                >
+                  <option value="">New address…</option>
+                  {sites.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name} – {s.postcode}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {siteTanks.length > 1 && (
+              <div className="mb-4">
+                <label className={label}>Tank</label>
+                <select
+                  className={input}
+                  value={tankId}
+                  onChange={(e) => setTankId(e.target.value)}
+                >
+                  <option value="">Choose a tank…</option>
+                  {siteTanks.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className={row}>
               <div className="md:col-span-2">
                 <label className={label}>Full name / Site contact</label>
@@ -658,6 +1032,7 @@ export default function OrderPage() {
                   className={input}
                   value={address1}
                   onChange={(e) => setAddress1(e.target.value)}
+                  readOnly={!!siteId}
                 />
               </div>
 
@@ -667,6 +1042,7 @@ export default function OrderPage() {
                   className={input}
                   value={address2}
                   onChange={(e) => setAddress2(e.target.value)}
+                  readOnly={!!siteId}
                 />
               </div>
 
@@ -676,6 +1052,7 @@ export default function OrderPage() {
                   className={input}
                   value={postcode}
                   onChange={(e) => setPostcode(e.target.value)}
+                  readOnly={!!siteId}
                 />
               </div>
 
@@ -685,9 +1062,36 @@ export default function OrderPage() {
                   className={input}
                   value={city}
                   onChange={(e) => setCity(e.target.value)}
+                  readOnly={!!siteId}
                 />
               </div>
             </div>
+
+            {siteId ? (
+              <p className="mt-2 text-xs text-white/60">
+                Delivering to a saved site. Edit its address and access notes
+                from your dashboard.
+              </p>
+            ) : (
+              <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+                <label className="inline-flex items-center gap-2 text-white/80">
+                  <input
+                    type="checkbox"
+                    checked={saveSite}
+                    onChange={(e) => setSaveSite(e.target.checked)}
+                  />
+                  Save this address as a delivery site
+                </label>
+                {saveSite && (
+                  <input
+                    className={`${input} md:w-64`}
+                    placeholder="Site name (e.g. Yard 2)"
+                    value={newSiteName}
+                    onChange={(e) => setNewSiteName(e.target.value)}
+                  />
+                )}
+              </div>
+            )}
           </section>
 
           {/* Summary */}
@@ -709,6 +1113,37 @@ export default function OrderPage() {
                 <span className="text-white/70">Unit price</span>
                 <span className="font-medium">{GBP(unitPrice)}</span>
               </div>
+              {zoned?.agreement && (
+                <div className="flex justify-between">
+                  <span className="text-white/70">Price agreement</span>
+                  <span className="font-medium">{zoned.agreement.name}</span>
+                </div>
+              )}
+              {zoned?.tier && (
+                <div className="flex justify-between">
+                  <span className="text-white/70">Volume band</span>
+                  <span className="font-medium">{zoned.tier.name}</span>
+                </div>
+              )}
+              {volumeSaving > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-white/70">Volume saving</span>
+                  <span className="font-medium text-emerald-300">
+                    −{GBP(volumeSaving)}
+                  </span>
+                </div>
+              )}
+              {deliverySurcharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-white/70">
+                    Delivery surcharge
+                    {zoned?.zone ? ` (${zoned.zone.name})` : ""}
+                  </span>
+                  <span className="font-medium">
+                    {GBP(deliverySurcharge)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-white/70">Delivery date</span>
                 <span className="font-medium">
@@ -726,6 +1161,52 @@ export default function OrderPage() {
               <span className="font-semibold">{GBP(estTotal)}</span>
             </div>
 
+            <div className="mt-3 text-xs text-white/70">
+              {priceLock ? (
+                <>
+                  Price locked until{" "}
+                  {new Date(priceLock.expires_at).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </>
+              ) : (
+                <button
+                  type="button"
+                  className="underline underline-offset-2 hover:text-white disabled:opacity-50"
+                  disabled={lockingPrice || !userEmail}
+                  onClick={lockPrice}
+                >
+                  {lockingPrice ? "Locking price…" : "Hold this price"}
+                </button>
+              )}
+            </div>
+
+            {creditAccount && (
+              <div className="mt-3 text-sm">
+                {canPayOnAccount ? (
+                  <label className="inline-flex items-center gap-2 text-white/80">
+                    <input
+                      type="checkbox"
+                      checked={payOnAccount}
+                      onChange={(e) => setPayOnAccount(e.target.checked)}
+                    />
+                    Pay on account ({creditAccount.termsDays}-day terms
+                    {creditAccount.termsBasis === "month_end"
+                      ? " from month end"
+                      : ""}
+                    , {GBP(creditAccount.availablePence / 100)} available)
+                  </label>
+                ) : (
+                  <p className="text-xs text-white/60">
+                    {creditAccount.status === "suspended"
+                      ? "Your credit account is on hold – pay by card or Direct Debit."
+                      : "Your credit account has overdue invoices – settle them to order on account again."}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* No explanatory paragraph here – back to clean layout */}
             <button
               className={`${button} ${buttonPrimary} w-full mt-4 hidden md:block`}
@@ -733,7 +1214,11 @@ export default function OrderPage() {
               onClick={startCheckout}
               title={!requirementsMet ? "Complete Documents first" : ""}
             >
-              {startingCheckout ? "Processing…" : "Go to payment"}
+              {startingCheckout
+                ? "Processing…"
+                : canPayOnAccount && payOnAccount
+                ? "Place order on account"
+                : "Go to payment"}
             </button>
           </aside>
         </div>
@@ -751,7 +1236,11 @@ export default function OrderPage() {
             disabled={payDisabled || startingCheckout}
             onClick={startCheckout}
           >
-            {startingCheckout ? "Processing…" : "Go to payment"}
+            {startingCheckout
+              ? "Processing…"
+              : canPayOnAccount && payOnAccount
+              ? "Place order on account"
+              : "Go to payment"}
           </button>
         </div>
       </div>
@@ -0,0 +1,533 @@
+/**
+ * Shared daily price CSV importer.
+ *
+ * Used by the `import-prices` edge function (Deno) and by the admin upload
+ * endpoint in the Next app (/api/admin/prices/import), so this file must
+ * stay dependency-free: no Deno or Node imports.
+ *
+ * Flow: parseCsv -> mapPriceRows -> planPriceImport (validate + diff)
+ *       -> runPriceImport (write daily_prices unless dry run, audit the run)
+ */
+
+export type Fuel = "petrol" | "diesel";
+
+export type PriceCsvRow = {
+  /** 1-based record number in the file (header = 1) */
+  line: number;
+  price_date: string;
+  fuel: Fuel;
+  refinery_price: number | null;
+  margin: number | null;
+  total_price: number;
+};
+
+export type ExistingPrice = {
+  price_date: string;
+  fuel: Fuel;
+  refinery_price: number | null;
+  margin: number | null;
+  total_price: number | null;
+};
+
+export type PlannedAction = "insert" | "update" | "unchanged" | "rejected";
+
+export type PlannedRow = {
+  line: number;
+  price_date: string | null;
+  fuel: string | null;
+  action: PlannedAction;
+  before: Omit<ExistingPrice, "price_date" | "fuel"> | null;
+  after: Omit<ExistingPrice, "price_date" | "fuel"> | null;
+  /** why the row was rejected */
+  errors: string[];
+  /** sanity checks that failed; these reject the row unless `force` */
+  warnings: string[];
+};
+
+export type ImportOptions = {
+  dryRun?: boolean;
+  /** import rows that only failed sanity checks */
+  force?: boolean;
+  /** max day-over-day move in total_price, percent (default 10) */
+  maxJumpPct?: number;
+  source?: string;
+  triggeredBy?: string | null;
+};
+
+export type ImportSummary = {
+  total: number;
+  insert: number;
+  update: number;
+  unchanged: number;
+  rejected: number;
+};
+
+export type ImportReport = {
+  runId: string | null;
+  dryRun: boolean;
+  summary: ImportSummary;
+  rows: PlannedRow[];
+};
+
+/* =========================
+   RFC 4180 parsing
+   ========================= */
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted fields, escaped
+ * quotes (""), commas and line breaks inside quotes, CRLF/LF and a
+ * leading BOM. Trailing empty lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+        i++;
+        continue;
+      }
+      cell += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && cell === "") {
+      quoted = true;
+      i++;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+      i++;
+    } else if (ch === "\r" || ch === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      i += ch === "\r" && src[i + 1] === "\n" ? 2 : 1;
+    } else {
+      cell += ch;
+      i++;
+    }
+  }
+
+  if (quoted) throw new Error("CSV has an unterminated quoted field");
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  while (rows.length && rows[rows.length - 1].every((c) => c.trim() === "")) {
+    rows.pop();
+  }
+  return rows;
+}
+
+/* =========================
+   Column mapping
+   ========================= */
+
+const COLUMN_ALIASES = {
+  date: ["date", "price_date", "day"],
+  fuel: ["product", "fuel", "fuel_type"],
+  total: ["final_client_price", "total_price", "client_price", "price"],
+  refinery: ["refinery_price", "refinery", "cost_price", "cost"],
+  margin: ["margin", "fuelflow_margin"],
+} as const;
+
+function normaliseHeader(h: string) {
+  return h.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function findColumn(cols: string[], aliases: readonly string[]) {
+  for (const a of aliases) {
+    const i = cols.indexOf(a);
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+/** "£1.23", "1,234.5" -> number; blank -> null; junk -> NaN */
+export function parseMoney(s: string | undefined): number | null {
+  const raw = String(s ?? "").trim();
+  if (!raw) return null;
+  const clean = raw.replace(/[£$€,\s]/g, "");
+  if (!/^-?\d+(\.\d+)?$/.test(clean)) return NaN;
+  return Number(clean);
+}
+
+/** DD/MM/YYYY or YYYY-MM-DD -> YYYY-MM-DD, null if not a real date */
+export function parseIsoDate(s: string | undefined): string | null {
+  const v = String(s ?? "").trim();
+  let y: number, m: number, d: number;
+
+  let match = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    [d, m, y] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = v.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (
+    dt.getUTCFullYear() !== y ||
+    dt.getUTCMonth() !== m - 1 ||
+    dt.getUTCDate() !== d
+  ) {
+    return null;
+  }
+  return dt.toISOString().slice(0, 10);
+}
+
+function parseFuel(s: string | undefined): Fuel | null {
+  const v = String(s ?? "").trim().toLowerCase();
+  if (v === "petrol" || v === "unleaded" || v === "petrol (95)") return "petrol";
+  if (v === "diesel") return "diesel";
+  return null;
+}
+
+/**
+ * Map parsed CSV cells to price rows. Rows that can't be mapped come back
+ * as rejected PlannedRows so they still show up in the report.
+ */
+export function mapPriceRows(cells: string[][]): {
+  rows: PriceCsvRow[];
+  rejected: PlannedRow[];
+} {
+  if (!cells.length) throw new Error("CSV is empty");
+
+  const cols = cells[0].map(normaliseHeader);
+  const idx = {
+    date: findColumn(cols, COLUMN_ALIASES.date),
+    fuel: findColumn(cols, COLUMN_ALIASES.fuel),
+    total: findColumn(cols, COLUMN_ALIASES.total),
+    refinery: findColumn(cols, COLUMN_ALIASES.refinery),
+    margin: findColumn(cols, COLUMN_ALIASES.margin),
+  };
+
+  if (idx.date < 0 || idx.fuel < 0) {
+    throw new Error("CSV missing required columns (date, product)");
+  }
+  if (idx.total < 0 && (idx.refinery < 0 || idx.margin < 0)) {
+    throw new Error(
+      "CSV needs final_client_price, or both refinery_price and margin"
+    );
+  }
+
+  const rows: PriceCsvRow[] = [];
+  const rejected: PlannedRow[] = [];
+
+  cells.slice(1).forEach((r, n) => {
+    const line = n + 2;
+    if (r.every((c) => c.trim() === "")) return;
+
+    const errors: string[] = [];
+    const price_date = parseIsoDate(r[idx.date]);
+    const fuel = parseFuel(r[idx.fuel]);
+    let total = idx.total >= 0 ? parseMoney(r[idx.total]) : null;
+    const refinery = idx.refinery >= 0 ? parseMoney(r[idx.refinery]) : null;
+    let margin = idx.margin >= 0 ? parseMoney(r[idx.margin]) : null;
+
+    if (!price_date) errors.push(`invalid date "${r[idx.date] ?? ""}"`);
+    if (!fuel) errors.push(`unknown product "${r[idx.fuel] ?? ""}"`);
+    for (const [name, v] of [
+      ["final_client_price", total],
+      ["refinery_price", refinery],
+      ["margin", margin],
+    ] as const) {
+      if (v != null && !Number.isFinite(v)) errors.push(`${name} is not a number`);
+    }
+
+    // fill in whichever of total / margin is missing
+    if (total == null && refinery != null && margin != null) {
+      total = refinery + margin;
+    }
+    if (margin == null && refinery != null && total != null) {
+      margin = Math.round((total - refinery) * 10000) / 10000;
+    }
+
+    if (total == null) errors.push("missing final_client_price");
+    else if (Number.isFinite(total) && total <= 0) {
+      errors.push("final_client_price must be above zero");
+    }
+
+    if (errors.length || !price_date || !fuel || total == null) {
+      rejected.push({
+        line,
+        price_date,
+        fuel: fuel ?? (r[idx.fuel] || null),
+        action: "rejected",
+        before: null,
+        after: null,
+        errors,
+        warnings: [],
+      });
+      return;
+    }
+
+    rows.push({
+      line,
+      price_date,
+      fuel,
+      refinery_price: refinery,
+      margin,
+      total_price: total,
+    });
+  });
+
+  return { rows, rejected };
+}
+
+/* =========================
+   Validation + diff
+   ========================= */
+
+function samePrice(a: number | null | undefined, b: number | null | undefined) {
+  if (a == null || b == null) return a == null && b == null;
+  return Math.abs(Number(a) - Number(b)) < 0.00005;
+}
+
+/**
+ * Earliest date an import of `rows` needs existing prices from
+ * (one week before the first row, for the day-over-day check).
+ */
+export function lookbackDate(rows: PriceCsvRow[]): string | null {
+  if (!rows.length) return null;
+  const first = rows.map((r) => r.price_date).sort()[0];
+  const d = new Date(`${first}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 7);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Compare incoming rows with what's already in daily_prices.
+ * Sanity checks:
+ *  - total_price moves more than maxJumpPct from the previous price day
+ *  - negative margin
+ * Duplicate date+fuel rows in one file are rejected outright – we don't
+ * guess which one the sheet meant.
+ */
+export function planPriceImport(
+  rows: PriceCsvRow[],
+  existing: ExistingPrice[],
+  opts: Pick<ImportOptions, "force" | "maxJumpPct"> = {}
+): PlannedRow[] {
+  const maxJump = opts.maxJumpPct ?? 10;
+  const key = (d: string, f: string) => `${d}|${f}`;
+
+  const current = new Map(existing.map((e) => [key(e.price_date, e.fuel), e]));
+
+  const counts = new Map<string, number>();
+  for (const r of rows) {
+    const k = key(r.price_date, r.fuel);
+    counts.set(k, (counts.get(k) || 0) + 1);
+  }
+
+  // price series per fuel (existing overlaid with incoming) for the
+  // previous-day lookup
+  const series = new Map<Fuel, Map<string, number>>();
+  const put = (fuel: Fuel, date: string, v: number | null) => {
+    if (v == null || !Number.isFinite(v)) return;
+    if (!series.has(fuel)) series.set(fuel, new Map());
+    series.get(fuel)!.set(date, v);
+  };
+  existing.forEach((e) => put(e.fuel, e.price_date, e.total_price));
+  rows.forEach((r) => put(r.fuel, r.price_date, r.total_price));
+
+  const previousPrice = (fuel: Fuel, date: string) => {
+    const s = series.get(fuel);
+    if (!s) return null;
+    let bestDate: string | null = null;
+    for (const d of s.keys()) {
+      if (d < date && (!bestDate || d > bestDate)) bestDate = d;
+    }
+    return bestDate ? s.get(bestDate)! : null;
+  };
+
+  return rows.map((r) => {
+    const k = key(r.price_date, r.fuel);
+    const prev = current.get(k) ?? null;
+    const before = prev
+      ? {
+          refinery_price: prev.refinery_price,
+          margin: prev.margin,
+          total_price: prev.total_price,
+        }
+      : null;
+    const after = {
+      refinery_price: r.refinery_price,
+      margin: r.margin,
+      total_price: r.total_price,
+    };
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if ((counts.get(k) || 0) > 1) {
+      errors.push(`duplicate ${r.fuel} row for ${r.price_date}`);
+    }
+
+    if (r.margin != null && r.margin < 0) {
+      warnings.push(`negative margin (${r.margin})`);
+    }
+
+    const last = previousPrice(r.fuel, r.price_date);
+    if (last != null && last > 0) {
+      const pct = (Math.abs(r.total_price - last) / last) * 100;
+      if (pct > maxJump) {
+        warnings.push(
+          `price moved ${pct.toFixed(1)}% from previous day (${last} -> ${r.total_price})`
+        );
+      }
+    }
+
+    let action: PlannedAction;
+    if (errors.length || (warnings.length && !opts.force)) {
+      action = "rejected";
+    } else if (!prev) {
+      action = "insert";
+    } else if (
+      samePrice(prev.total_price, r.total_price) &&
+      samePrice(prev.refinery_price, r.refinery_price) &&
+      samePrice(prev.margin, r.margin)
+    ) {
+      action = "unchanged";
+    } else {
+      action = "update";
+    }
+
+    return {
+      line: r.line,
+      price_date: r.price_date,
+      fuel: r.fuel,
+      action,
+      before,
+      after,
+      errors,
+      warnings,
+    };
+  });
+}
+
+export function summarise(rows: PlannedRow[]): ImportSummary {
+  const s: ImportSummary = {
+    total: rows.length,
+    insert: 0,
+    update: 0,
+    unchanged: 0,
+    rejected: 0,
+  };
+  rows.forEach((r) => s[r.action]++);
+  return s;
+}
+
+/* =========================
+   Run (shared by edge function + admin upload)
+   ========================= */
+
+// Minimal surface of a supabase-js client so both the Deno (esm.sh) and
+// npm builds can be passed in.
+// deno-lint-ignore no-explicit-any
+type SupabaseLike = { from(table: string): any };
+
+/**
+ * Parse, validate and (unless dryRun) upsert a price CSV into
+ * daily_prices. Every run – dry or not – is recorded in
+ * price_import_runs with the full per-row report.
+ */
+export async function runPriceImport(
+  supabase: SupabaseLike,
+  csvText: string,
+  opts: ImportOptions = {}
+): Promise<ImportReport> {
+  const dryRun = !!opts.dryRun;
+  const startedAt = new Date().toISOString();
+  let rows: PlannedRow[] = [];
+  let failure: string | null = null;
+
+  try {
+    const { rows: parsed, rejected } = mapPriceRows(parseCsv(csvText));
+
+    let existing: ExistingPrice[] = [];
+    const since = lookbackDate(parsed);
+    if (since) {
+      const { data, error } = await supabase
+        .from("daily_prices")
+        .select("price_date,fuel,refinery_price,margin,total_price")
+        .gte("price_date", since)
+        .order("price_date", { ascending: true });
+      if (error) throw new Error(error.message);
+      existing = (data || []) as ExistingPrice[];
+    }
+
+    rows = [
+      ...rejected,
+      ...planPriceImport(parsed, existing, opts),
+    ].sort((a, b) => a.line - b.line);
+
+    const toWrite = rows.filter(
+      (r) => r.action === "insert" || r.action === "update"
+    );
+
+    if (!dryRun && toWrite.length) {
+      const { error } = await supabase.from("daily_prices").upsert(
+        toWrite.map((r) => ({
+          price_date: r.price_date,
+          fuel: r.fuel,
+          refinery_price: r.after?.refinery_price ?? 0,
+          margin: r.after?.margin ?? 0,
+          total_price: r.after?.total_price,
+          source: opts.source || "google_sheet",
+        })),
+        { onConflict: "price_date,fuel" }
+      );
+      if (error) throw new Error(error.message);
+    }
+  } catch (e) {
+    failure = e instanceof Error ? e.message : String(e);
+  }
+
+  const summary = summarise(rows);
+
+  let runId: string | null = null;
+  const { data: run, error: runError } = await supabase
+    .from("price_import_runs")
+    .insert({
+      source: opts.source || "google_sheet",
+      dry_run: dryRun,
+      forced: !!opts.force,
+      triggered_by: opts.triggeredBy ?? null,
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      total_rows: summary.total,
+      inserted: dryRun ? 0 : summary.insert,
+      updated: dryRun ? 0 : summary.update,
+      unchanged: summary.unchanged,
+      rejected: summary.rejected,
+      report: rows,
+      error: failure,
+    })
+    .select("id")
+    .single();
+  if (runError) console.error("[price-import] audit insert failed:", runError);
+  else runId = run?.id ?? null;
+
+  if (failure) throw new Error(failure);
+
+  return { runId, dryRun, summary, rows };
+}
@@ -4,35 +4,37 @@
  * Table daily_prices columns: price_date (date), fuel (enum 'petrol'|'diesel'),
  * refinery_price (numeric), margin (numeric), total_price (numeric)
  *
- * We set total_price = final_client_price from the sheet.
- * refinery_price & margin are set to 0 (adjust if you need other logic).
+ * Parsing, validation and the import-run audit live in ../_shared/price-csv.ts
+ * (shared with the admin upload endpoint in the Next app).
+ *
+ * Query params:
+ *   ?dry_run=1  validate + diff against daily_prices, write nothing
+ *   ?force=1    import rows that only failed sanity checks
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runPriceImport } from "../_shared/price-csv.ts";
 
-// --- Helpers ---------------------------------------------------------------
-
-function parsePrice(s: string): number {
-  // remove currency symbols and everything except digits, dot, minus
-  const clean = (s || "").toString().replace(/[^0-9.\-]/g, "");
-  const n = Number(clean);
-  return Number.isFinite(n) ? n : 0;
+function flag(v: string | null): boolean {
+  return v === "1" || v === "true";
 }
 
-function toIsoDate(d: string): string {
-  // Handle DD/MM/YYYY (as in your sheet) or already ISO.
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(d)) {
-    const [dd, mm, yyyy] = d.split("/");
-    return `${yyyy}-${mm}-${dd}`;
-  }
-  return d; // assume already YYYY-MM-DD
-}
+// Fire-and-report: a failure here must not fail the import itself.
+async function triggerPriceAlerts(): Promise<unknown> {
+  const APP_URL = Deno.env.get("APP_URL");
+  const PRICE_ALERTS_SECRET = Deno.env.get("PRICE_ALERTS_SECRET");
+  if (!APP_URL || !PRICE_ALERTS_SECRET) return { skipped: "APP_URL / PRICE_ALERTS_SECRET not set" };
 
-function fuelFromSheet(val: string): "petrol" | "diesel" | null {
-  const v = (val || "").toLowerCase().trim();
-  if (v === "petrol") return "petrol";
-  if (v === "diesel") return "diesel";
-  return null;
+  try {
+    const res = await fetch(`${APP_URL.replace(/\/$/, "")}/api/price-alerts/evaluate`, {
+      method: "POST",
+      headers: { "x-price-alerts-secret": PRICE_ALERTS_SECRET },
+    });
+    return await res.json();
+  } catch (err) {
+    console.error("price alerts trigger failed:", err);
+    return { error: String(err) };
+  }
 }
 
 // --- Handler ---------------------------------------------------------------
@@ -51,6 +53,8 @@ Deno.serve(async (req) => {
     }
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const url = new URL(req.url);
+    const maxJump = Number(Deno.env.get("PRICE_IMPORT_MAX_JUMP_PCT") || "");
 
     // Fetch CSV
     const csvRes = await fetch(SHEET_CSV_URL, { headers: { "cache-control": "no-cache" } });
@@ -59,56 +63,21 @@ Deno.serve(async (req) => {
     }
     const csvText = await csvRes.text();
 
-    // Parse CSV (naive parse; the sheet has simple values)
-    const lines = csvText.trim().split(/\r?\n/);
-
-    // Expect header like: date,product,final_client_price,moji_vutratu
-    const header = lines.shift()!;
-    const cols = header.split(",").map((c) => c.trim().toLowerCase());
+    const report = await runPriceImport(supabase, csvText, {
+      dryRun: flag(url.searchParams.get("dry_run")),
+      force: flag(url.searchParams.get("force")),
+      maxJumpPct: Number.isFinite(maxJump) && maxJump > 0 ? maxJump : undefined,
+      source: "google_sheet",
+      triggeredBy: "edge:import-prices",
+    });
 
-    const idxDate = cols.indexOf("date");
-    const idxProd = cols.indexOf("product");
-    const idxFinal = cols.indexOf("final_client_price");
-    if (idxDate < 0 || idxProd < 0 || idxFinal < 0) {
-      return new Response(JSON.stringify({ error: "CSV missing required columns" }), { status: 400 });
-    }
-
-    let upserted = 0;
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-      const cells = line.split(",").map((c) => c.trim());
-
-      const dateStr = toIsoDate(cells[idxDate]);
-      const fuel = fuelFromSheet(cells[idxProd]);
-      const finalPrice = parsePrice(cells[idxFinal]);
+    // `upserted` kept for callers of the old response shape
+    const upserted = report.dryRun ? 0 : report.summary.insert + report.summary.update;
 
-      if (!fuel) continue;
-
-      // Upsert into daily_prices (on price_date + fuel)
-      const { error } = await supabase
-        .from("daily_prices")
-        .upsert(
-          {
-            price_date: dateStr,
-            fuel,
-            refinery_price: 0,
-            margin: 0,
-            total_price: finalPrice,
-            source: "google_sheet",
-          },
-          { onConflict: "price_date,fuel" }
-        );
-
-      if (error) {
-        console.log("Upsert error:", error);
-        return new Response(JSON.stringify({ error: error.message }), { status: 500 });
-      }
-
-      upserted++;
-    }
+    // Let the app evaluate customer price alerts against the new prices
+    const alerts = upserted > 0 ? await triggerPriceAlerts() : null;
 
-    return new Response(JSON.stringify({ upserted }), { headers: { "content-type": "application/json" } });
+    return new Response(JSON.stringify({ upserted, alerts, ...report }), { headers: { "content-type": "application/json" } });
   } catch (err) {
     console.error(err);
     return new Response(JSON.stringify({ error: String(err) }), { status: 500 });
@@ -0,0 +1,27 @@
+-- Delivery pricing zones on top of daily_prices.
+-- A zone matches on outward_code ("CM8" or area letters "CM") or, when
+-- outward_code is null, on the cost-centre region letter (N/S/E/W/G).
+
+create table if not exists public.price_zones (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  outward_code text,
+  region text check (region in ('N', 'S', 'E', 'W', 'G')),
+  fuel text check (fuel in ('petrol', 'diesel')),
+  uplift_pence_per_litre numeric not null default 0,
+  delivery_surcharge_pence integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint price_zones_key check (outward_code is not null or region is not null)
+);
+
+create index if not exists price_zones_outward_idx on public.price_zones (upper(outward_code));
+create index if not exists price_zones_region_idx on public.price_zones (region);
+
+alter table public.price_zones enable row level security;
+
+alter table public.orders
+  add column if not exists base_unit_price_pence integer,
+  add column if not exists delivery_surcharge_pence integer not null default 0,
+  add column if not exists price_zone_id uuid references public.price_zones (id),
+  add column if not exists price_zone_name text;
@@ -0,0 +1,24 @@
+-- Litre bands with a fixed per-litre price or a discount off the daily price.
+-- min_litres is inclusive, max_litres exclusive (null = open-ended).
+-- fuel null means the band applies to both fuels.
+
+create table if not exists public.volume_price_tiers (
+  id uuid primary key default gen_random_uuid(),
+  name text,
+  min_litres integer not null check (min_litres >= 0),
+  max_litres integer check (max_litres is null or max_litres > min_litres),
+  fuel text check (fuel in ('petrol', 'diesel')),
+  unit_price_pence numeric,
+  discount_pence_per_litre numeric not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists volume_price_tiers_min_idx on public.volume_price_tiers (min_litres);
+
+alter table public.volume_price_tiers enable row level security;
+
+alter table public.orders
+  add column if not exists volume_tier_id uuid references public.volume_price_tiers (id),
+  add column if not exists volume_tier_name text,
+  add column if not exists volume_discount_pence integer not null default 0;
@@ -0,0 +1,34 @@
+-- Negotiated per-customer prices.
+--   fixed        fixed_price_pence per litre
+--   market_minus zoned daily price minus discount_pence_per_litre
+--   margin_cap   at most daily_prices.refinery_price + margin_cap_pence_per_litre
+-- Agreements linked to a contract only apply while it is approved.
+
+create table if not exists public.price_agreements (
+  id uuid primary key default gen_random_uuid(),
+  customer_email text not null,
+  contract_id uuid references public.contracts (id) on delete set null,
+  name text,
+  kind text not null check (kind in ('fixed', 'market_minus', 'margin_cap')),
+  fuel text check (fuel in ('petrol', 'diesel')),
+  fixed_price_pence numeric,
+  discount_pence_per_litre numeric not null default 0,
+  margin_cap_pence_per_litre numeric,
+  valid_from date,
+  valid_to date,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint price_agreements_dates check (valid_to is null or valid_from is null or valid_to >= valid_from),
+  constraint price_agreements_fixed check (kind <> 'fixed' or fixed_price_pence is not null),
+  constraint price_agreements_cap check (kind <> 'margin_cap' or margin_cap_pence_per_litre is not null)
+);
+
+create index if not exists price_agreements_email_idx on public.price_agreements (customer_email);
+
+alter table public.price_agreements enable row level security;
+
+alter table public.orders
+  add column if not exists price_agreement_id uuid references public.price_agreements (id),
+  add column if not exists price_agreement_name text,
+  add column if not exists price_agreement_kind text,
+  add column if not exists price_agreement_contract_id uuid references public.contracts (id);
@@ -0,0 +1,27 @@
+-- Price locks issued by /api/prices/lock. The signed token carries the
+-- prices; this table makes each lock single-use and keeps locked vs live
+-- unit price for margin reporting.
+
+create table if not exists public.price_locks (
+  id uuid primary key,
+  user_email text not null,
+  postcode text,
+  litres integer,
+  petrol_unit_price_pence integer,
+  diesel_unit_price_pence integer,
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  fuel text check (fuel in ('petrol', 'diesel')),
+  locked_unit_price_pence integer,
+  live_unit_price_pence integer,
+  order_id uuid references public.orders (id) on delete set null
+);
+
+create index if not exists price_locks_email_idx on public.price_locks (user_email);
+create index if not exists price_locks_used_idx on public.price_locks (used_at) where used_at is not null;
+
+alter table public.price_locks enable row level security;
+
+alter table public.orders
+  add column if not exists price_lock_id uuid references public.price_locks (id);
@@ -0,0 +1,23 @@
+-- Audit of every daily_prices import (edge function or admin upload),
+-- including dry runs. `report` holds the per-row diff / rejections.
+
+create table if not exists public.price_import_runs (
+  id uuid primary key default gen_random_uuid(),
+  source text not null,
+  dry_run boolean not null default false,
+  forced boolean not null default false,
+  triggered_by text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  total_rows integer not null default 0,
+  inserted integer not null default 0,
+  updated integer not null default 0,
+  unchanged integer not null default 0,
+  rejected integer not null default 0,
+  report jsonb not null default '[]'::jsonb,
+  error text
+);
+
+create index if not exists price_import_runs_started_idx on public.price_import_runs (started_at desc);
+
+alter table public.price_import_runs enable row level security;
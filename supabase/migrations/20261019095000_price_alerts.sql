@@ -0,0 +1,36 @@
+-- Customer price alerts, evaluated after each daily_prices import.
+--   below    threshold = GBP / litre
+--   move_pct threshold = percent move vs the previous price day
+-- armed / last_triggered_price_date de-duplicate sends (see lib/price-alerts.ts).
+
+create table if not exists public.price_alert_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_email text not null,
+  fuel text not null check (fuel in ('petrol', 'diesel')),
+  kind text not null check (kind in ('below', 'move_pct')),
+  threshold numeric not null check (threshold > 0),
+  active boolean not null default true,
+  armed boolean not null default true,
+  last_triggered_price_date date,
+  last_triggered_at timestamptz,
+  unsubscribe_token uuid not null unique default gen_random_uuid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists price_alert_subscriptions_email_idx
+  on public.price_alert_subscriptions (user_email) where active;
+
+alter table public.price_alert_subscriptions enable row level security;
+
+create table if not exists public.price_alert_notifications (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references public.price_alert_subscriptions (id) on delete cascade,
+  user_email text not null,
+  fuel text not null,
+  price_date date not null,
+  price numeric not null,
+  message_id text,
+  sent_at timestamptz not null default now()
+);
+
+alter table public.price_alert_notifications enable row level security;
@@ -0,0 +1,33 @@
+-- Commission snapshot on orders (rate in force at checkout) and a per-order
+-- margin ledger written by the Stripe webhook (see lib/margin-ledger.ts).
+--   net_margin_pence = platform_fee_pence - stripe_fee_pence
+
+alter table public.orders
+  add column if not exists commission_percent numeric,
+  add column if not exists platform_fee_pence integer,
+  add column if not exists refinery_cost_pence integer;
+
+create table if not exists public.order_ledger (
+  order_id uuid primary key references public.orders (id) on delete cascade,
+  user_email text,
+  fuel text,
+  litres numeric,
+  currency text not null default 'GBP',
+  revenue_pence integer not null,
+  commission_percent numeric not null,
+  commission_from_snapshot boolean not null default true,
+  platform_fee_pence integer not null,
+  refinery_cost_pence integer not null,
+  stripe_fee_pence integer,
+  stripe_balance_transaction_id text,
+  net_margin_pence integer not null,
+  refunded_pence integer not null default 0,
+  paid_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists order_ledger_paid_at_idx
+  on public.order_ledger (paid_at);
+
+alter table public.order_ledger enable row level security;
@@ -0,0 +1,30 @@
+-- Versioned platform commission rates (see lib/commission.ts).
+-- Append-only: a new rate is a new row with a later effective_from, so
+-- orders resolve the rate that was valid on their date.
+--   fuel null            = both fuels
+--   customer_email/region = optional override (at most one of them)
+
+create table if not exists public.commission_rates (
+  id uuid primary key default gen_random_uuid(),
+  fuel text check (fuel in ('petrol', 'diesel')),
+  customer_email text,
+  region text check (region in ('N', 'S', 'E', 'W', 'G')),
+  percent numeric not null check (percent >= 0 and percent < 100),
+  effective_from timestamptz not null default now(),
+  effective_to timestamptz,
+  note text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  check (customer_email is null or region is null),
+  check (effective_to is null or effective_to > effective_from)
+);
+
+create index if not exists commission_rates_effective_idx
+  on public.commission_rates (effective_from);
+create index if not exists commission_rates_customer_idx
+  on public.commission_rates (customer_email) where customer_email is not null;
+
+alter table public.commission_rates enable row level security;
+
+alter table public.orders
+  add column if not exists commission_rate_id uuid references public.commission_rates (id);
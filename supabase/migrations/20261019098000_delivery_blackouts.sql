@@ -0,0 +1,17 @@
+-- Days with no deliveries, on top of weekends and the bundled UK bank
+-- holidays (see lib/delivery-calendar.ts).
+--   region null = everywhere, otherwise N / S / E / W / G
+
+create table if not exists public.delivery_blackouts (
+  id uuid primary key default gen_random_uuid(),
+  date date not null,
+  region text check (region in ('N', 'S', 'E', 'W', 'G')),
+  reason text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists delivery_blackouts_date_idx
+  on public.delivery_blackouts (date);
+
+alter table public.delivery_blackouts enable row level security;
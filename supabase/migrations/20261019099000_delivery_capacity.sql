@@ -0,0 +1,126 @@
+-- Delivery capacity per day and region (N / S / E / W / G, as in the
+-- cost-centre code) and the bookings that use it (see
+-- lib/delivery-capacity.ts).
+--
+-- delivery_capacity: most specific row wins –
+--   region + date  >  region default (date null)  >  all-regions date  >  all-regions default
+--   max_litres / max_drops null = no limit on that measure; no row = unlimited.
+-- delivery_bookings: "held" while the customer is in Stripe Checkout
+-- (until expires_at), "confirmed" once paid, "released" on cancel / expiry.
+
+create table if not exists public.delivery_capacity (
+  id uuid primary key default gen_random_uuid(),
+  region text check (region in ('N', 'S', 'E', 'W', 'G')),
+  date date,
+  max_litres integer check (max_litres >= 0),
+  max_drops integer check (max_drops >= 0),
+  note text,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists delivery_capacity_scope_idx
+  on public.delivery_capacity (coalesce(region, '*'), coalesce(date, '1970-01-01'::date));
+
+alter table public.delivery_capacity enable row level security;
+
+create table if not exists public.delivery_bookings (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid references public.orders (id) on delete set null,
+  region text not null,
+  date date not null,
+  litres integer not null check (litres > 0),
+  status text not null default 'held' check (status in ('held', 'confirmed', 'released')),
+  expires_at timestamptz,
+  confirmed_at timestamptz,
+  released_at timestamptz,
+  release_reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists delivery_bookings_day_idx
+  on public.delivery_bookings (region, date) where status <> 'released';
+create index if not exists delivery_bookings_order_idx
+  on public.delivery_bookings (order_id);
+
+alter table public.delivery_bookings enable row level security;
+
+alter table public.orders
+  add column if not exists delivery_booking_id uuid references public.delivery_bookings (id);
+
+-- Reserve a slot atomically: one advisory lock per region/day so two
+-- checkouts can't both take the last tanker.
+create or replace function public.reserve_delivery_slot(
+  p_region text,
+  p_date date,
+  p_litres integer,
+  p_expires_at timestamptz
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_max_litres integer;
+  v_max_drops integer;
+  v_used_litres bigint;
+  v_used_drops bigint;
+  v_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext('delivery_slot:' || p_region || ':' || p_date::text));
+
+  select c.max_litres, c.max_drops
+    into v_max_litres, v_max_drops
+  from delivery_capacity c
+  where (c.region = p_region or c.region is null)
+    and (c.date = p_date or c.date is null)
+  order by (c.region is null), (c.date is null)
+  limit 1;
+
+  select coalesce(sum(b.litres), 0), count(*)
+    into v_used_litres, v_used_drops
+  from delivery_bookings b
+  where b.region = p_region
+    and b.date = p_date
+    and (b.status = 'confirmed' or (b.status = 'held' and b.expires_at > now()));
+
+  if (v_max_drops is not null and v_used_drops + 1 > v_max_drops)
+     or (v_max_litres is not null and v_used_litres + p_litres > v_max_litres) then
+    return jsonb_build_object(
+      'ok', false,
+      'reason', 'full',
+      'remaining_litres', case when v_max_litres is null then null else greatest(v_max_litres - v_used_litres, 0) end,
+      'remaining_drops', case when v_max_drops is null then null else greatest(v_max_drops - v_used_drops, 0) end
+    );
+  end if;
+
+  insert into delivery_bookings (region, date, litres, status, expires_at)
+  values (p_region, p_date, p_litres, 'held', p_expires_at)
+  returning id into v_id;
+
+  return jsonb_build_object('ok', true, 'booking_id', v_id);
+end;
+$$;
+
+-- Cancelling an order (admin fulfilment status) frees its slot.
+create or replace function public.release_cancelled_order_booking()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.fulfilment_status = 'cancelled'
+     and coalesce(old.fulfilment_status, '') <> 'cancelled' then
+    update delivery_bookings
+       set status = 'released', released_at = now(), release_reason = 'order_cancelled'
+     where order_id = new.id and status <> 'released';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_release_delivery_booking on public.orders;
+create trigger orders_release_delivery_booking
+  after update of fulfilment_status on public.orders
+  for each row execute function public.release_cancelled_order_booking();
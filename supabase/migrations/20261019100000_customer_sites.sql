@@ -0,0 +1,72 @@
+-- Named delivery sites per customer (see lib/customer-sites.ts).
+-- Orders reference a site instead of re-typed address text; the address
+-- columns on orders stay as a snapshot of the site at checkout.
+
+create table if not exists public.customer_sites (
+  id uuid primary key default gen_random_uuid(),
+  user_email text not null,
+  name text not null,
+  address_line1 text not null,
+  address_line2 text,
+  city text not null,
+  postcode text not null,
+  country text not null default 'UK',
+  access_notes text,
+  fuel text check (fuel in ('petrol', 'diesel')),
+  tank_size_l integer check (tank_size_l > 0),
+  monthly_consumption_l integer check (monthly_consumption_l > 0),
+  contact_name text,
+  contact_phone text,
+  contact_email text,
+  contract_id uuid references public.contracts (id) on delete set null,
+  archived_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists customer_sites_email_idx
+  on public.customer_sites (user_email) where archived_at is null;
+
+alter table public.customer_sites enable row level security;
+
+alter table public.orders
+  add column if not exists site_id uuid references public.customer_sites (id),
+  add column if not exists site_name text;
+
+create index if not exists orders_site_idx on public.orders (site_id);
+
+-- One site per signed / approved contract that has a site address.
+insert into public.customer_sites (
+  user_email, name, address_line1, address_line2, city, postcode, country,
+  tank_size_l, monthly_consumption_l, contact_name, contact_email, contract_id
+)
+select
+  lower(c.email),
+  coalesce(nullif(c.company_name, ''), nullif(c.customer_name, ''), 'Main site'),
+  c.site_address_line1,
+  c.site_address_line2,
+  coalesce(c.site_city, ''),
+  upper(c.site_postcode),
+  coalesce(c.site_country, 'UK'),
+  nullif(round(c.tank_size_l), 0),
+  nullif(round(c.monthly_consumption_l), 0),
+  c.contact_name,
+  c.contact_email,
+  c.id
+from public.contracts c
+where c.status in ('signed', 'approved')
+  and c.email is not null
+  and c.site_address_line1 is not null
+  and c.site_postcode is not null
+  and not exists (
+    select 1 from public.customer_sites s where s.contract_id = c.id
+  );
+
+-- Link past orders to the customer's site at the same postcode.
+update public.orders o
+   set site_id = s.id,
+       site_name = s.name
+  from public.customer_sites s
+ where o.site_id is null
+   and lower(o.user_email) = s.user_email
+   and replace(upper(o.postcode), ' ', '') = replace(s.postcode, ' ', '');
@@ -0,0 +1,67 @@
+-- Tanks per delivery site (see lib/tanks.ts).
+-- A site can have several tanks (e.g. diesel + petrol, or two diesel tanks
+-- in one yard). Orders are allocated to a tank and levels are estimated
+-- per tank instead of per contract.
+
+create table if not exists public.tanks (
+  id uuid primary key default gen_random_uuid(),
+  site_id uuid not null references public.customer_sites (id) on delete cascade,
+  user_email text not null,
+  name text not null,
+  fuel text not null check (fuel in ('petrol', 'diesel')),
+  capacity_l integer not null check (capacity_l > 0),
+  monthly_consumption_l integer check (monthly_consumption_l > 0),
+  -- ISO weekdays the tank is drawn from (1 = Mon … 7 = Sun)
+  operating_days smallint[] not null default '{1,2,3,4,5,6,7}',
+  archived_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists tanks_site_idx
+  on public.tanks (site_id) where archived_at is null;
+create index if not exists tanks_email_idx
+  on public.tanks (user_email) where archived_at is null;
+
+alter table public.tanks enable row level security;
+
+alter table public.orders
+  add column if not exists tank_id uuid references public.tanks (id),
+  add column if not exists tank_name text;
+
+create index if not exists orders_tank_idx on public.orders (tank_id);
+
+-- One tank per site that already had tank details.
+insert into public.tanks (
+  site_id, user_email, name, fuel, capacity_l, monthly_consumption_l
+)
+select
+  s.id,
+  s.user_email,
+  'Main tank',
+  coalesce(s.fuel, c.fuel, 'diesel'),
+  s.tank_size_l,
+  s.monthly_consumption_l
+from public.customer_sites s
+left join public.contracts c on c.id = s.contract_id
+where s.tank_size_l is not null
+  and not exists (select 1 from public.tanks t where t.site_id = s.id);
+
+-- Past orders at a site go to its (only) tank for that fuel.
+update public.orders o
+   set tank_id = t.id,
+       tank_name = t.name
+  from public.tanks t
+ where o.tank_id is null
+   and o.site_id = t.site_id
+   and lower(coalesce(o.fuel, '')) = t.fuel
+   and (
+     select count(*) from public.tanks t2
+      where t2.site_id = t.site_id and t2.fuel = t.fuel
+   ) = 1;
+
+-- Tank details now live on public.tanks only.
+alter table public.customer_sites
+  drop column if exists fuel,
+  drop column if exists tank_size_l,
+  drop column if exists monthly_consumption_l;
@@ -0,0 +1,22 @@
+-- Manual tank dip readings (see lib/tanks.ts).
+-- The level estimator re-anchors on the latest reading and learns the
+-- tank's real burn rate from consecutive readings.
+
+create table if not exists public.tank_readings (
+  id uuid primary key default gen_random_uuid(),
+  tank_id uuid not null references public.tanks (id) on delete cascade,
+  litres numeric not null check (litres >= 0),
+  -- what was typed in when the reading was given as a percentage
+  entered_percent numeric check (entered_percent between 0 and 100),
+  read_at timestamptz not null,
+  source text not null default 'customer'
+    check (source in ('customer', 'driver', 'admin')),
+  submitted_by text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists tank_readings_tank_idx
+  on public.tank_readings (tank_id, read_at desc);
+
+alter table public.tank_readings enable row level security;
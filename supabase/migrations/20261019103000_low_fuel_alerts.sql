@@ -0,0 +1,29 @@
+-- Scheduled low-fuel alert emails (see lib/low-fuel-alerts.ts).
+-- One row per alert sent. target_key is "tank:<id>" or "contract:<id>";
+-- cycle_key is the last delivery the estimate started from, so each fill
+-- cycle alerts at most once (the unique index is the claim).
+-- reorder_token backs the "reorder same as last time" link in the email.
+
+create table if not exists public.low_fuel_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_email text not null,
+  target_key text not null,
+  cycle_key text not null,
+  contract_id uuid references public.contracts (id) on delete set null,
+  tank_id uuid references public.tanks (id) on delete set null,
+  percent_full numeric not null,
+  estimated_litres_left numeric not null,
+  threshold numeric not null,
+  reorder_order_id uuid references public.orders (id) on delete set null,
+  reorder_token uuid not null unique default gen_random_uuid(),
+  reorder_clicked_at timestamptz,
+  message_id text,
+  sent_at timestamptz not null default now()
+);
+
+create unique index if not exists low_fuel_alerts_cycle_idx
+  on public.low_fuel_alerts (target_key, cycle_key);
+create index if not exists low_fuel_alerts_email_idx
+  on public.low_fuel_alerts (user_email);
+
+alter table public.low_fuel_alerts enable row level security;
@@ -0,0 +1,18 @@
+-- Sandbox (demo / QA) accounts, see lib/sandbox.ts.
+-- Flagged accounts get seeded fixture data from the reminder, prices,
+-- orders and documents APIs, and checkout never reaches Stripe (so
+-- nothing is paid or synced to Xero).
+
+create table if not exists public.sandbox_accounts (
+  email text primary key,
+  note text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.sandbox_accounts enable row level security;
+
+-- the sales demo account that used to be hard-coded in api/usage/reminder
+insert into public.sandbox_accounts (email, note)
+values ('fuelflow.queries@gmail.com', 'Sales demo')
+on conflict (email) do nothing;
@@ -0,0 +1,64 @@
+-- Standing / recurring fuel orders (see lib/recurring-orders.ts).
+--   interval   litres every interval_weeks on weekday (1 = Mon … 7 = Sun),
+--              next_delivery_date is the next occurrence
+--   threshold  litres whenever the tank estimate drops to threshold_percent
+-- Each occurrence creates a normal orders row and charges the card saved
+-- at enrolment (Stripe SetupIntent via a setup-mode Checkout Session)
+-- off-session; the usual webhook -> invoice -> refinery flow takes over.
+
+create table if not exists public.recurring_orders (
+  id uuid primary key default gen_random_uuid(),
+  user_email text not null,
+  status text not null default 'pending_setup'
+    check (status in ('pending_setup', 'active', 'paused', 'cancelled')),
+  kind text not null check (kind in ('interval', 'threshold')),
+  fuel text not null check (fuel in ('petrol', 'diesel')),
+  litres integer not null check (litres > 0),
+  interval_weeks smallint check (interval_weeks between 1 and 8),
+  weekday smallint check (weekday between 1 and 7),
+  next_delivery_date date,
+  threshold_percent numeric check (threshold_percent > 0 and threshold_percent < 100),
+  site_id uuid not null references public.customer_sites (id),
+  tank_id uuid references public.tanks (id),
+  stripe_customer_id text,
+  stripe_setup_intent_id text,
+  stripe_payment_method_id text,
+  failure_count integer not null default 0,
+  last_error text,
+  last_order_id uuid references public.orders (id) on delete set null,
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (kind <> 'interval' or (interval_weeks is not null and weekday is not null)),
+  check (kind <> 'threshold' or (threshold_percent is not null and tank_id is not null))
+);
+
+create index if not exists recurring_orders_email_idx
+  on public.recurring_orders (user_email);
+create index if not exists recurring_orders_active_idx
+  on public.recurring_orders (status) where status = 'active';
+
+alter table public.recurring_orders enable row level security;
+
+-- One row per occurrence; the unique key is the claim so an occurrence is
+-- only ever ordered once. occurrence_key is the scheduled delivery date
+-- (interval) or "cycle:<last delivery>" (threshold).
+create table if not exists public.recurring_order_runs (
+  id uuid primary key default gen_random_uuid(),
+  recurring_order_id uuid not null references public.recurring_orders (id) on delete cascade,
+  occurrence_key text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'charged', 'failed')),
+  order_id uuid references public.orders (id) on delete set null,
+  delivery_date date,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists recurring_order_runs_occurrence_idx
+  on public.recurring_order_runs (recurring_order_id, occurrence_key);
+
+alter table public.recurring_order_runs enable row level security;
+
+alter table public.orders
+  add column if not exists recurring_order_id uuid references public.recurring_orders (id);
@@ -0,0 +1,23 @@
+-- FuelFlow account -> Stripe Customer (see lib/stripe-customers.ts).
+-- Checkout, standing orders and one-click reorders all charge through the
+-- customer so saved cards / BACS Direct Debit mandates can be reused.
+
+create table if not exists public.stripe_customers (
+  user_email text primary key,
+  stripe_customer_id text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.stripe_customers enable row level security;
+
+-- one-click reorders point back at the order they repeat
+alter table public.orders
+  add column if not exists reorder_of uuid references public.orders (id) on delete set null;
+
+-- client nonce of a one-click reorder: a retried / double-clicked request
+-- finds the order it already placed instead of charging again
+alter table public.orders
+  add column if not exists idempotency_key text;
+
+create unique index if not exists orders_idempotency_key_idx
+  on public.orders (idempotency_key) where idempotency_key is not null;
@@ -0,0 +1,116 @@
+-- Pay-on-account / credit terms for approved business customers (see
+-- lib/credit-accounts.ts).
+--
+-- credit_accounts: one per customer email. terms_basis "invoice" = due
+-- terms_days after the invoice date, "month_end" = terms_days after the
+-- end of the invoice month (monthly invoicing on 30-day terms).
+-- Orders within the limit skip Stripe and go straight to
+-- status "approved_on_account" with a payment_due_date; they stay in the
+-- outstanding balance until settled (status "paid", account_settled_at).
+
+create table if not exists public.credit_accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_email text not null unique,
+  credit_limit_pence bigint not null check (credit_limit_pence >= 0),
+  terms_days integer not null default 30 check (terms_days between 0 and 120),
+  terms_basis text not null default 'invoice'
+    check (terms_basis in ('invoice', 'month_end')),
+  status text not null default 'active' check (status in ('active', 'suspended')),
+  note text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.credit_accounts enable row level security;
+
+alter table public.orders
+  add column if not exists credit_account_id uuid references public.credit_accounts (id),
+  add column if not exists payment_due_date date,
+  add column if not exists account_settled_at timestamptz;
+
+create index if not exists orders_credit_outstanding_idx
+  on public.orders (credit_account_id) where status = 'approved_on_account';
+
+-- Outstanding / overdue per account (unsettled on-account orders).
+create or replace view public.credit_account_balances as
+select
+  a.id as credit_account_id,
+  a.user_email,
+  coalesce(sum(o.total_pence), 0)::bigint as outstanding_pence,
+  coalesce(sum(o.total_pence) filter (where o.payment_due_date < current_date), 0)::bigint
+    as overdue_pence,
+  count(o.id)::integer as open_invoices
+from public.credit_accounts a
+left join public.orders o
+  on o.credit_account_id = a.id and o.status = 'approved_on_account'
+group by a.id, a.user_email;
+
+-- Put a pending order on account atomically: one advisory lock per account
+-- so two orders can't both use the last of the limit. Refused when the
+-- account is suspended, has overdue invoices or would go over its limit.
+create or replace function public.approve_order_on_account(
+  p_order_id uuid,
+  p_account_id uuid,
+  p_due_date date
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_limit bigint;
+  v_status text;
+  v_outstanding bigint;
+  v_overdue bigint;
+  v_total bigint;
+begin
+  perform pg_advisory_xact_lock(hashtext('credit_account:' || p_account_id::text));
+
+  select credit_limit_pence, status into v_limit, v_status
+  from credit_accounts where id = p_account_id;
+  if v_limit is null then
+    return jsonb_build_object('ok', false, 'reason', 'no_account');
+  end if;
+  if v_status <> 'active' then
+    return jsonb_build_object('ok', false, 'reason', 'suspended');
+  end if;
+
+  select coalesce(sum(total_pence), 0),
+         coalesce(sum(total_pence) filter (where payment_due_date < current_date), 0)
+    into v_outstanding, v_overdue
+  from orders
+  where credit_account_id = p_account_id and status = 'approved_on_account';
+
+  if v_overdue > 0 then
+    return jsonb_build_object('ok', false, 'reason', 'overdue', 'overdue_pence', v_overdue);
+  end if;
+
+  select total_pence into v_total
+  from orders where id = p_order_id and status = 'pending';
+  if v_total is null then
+    return jsonb_build_object('ok', false, 'reason', 'order_not_pending');
+  end if;
+
+  if v_outstanding + v_total > v_limit then
+    return jsonb_build_object(
+      'ok', false,
+      'reason', 'over_limit',
+      'available_pence', greatest(v_limit - v_outstanding, 0)
+    );
+  end if;
+
+  update orders
+     set status = 'approved_on_account',
+         credit_account_id = p_account_id,
+         payment_due_date = p_due_date,
+         xero_sync_status = 'pending',
+         xero_sync_error = null
+   where id = p_order_id;
+
+  return jsonb_build_object(
+    'ok', true,
+    'available_pence', v_limit - v_outstanding - v_total
+  );
+end;
+$$;
@@ -0,0 +1,60 @@
+-- Order lifecycle state machine + audit history (see lib/order-lifecycle.ts).
+--
+--   pending -> paid -> sent_to_refinery -> scheduled -> out_for_delivery
+--           -> delivered, with cancelled / refunded as exits
+--
+-- orders.state is only changed through transitionOrder, which checks the
+-- transition, compare-and-sets the state and writes an order_events row.
+-- orders.status stays the payment status (paid / approved_on_account /
+-- refunded …) and fulfilment_status is kept in step for older readers.
+
+alter table public.orders
+  add column if not exists state text not null default 'pending',
+  add column if not exists state_changed_at timestamptz;
+
+alter table public.orders drop constraint if exists orders_state_check;
+alter table public.orders
+  add constraint orders_state_check check (state in (
+    'pending', 'paid', 'sent_to_refinery', 'scheduled',
+    'out_for_delivery', 'delivered', 'cancelled', 'refunded'
+  ));
+
+-- Existing orders: best guess from payment + fulfilment + refinery fields
+update public.orders set state = case
+  when status = 'refunded' then 'refunded'
+  when status in ('cancelled', 'payment_failed')
+    or lower(coalesce(fulfilment_status, '')) = 'cancelled' then 'cancelled'
+  when lower(coalesce(fulfilment_status, '')) = 'delivered' then 'delivered'
+  when lower(coalesce(fulfilment_status, '')) in ('dispatched', 'out_for_delivery')
+    then 'out_for_delivery'
+  when status in ('paid', 'approved_on_account', 'partially_refunded') then
+    case
+      when lower(coalesce(fulfilment_status, '')) = 'ordered' then 'scheduled'
+      when refinery_notification_status = 'sent' then 'sent_to_refinery'
+      else 'paid'
+    end
+  else 'pending'
+end
+where state = 'pending';
+
+create index if not exists orders_state_idx on public.orders (state);
+
+create table if not exists public.order_events (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  -- "transition" for state changes; otherwise what happened
+  -- (created, payment, refund, note …)
+  event text not null,
+  from_state text,
+  to_state text,
+  -- admin / customer email, or system:<source> (system:stripe …)
+  actor text not null,
+  reason text,
+  meta jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_events_order_idx
+  on public.order_events (order_id, created_at);
+
+alter table public.order_events enable row level security;
@@ -0,0 +1,118 @@
+-- Customer cancellations and amendments before the order goes to the
+-- refinery (see lib/order-changes.ts).
+--
+-- One row per request. difference_pence = new total - old total:
+--   < 0  refunded through Stripe (or taken off the credit account)
+--   > 0  top-up charged to the card / mandate used for the order
+-- An amendment with a top-up waits in "awaiting_payment" until Stripe
+-- confirms it; only then are the order's litres / date / total changed.
+-- Each completed change has a credit note (cancel) or revised invoice
+-- (amend) in the invoices bucket. An amendment re-resolves the volume
+-- band for its new litres (new_unit_price_pence / volume tier).
+
+create table if not exists public.order_changes (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  kind text not null check (kind in ('cancel', 'amend')),
+  status text not null default 'completed'
+    check (status in ('awaiting_payment', 'completed', 'failed')),
+  requested_by text not null,
+  reason text,
+
+  old_litres integer,
+  new_litres integer,
+  old_delivery_date date,
+  new_delivery_date date,
+  old_total_pence bigint not null,
+  new_total_pence bigint not null,
+  difference_pence bigint not null default 0,
+  new_unit_price_pence integer,
+  new_volume_tier_id uuid,
+  new_volume_tier_name text,
+  new_volume_discount_pence integer,
+
+  -- slot held for the new date / litres until the change completes
+  booking_id uuid,
+  stripe_refund_id text,
+  stripe_payment_intent text,
+
+  document_number text,
+  document_path text,
+  error text,
+
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists order_changes_order_idx
+  on public.order_changes (order_id, created_at);
+
+-- one top-up in flight per order
+create unique index if not exists order_changes_awaiting_idx
+  on public.order_changes (order_id) where status = 'awaiting_payment';
+
+alter table public.order_changes enable row level security;
+
+alter table public.orders
+  add column if not exists amended_at timestamptz,
+  add column if not exists cancelled_at timestamptz;
+
+-- An amendment books its new slot while the order's current booking is
+-- still held (so a failed change can fall back to it). p_replaces is
+-- that booking: it isn't counted against the day, so moving litres
+-- within the same day only needs room for the difference.
+drop function if exists public.reserve_delivery_slot(text, date, integer, timestamptz);
+
+create or replace function public.reserve_delivery_slot(
+  p_region text,
+  p_date date,
+  p_litres integer,
+  p_expires_at timestamptz,
+  p_replaces uuid default null
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_max_litres integer;
+  v_max_drops integer;
+  v_used_litres bigint;
+  v_used_drops bigint;
+  v_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext('delivery_slot:' || p_region || ':' || p_date::text));
+
+  select c.max_litres, c.max_drops
+    into v_max_litres, v_max_drops
+  from delivery_capacity c
+  where (c.region = p_region or c.region is null)
+    and (c.date = p_date or c.date is null)
+  order by (c.region is null), (c.date is null)
+  limit 1;
+
+  select coalesce(sum(b.litres), 0), count(*)
+    into v_used_litres, v_used_drops
+  from delivery_bookings b
+  where b.region = p_region
+    and b.date = p_date
+    and (p_replaces is null or b.id <> p_replaces)
+    and (b.status = 'confirmed' or (b.status = 'held' and b.expires_at > now()));
+
+  if (v_max_drops is not null and v_used_drops + 1 > v_max_drops)
+     or (v_max_litres is not null and v_used_litres + p_litres > v_max_litres) then
+    return jsonb_build_object(
+      'ok', false,
+      'reason', 'full',
+      'remaining_litres', case when v_max_litres is null then null else greatest(v_max_litres - v_used_litres, 0) end,
+      'remaining_drops', case when v_max_drops is null then null else greatest(v_max_drops - v_used_drops, 0) end
+    );
+  end if;
+
+  insert into delivery_bookings (region, date, litres, status, expires_at)
+  values (p_region, p_date, p_litres, 'held', p_expires_at)
+  returning id into v_id;
+
+  return jsonb_build_object('ok', true, 'booking_id', v_id);
+end;
+$$;
@@ -0,0 +1,40 @@
+-- Proof of delivery recorded by the refinery / driver (see
+-- lib/proof-of-delivery.ts).
+--
+-- One row per delivered order. The signature, optional photo and the
+-- generated POD PDF live in the private "delivery-proofs" bucket under
+-- <order id>/. orders.delivered_litres is what actually went into the
+-- tank: tank estimates use it in place of the ordered litres, and the
+-- invoice is re-issued on it when it differs.
+
+create table if not exists public.order_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references public.orders (id) on delete cascade,
+  ordered_litres integer not null,
+  delivered_litres integer not null check (delivered_litres > 0),
+  meter_ticket text not null,
+  delivered_at timestamptz not null,
+  driver_name text,
+  notes text,
+  -- admin email or system:refinery
+  recorded_by text not null,
+
+  signature_path text not null,
+  photo_path text,
+  pod_path text,
+
+  -- invoice re-issued on the delivered quantity (null when it matched)
+  invoice_number text,
+  invoice_path text,
+
+  created_at timestamptz not null default now()
+);
+
+alter table public.order_deliveries enable row level security;
+
+alter table public.orders
+  add column if not exists delivered_litres integer;
+
+insert into storage.buckets (id, name, public)
+values ('delivery-proofs', 'delivery-proofs', false)
+on conflict (id) do nothing;
@@ -0,0 +1,90 @@
+-- Delivered-vs-ordered variances from the proof of delivery (see
+-- lib/delivery-variance.ts).
+--
+-- amount_pence = (delivered - ordered litres) x the order's unit price:
+--   < 0  under-delivered – refunded through Stripe (credited on account)
+--   > 0  over-delivered  – charged to the order's card / mandate, or
+--                          invoiced (always invoiced on account)
+-- Within the tolerance nothing changes hands and the order stays billed
+-- on the ordered litres. Each settled variance gets a credit note or a
+-- supplementary invoice and is pushed to Xero by /api/xero/sync-pending.
+--
+-- This replaces re-issuing the order's invoice on the delivered quantity
+-- (order_deliveries.invoice_*, dropped below): the order's invoice plus
+-- the variance's credit note / supplementary invoice add up to what was
+-- delivered, and a difference within the tolerance is by rule not billed.
+
+create table if not exists public.delivery_variance_settings (
+  id integer primary key default 1 check (id = 1),
+  -- ignored when |variance| <= the larger of these
+  tolerance_litres integer not null default 0 check (tolerance_litres >= 0),
+  tolerance_percent numeric(5, 2) not null default 0
+    check (tolerance_percent >= 0 and tolerance_percent <= 100),
+  under_action text not null default 'refund'
+    check (under_action in ('refund', 'review')),
+  over_action text not null default 'invoice'
+    check (over_action in ('charge', 'invoice', 'review')),
+  -- larger variances wait for an admin whatever the action (null = never)
+  review_above_pence bigint check (review_above_pence >= 0),
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.delivery_variance_settings (id) values (1)
+on conflict (id) do nothing;
+
+alter table public.delivery_variance_settings enable row level security;
+
+create table if not exists public.order_variances (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references public.orders (id) on delete cascade,
+  delivery_id uuid references public.order_deliveries (id) on delete set null,
+
+  ordered_litres integer not null,
+  delivered_litres integer not null,
+  variance_litres integer not null,
+  unit_price_pence numeric not null,
+  amount_pence bigint not null,
+
+  -- what was / will be done: refund | credit (on account) | charge | invoice
+  action text check (action in ('refund', 'credit', 'charge', 'invoice')),
+  status text not null
+    check (status in (
+      'within_tolerance', 'pending_review', 'awaiting_payment',
+      'completed', 'failed', 'waived'
+    )),
+
+  -- settle attempts; part of the Stripe idempotency key so a retry after
+  -- a failure isn't answered with the cached failure
+  attempts integer not null default 0,
+  stripe_refund_id text,
+  stripe_payment_intent text,
+  document_number text,
+  document_path text,
+
+  -- null until there is something to send (completed refund / charge /
+  -- invoice), then pending -> ok | error
+  xero_sync_status text check (xero_sync_status in ('pending', 'ok', 'error')),
+  xero_document_id text,
+  xero_document_number text,
+  xero_sync_error text,
+  xero_synced_at timestamptz,
+
+  error text,
+  decided_by text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists order_variances_status_idx
+  on public.order_variances (status, created_at);
+create index if not exists order_variances_xero_idx
+  on public.order_variances (xero_sync_status)
+  where xero_sync_status = 'pending';
+
+alter table public.order_variances enable row level security;
+
+-- superseded by the variance's documents (see the top of this file)
+alter table public.order_deliveries
+  drop column if exists invoice_number,
+  drop column if exists invoice_path;